@@ -0,0 +1,4 @@
+import { CharacterSelect } from './ui/CharacterSelect';
+
+// Pick a character first; the game and its Babylon scene only start afterwards
+new CharacterSelect().choose().then(() => import('./main'));
@@ -0,0 +1,15 @@
+import { type StatusEffectName } from "@rotmg/shared";
+
+/**
+ * Status effects a player or enemy is under, as synced by the server. The
+ * timers stay on the server; clients only show the effects and, for the local
+ * player, predict their movement with them.
+ */
+export type ActiveEffectsData = {
+  effects: StatusEffectName[];
+};
+
+/**
+ * Component identifier for ActiveEffects.
+ */
+export const ActiveEffects = "activeEffects";
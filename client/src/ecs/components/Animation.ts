@@ -0,0 +1,50 @@
+import { type Vec3 } from "@rotmg/shared";
+
+/** Clips every animated sheet provides. */
+export type AnimationClipName = "idle" | "walk" | "attack";
+
+/** Which way a sprite faces on screen, relative to the camera. */
+export type Facing = "left" | "right" | "up" | "down";
+
+/**
+ * A run of numbered frames. `loop` clips repeat; `once` clips hold their last frame.
+ */
+export type AnimationClipDef = {
+  frames: number;
+  fps: number;
+  mode: "loop" | "once";
+};
+
+/**
+ * Frames of an animated sprite in the atlas, named `<sheet>/<clip>/<facing>/<frame>`
+ * (e.g. "player/walk/down/2"). Sheets without left-facing frames use the right
+ * ones flipped.
+ */
+export type AnimationSetDef = {
+  sheet: string;
+  hasLeft?: boolean;
+  clips: Record<AnimationClipName, AnimationClipDef>;
+};
+
+/**
+ * Animation state of a sprite; AnimationSystem picks the clip and facing and
+ * writes the frame name into SpriteRef.
+ */
+export type AnimationData = {
+  set: AnimationSetDef;
+  clip: AnimationClipName;
+  facing: Facing;
+  /** Seconds into the current clip. */
+  time: number;
+  /** Seconds the attack clip keeps playing; set when the entity fires. */
+  attackTime: number;
+  /** XZ direction of the last shot, faced while attacking. */
+  aim: { x: number; z: number } | null;
+  /** Position last frame, to tell how entities without Velocity move. */
+  lastPos?: Vec3;
+};
+
+/**
+ * Component identifier for Animation.
+ */
+export const Animation = "animation";
@@ -0,0 +1,16 @@
+/**
+ * A loot bag mirrored from the server. Only bags the local player may loot are sent.
+ */
+export type LootBagData = {
+  /** BagDef id; picks the sprite cell. */
+  bag: string;
+  /** ItemDef ids. */
+  items: string[];
+  /** Server time (ms) the bag disappears at. */
+  closesAt: number;
+};
+
+/**
+ * Component identifier for LootBag.
+ */
+export const LootBag = "lootBag";
@@ -0,0 +1,36 @@
+import { type SnapshotBuffer, type SampleMode, type ProjectileDef, type Vec3 } from "@rotmg/shared";
+
+/** Which server state collection an entity mirrors. */
+export type NetworkedKind = "player" | "enemy" | "projectile" | "portal" | "lootBag" | "vaultChest";
+
+/** Path of a remote projectile, placed with the shared path math instead of snapshots. */
+export type NetworkedPath = {
+  def: ProjectileDef;
+  origin: Vec3;
+  /** Heading in radians. */
+  angle: number;
+  /** Server time (ms) it was fired at. */
+  spawnTime: number;
+};
+
+/**
+ * Marks an entity whose position comes from server snapshots rather than local simulation.
+ */
+export type NetworkedData = {
+  kind: NetworkedKind;
+  /** Server id (session id for players, entity id otherwise). */
+  serverId: string;
+  /** Snapshots waiting to be rendered. */
+  buffer: SnapshotBuffer;
+  /** Set for projectiles with a known path. */
+  path?: NetworkedPath;
+  /** Result of the last sample, for the debug overlay. */
+  lastSample: SampleMode | "path";
+  /** Newest snapshot time minus render time (ms); negative while extrapolating. */
+  lastDelayMs: number;
+};
+
+/**
+ * Component identifier for Networked.
+ */
+export const Networked = "networked";
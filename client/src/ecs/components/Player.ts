@@ -1,4 +0,0 @@
-/**
- * Tag component identifier for the player entity.
- */
-export const Player = "player"; 
\ No newline at end of file
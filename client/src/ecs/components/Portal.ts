@@ -0,0 +1,14 @@
+/**
+ * A portal mirrored from the server, which the local player can use when close enough.
+ */
+export type PortalData = {
+  /** Shown next to the portal. */
+  label: string;
+  /** Server time (ms) the portal closes at, or 0 if it stays open. */
+  closesAt: number;
+};
+
+/**
+ * Component identifier for Portal.
+ */
+export const Portal = "portal";
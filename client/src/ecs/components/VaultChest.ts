@@ -0,0 +1,10 @@
+/**
+ * A vault chest mirrored from the server, where the local player opens their
+ * account's vault when close enough. Carries no data.
+ */
+export type VaultChestData = Record<string, never>;
+
+/**
+ * Component identifier for VaultChest.
+ */
+export const VaultChest = "vaultChest";
@@ -0,0 +1,84 @@
+import { type Scene } from "@babylonjs/core";
+import { world } from "../world";
+import {
+  Player,
+  Transform,
+  Health,
+  Mana,
+  checkCast,
+  equippedAbility,
+  getAbilityDefinition,
+  getPatternDefinition,
+  getClassDefinition,
+  DEFAULT_CLASS,
+  type CastMessage,
+  type TileMap,
+} from "@rotmg/shared";
+import { type GameRoom } from "../../net/connection";
+import { InputSystem } from "./InputSystem";
+import { BulletSystem } from "./BulletSystem";
+
+/** Key that casts the equipped ability, as reported by InputSystem. */
+const CAST_KEY = " ";
+
+/**
+ * Casts the local player's equipped ability at the ground point under the
+ * cursor when space is pressed. Casts the server would refuse (see checkCast)
+ * are not sent. MP and the cooldown are spent right away and spell bombs are
+ * predicted like shots; the server's cast and the synced MP follow.
+ */
+export class AbilitySystem {
+  /** Seconds until the ability may be cast again. */
+  cooldown = 0;
+  private inputSystem: InputSystem;
+  private bulletSystem: BulletSystem;
+  private scene: Scene;
+  private map: TileMap;
+  private room: GameRoom | null = null;
+  /** AbilityDef id of the equipped ability; the server's inventory decides once connected. */
+  private abilityId: string | undefined = getClassDefinition(DEFAULT_CLASS).ability;
+  private playerQuery = world.with(Player, Transform, Health, Mana);
+
+  constructor(inputSystem: InputSystem, bulletSystem: BulletSystem, scene: Scene, map: TileMap) {
+    this.inputSystem = inputSystem;
+    this.bulletSystem = bulletSystem;
+    this.scene = scene;
+    this.map = map;
+  }
+
+  /** Sends casts to `room`, and follows the ability equipped there; null while traveling. */
+  attach(room: GameRoom | null) {
+    this.room = room;
+    room?.onStateChange((state) => {
+      const self = state.players.get(room.sessionId);
+      if (this.room === room && self) this.abilityId = equippedAbility(self.inventory);
+    });
+  }
+
+  /** Switches to the map of the room just joined. */
+  setMap(map: TileMap) {
+    this.map = map;
+  }
+
+  update(dt: number) {
+    this.cooldown = Math.max(0, this.cooldown - dt);
+    if (!this.inputSystem.consumePress(CAST_KEY)) return;
+    const player = this.playerQuery.first;
+    if (!player || !this.abilityId || player[Health].hp <= 0) return;
+
+    const pick = this.scene.pick(this.scene.pointerX, this.scene.pointerY);
+    if (!pick?.hit || !pick.pickedPoint) return;
+    const target = { x: pick.pickedPoint.x, z: pick.pickedPoint.z };
+    const ability = getAbilityDefinition(this.abilityId);
+    const mana = player[Mana];
+    if (checkCast(ability, player[Transform].pos, mana.mp, this.cooldown, target, this.map)) return;
+
+    mana.mp -= ability.mpCost;
+    this.cooldown = ability.cooldown;
+    if (ability.effect.type === "spellBomb") {
+      this.bulletSystem.firePattern(player, getPatternDefinition(ability.effect.pattern), 0, 0, target);
+    }
+    const message: CastMessage = target;
+    this.room?.send("cast", message);
+  }
+}
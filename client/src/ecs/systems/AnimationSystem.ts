@@ -0,0 +1,112 @@
+import { world, type Entity } from "../world";
+import { Transform } from "@rotmg/shared";
+import { SpriteRef } from "../components/SpriteRef";
+import { Animation, type AnimationData, type AnimationSetDef, type AnimationClipDef, type AnimationClipName, type Facing } from "../components/Animation";
+import { MovementSystem } from "./MovementSystem";
+
+/** Clips of the character sheets (/sprites/player.json, /sprites/enemy.json). */
+const CHARACTER_CLIPS: Record<AnimationClipName, AnimationClipDef> = {
+  idle: { frames: 2, fps: 2, mode: "loop" },
+  walk: { frames: 4, fps: 8, mode: "loop" },
+  attack: { frames: 2, fps: 10, mode: "once" },
+};
+
+export const PLAYER_ANIMATIONS: AnimationSetDef = { sheet: "player", clips: CHARACTER_CLIPS };
+export const ENEMY_ANIMATIONS: AnimationSetDef = { sheet: "enemy", clips: CHARACTER_CLIPS };
+
+/** Slower than this (units per second) counts as standing still. */
+const WALK_SPEED_THRESHOLD = 0.5;
+
+/** Fresh animation state for a sprite laid out like `set`. */
+export function createAnimation(set: AnimationSetDef): AnimationData {
+  return { set, clip: "idle", facing: "down", time: 0, attackTime: 0, aim: null };
+}
+
+/**
+ * Plays the attack clip, facing the XZ direction (`aimX`, `aimZ`) of the shot.
+ * Does nothing for entities without Animation.
+ */
+export function playAttack(entity: Entity, aimX: number, aimZ: number) {
+  const animation = entity[Animation];
+  if (!animation) return;
+  const clip = animation.set.clips.attack;
+  animation.attackTime = clip.frames / clip.fps;
+  animation.aim = { x: aimX, z: aimZ };
+}
+
+/**
+ * Animates sprites with an Animation component. The clip follows what the
+ * entity is doing: attacking right after firing, walking while it moves (by its
+ * Velocity, or by how far it moved for interpolated entities), idle otherwise.
+ * It faces the way it aims while attacking and the way it moves otherwise,
+ * relative to the rotated camera; facing left flips the right-facing frames on
+ * sheets without their own.
+ *
+ * Runs after movement and interpolation, before rendering.
+ */
+export class AnimationSystem {
+  private query = world.with(Animation, Transform, SpriteRef);
+  private movementSystem: MovementSystem;
+
+  constructor(movementSystem: MovementSystem) {
+    this.movementSystem = movementSystem;
+  }
+
+  update(dt: number) {
+    const yaw = this.movementSystem.getCameraYaw();
+    for (const entity of this.query) {
+      const animation = entity[Animation];
+      const pos = entity[Transform].pos;
+
+      let moveX = 0;
+      let moveZ = 0;
+      if (entity.velocity) {
+        moveX = entity.velocity.vel.x;
+        moveZ = entity.velocity.vel.z;
+      } else if (animation.lastPos && dt > 0) {
+        moveX = (pos.x - animation.lastPos.x) / dt;
+        moveZ = (pos.z - animation.lastPos.z) / dt;
+      }
+      animation.lastPos = { ...pos };
+      const moving = Math.hypot(moveX, moveZ) > WALK_SPEED_THRESHOLD;
+
+      animation.attackTime = Math.max(0, animation.attackTime - dt);
+      const clip = animation.attackTime > 0 ? "attack" : moving ? "walk" : "idle";
+      if (clip !== animation.clip) {
+        animation.clip = clip;
+        animation.time = 0;
+      } else {
+        animation.time += dt;
+      }
+
+      if (clip === "attack" && animation.aim) animation.facing = facingFor(animation.aim.x, animation.aim.z, yaw);
+      else if (moving) animation.facing = facingFor(moveX, moveZ, yaw);
+
+      const set = animation.set;
+      const flip = animation.facing === "left" && !set.hasLeft;
+      const spriteRef = entity[SpriteRef];
+      spriteRef.frame = `${set.sheet}/${clip}/${flip ? "right" : animation.facing}/${frameAt(set.clips[clip], animation.time)}`;
+      spriteRef.flipX = flip;
+    }
+  }
+}
+
+/** Frame of `clip` shown `time` seconds into it. */
+function frameAt(clip: AnimationClipDef, time: number): number {
+  const frame = Math.floor(time * clip.fps);
+  return clip.mode === "loop" ? frame % clip.frames : Math.min(frame, clip.frames - 1);
+}
+
+/**
+ * Screen facing of the XZ direction (x, z) under a camera with `yaw`: the
+ * camera's right is (cos yaw, -sin yaw) and its forward, up the screen, is
+ * (sin yaw, cos yaw).
+ */
+function facingFor(x: number, z: number, yaw: number): Facing {
+  const sin = Math.sin(yaw);
+  const cos = Math.cos(yaw);
+  const right = x * cos - z * sin;
+  const forward = x * sin + z * cos;
+  if (Math.abs(right) >= Math.abs(forward)) return right >= 0 ? "right" : "left";
+  return forward >= 0 ? "up" : "down";
+}
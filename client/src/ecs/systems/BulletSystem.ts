@@ -1,117 +1,124 @@
-import { Scene } from "@babylonjs/core/scene";
-import { SpriteManager } from "@babylonjs/core/Sprites/spriteManager";
-import { Vector3 } from "@babylonjs/core/Maths/math.vector";
-import { World } from "miniplex";
 import { Entity, world } from "../world";
-import { Bullet, type BulletData } from "../components/Bullet";
-import { Transform, type TransformData } from "../components/Transform";
-import { Velocity, type VelocityData } from "../components/Velocity";
-import { SpriteRef, type SpriteRefData } from "../components/SpriteRef";
-import { Collidable, type CollidableData } from "../components/Collidable";
-import { BoundingBox } from "@babylonjs/core/Culling/boundingBox";
-import { BoundingInfo } from "@babylonjs/core/Culling/boundingInfo";
-
-const BULLET_POOL_SIZE = 256;
-const BULLET_SPRITE_SHEET = "/sprites/bullet.png"; // Revert back to bullet.png
-const BULLET_SPRITE_SIZE = 8; // Keep 10x10 size
-const BULLET_CELL_INDEX = 0; // Keep cell index 0
-const BULLET_SPEED = 25;
-const BULLET_LIFESPAN = 2; // seconds
-const BULLET_DAMAGE = 10;
+import { SpriteRef } from "../components/SpriteRef";
+import {
+  Bullet,
+  Transform,
+  Velocity,
+  Collidable,
+  type Vec3,
+  type PatternDef,
+  type ProjectileDef,
+  type ProjectileSpawn,
+  type ProjectileOwner,
+  type MapPoint,
+  type PoolCounters,
+  type TileMap,
+  EntityPool,
+  PROJECTILE_BUDGETS,
+  createProjectile,
+  expandPattern,
+  advanceProjectiles,
+  tickBulletLifespans,
+  findWallImpacts,
+} from "@rotmg/shared";
+
+const BULLET_POOL_CHUNK = 128; // Entities allocated at a time when the pool runs dry
+const BULLET_FRAME = "bullet"; // Until a shot picks its projectile's frame
+const BULLET_SPAWN_Y = 4.0; // TEMP: Force higher Y position
+
+/** A later burst of a pattern, waiting for its delay to pass. */
+type DelayedSpawn = { shooter: Entity; spawn: ProjectileSpawn; delay: number; origin?: MapPoint };
 
 /**
  * Manages the spawning, pooling, and lifespan of bullet entities.
+ * Shots are fired as shared bullet patterns, so local bullets follow the same
+ * paths as the server's. The pool grows on demand, with separate budgets for
+ * player and enemy shots. Bullets that hit a wall of the map go back to the pool.
  */
 export class BulletSystem {
-  private pool: Entity[] = [];
+  private pool: EntityPool<Entity, ProjectileOwner>;
+  private map: TileMap;
   private activeBullets = world.with(Bullet, Transform, Velocity);
-  private scene: Scene;
-  private spriteManager: SpriteManager;
-
-  constructor(scene: Scene) {
-    this.scene = scene;
-    // CURSOR: Ensure RenderSprite system handles sprite creation from SpriteRef
-    // We just need the manager here to potentially control visibility if needed,
-    // though RenderSprite should handle hiding based on component removal.
-    this.spriteManager = new SpriteManager(
-      "bulletSpriteManager",
-      BULLET_SPRITE_SHEET,
-      BULLET_POOL_SIZE,
-      { width: BULLET_SPRITE_SIZE, height: BULLET_SPRITE_SIZE },
-      this.scene
-    );
-
-    // Pre-allocate bullet entities
-    for (let i = 0; i < BULLET_POOL_SIZE; i++) {
-      // Create base entity, initially inactive (no components except maybe ID)
-      const bulletEntity = world.add({
-        id: `bullet_${i}`, 
-        // Add inactive sprite ref so RenderSystem can potentially find the sprite instance
-        // The sprite instance itself should be initially hidden/disabled by RenderSystem
-        // This requires RenderSystem to handle entities added *without* a transform
-        spriteRef: { 
-            spriteName: `bullet_sprite_${i}`,
-            manager: this.spriteManager,
-            sheetUrl: BULLET_SPRITE_SHEET,
-            cellIndex: BULLET_CELL_INDEX,
-            cellSize: { width: BULLET_SPRITE_SIZE, height: BULLET_SPRITE_SIZE },
+  private delayed: DelayedSpawn[] = [];
+  private nextBulletId = 0;
+
+  constructor(map: TileMap) {
+    this.map = map;
+    this.pool = new EntityPool<Entity, ProjectileOwner>({
+      budgets: PROJECTILE_BUDGETS,
+      chunkSize: BULLET_POOL_CHUNK,
+      // Create base entity, initially inactive (no components except the hidden sprite)
+      create: () => {
+        const id = this.nextBulletId++;
+        return world.add({
+          id: `bullet_${id}`,
+          // Add inactive sprite ref so RenderSystem can potentially find the sprite instance
+          // The sprite instance itself should be initially hidden/disabled by RenderSystem
+          // This requires RenderSystem to handle entities added *without* a transform
+          spriteRef: {
+            frame: BULLET_FRAME,
             isVisible: false, // Initially not visible
             renderSize: { width: 0.5, height: 0.5 } // Set bullet render size
-        }
-      });
-      this.pool.push(bulletEntity);
-    }
+          }
+        });
+      },
+      // RenderSprite disposes the sprite when the entity leaves the world
+      destroy: (entity) => world.remove(entity),
+    });
+  }
+
+  /** Pool counters for the debug overlay. */
+  get poolCounters(): PoolCounters<ProjectileOwner> {
+    return this.pool.counters();
   }
 
   /**
-   * Retrieves a bullet from the pool and activates it.
-   * @param firedBy The entity ID that fired the bullet.
-   * @param position Initial position.
-   * @param direction Normalized direction vector.
+   * Fires one trigger pull of `pattern` from `shooter`; later bursts follow the shooter.
+   * @param aimAngle Aim heading in radians (see `aimAngle`).
+   * @param volley Times the shooter fired this pattern before, for spinning patterns.
+   * @param origin Fire from this point instead of the shooter, like a spell bomb's target.
    */
-  fireBullet(firedBy: number | string, position: Vector3, direction: Vector3) {
-    if (this.pool.length === 0) {
-      console.warn("Bullet pool empty!");
-      return;
+  firePattern(shooter: Entity, pattern: PatternDef, aimAngle: number, volley = 0, origin?: MapPoint) {
+    if (!shooter.transform) return;
+    for (const spawn of expandPattern(pattern, aimAngle, volley)) {
+      if (spawn.delay > 0) {
+        this.delayed.push({ shooter, spawn, delay: spawn.delay, origin });
+      } else {
+        this.fireSpawn(shooter, spawn, origin);
+      }
     }
+  }
 
-    const bulletEntity = this.pool.pop()!;
+  /**
+   * Retrieves a bullet from the pool and activates it as a `def` projectile.
+   * @param firedBy The entity ID that fired the bullet.
+   * @param owner Which budget the bullet counts against.
+   * @param position Shooter position.
+   * @param angle Heading in radians.
+   * @param attack Shooter's attack stat, if it has stats; scales the damage.
+   */
+  fireProjectile(firedBy: number | string, owner: ProjectileOwner, position: Vec3, angle: number, def: ProjectileDef, attack?: number) {
+    const bulletEntity = this.pool.acquire(owner);
+    if (!bulletEntity) return; // Over budget: drop the shot rather than starve other owners
 
-    // Calculate initial velocity
-    const velocity = direction.scale(BULLET_SPEED);
-    // Add a small offset in the direction of fire to avoid immediate self-collision
-    const spawnPosition = position.add(direction.scale(0.5)); 
-    spawnPosition.y = 4.0; // TEMP: Force higher Y position
+    const projectile = createProjectile(def, firedBy, owner, { ...position, y: BULLET_SPAWN_Y }, angle, attack);
 
     // Activate bullet by adding components individually
-    world.addComponent(bulletEntity, Bullet, { 
-        damage: BULLET_DAMAGE, 
-        lifespan: BULLET_LIFESPAN, 
-        firedBy 
-    });
-    world.addComponent(bulletEntity, Transform, { 
-        pos: spawnPosition.clone(), 
-    }); 
-    world.addComponent(bulletEntity, Velocity, { vel: velocity });
-    world.addComponent(bulletEntity, Collidable, {
-      // Create BoundingInfo using manual BoundingBox min/max
-      boundingInfo: new BoundingInfo(
-        spawnPosition.subtract(new Vector3(0.5, 0.5, 0.5)),
-        spawnPosition.add(new Vector3(0.5, 0.5, 0.5))
-      )
-    });
-    
+    world.addComponent(bulletEntity, Bullet, projectile.bullet);
+    world.addComponent(bulletEntity, Transform, projectile.transform);
+    world.addComponent(bulletEntity, Velocity, projectile.velocity);
+    // Box stays centered on the transform, no need to rebuild it as the bullet moves
+    world.addComponent(bulletEntity, Collidable, projectile.collidable);
+
     // Update the SpriteRef component using addComponent to merge
     // NOTE: This update might not be reflected immediately in the same frame for other systems.
     world.addComponent(bulletEntity, SpriteRef, { 
         ...bulletEntity[SpriteRef], 
-        sheetUrl: BULLET_SPRITE_SHEET, 
-        cellIndex: BULLET_CELL_INDEX, 
+        frame: def.sprite, 
         isVisible: true,
-        cellSize: { width: BULLET_SPRITE_SIZE, height: BULLET_SPRITE_SIZE },
-        renderSize: { width: 0.5, height: 0.5 } // Set bullet render size
+        renderSize: { width: def.size * 2, height: def.size * 2 } // Sprite matches the hitbox
     });
-    console.log(`[BulletSystem] fireBullet setting isVisible=true for ${bulletEntity.id}`);
+    console.log(`[BulletSystem] fireProjectile setting isVisible=true for ${bulletEntity.id}`);
 
     // HACK: Directly mutate isVisible for immediate effect due to timing issues
     const spriteRefData = bulletEntity[SpriteRef];
@@ -122,7 +129,7 @@ export class BulletSystem {
       }
       spriteRefData.isVisible = true; // Directly mutate for immediate effect
     } else {
-        console.warn(`[BulletSystem] fireBullet: SpriteRef component not found immediately after addComponent for ${bulletEntity.id}?`);
+        console.warn(`[BulletSystem] fireProjectile: SpriteRef component not found immediately after addComponent for ${bulletEntity.id}?`);
     }
   }
 
@@ -131,6 +138,7 @@ export class BulletSystem {
    * @param entity The bullet entity to return.
    */
   returnBullet(entity: Entity) {
+    if (!this.pool.isActive(entity)) return;
     // Remove active components
     world.removeComponent(entity, "bullet");
     world.removeComponent(entity, "transform");
@@ -143,48 +151,51 @@ export class BulletSystem {
       // Re-add component to update
       world.addComponent(entity, SpriteRef, { 
           ...spriteRefDataToHide, // Spread existing data first
-          sheetUrl: spriteRefDataToHide.sheetUrl, // Explicitly keep sheetUrl
-          cellIndex: spriteRefDataToHide.cellIndex, // Explicitly keep cellIndex
+          frame: spriteRefDataToHide.frame, // Explicitly keep the frame
           isVisible: false,
-          cellSize: { width: BULLET_SPRITE_SIZE, height: BULLET_SPRITE_SIZE },
           renderSize: { width: 0.5, height: 0.5 } // Set bullet render size
       });
       console.log(`[BulletSystem] returnBullet setting isVisible=false for ${entity.id}`);
     }
 
     // Add back to pool
-    this.pool.push(entity);
+    this.pool.release(entity);
   }
 
-  update(dt: number) {
-    for (const entity of world.with(Bullet, Transform, Velocity)) {
-      // Check if bullet component data exists
-      const bulletData = entity[Bullet];
-      if (!bulletData) continue; 
-
-      // Update lifespan
-      bulletData.lifespan -= dt;
-
-      // Update BoundingInfo position
-      const transformData = entity[Transform];
-      const collidableData = entity[Collidable];
-      if (collidableData && transformData) {
-        const halfSize = 0.5; // Half the size used in fireBullet
-        const min = transformData.pos.subtract(new Vector3(halfSize, halfSize, halfSize));
-        const max = transformData.pos.add(new Vector3(halfSize, halfSize, halfSize));
-        // Use BoundingInfo's reConstruct method
-        collidableData.boundingInfo.reConstruct(min, max);
-      }
-
-      // --- Log lifespan before check ---
-      console.log(`[BulletSystem] Update check: ${entity.id} lifespan=${bulletData.lifespan.toFixed(2)}`);
-      // --- End log ---
+  /** Switches to the map of the room just joined. */
+  setMap(map: TileMap) {
+    this.map = map;
+  }
 
-      // Return bullet to pool if lifespan expired
-      if (bulletData.lifespan <= 0) {
-        console.log(`[BulletSystem] Lifespan expired for ${entity.id}, returning to pool.`); // Log return reason
-        this.returnBullet(entity);
-      }
+  update(dt: number) {
+    for (let i = this.delayed.length - 1; i >= 0; i--) {
+      const pending = this.delayed[i];
+      pending.delay -= dt;
+      if (pending.delay > 0) continue;
+      this.delayed.splice(i, 1);
+      const shooter = pending.shooter;
+      if (!world.has(shooter)) continue;
+      this.fireSpawn(shooter, pending.spawn, pending.origin);
     }
+    this.pool.update(dt);
+
+    // Shared path math, so bullets fly exactly like the server's
+    advanceProjectiles(this.activeBullets, dt);
+    findWallImpacts(this.activeBullets, this.map, dt, (entity) => this.returnBullet(entity));
+    // Shared lifespan countdown; expired bullets go back to the pool
+    tickBulletLifespans(this.activeBullets, dt, (entity) => {
+      console.log(`[BulletSystem] Lifespan expired for ${entity.id}, returning to pool.`); // Log return reason
+      this.returnBullet(entity);
+    });
   }
-} 
\ No newline at end of file
+
+  private fireSpawn(shooter: Entity, spawn: ProjectileSpawn, origin?: MapPoint) {
+    if (!shooter.transform) return;
+    const position = origin ? { ...shooter.transform.pos, x: origin.x, z: origin.z } : shooter.transform.pos;
+    this.fireProjectile(shooter.id!, ownerOf(shooter), position, spawn.angle, spawn.projectile, shooter.stats?.attack);
+  }
+}
+
+function ownerOf(shooter: Entity): ProjectileOwner {
+  return shooter.player ? "player" : "enemy";
+}
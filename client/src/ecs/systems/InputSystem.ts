@@ -5,9 +5,11 @@ import { Entity } from "../world"; // Adjusted path to world
 
 // CURSOR: Add mouse input later for aiming/shooting
 
-/** System responsible ONLY for handling player input (WASDQE) and storing state. */
+/** System responsible ONLY for handling player input (WASDQE, space) and storing state. */
 export class InputSystem {
   public keysPressed: { [key: string]: boolean } = {};
+  /** Keys pressed down since they were last consumed; see `consumePress`. */
+  private newPresses = new Set<string>();
   // No queries needed
   // No update/onUpdate needed - state is updated via event listeners
 
@@ -20,6 +22,8 @@ export class InputSystem {
   private handleKeyDown(event: KeyboardEvent) {
     const key = event.key.toLowerCase();
     console.log(`[InputSystem] KeyDown: ${key}`);
+    // Held keys repeat keydown; only the first one is a press
+    if (!event.repeat) this.newPresses.add(key);
     this.keysPressed[key] = true;
   }
 
@@ -29,5 +33,13 @@ export class InputSystem {
     this.keysPressed[key] = false;
   }
 
+  /**
+   * True once per press of `key` (lowercase, " " for space), for actions that
+   * should not repeat while the key is held.
+   */
+  consumePress(key: string): boolean {
+    return this.newPresses.delete(key);
+  }
+
   // Remove the onUpdate method entirely
 } 
\ No newline at end of file
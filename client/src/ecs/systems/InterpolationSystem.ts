@@ -0,0 +1,212 @@
+import { world, type Entity } from "../world";
+import {
+  Transform,
+  Health,
+  SnapshotBuffer,
+  ServerClock,
+  DEFAULT_INTERPOLATION_CONFIG,
+  type InterpolationConfig,
+  vec3,
+  PROJECTILE_DEFINITIONS,
+  collisionFilter,
+  projectilePosition,
+  parseStatusEffects,
+} from "@rotmg/shared";
+import { Networked, type NetworkedKind } from "../components/Networked";
+import { Portal } from "../components/Portal";
+import { LootBag } from "../components/LootBag";
+import { VaultChest } from "../components/VaultChest";
+import { ActiveEffects } from "../components/ActiveEffects";
+import { type SpriteRefData } from "../components/SpriteRef";
+import { type AnimationSetDef } from "../components/Animation";
+import { PLAYER_ANIMATIONS, ENEMY_ANIMATIONS, createAnimation, playAttack } from "./AnimationSystem";
+import {
+  type GameRoom,
+  type RoomState,
+  type SchemaMap,
+  type EntitySnapshot,
+  type ProjectileSnapshot,
+} from "../../net/connection";
+
+/** Sprite used for each kind of networked entity. */
+const NETWORKED_SPRITES: Record<NetworkedKind, SpriteRefData> = {
+  player: { frame: "player/idle/down/0", isVisible: true, renderSize: { width: 1.5, height: 1.5 } },
+  enemy: { frame: "enemy/idle/down/0", isVisible: true, renderSize: { width: 1.5, height: 1.5 } },
+  projectile: { frame: "bullet", isVisible: true, renderSize: { width: 0.5, height: 0.5 } },
+  portal: { frame: "portal", isVisible: true, renderSize: { width: 1.2, height: 1.2 } },
+  lootBag: { frame: "bag/brown", isVisible: true, renderSize: { width: 0.9, height: 0.9 } },
+  vaultChest: { frame: "vault", isVisible: true, renderSize: { width: 1.2, height: 1.2 } },
+};
+
+/** Animations of the kinds with animated sheets. */
+const NETWORKED_ANIMATIONS: Partial<Record<NetworkedKind, AnimationSetDef>> = {
+  player: PLAYER_ANIMATIONS,
+  enemy: ENEMY_ANIMATIONS,
+};
+
+/**
+ * Mirrors remote players, enemies, projectiles, portals, loot bags and vault chests from the server state and renders
+ * them a fixed delay behind the estimated server time, interpolating between snapshots.
+ * When snapshots are late, entities are extrapolated for at most `maxExtrapolationMs`.
+ *
+ * Must run before the render system so Transform.pos is up to date for the frame.
+ * The local player (predicted) and its own projectiles (spawned locally) are skipped.
+ * Projectiles with a known path are placed by the shared path math at the render time
+ * instead, which stays exact between snapshots for curved paths. A new projectile
+ * plays its shooter's attack animation.
+ */
+export class InterpolationSystem {
+  readonly config: InterpolationConfig;
+  private networkedQuery = world.with(Networked, Transform);
+  /** Networked entities keyed by `${kind}:${serverId}`. */
+  private entities = new Map<string, Entity>();
+  private clock = new ServerClock();
+  private room: GameRoom | null = null;
+
+  constructor(config: Partial<InterpolationConfig> = {}) {
+    this.config = { ...DEFAULT_INTERPOLATION_CONFIG, ...config };
+  }
+
+  /**
+   * Starts consuming snapshots from `room`. Entities from a previous room are
+   * removed, and its server clock is forgotten.
+   */
+  attach(room: GameRoom) {
+    for (const entity of this.entities.values()) world.remove(entity);
+    this.entities.clear();
+    this.clock = new ServerClock();
+    this.room = room;
+    room.onStateChange((state) => {
+      if (this.room === room) this.onSnapshot(state, room.sessionId);
+    });
+  }
+
+  /** Server time (ms) currently being rendered. */
+  get renderTime(): number {
+    return this.clock.now(performance.now()) - this.config.delayMs;
+  }
+
+  /** Networked entities, for the debug overlay. */
+  get networkedEntities() {
+    return this.networkedQuery;
+  }
+
+  private onSnapshot(state: RoomState, sessionId: string) {
+    this.clock.observe(state.serverTime, performance.now());
+    const seen = new Set<string>();
+
+    this.track("player", state.players, state.serverTime, seen, (id) => id === sessionId, (entity, snapshot) => {
+      syncEffects(entity, snapshot.effects);
+    });
+    this.track("enemy", state.enemies, state.serverTime, seen, () => false, (entity, snapshot) => {
+      syncEffects(entity, snapshot.effects);
+      // Health is authoritative; local bullet hits only predict it until the next snapshot
+      if (entity.health) {
+        entity.health.hp = snapshot.hp;
+        entity.health.maxHp = snapshot.maxHp;
+      } else {
+        world.addComponent(entity, Health, { hp: snapshot.hp, maxHp: snapshot.maxHp });
+      }
+    });
+    this.track("projectile", state.projectiles, state.serverTime, seen, (_id, snapshot) => snapshot.ownerId === sessionId, (entity, snapshot) => {
+      if (entity.networked!.path) return;
+      entity.networked!.path = projectilePath(snapshot);
+      if (entity.networked!.path) entity.spriteRef!.frame = entity.networked!.path.def.sprite;
+      const shooter = this.entities.get(`player:${snapshot.ownerId}`) ?? this.entities.get(`enemy:${snapshot.ownerId}`);
+      if (shooter) playAttack(shooter, Math.cos(snapshot.angle), Math.sin(snapshot.angle));
+    });
+    this.track("portal", state.portals, state.serverTime, seen, () => false, (entity, snapshot) => {
+      if (!entity.portal) world.addComponent(entity, Portal, { label: snapshot.label, closesAt: snapshot.closesAt });
+    });
+    this.track("lootBag", state.bags, state.serverTime, seen, () => false, (entity, snapshot) => {
+      if (entity.lootBag) {
+        entity.lootBag.items = Array.from(snapshot.items);
+        return;
+      }
+      // Each kind of bag has its own frame
+      entity.spriteRef!.frame = `bag/${snapshot.bag}`;
+      world.addComponent(entity, LootBag, { bag: snapshot.bag, items: Array.from(snapshot.items), closesAt: snapshot.closesAt });
+    });
+    this.track("vaultChest", state.vaultChests, state.serverTime, seen, () => false, (entity) => {
+      if (!entity.vaultChest) world.addComponent(entity, VaultChest, {});
+    });
+
+    for (const [key, entity] of this.entities) {
+      if (!seen.has(key)) {
+        world.remove(entity);
+        this.entities.delete(key);
+      }
+    }
+  }
+
+  private track<T extends EntitySnapshot>(
+    kind: NetworkedKind,
+    map: SchemaMap<T>,
+    serverTime: number,
+    seen: Set<string>,
+    skip: (id: string, snapshot: T) => boolean,
+    apply?: (entity: Entity, snapshot: T) => void
+  ) {
+    map.forEach((snapshot, id) => {
+      if (skip(id, snapshot)) return;
+      const key = `${kind}:${id}`;
+      seen.add(key);
+
+      const pos = vec3(snapshot.x, snapshot.y, snapshot.z);
+      let entity = this.entities.get(key);
+      if (!entity) {
+        entity = world.add({
+          id,
+          transform: { pos: vec3(pos.x, pos.y, pos.z) },
+          spriteRef: { ...NETWORKED_SPRITES[kind] },
+          ...(NETWORKED_ANIMATIONS[kind] ? { animation: createAnimation(NETWORKED_ANIMATIONS[kind]) } : {}),
+          networked: { kind, serverId: id, buffer: new SnapshotBuffer(), lastSample: "empty", lastDelayMs: 0 },
+          // Enemies stop locally predicted bullets; the server decides the damage
+          ...(kind === "enemy" ? { collidable: { halfExtents: vec3(0.5, 0.5, 0.5), ...collisionFilter("enemy") } } : {}),
+        });
+        this.entities.set(key, entity);
+      }
+
+      entity.networked!.buffer.push(serverTime, pos);
+      apply?.(entity, snapshot);
+    });
+  }
+
+  update(_dt: number) {
+    if (!this.clock.synced) return;
+    const renderTime = this.renderTime;
+
+    for (const entity of this.networkedQuery) {
+      const networked = entity[Networked];
+      if (networked.path) {
+        const path = networked.path;
+        const age = Math.max(0, renderTime - path.spawnTime) / 1000;
+        projectilePosition(path.def, path.origin, path.angle, age, entity[Transform].pos);
+        networked.lastSample = "path";
+        networked.lastDelayMs = networked.buffer.newestTime - renderTime;
+        continue;
+      }
+      networked.lastSample = networked.buffer.sample(renderTime, this.config.maxExtrapolationMs, entity[Transform].pos);
+      networked.lastDelayMs = networked.buffer.newestTime - renderTime;
+    }
+  }
+}
+
+/** Copies a snapshot's status effects into the entity's ActiveEffects. */
+function syncEffects(entity: Entity, names: ArrayLike<string>) {
+  const effects = parseStatusEffects(names);
+  if (entity.activeEffects) entity.activeEffects.effects = effects;
+  else world.addComponent(entity, ActiveEffects, { effects });
+}
+
+/** Path of a projectile snapshot, or undefined if it has none or the id is unknown. */
+function projectilePath(snapshot: ProjectileSnapshot) {
+  const def = snapshot.projectile ? PROJECTILE_DEFINITIONS[snapshot.projectile] : undefined;
+  if (!def) return undefined;
+  return {
+    def,
+    origin: vec3(snapshot.originX, snapshot.y, snapshot.originZ),
+    angle: snapshot.angle,
+    spawnTime: snapshot.spawnTime,
+  };
+}
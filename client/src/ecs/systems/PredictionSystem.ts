@@ -0,0 +1,138 @@
+import { world } from "../world";
+import {
+  Transform,
+  Velocity,
+  Player,
+  Stats,
+  Mana,
+  InputPredictor,
+  applyInputCommand,
+  moveSpeed,
+  statusSpeedFactor,
+  parseStatusEffects,
+  getClassDefinition,
+  DEFAULT_CLASS,
+  STAT_NAMES,
+  moveDirectionFromInput,
+  vec3,
+  type MoveKeys,
+  type TileMap,
+} from "@rotmg/shared";
+import { ActiveEffects } from "../components/ActiveEffects";
+import { InputSystem } from "./InputSystem";
+import { MovementSystem } from "./MovementSystem";
+import { type GameRoom } from "../../net/connection";
+
+const _moveDirection = vec3();
+
+/**
+ * Moves the local player from WASD input using client-side prediction.
+ *
+ * Each frame becomes a sequenced input command that is applied locally right away
+ * and sent to the room. When a server snapshot arrives, the player is rewound to
+ * the authoritative position for the acknowledged command and the rest are replayed.
+ * Without a room (offline), input is simply applied locally.
+ * Walls come from the same map data the server collides against, and the move
+ * speed from the player's speed stat and status effects, which the server keeps in sync.
+ */
+export class PredictionSystem {
+  private playerQuery = world.with(Player, Transform, Velocity, Stats);
+  private predictor: InputPredictor;
+  private inputSystem: InputSystem;
+  private movementSystem: MovementSystem;
+  private map: TileMap;
+  private room: GameRoom | null = null;
+
+  constructor(inputSystem: InputSystem, movementSystem: MovementSystem, map: TileMap) {
+    this.inputSystem = inputSystem;
+    this.movementSystem = movementSystem;
+    this.map = map;
+    this.predictor = new InputPredictor(this.currentSpeed(), map);
+  }
+
+  /**
+   * Switches to the map of the room just joined. Call before `attach`: commands
+   * predicted on the old map are dropped.
+   */
+  setMap(map: TileMap) {
+    this.map = map;
+    this.predictor = new InputPredictor(this.currentSpeed(), map);
+  }
+
+  /**
+   * Starts sending input to `room` and reconciling against its snapshots.
+   */
+  attach(room: GameRoom) {
+    this.room = room;
+    // A fresh sequence for the new session; commands for the previous room are dropped
+    this.predictor = new InputPredictor(this.currentSpeed(), this.map);
+
+    // The server keys players by session id; adopt it so bullets are attributed correctly
+    const player = this.playerQuery.first;
+    if (player) player.id = room.sessionId;
+
+    room.onStateChange((state) => {
+      if (this.room !== room) return;
+      const snapshot = state.players.get(room.sessionId);
+      const localPlayer = this.playerQuery.first;
+      if (!snapshot || !localPlayer) return;
+
+      // Stats and effects are authoritative; the replay below already uses the synced speed
+      const stats = localPlayer[Stats];
+      for (const stat of STAT_NAMES) stats[stat] = snapshot.stats[stat];
+      const effects = parseStatusEffects(snapshot.effects);
+      if (localPlayer.activeEffects) localPlayer.activeEffects.effects = effects;
+      else world.addComponent(localPlayer, ActiveEffects, { effects });
+      this.predictor.speed = this.currentSpeed();
+      // MP too; the ability system spends it ahead of the server
+      const mana = localPlayer[Mana];
+      if (mana) Object.assign(mana, { mp: snapshot.mp, maxMp: snapshot.maxMp });
+
+      this.predictor.reconcile(
+        localPlayer[Transform].pos,
+        vec3(snapshot.x, snapshot.y, snapshot.z),
+        snapshot.lastProcessedInput
+      );
+    });
+  }
+
+  /**
+   * Stops sending input, e.g. while traveling to another room; the player moves
+   * locally until the next `attach`.
+   */
+  detach() {
+    this.room = null;
+  }
+
+  update(dt: number) {
+    const keys = this.inputSystem.keysPressed;
+    const moveKeys: MoveKeys = { w: !!keys["w"], a: !!keys["a"], s: !!keys["s"], d: !!keys["d"] };
+    const yaw = this.movementSystem.getCameraYaw();
+
+    const player = this.playerQuery.first;
+    if (!player) return;
+
+    const pos = player[Transform].pos;
+    const speed = this.currentSpeed();
+    this.predictor.speed = speed;
+    if (this.room) {
+      const cmd = this.predictor.predict(pos, moveKeys, yaw, dt);
+      this.room.send("input", cmd);
+    } else {
+      applyInputCommand(pos, { seq: 0, keys: moveKeys, yaw, dt }, speed, this.map);
+    }
+
+    // Velocity is informational for the player (animation etc.); position comes from commands
+    moveDirectionFromInput(moveKeys, yaw, _moveDirection);
+    const vel = player[Velocity].vel;
+    vel.x = _moveDirection.x * speed;
+    vel.z = _moveDirection.z * speed;
+  }
+
+  /** Move speed of the local player, or of a new default character before it exists. */
+  private currentSpeed(): number {
+    const player = this.playerQuery.first;
+    if (!player) return moveSpeed(getClassDefinition(DEFAULT_CLASS).base.speed);
+    return moveSpeed(player[Stats].speed) * statusSpeedFactor(player.activeEffects?.effects ?? []);
+  }
+}
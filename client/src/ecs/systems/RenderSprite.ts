@@ -1,7 +1,8 @@
-import { Scene, SpriteManager, Sprite, Texture, Vector3 } from "@babylonjs/core";
+import { Scene, Sprite, Vector3 } from "@babylonjs/core";
 import { world, Entity } from "../world"; // Use Entity from world
-import { Transform, type TransformData } from "../components/Transform";
+import { Transform, type TransformData } from "@rotmg/shared";
 import { SpriteRef, type SpriteRefData } from "../components/SpriteRef";
+import { type SpriteAtlas } from "../../sprites/SpriteAtlas";
 
 // Define a more specific entity type for this system
 // Needs spriteInstance added to the component data type ideally,
@@ -17,49 +18,34 @@ type RenderableEntity = Entity & {
   [SpriteRef]: SpriteRefDataWithInstance; // Use extended type
 };
 
-// Cache for SpriteManagers, one per sheet URL
-const spriteManagers = new Map<string, SpriteManager>();
-
-// Use cellSize from SpriteRefData if provided, otherwise default
-function getSpriteManager(scene: Scene, url: string, cellSize: { width: number, height: number } | undefined): SpriteManager | undefined {
-  // Use a default if none is provided in the call
-  const effectiveCellSize = cellSize ?? { width: 64, height: 64 }; 
-  // Use a composite key for the cache if sizes can vary per URL
-  const cacheKey = `${url}_${effectiveCellSize.width}x${effectiveCellSize.height}`;
-
-  console.log(`[RenderSprite] getSpriteManager called for URL: ${url}, CellSize: ${effectiveCellSize.width}x${effectiveCellSize.height}`);
-  
-  if (!spriteManagers.has(cacheKey)) { // Use cacheKey
-    console.log(`[RenderSprite] Creating new SpriteManager for: ${cacheKey}`);
-    try {
-      const manager = new SpriteManager(
-        `sm_${cacheKey}`, // Use cacheKey in name for uniqueness
-        url,        
-        2000,       
-        effectiveCellSize,   // Use effective cell size
-        scene,
-        undefined,  
-        Texture.NEAREST_SAMPLINGMODE 
-      );
-
-      // --- Explicit Alpha Blending --- 
-      manager.texture.hasAlpha = true; // Ensure alpha is recognized
-      manager.isPickable = false; // Sprites usually don't need picking
-      // --- End Alpha Blending ---
-
-      spriteManagers.set(cacheKey, manager); // Use cacheKey
-      console.log(`[RenderSprite] SpriteManager created and cached for: ${cacheKey}`);
-      return manager; 
-    } catch (error) {
-      console.error(`[RenderSprite] Error creating SpriteManager instance for ${cacheKey}:`, error);
-      return undefined; // Return undefined on error
-    }
+const _right = new Vector3();
+const _up = new Vector3();
+
+/**
+ * Creates the Babylon sprite for a renderable entity from the atlas's manager.
+ * Returns undefined while the atlas is still loading; the update loop retries.
+ */
+function createSprite(atlas: SpriteAtlas, entity: RenderableEntity): Sprite | undefined {
+  const spriteRefData = entity[SpriteRef];
+  if (!atlas.manager) return undefined;
+  try {
+    const sprite = new Sprite(`sprite_${entity.id}`, atlas.manager);
+    spriteRefData.spriteInstance = sprite; // Store instance ON the component data
+    console.log(`[RenderSprite] Sprite instance created: ID=${entity.id}, Name=${sprite.name}, Visible=${spriteRefData.isVisible}`);
+    return sprite;
+  } catch (creationError) {
+    console.error(`[RenderSprite] Error creating Sprite instance for entity ${entity.id}:`, creationError);
+    spriteRefData.spriteInstance = undefined; // Ensure no partial ref
+    return undefined;
   }
-  // Return from cache if it already exists
-  return spriteManagers.get(cacheKey)!; 
 }
 
-export function createRenderSpriteSystem(scene: Scene) {
+/**
+ * Draws every entity with a Transform and a SpriteRef as a billboard of its
+ * SpriteRef frame, all from the one sprite atlas. The frame's pivot sits on the
+ * entity's position.
+ */
+export function createRenderSpriteSystem(scene: Scene, atlas: SpriteAtlas) {
   console.log("[RenderSprite] System initializing...");
 
   // === Handle Added Entities ===
@@ -68,39 +54,15 @@ export function createRenderSpriteSystem(scene: Scene) {
         console.log(`[RenderSprite] ADDED detected: ${entity.id}`);
         const entityRenderable = entity as RenderableEntity;
         const spriteRefData = entityRenderable[SpriteRef]; 
-        const transformData = entityRenderable[Transform];
         
         if (spriteRefData.spriteInstance) {
              console.warn(`[RenderSprite] Entity ${entity.id} added but already has spriteInstance?`);
              return; // Skip if sprite already exists
         }
 
-        // Pass cellSize from component data to getSpriteManager
-        const manager = getSpriteManager(scene, spriteRefData.sheetUrl, spriteRefData.cellSize);
-        if (!manager) {
-           console.error(`[RenderSprite] Failed to get SpriteManager for ${spriteRefData.sheetUrl} (entity: ${entity.id}). Sprite cannot be created.`);
-           return; 
-        }
-
-        try {
-          const sprite = new Sprite(`sprite_${entity.id}`, manager);
-          spriteRefData.spriteInstance = sprite; // Store instance ON the component data
-          
-          // Set initial size based on component data or default to 1x1
-          const renderWidth = spriteRefData.renderSize?.width ?? 1.0;
-          const renderHeight = spriteRefData.renderSize?.height ?? 1.0;
-          sprite.width = renderWidth;
-          sprite.height = renderHeight;
-
-          sprite.position.copyFrom(transformData.pos);
-          sprite.cellIndex = spriteRefData.cellIndex;
-          sprite.isVisible = spriteRefData.isVisible; 
-          
-          console.log(`[RenderSprite] Sprite instance created: ID=${entity.id}, Name=${sprite.name}, Visible=${sprite.isVisible}`);
-        } catch (creationError) {
-           console.error(`[RenderSprite] Error creating Sprite instance for added entity ${entity.id}:`, creationError);
-           spriteRefData.spriteInstance = undefined; // Ensure no partial ref
-        }
+        // Placed and sized by the update loop, before the next frame is drawn
+        const sprite = createSprite(atlas, entityRenderable);
+        if (sprite) sprite.isVisible = false;
     }
   });
 
@@ -128,6 +90,12 @@ export function createRenderSpriteSystem(scene: Scene) {
   return {
     // === Update Loop ===
     update: (_dt: number) => { 
+      const camera = scene.activeCamera;
+      if (camera) {
+        camera.getDirectionToRef(Vector3.Right(), _right);
+        camera.getDirectionToRef(Vector3.Up(), _up);
+      }
+
       // Update existing sprite instances
       for (const entity of query) {
         const entityRenderable = entity as RenderableEntity;
@@ -135,41 +103,28 @@ export function createRenderSpriteSystem(scene: Scene) {
         const spriteRefData = entityRenderable[SpriteRef];
         let sprite = spriteRefData.spriteInstance; // Get instance from component data
 
-        // Determine desired render size or default to 1x1
-        const renderWidth = spriteRefData.renderSize?.width ?? 1.0;
-        const renderHeight = spriteRefData.renderSize?.height ?? 1.0;
-
         // Create sprite instance if missing and should be visible
         if (!sprite && spriteRefData.isVisible) {
-          const manager = getSpriteManager(scene, spriteRefData.sheetUrl, spriteRefData.cellSize);
-          if (!manager) {
-             console.error(`[RenderSprite] Failed to get SpriteManager for ${spriteRefData.sheetUrl} (entity: ${entity.id}). Sprite cannot be created.`);
-             return; 
-          }
-
-          try {
-            sprite = new Sprite(`sprite_${entity.id}`, manager);
-            spriteRefData.spriteInstance = sprite; // Store instance ON the component data
-            
-            // Set initial size 
-            sprite.width = renderWidth;
-            sprite.height = renderHeight;
-
-            sprite.position.copyFrom(transformData.pos);
-            sprite.cellIndex = spriteRefData.cellIndex;
-            sprite.isVisible = spriteRefData.isVisible;
-            
-            console.log(`[RenderSprite] Sprite instance created: ID=${entity.id}, Name=${sprite.name}, Visible=${sprite.isVisible}`);
-          } catch (creationError) {
-             console.error(`[RenderSprite] Error creating Sprite instance for added entity ${entity.id}:`, creationError);
-             spriteRefData.spriteInstance = undefined; // Ensure no partial ref
-          }
+          sprite = createSprite(atlas, entityRenderable);
         }
 
         // Update sprite properties if the instance exists
         if (sprite) {
-          sprite.position.copyFrom(transformData.pos);
-          sprite.cellIndex = spriteRefData.cellIndex;
+          const frame = atlas.resolve(spriteRefData.frame);
+          // Determine desired render size or default to the frame's own
+          const renderWidth = spriteRefData.renderSize?.width ?? frame.width;
+          const renderHeight = spriteRefData.renderSize?.height ?? frame.height;
+
+          // Shift the middle of the sprite so the pivot lands on the position
+          const shiftRight = (0.5 - frame.pivot.x) * renderWidth * (spriteRefData.flipX ? -1 : 1);
+          const shiftUp = (frame.pivot.y - 0.5) * renderHeight;
+          sprite.position.set(
+            transformData.pos.x + _right.x * shiftRight + _up.x * shiftUp,
+            transformData.pos.y + _right.y * shiftRight + _up.y * shiftUp,
+            transformData.pos.z + _right.z * shiftRight + _up.z * shiftUp,
+          );
+          sprite.cellRef = frame.name;
+          sprite.invertU = !!spriteRefData.flipX;
           sprite.isVisible = spriteRefData.isVisible;
           
           // Update size 
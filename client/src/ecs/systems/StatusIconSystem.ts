@@ -0,0 +1,59 @@
+import { Sprite, Vector3, type Camera } from "@babylonjs/core";
+import { world, type Entity } from "../world";
+import { Transform } from "@rotmg/shared";
+import { ActiveEffects } from "../components/ActiveEffects";
+import { type SpriteAtlas } from "../../sprites/SpriteAtlas";
+
+const ICON_SIZE = 0.35; // World units
+/** Height of the icon row above the entity's position, clear of its sprite. */
+const ICON_HEIGHT = 1.0;
+
+const _right = new Vector3();
+
+/**
+ * Shows a row of icons above every entity under status effects, one per effect,
+ * laid out along the camera's right so the row reads left to right however the
+ * camera turns. Icons are the atlas's `effect/<name>` frames.
+ */
+export class StatusIconSystem {
+  private atlas: SpriteAtlas;
+  private camera: Camera;
+  private query = world.with(Transform, ActiveEffects);
+  private icons = new Map<Entity, Sprite[]>();
+
+  constructor(atlas: SpriteAtlas, camera: Camera) {
+    this.atlas = atlas;
+    this.camera = camera;
+    this.query.onEntityRemoved.subscribe((entity) => this.setIconCount(entity, 0));
+  }
+
+  update(_dt: number) {
+    if (!this.atlas.ready) return;
+    this.camera.getDirectionToRef(Vector3.Right(), _right);
+    for (const entity of this.query) {
+      const effects = entity[ActiveEffects].effects;
+      const icons = this.setIconCount(entity, effects.length);
+      const pos = entity[Transform].pos;
+      icons.forEach((icon, i) => {
+        const offset = (i - (icons.length - 1) / 2) * ICON_SIZE;
+        icon.position.set(pos.x + _right.x * offset, pos.y + ICON_HEIGHT, pos.z + _right.z * offset);
+        icon.cellRef = this.atlas.resolve(`effect/${effects[i]}`).name;
+      });
+    }
+  }
+
+  /** Creates or disposes icons so `entity` has `count`, and returns them. */
+  private setIconCount(entity: Entity, count: number): Sprite[] {
+    const icons = this.icons.get(entity) ?? [];
+    while (icons.length > count) icons.pop()!.dispose();
+    while (icons.length < count) {
+      const icon = new Sprite(`statusIcon_${entity.id}_${icons.length}`, this.atlas.manager!);
+      icon.width = ICON_SIZE;
+      icon.height = ICON_SIZE;
+      icons.push(icon);
+    }
+    if (count === 0) this.icons.delete(entity);
+    else this.icons.set(entity, icons);
+    return icons;
+  }
+}
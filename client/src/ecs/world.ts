@@ -1,28 +1,31 @@
 import { World } from "miniplex";
+import { type SimEntity } from "@rotmg/shared";
 // Import component type definitions
-import { type TransformData } from "./components/Transform";
-import { type VelocityData } from "./components/Velocity";
 import { type SpriteRefData } from "./components/SpriteRef";
-import { type HealthData } from "./components/Health";
-import { type CollidableData } from "./components/Collidable";
-import { type BulletData } from "./components/Bullet";
-import { type Player } from "./components/Player";
+import { type AnimationData } from "./components/Animation";
+import { type NetworkedData } from "./components/Networked";
+import { type PortalData } from "./components/Portal";
+import { type LootBagData } from "./components/LootBag";
+import { type VaultChestData } from "./components/VaultChest";
+import { type ActiveEffectsData } from "./components/ActiveEffects";
 
-// Define a type for our entities, including known component structures
+// Define a type for our entities: the shared simulation components
+// (transform, velocity, health, collidable, bullet) plus client-only ones.
 // Components are optional because not all entities have all components.
-export type Entity = {
-  id?: string | number;
-
-  // Core components
-  transform?: TransformData; 
-  velocity?: VelocityData;
+export type Entity = SimEntity & {
+  // Render components
   spriteRef?: SpriteRefData;
-  health?: HealthData;
-  collidable?: CollidableData;
-  
+  animation?: AnimationData;
+
+  // Network components
+  networked?: NetworkedData;
+  portal?: PortalData;
+  lootBag?: LootBagData;
+  vaultChest?: VaultChestData;
+  activeEffects?: ActiveEffectsData;
+
   // Role/State tags/components
   player?: boolean;
-  bullet?: BulletData;
 
   // Add other components here as needed
 }
@@ -31,4 +34,4 @@ export type Entity = {
 // Specify the enhanced Entity type for better type safety
 export const world = new World<Entity>();
 
-// Systems will be managed and called manually in main.ts 
\ No newline at end of file
+// Systems will be managed and called manually in main.ts
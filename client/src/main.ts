@@ -1,23 +1,48 @@
 import './style.css'
-import { Engine, Scene, FreeCamera, Vector3, HemisphericLight, Color4, MeshBuilder, StandardMaterial, Color3 } from '@babylonjs/core';
+import { Engine, Scene, FreeCamera, Vector3, HemisphericLight, Color4 } from '@babylonjs/core';
 import { world } from './ecs/world';
 import { createRenderSpriteSystem } from './ecs/systems/RenderSprite';
 import { InputSystem } from './ecs/systems/InputSystem';
 import { MovementSystem } from './ecs/systems/MovementSystem';
 import { BulletSystem } from './ecs/systems/BulletSystem';
+import { AbilitySystem } from './ecs/systems/AbilitySystem';
 import { CollisionSystem } from './ecs/systems/CollisionSystem';
+import { PredictionSystem } from './ecs/systems/PredictionSystem';
+import { InterpolationSystem } from './ecs/systems/InterpolationSystem';
+import { NetDebugOverlay } from './ui/NetDebugOverlay';
+import { PortalPrompt } from './ui/PortalPrompt';
+import { Banner } from './ui/Banner';
+import { LootPrompt } from './ui/LootPrompt';
+import { InventoryPanel } from './ui/InventoryPanel';
+import { VaultPanel } from './ui/VaultPanel';
+import { TradePanel } from './ui/TradePanel';
+import { StatusIconSystem } from './ecs/systems/StatusIconSystem';
+import { AnimationSystem, PLAYER_ANIMATIONS, ENEMY_ANIMATIONS, createAnimation, playAttack } from './ecs/systems/AnimationSystem';
+import { SpriteAtlas } from './sprites/SpriteAtlas';
+import { ManaBar } from './ui/ManaBar';
+import { TileMapRenderer } from './map/TileMapRenderer';
+import { joinGame, travel, type GameRoom } from './net/connection';
 // Import component *identifiers* (strings) and *data types*
-import { Transform, type TransformData } from './ecs/components/Transform';
-import { Velocity, type VelocityData } from './ecs/components/Velocity';
 import { SpriteRef, type SpriteRefData } from './ecs/components/SpriteRef';
-import { Player } from './ecs/components/Player';
-import { Health, type HealthData } from './ecs/components/Health';
-import { Collidable, type CollidableData } from './ecs/components/Collidable';
-import { BoundingBox } from '@babylonjs/core/Culling/boundingBox';
-import { BoundingInfo } from '@babylonjs/core/Culling/boundingInfo';
+import { Animation } from './ecs/components/Animation';
+import {
+  Transform, type TransformData,
+  Velocity, type VelocityData,
+  Player,
+  Health, type HealthData,
+  Collidable, type CollidableData,
+  vec3, normalizeXZInPlace, collisionFilter,
+  Stats,
+  Mana, type ManaData,
+  aimAngle, getWeaponDefinition, getPatternDefinition, fireCooldown,
+  getClassDefinition, statsAtLevel, DEFAULT_CLASS, equippedWeapon, statusAllowsFiring,
+  loadMap, loadMapLayout, setArenaSealed, DEFAULT_MAP, type TileMap, type ArenaDef,
+  type LevelUpMessage, type DeathMessage, type TauntMessage,
+} from '@rotmg/shared';
 import "@babylonjs/core/Debug/debugLayer"; // Import the debug layer
 import "@babylonjs/inspector";           // Import the inspector
 import { PointerEventTypes } from '@babylonjs/core/Events/pointerEvents'; // <-- ADD Import
+import { type SeatReservation } from 'colyseus.js';
 
 // Player starting position (used for camera setup)
 const playerStartX = 0;
@@ -71,44 +96,24 @@ camera.orthoBottom = -10 * zoomLevel;
 // --- Create a light ---
 const light = new HemisphericLight("light", new Vector3(0, 1, 0), scene); // Light from above
 
-// --- Create Static Ground Plane ---
-const groundSize = 50; // Make the ground reasonably large
-const ground = MeshBuilder.CreateGround("ground", { width: groundSize, height: groundSize }, scene);
-// Optional: Position ground slightly below player start y if needed, but 0 should be fine
-// ground.position.y = -0.1;
-
-// Create a simple material with a wireframe
-const groundMaterial = new StandardMaterial("groundMat", scene);
-groundMaterial.diffuseColor = new Color3(0.5, 0.5, 0.5); // Grey color
-groundMaterial.wireframe = true;
-ground.material = groundMaterial;
-
-// --- Add Static Reference Cubes ---
-const boxMaterialRed = new StandardMaterial("boxMatRed", scene);
-boxMaterialRed.diffuseColor = new Color3(1, 0, 0); // Red
-
-// --- Temporarily comment out red box ---
-// const box1 = MeshBuilder.CreateBox("refBox1", {size: boxSize}, scene);
-// box1.position = new Vector3(5, boxY, 5);
-// box1.material = boxMaterialRed;
-// --- End comment out ---
-
-const boxMaterialBlue = new StandardMaterial("boxMatBlue", scene);
-boxMaterialBlue.diffuseColor = new Color3(0, 0, 1); // Blue
-
-const boxMaterialGreen = new StandardMaterial("boxMatGreen", scene);
-boxMaterialGreen.diffuseColor = new Color3(0, 1, 0); // Green
-
-const boxSize = 1;
-const boxY = boxSize / 2; // Place bottom on the ground
-
-const box2 = MeshBuilder.CreateBox("refBox2", {size: boxSize}, scene);
-box2.position = new Vector3(-5, boxY, 8);
-box2.material = boxMaterialBlue;
-
-const box3 = MeshBuilder.CreateBox("refBox3", {size: boxSize}, scene);
-box3.position = new Vector3(0, boxY, -6);
-box3.material = boxMaterialGreen;
+// --- Load the tile map ---
+// Same shared map data the server collides against; replaced by the room's map once connected
+let map = loadMap(DEFAULT_MAP);
+let tileMapRenderer = new TileMapRenderer(scene, map);
+
+// --- Load the sprite atlas ---
+// Every sprite sheet, packed into one texture; sprites appear once it is in
+const SPRITE_SHEETS = [
+  "/sprites/player.json",
+  "/sprites/enemy.json",
+  "/sprites/bullet.json",
+  "/sprites/portal.json",
+  "/sprites/bags.json",
+  "/sprites/vault.json",
+  "/sprites/effects.json",
+];
+const spriteAtlas = new SpriteAtlas(scene);
+spriteAtlas.load(SPRITE_SHEETS).catch((error) => console.error("[main] Sprite atlas failed to load:", error));
 
 // Handle window resize
 window.addEventListener('resize', () => {
@@ -117,14 +122,34 @@ window.addEventListener('resize', () => {
 
 // --- Create System Instances ---
 const inputSystem = new InputSystem();
-const movementSystem = new MovementSystem(inputSystem, camera);
-const renderSpriteSystem = createRenderSpriteSystem(scene);
-const bulletSystem = new BulletSystem(scene);
+const movementSystem = new MovementSystem(inputSystem, camera, map);
+const predictionSystem = new PredictionSystem(inputSystem, movementSystem, map);
+const interpolationSystem = new InterpolationSystem();
+const animationSystem = new AnimationSystem(movementSystem);
+const renderSpriteSystem = createRenderSpriteSystem(scene, spriteAtlas);
+const statusIconSystem = new StatusIconSystem(spriteAtlas, camera);
+const bulletSystem = new BulletSystem(map);
 const collisionSystem = new CollisionSystem(bulletSystem);
+const abilitySystem = new AbilitySystem(inputSystem, bulletSystem, scene, map);
+const netDebugOverlay = new NetDebugOverlay(interpolationSystem, bulletSystem);
+const portalPrompt = new PortalPrompt(interpolationSystem);
+const banner = new Banner();
+const lootPrompt = new LootPrompt();
+const inventoryPanel = new InventoryPanel();
+const vaultPanel = new VaultPanel();
+const tradePanel = new TradePanel(banner);
+const manaBar = new ManaBar(abilitySystem);
+
+// Set once connected; null while playing offline
+let gameRoom: GameRoom | null = null;
 
 // --- Firing Logic (Click-based) --- MODIFIED
 let canFire = true;
-const fireCooldown = 0.2; // seconds
+// Same class and weapon data as the server, so the predicted shots match the real ones
+const playerClass = getClassDefinition(DEFAULT_CLASS);
+/** WeaponDef id of the equipped weapon; the server's inventory decides once connected. */
+let equippedWeaponId: string | undefined = playerClass.weapon;
+let shotsFired = 0;
 
 // Remove the spacebar listener
 // window.addEventListener("keydown", (e) => { ... });
@@ -136,27 +161,33 @@ scene.onPointerObservable.add((pointerInfo) => {
         pointerInfo.event.button === 0 && 
         canFire) {
         
-        const player = world.with(Player, Transform).first; // Query using identifiers
-        if (!player) return; // No player found
+        const player = world.with(Player, Transform, Stats).first; // Query using identifiers
+        if (!player || !equippedWeaponId) return; // No player found, or nothing to fire
+        if (!statusAllowsFiring(player.activeEffects?.effects ?? [])) return; // Stunned
+        const weapon = getWeaponDefinition(equippedWeaponId);
 
         // Use scene.pick to find where the user clicked in the 3D world
         const pickResult = scene.pick(scene.pointerX, scene.pointerY);
 
         if (pickResult?.hit && pickResult.pickedPoint) {
             // Calculate direction from player to the clicked point
-            const fireDirection = pickResult.pickedPoint.subtract(player[Transform].pos);
-            
-            // Project direction onto the XZ plane (ignore vertical difference)
-            fireDirection.y = 0;
-            fireDirection.normalize(); // Make it a unit vector
-
-            // Check if direction is valid (avoid firing if click is too close or directly on player)
-            if (fireDirection.lengthSquared() > 0.01) { 
-                bulletSystem.fireBullet(player.id!, player[Transform].pos, fireDirection);
+            const playerPos = player[Transform].pos;
+            const fireDirection = vec3(
+                pickResult.pickedPoint.x - playerPos.x,
+                0, // Project direction onto the XZ plane (ignore vertical difference)
+                pickResult.pickedPoint.z - playerPos.z
+            );
+
+            // Normalize; fails if the click is too close or directly on the player
+            if (normalizeXZInPlace(fireDirection)) { 
+                bulletSystem.firePattern(player, getPatternDefinition(weapon.pattern), aimAngle(fireDirection.x, fireDirection.z), shotsFired++);
+                playAttack(player, fireDirection.x, fireDirection.z);
+                // The local bullet is a prediction; the server fires the real one
+                gameRoom?.send("shoot", { x: fireDirection.x, z: fireDirection.z });
                 
-                // Start cooldown
+                // Start cooldown; dexterity shortens it, as on the server
                 canFire = false;
-                setTimeout(() => { canFire = true; }, fireCooldown * 1000);
+                setTimeout(() => { canFire = true; }, fireCooldown(weapon.cooldown, player[Stats].dexterity) * 1000);
             }
         }
     }
@@ -170,10 +201,23 @@ engine.runRenderLoop(() => {
   // console.log(`[MainLoop] dt: ${dt}`);
 
   // Manually update systems in order
+  predictionSystem.update(dt);
   movementSystem.update(dt);
+  abilitySystem.update(dt); // Before bullets, so a spell bomb's shards fly this frame
   bulletSystem.update(dt);
+  interpolationSystem.update(dt); // Remote entities' Transform.pos, before rendering
+  animationSystem.update(dt); // Picks this frame's sprite cells
   renderSpriteSystem.update(dt);
+  statusIconSystem.update(dt);
   collisionSystem.update(dt);
+  netDebugOverlay.update(dt);
+  portalPrompt.update(dt);
+  lootPrompt.update(dt);
+  inventoryPanel.update(dt);
+  vaultPanel.update(dt);
+  tradePanel.update(dt);
+  manaBar.update(dt);
+  banner.update(dt);
 
   scene.render();
 });
@@ -198,63 +242,122 @@ world.add({
   id: "player-test",
   [Player]: true,
   [Transform]: <TransformData>{
-    pos: playerInitialPos.clone() // Use the defined starting position
+    pos: vec3(playerStartX, playerStartY, playerStartZ) // Use the defined starting position
   },
-  [Velocity]: <VelocityData>{ vel: new Vector3(0, 0, 0) }, // Use Velocity identifier
+  [Velocity]: <VelocityData>{ vel: vec3() }, // Use Velocity identifier
   [SpriteRef]: <SpriteRefData>{
-    sheetUrl: "/sprites/player.png",
-    cellIndex: 0,
-    cellSize: { width: 64, height: 64 },
+    frame: "player/idle/down/0",
     isVisible: true,
     renderSize: { width: 1.5, height: 1.5 }
   },
+  [Animation]: createAnimation(PLAYER_ANIMATIONS),
   // --- Use Component Identifiers as Keys ---
-  [Health]: <HealthData>{ hp: 100, maxHp: 100 }, // Use Health identifier
+  [Health]: <HealthData>{ hp: playerClass.base.hp, maxHp: playerClass.base.hp }, // Use Health identifier
+  // Replaced by the server's values once connected
+  [Stats]: statsAtLevel(playerClass, 1),
+  [Mana]: <ManaData>{ mp: playerClass.base.mp, maxMp: playerClass.base.mp },
   [Collidable]: <CollidableData>{ // Use Collidable identifier
-    // Create BoundingInfo using manual BoundingBox min/max
-    boundingInfo: new BoundingInfo(
-      playerInitialPos.subtract(new Vector3(0.5, 0.5, 0.5)),
-      playerInitialPos.add(new Vector3(0.5, 0.5, 0.5))
-    )
+    // Box centered on the transform, 1x1x1
+    halfExtents: vec3(0.5, 0.5, 0.5),
+    ...collisionFilter("player")
   }
   // --- End ADDED Player Components ---
 });
 
 // --- Add a test enemy ---
-const enemyInitialPos = new Vector3(5, 0.51, 5);
-world.add({
+const enemyInitialPos = vec3(5, 0.51, 5);
+const testEnemy = world.add({
   id: "enemy-test-1",
   // No 'Player' component
-  [Transform]: <TransformData>{ pos: enemyInitialPos.clone() },
-  [Velocity]: <VelocityData>{ vel: new Vector3(0, 0, 0) },
+  [Transform]: <TransformData>{ pos: enemyInitialPos },
+  [Velocity]: <VelocityData>{ vel: vec3() },
   [SpriteRef]: <SpriteRefData>{
-    sheetUrl: "/sprites/enemy.png", // Revert back to enemy sheet
-    cellIndex: 0,
-    cellSize: { width: 64, height: 64 },
+    frame: "enemy/idle/down/0",
     isVisible: true,
     renderSize: { width: 1.5, height: 1.5 }
   },
+  [Animation]: createAnimation(ENEMY_ANIMATIONS),
   [Health]: <HealthData>{ hp: 50, maxHp: 50 }, // Use Health identifier
   [Collidable]: <CollidableData>{ // Use Collidable identifier
-    // Create BoundingInfo using manual BoundingBox min/max
-    boundingInfo: new BoundingInfo(
-      enemyInitialPos.subtract(new Vector3(0.5, 0.5, 0.5)),
-      enemyInitialPos.add(new Vector3(0.5, 0.5, 0.5))
-    )
+    // Box centered on the transform, 1x1x1
+    halfExtents: vec3(0.5, 0.5, 0.5),
+    ...collisionFilter("enemy")
   }
 });
 // --- End Add test enemy ---
 
-// --- Add ECS entities for static boxes ---
-world.add({
-  id: "refBox2-entity", // Unique ID for ECS
-  [Transform]: { pos: box2.position }, // Link to mesh position
-  [Collidable]: { boundingInfo: box2.getBoundingInfo() }
-});
-
-world.add({
-  id: "refBox3-entity",
-  [Transform]: { pos: box3.position },
-  [Collidable]: { boundingInfo: box3.getBoundingInfo() }
-});
-// --- End Add static boxes ---
+/** Renders `next` and has the systems collide against it. */
+function setMap(next: TileMap) {
+  map = next;
+  tileMapRenderer.dispose();
+  tileMapRenderer = new TileMapRenderer(scene, map);
+  movementSystem.setMap(map);
+  predictionSystem.setMap(map);
+  bulletSystem.setMap(map);
+  abilitySystem.setMap(map);
+}
+
+/** Plays in `room`: the Nexus at first, then wherever portals lead. */
+function enterRoom(room: GameRoom) {
+  gameRoom = room;
+  interpolationSystem.attach(room);
+  portalPrompt.attach(room);
+  lootPrompt.attach(room);
+  inventoryPanel.attach(room);
+  vaultPanel.attach(room);
+  tradePanel.attach(room);
+  abilitySystem.attach(room);
+  // Rebuild the room's map from its id and seed, then predict against it
+  let arenas: ArenaDef[] = [];
+  let sealedArenas = "";
+  room.onStateChange.once((state) => {
+    const layout = loadMapLayout(state.mapId, state.mapSeed);
+    arenas = layout.arenas ?? [];
+    setMap(layout.map);
+    predictionSystem.attach(room);
+  });
+  room.onStateChange((state) => {
+    const self = state.players.get(room.sessionId);
+    if (gameRoom === room && self) equippedWeaponId = equippedWeapon(self.inventory);
+    // Close and open arena gates with the server, and redraw the map when they do
+    const sealed = Array.from(state.sealedArenas);
+    if (gameRoom === room && sealed.join() !== sealedArenas) {
+      sealedArenas = sealed.join();
+      arenas.forEach((arena, index) => setArenaSealed(map, arena, sealed.includes(index)));
+      setMap(map);
+    }
+  });
+  // Stats, HP and level arrive with the state; these are just for the show
+  room.onMessage("levelUp", (message: LevelUpMessage) => banner.show(`Level ${message.level}!`));
+  room.onMessage("taunt", (message: TauntMessage) => banner.show(message.text, "#ffb74d"));
+  room.onMessage("death", (message: DeathMessage) => {
+    banner.show(`You died at level ${message.level}\n+${message.fame} fame (${message.totalFame} total)`, "#ff8a80");
+  });
+  // The server reserved a seat for us in the portal's room and already took us out of this one
+  room.onMessage("portal", (reservation: SeatReservation) => {
+    gameRoom = null;
+    predictionSystem.detach();
+    portalPrompt.attach(null);
+    lootPrompt.attach(null);
+    inventoryPanel.attach(null);
+    vaultPanel.attach(null);
+    tradePanel.attach(null);
+    abilitySystem.attach(null);
+    travel(reservation)
+      .then((next) => {
+        room.leave();
+        enterRoom(next);
+      })
+      .catch((error) => console.warn("[Network] Could not travel through the portal:", error));
+  });
+}
+
+// --- Connect to the authoritative server ---
+// Until (or unless) this succeeds, the player moves locally without prediction.
+joinGame()
+  .then((room) => {
+    // Enemies come from the server once connected
+    world.remove(testEnemy);
+    enterRoom(room);
+  })
+  .catch((error) => console.warn("[Network] Could not join the game server, playing offline:", error));
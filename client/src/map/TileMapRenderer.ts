@@ -0,0 +1,130 @@
+import { Scene, Mesh, VertexData, StandardMaterial, Texture, Color3 } from "@babylonjs/core";
+import { type TileMap } from "@rotmg/shared";
+
+const TILE_SHEET_URL = "/sprites/tiles.png";
+const TILE_SHEET_COLUMNS = 4;
+const TILE_SHEET_ROWS = 3;
+const TILE_SHEET_CELL_PX = 16;
+/** Tiles per chunk side; each chunk is one mesh and one draw call. */
+const CHUNK_SIZE = 16;
+/** Flat objects sit just above the ground to avoid z-fighting. */
+const DECAL_Y = 0.01;
+
+/** Vertex data for one chunk, filled quad by quad. */
+type ChunkBuffers = { positions: number[]; indices: number[]; uvs: number[] };
+
+/**
+ * Draws a tile map as a grid of chunk meshes textured from the tile sprite sheet.
+ * Ground tiles and flat objects are quads on the ground; tall objects such as
+ * walls are boxes, with side faces only where they border something lower.
+ */
+export class TileMapRenderer {
+  private chunks: Mesh[] = [];
+  private material: StandardMaterial;
+
+  constructor(scene: Scene, map: TileMap) {
+    const texture = new Texture(TILE_SHEET_URL, scene, true, true, Texture.NEAREST_SAMPLINGMODE);
+    texture.hasAlpha = true; // Trees and rocks are cut out of their cell
+    this.material = new StandardMaterial("tileMapMat", scene);
+    this.material.diffuseTexture = texture;
+    this.material.specularColor = Color3.Black();
+
+    for (let chunkRow = 0; chunkRow < map.height; chunkRow += CHUNK_SIZE) {
+      for (let chunkCol = 0; chunkCol < map.width; chunkCol += CHUNK_SIZE) {
+        this.chunks.push(this.buildChunk(scene, map, chunkCol, chunkRow));
+      }
+    }
+  }
+
+  dispose() {
+    for (const chunk of this.chunks) chunk.dispose();
+    this.chunks = [];
+    this.material.diffuseTexture?.dispose();
+    this.material.dispose();
+  }
+
+  private buildChunk(scene: Scene, map: TileMap, startCol: number, startRow: number): Mesh {
+    const buffers: ChunkBuffers = { positions: [], indices: [], uvs: [] };
+    const size = map.tileSize;
+    const endCol = Math.min(startCol + CHUNK_SIZE, map.width);
+    const endRow = Math.min(startRow + CHUNK_SIZE, map.height);
+
+    for (let row = startRow; row < endRow; row++) {
+      for (let col = startCol; col < endCol; col++) {
+        const x0 = map.tileMinX(col);
+        const z0 = map.tileMinZ(row);
+        const x1 = x0 + size;
+        const z1 = z0 + size;
+        const object = map.getObject(col, row);
+        const height = object?.height ?? 0;
+
+        if (height <= 0) {
+          pushQuad(buffers, map.getGround(col, row)!.sprite, [x0, 0, z0], [x1, 0, z0], [x1, 0, z1], [x0, 0, z1]);
+        }
+        if (!object) continue;
+        if (height <= 0) {
+          pushQuad(buffers, object.sprite, [x0, DECAL_Y, z0], [x1, DECAL_Y, z0], [x1, DECAL_Y, z1], [x0, DECAL_Y, z1]);
+          continue;
+        }
+
+        pushQuad(buffers, object.sprite, [x0, height, z0], [x1, height, z0], [x1, height, z1], [x0, height, z1]);
+        // Sides facing -Z, +X, +Z and -X, skipped where the neighbour is at least as tall
+        if (neighbourHeight(map, col, row - 1) < height) {
+          pushQuad(buffers, object.sprite, [x0, 0, z0], [x1, 0, z0], [x1, height, z0], [x0, height, z0]);
+        }
+        if (neighbourHeight(map, col + 1, row) < height) {
+          pushQuad(buffers, object.sprite, [x1, 0, z0], [x1, 0, z1], [x1, height, z1], [x1, height, z0]);
+        }
+        if (neighbourHeight(map, col, row + 1) < height) {
+          pushQuad(buffers, object.sprite, [x1, 0, z1], [x0, 0, z1], [x0, height, z1], [x1, height, z1]);
+        }
+        if (neighbourHeight(map, col - 1, row) < height) {
+          pushQuad(buffers, object.sprite, [x0, 0, z1], [x0, 0, z0], [x0, height, z0], [x0, height, z1]);
+        }
+      }
+    }
+
+    const normals: number[] = [];
+    VertexData.ComputeNormals(buffers.positions, buffers.indices, normals);
+    const vertexData = new VertexData();
+    vertexData.positions = buffers.positions;
+    vertexData.indices = buffers.indices;
+    vertexData.uvs = buffers.uvs;
+    vertexData.normals = normals;
+
+    const mesh = new Mesh(`tileChunk_${map.id}_${startCol}_${startRow}`, scene);
+    vertexData.applyToMesh(mesh);
+    mesh.material = this.material;
+    mesh.freezeWorldMatrix(); // Static geometry
+    return mesh;
+  }
+}
+
+function neighbourHeight(map: TileMap, col: number, row: number): number {
+  // Map edges count as walls, so the outer faces of the border are never seen
+  if (!map.inBounds(col, row)) return Infinity;
+  return map.getObject(col, row)?.height ?? 0;
+}
+
+type Corner = [number, number, number];
+
+/**
+ * Appends a quad. Corners go bottom left, bottom right, top right, top left of the
+ * sprite cell as seen from the front, which is the side the quad faces.
+ */
+function pushQuad(buffers: ChunkBuffers, sprite: number, a: Corner, b: Corner, c: Corner, d: Corner) {
+  const base = buffers.positions.length / 3;
+  buffers.positions.push(...a, ...b, ...c, ...d);
+  buffers.indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+
+  // Half a texel inset, so neighbouring cells never bleed in at the edges
+  const inset = 0.5 / TILE_SHEET_CELL_PX;
+  const col = sprite % TILE_SHEET_COLUMNS;
+  const row = Math.floor(sprite / TILE_SHEET_COLUMNS);
+  const u0 = (col + inset) / TILE_SHEET_COLUMNS;
+  const u1 = (col + 1 - inset) / TILE_SHEET_COLUMNS;
+  // Textures load with Y inverted: v = 1 is the top row of the sheet
+  const v0 = 1 - (row + 1 - inset) / TILE_SHEET_ROWS;
+  const v1 = 1 - (row + inset) / TILE_SHEET_ROWS;
+  buffers.uvs.push(u0, v0, u1, v0, u1, v1, u0, v1);
+}
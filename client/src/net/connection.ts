@@ -0,0 +1,181 @@
+import { Client, type Room, type SeatReservation } from "colyseus.js";
+import {
+  NEXUS_ROOM,
+  type StatBlock,
+  type AuthResponse,
+  type CharacterSummary,
+  type CharactersResponse,
+  type CreateCharacterRequest,
+  type CredentialsRequest,
+  type JoinOptions,
+} from "@rotmg/shared";
+
+// Default to the Colyseus dev server on the same host
+const SERVER_URL: string = import.meta.env.VITE_SERVER_URL ?? `ws://${window.location.hostname}:2567`;
+
+const client = new Client(SERVER_URL);
+
+// The token is kept across page loads, so players stay signed in
+const TOKEN_KEY = "rotmg.token";
+const savedToken = localStorage.getItem(TOKEN_KEY);
+if (savedToken) client.auth.token = savedToken;
+
+/** Position fields shared by every networked schema. */
+export type EntitySnapshot = {
+  x: number;
+  y: number;
+  z: number;
+};
+
+/** Fields of the server's PlayerState schema that the client reads. */
+export type PlayerSnapshot = EntitySnapshot & {
+  hp: number;
+  maxHp: number;
+  mp: number;
+  maxMp: number;
+  lastProcessedInput: number;
+  classId: string;
+  level: number;
+  xp: number;
+  fame: number;
+  stats: StatBlock;
+  /** ItemDef ids per inventory slot (equipment, then backpack), "" where empty. */
+  inventory: ArrayLike<string>;
+  /** Names of the status effects the player is under. */
+  effects: ArrayLike<string>;
+};
+
+/** Fields of the server's EnemyState schema that the client reads. */
+export type EnemySnapshot = EntitySnapshot & {
+  kind: string;
+  hp: number;
+  maxHp: number;
+  /** Names of the status effects the enemy is under. */
+  effects: ArrayLike<string>;
+};
+
+/** Fields of the server's ProjectileState schema that the client reads. */
+export type ProjectileSnapshot = EntitySnapshot & {
+  vx: number;
+  vz: number;
+  ownerId: string;
+  /** ProjectileDef id, empty for bullets without a path. */
+  projectile: string;
+  angle: number;
+  originX: number;
+  originZ: number;
+  spawnTime: number;
+};
+
+/** Fields of the server's PortalState schema that the client reads. */
+export type PortalSnapshot = EntitySnapshot & {
+  label: string;
+  target: string;
+  /** Server time (ms) the portal closes at, or 0 if it stays open. */
+  closesAt: number;
+};
+
+/** Fields of the server's LootBagState schema that the client reads. */
+export type LootBagSnapshot = EntitySnapshot & {
+  /** BagDef id. */
+  bag: string;
+  /** ItemDef ids. */
+  items: ArrayLike<string>;
+  /** Server time (ms) the bag disappears at. */
+  closesAt: number;
+};
+
+/** Read-only view of a MapSchema. */
+export type SchemaMap<T> = {
+  get(key: string): T | undefined;
+  forEach(callback: (value: T, key: string) => void): void;
+};
+
+/** The parts of the server's MyRoomState that the client reads. */
+export type RoomState = {
+  serverTime: number;
+  /** Map id and seed, for loadMapLayout. */
+  mapId: string;
+  mapSeed: number;
+  /** Indexes of the map layout's arenas a boss fight has sealed. */
+  sealedArenas: ArrayLike<number>;
+  players: SchemaMap<PlayerSnapshot>;
+  enemies: SchemaMap<EnemySnapshot>;
+  projectiles: SchemaMap<ProjectileSnapshot>;
+  portals: SchemaMap<PortalSnapshot>;
+  /** Only the bags this client may loot. */
+  bags: SchemaMap<LootBagSnapshot>;
+  vaultChests: SchemaMap<EntitySnapshot>;
+};
+
+export type GameRoom = Room<RoomState>;
+
+/** Character picked on the character select screen, which joinGame plays. */
+let chosenCharacter: string | null = null;
+
+/** Creates an account and signs in to it. Rejects with the server's reason. */
+export async function register(name: string, password: string): Promise<AuthResponse> {
+  const body: CredentialsRequest = { name, password };
+  return signedIn((await client.http.post("/auth/register", { body })).data as AuthResponse);
+}
+
+/** Signs in to an account. Rejects with the server's reason. */
+export async function login(name: string, password: string): Promise<AuthResponse> {
+  const body: CredentialsRequest = { name, password };
+  return signedIn((await client.http.post("/auth/login", { body })).data as AuthResponse);
+}
+
+function signedIn(response: AuthResponse): AuthResponse {
+  client.auth.token = response.token;
+  localStorage.setItem(TOKEN_KEY, response.token);
+  return response;
+}
+
+export function signOut() {
+  // colyseus.js sends no token while it is empty
+  client.auth.token = "";
+  localStorage.removeItem(TOKEN_KEY);
+}
+
+/** True if a token from an earlier sign-in is around; it may have expired. */
+export function hasToken(): boolean {
+  return !!client.auth.token;
+}
+
+/** The signed-in account's living characters. Rejects with code 401 if not signed in. */
+export async function listCharacters(): Promise<CharacterSummary[]> {
+  return ((await client.http.get("/characters")).data as CharactersResponse).characters;
+}
+
+/** Creates a new character of class `classId` for the signed-in account. */
+export async function createCharacter(classId: string): Promise<CharacterSummary> {
+  const body: CreateCharacterRequest = { classId };
+  return (await client.http.post("/characters", { body })).data as CharacterSummary;
+}
+
+/** Picks the character joinGame plays. */
+export function chooseCharacter(id: string) {
+  chosenCharacter = id;
+}
+
+/**
+ * Connects to the game server and joins (or creates) the Nexus, where every
+ * session starts, playing the chosen character.
+ */
+export async function joinGame(): Promise<GameRoom> {
+  if (!chosenCharacter) throw new Error("No character chosen");
+  const options: JoinOptions = { character: chosenCharacter };
+  const room = await client.joinOrCreate<RoomState>(NEXUS_ROOM, options);
+  console.log(`[Network] Joined ${NEXUS_ROOM} as ${room.sessionId}`);
+  return room;
+}
+
+/**
+ * Takes the seat a portal reserved for us (the server's "portal" message) in
+ * another room. The caller leaves the old room.
+ */
+export async function travel(reservation: SeatReservation): Promise<GameRoom> {
+  const room = await client.consumeSeatReservation<RoomState>(reservation);
+  console.log(`[Network] Traveled to ${reservation.room.name} as ${room.sessionId}`);
+  return room;
+}
@@ -0,0 +1,197 @@
+import { Scene, SpriteManager, Texture } from "@babylonjs/core";
+
+/** Frame every missing frame name falls back to. */
+export const PLACEHOLDER_FRAME = "placeholder";
+const PLACEHOLDER_SIZE = 16; // px
+/** Default pixels per world unit, for sprites without a render size. */
+const PIXELS_PER_UNIT = 64;
+/** Sprites drawn at once, across every sheet. */
+const SPRITE_CAPACITY = 5000;
+
+/** A rectangle of an atlas image, in pixels from its top-left corner. */
+export type AtlasRect = { x: number; y: number; w: number; h: number };
+
+/**
+ * A named frame of an atlas. `pivot` is the point of the frame that sits on the
+ * entity's position, as fractions of its size from the top-left corner; the
+ * default (0.5, 0.5) is the middle.
+ */
+export type AtlasFrame = {
+  frame: AtlasRect;
+  pivot?: { x: number; y: number };
+};
+
+/**
+ * An atlas file: named frames of one image, which is relative to the JSON file.
+ * The layout is TexturePacker's JSON hash format, which Babylon's packed sprite
+ * managers read.
+ */
+export type AtlasData = {
+  meta: { image: string; size: { w: number; h: number }; pixelsPerUnit?: number };
+  frames: Record<string, AtlasFrame>;
+};
+
+/** Where a frame ended up, for the renderer. */
+export type ResolvedFrame = {
+  /** The requested name, or PLACEHOLDER_FRAME if the atlas lacks it. */
+  name: string;
+  /** Native size in world units. */
+  width: number;
+  height: number;
+  pivot: { x: number; y: number };
+};
+
+/**
+ * All sprite sheets of the game packed into one texture with one SpriteManager,
+ * so every sprite draws from the same manager whatever sheet it came from.
+ * Sheets are atlas JSON files; `load` reads them and their images and packs them
+ * into rows, along with a generated placeholder frame. Sprites refer to frames
+ * by name; names no sheet defines log an error once and draw the placeholder.
+ *
+ * Loading is asynchronous: `manager` stays null until every sheet is in.
+ */
+export class SpriteAtlas {
+  manager: SpriteManager | null = null;
+  private scene: Scene;
+  private frames = new Map<string, ResolvedFrame>();
+  private reported = new Set<string>();
+
+  constructor(scene: Scene) {
+    this.scene = scene;
+  }
+
+  get ready(): boolean {
+    return this.manager !== null;
+  }
+
+  /** Reads the atlas files at `urls` and packs them. Rejects if any is missing or malformed. */
+  async load(urls: string[]): Promise<void> {
+    const sheets = await Promise.all(urls.map(loadSheet));
+    const packed = packSheets(sheets);
+    for (const [name, frame] of Object.entries(packed.data.frames)) {
+      const ppu = packed.pixelsPerUnit.get(name) ?? PIXELS_PER_UNIT;
+      this.frames.set(name, {
+        name,
+        width: frame.frame.w / ppu,
+        height: frame.frame.h / ppu,
+        pivot: frame.pivot ?? { x: 0.5, y: 0.5 },
+      });
+    }
+
+    const manager = new SpriteManager(
+      "sm_atlas",
+      packed.image,
+      SPRITE_CAPACITY,
+      PLACEHOLDER_SIZE, // Unused: packed frames carry their own sizes
+      this.scene,
+      undefined,
+      Texture.NEAREST_SAMPLINGMODE,
+      true,
+      JSON.stringify(packed.data),
+    );
+    manager.texture.hasAlpha = true;
+    manager.isPickable = false;
+    this.manager = manager;
+    console.log(`[SpriteAtlas] Packed ${sheets.length} sheets, ${this.frames.size} frames, into ${packed.data.meta.size.w}x${packed.data.meta.size.h}`);
+  }
+
+  /** Frame `name`, or the placeholder (with an error the first time) if no sheet defines it. */
+  resolve(name: string): ResolvedFrame {
+    const frame = this.frames.get(name);
+    if (frame) return frame;
+    if (!this.reported.has(name)) {
+      this.reported.add(name);
+      console.error(`[SpriteAtlas] No sprite sheet defines frame "${name}"; drawing the placeholder instead`);
+    }
+    return this.frames.get(PLACEHOLDER_FRAME)!;
+  }
+}
+
+type LoadedSheet = { url: string; data: AtlasData; image: CanvasImageSource & { width: number; height: number } };
+
+async function loadSheet(url: string): Promise<LoadedSheet> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Sprite atlas "${url}" failed to load: ${response.status}`);
+  const data = await response.json() as AtlasData;
+  if (!data?.meta?.image || typeof data.frames !== "object") {
+    throw new Error(`Sprite atlas "${url}" needs "meta.image" and "frames"`);
+  }
+  for (const [name, frame] of Object.entries(data.frames)) {
+    const { x, y, w, h } = frame.frame ?? {};
+    if (![x, y, w, h].every(Number.isFinite)) throw new Error(`Sprite atlas "${url}" frame "${name}" has no valid rectangle`);
+  }
+
+  const image = new Image();
+  image.src = new URL(data.meta.image, new URL(url, location.href)).href;
+  try {
+    await image.decode();
+  } catch {
+    throw new Error(`Sprite atlas "${url}" image "${data.meta.image}" failed to load`);
+  }
+  return { url, data, image };
+}
+
+/** A magenta and black checkerboard, loud enough to notice. */
+function drawPlaceholder(context: CanvasRenderingContext2D, x: number, y: number) {
+  const half = PLACEHOLDER_SIZE / 2;
+  context.fillStyle = "#ff00ff";
+  context.fillRect(x, y, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+  context.fillStyle = "#000000";
+  context.fillRect(x, y, half, half);
+  context.fillRect(x + half, y + half, half, half);
+}
+
+/**
+ * Draws the sheets' images and the placeholder into one canvas, left to right in
+ * rows as wide as the widest sheet, and moves their frames along. Later sheets
+ * win when two define the same frame name.
+ */
+function packSheets(sheets: LoadedSheet[]): { image: string; data: AtlasData; pixelsPerUnit: Map<string, number> } {
+  const placeholder = { w: PLACEHOLDER_SIZE, h: PLACEHOLDER_SIZE };
+  const boxes = [...sheets.map((sheet) => ({ w: sheet.image.width, h: sheet.image.height })), placeholder];
+  const width = Math.max(...boxes.map((box) => box.w));
+
+  // Tallest first keeps the rows tight
+  const order = boxes.map((_, i) => i).sort((a, b) => boxes[b].h - boxes[a].h);
+  const offsets: { x: number; y: number }[] = [];
+  let x = 0;
+  let y = 0;
+  let rowHeight = 0;
+  for (const i of order) {
+    if (x + boxes[i].w > width) {
+      x = 0;
+      y += rowHeight;
+      rowHeight = 0;
+    }
+    offsets[i] = { x, y };
+    x += boxes[i].w;
+    rowHeight = Math.max(rowHeight, boxes[i].h);
+  }
+  const height = y + rowHeight;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d")!;
+  const frames: Record<string, AtlasFrame> = {};
+  const pixelsPerUnit = new Map<string, number>();
+  sheets.forEach((sheet, i) => {
+    const offset = offsets[i];
+    context.drawImage(sheet.image, offset.x, offset.y);
+    for (const [name, frame] of Object.entries(sheet.data.frames)) {
+      if (frames[name]) console.warn(`[SpriteAtlas] Frame "${name}" of "${sheet.url}" replaces an earlier sheet's`);
+      frames[name] = { ...frame, frame: { ...frame.frame, x: frame.frame.x + offset.x, y: frame.frame.y + offset.y } };
+      pixelsPerUnit.set(name, sheet.data.meta.pixelsPerUnit ?? PIXELS_PER_UNIT);
+    }
+  });
+  const placeholderAt = offsets[sheets.length];
+  drawPlaceholder(context, placeholderAt.x, placeholderAt.y);
+  frames[PLACEHOLDER_FRAME] = { frame: { ...placeholderAt, ...placeholder } };
+  pixelsPerUnit.set(PLACEHOLDER_FRAME, PLACEHOLDER_SIZE);
+
+  return {
+    image: canvas.toDataURL("image/png"),
+    data: { meta: { image: "packed", size: { w: width, h: height } }, frames },
+    pixelsPerUnit,
+  };
+}
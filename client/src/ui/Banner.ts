@@ -0,0 +1,44 @@
+/** Seconds a banner stays up. */
+const BANNER_DURATION = 3;
+
+/**
+ * Big centered text for game events such as leveling up or dying, shown for a
+ * few seconds. A new banner replaces the current one.
+ */
+export class Banner {
+  private element: HTMLDivElement;
+  private timeLeft = 0;
+
+  constructor() {
+    this.element = document.createElement("div");
+    Object.assign(this.element.style, {
+      position: "absolute",
+      top: "30%",
+      left: "50%",
+      transform: "translateX(-50%)",
+      padding: "10px 20px",
+      font: "bold 28px sans-serif",
+      textAlign: "center",
+      whiteSpace: "pre-line",
+      color: "#fff4c2",
+      textShadow: "0 2px 4px rgba(0, 0, 0, 0.8)",
+      pointerEvents: "none",
+      display: "none",
+      zIndex: "10",
+    });
+    document.body.appendChild(this.element);
+  }
+
+  show(text: string, color = "#fff4c2") {
+    this.element.textContent = text;
+    this.element.style.color = color;
+    this.element.style.display = "block";
+    this.timeLeft = BANNER_DURATION;
+  }
+
+  update(dt: number) {
+    if (this.timeLeft <= 0) return;
+    this.timeLeft -= dt;
+    if (this.timeLeft <= 0) this.element.style.display = "none";
+  }
+}
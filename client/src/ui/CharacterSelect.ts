@@ -0,0 +1,161 @@
+import { CLASS_DEFINITIONS, type CharacterSummary } from "@rotmg/shared";
+import {
+  register,
+  login,
+  signOut,
+  hasToken,
+  listCharacters,
+  createCharacter,
+  chooseCharacter,
+} from "../net/connection";
+
+const PANEL_WIDTH = 320; // px
+
+/**
+ * The screen shown before the game starts: sign in or register, then pick one
+ * of the account's characters or create a new one. Players still signed in from
+ * an earlier visit go straight to their characters. Without a server, players
+ * can play offline instead.
+ */
+export class CharacterSelect {
+  private element: HTMLDivElement;
+  private body: HTMLDivElement;
+  private error: HTMLDivElement;
+  private done: () => void = () => {};
+
+  constructor() {
+    this.element = document.createElement("div");
+    Object.assign(this.element.style, {
+      position: "absolute",
+      top: "50%",
+      left: "50%",
+      transform: "translate(-50%, -50%)",
+      width: `${PANEL_WIDTH}px`,
+      padding: "16px",
+      background: "rgba(20, 20, 20, 0.9)",
+      font: "14px sans-serif",
+      color: "#eee",
+      zIndex: "20",
+    });
+    const title = document.createElement("h2");
+    title.textContent = "RotMG Clone";
+    Object.assign(title.style, { margin: "0 0 12px", textAlign: "center" });
+
+    this.body = document.createElement("div");
+    this.error = document.createElement("div");
+    Object.assign(this.error.style, { minHeight: "1.5em", marginTop: "8px", color: "#ff8a80" });
+
+    const offline = button("Play offline", () => this.finish());
+    Object.assign(offline.style, { background: "none", border: "none", color: "#aaa", textDecoration: "underline" });
+
+    this.element.append(title, this.body, this.error, offline);
+  }
+
+  /**
+   * Shows the screen until the player picks a character (see chooseCharacter)
+   * or chooses to play offline.
+   */
+  choose(): Promise<void> {
+    document.body.appendChild(this.element);
+    if (hasToken()) this.showCharacters();
+    else this.showSignIn();
+    return new Promise((resolve) => this.done = resolve);
+  }
+
+  private finish() {
+    this.element.remove();
+    this.done();
+  }
+
+  private showSignIn() {
+    const name = input("text", "Name");
+    const password = input("password", "Password");
+    const submit = (action: typeof login) => this.attempt(async () => {
+      await action(name.value.trim(), password.value);
+      await this.showCharacters();
+    });
+    const buttons = document.createElement("div");
+    Object.assign(buttons.style, { display: "flex", gap: "8px" });
+    buttons.append(button("Log in", () => submit(login)), button("Register", () => submit(register)));
+    password.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") submit(login);
+    });
+    this.body.replaceChildren(name, password, buttons);
+    name.focus();
+  }
+
+  private async showCharacters() {
+    let characters: CharacterSummary[];
+    try {
+      characters = await listCharacters();
+    } catch (error) {
+      // An expired or foreign token: sign in again
+      if ((error as { code?: number }).code === 401) {
+        signOut();
+        this.showSignIn();
+        return;
+      }
+      this.showError(error);
+      this.showSignIn();
+      return;
+    }
+
+    const list = document.createElement("div");
+    for (const character of characters) {
+      const name = CLASS_DEFINITIONS[character.classId]?.name ?? character.classId;
+      list.appendChild(button(`${name} - level ${character.level}`, () => {
+        chooseCharacter(character.id);
+        this.finish();
+      }, true));
+    }
+    if (characters.length === 0) list.textContent = "No characters yet.";
+
+    const classes = document.createElement("select");
+    for (const def of Object.values(CLASS_DEFINITIONS)) classes.add(new Option(def.name, def.id));
+    const create = button("New character", () => this.attempt(async () => {
+      await createCharacter(classes.value);
+      await this.showCharacters();
+    }));
+    const newRow = document.createElement("div");
+    Object.assign(newRow.style, { display: "flex", gap: "8px", marginTop: "12px" });
+    newRow.append(classes, create);
+
+    const leave = button("Sign out", () => {
+      signOut();
+      this.showSignIn();
+    });
+    leave.style.marginTop = "12px";
+    this.body.replaceChildren(list, newRow, leave);
+  }
+
+  /** Runs `action` with the error line cleared, showing why if it fails. */
+  private async attempt(action: () => Promise<void>) {
+    this.error.textContent = "";
+    try {
+      await action();
+    } catch (error) {
+      this.showError(error);
+    }
+  }
+
+  private showError(error: unknown) {
+    const message = error instanceof Error && error.message ? error.message : "Could not reach the server";
+    this.error.textContent = message;
+  }
+}
+
+function input(type: string, placeholder: string): HTMLInputElement {
+  const element = document.createElement("input");
+  element.type = type;
+  element.placeholder = placeholder;
+  Object.assign(element.style, { display: "block", width: "100%", boxSizing: "border-box", marginBottom: "8px" });
+  return element;
+}
+
+function button(text: string, onClick: () => void, wide = false): HTMLButtonElement {
+  const element = document.createElement("button");
+  element.textContent = text;
+  element.addEventListener("click", onClick);
+  if (wide) Object.assign(element.style, { display: "block", width: "100%", marginBottom: "4px" });
+  return element;
+}
@@ -0,0 +1,113 @@
+import {
+  EQUIPMENT_SLOTS,
+  INVENTORY_SIZE,
+  canHold,
+  getItemDefinition,
+  type MoveItemMessage,
+  type DropItemMessage,
+  type UseItemMessage,
+  type VaultMoveMessage,
+} from "@rotmg/shared";
+import { type GameRoom } from "../net/connection";
+import { SLOT_SIZE, itemDrag, createItemSlot, renderItemSlot } from "./ItemSlots";
+
+const COLUMNS = 4;
+
+/**
+ * The local player's equipment and backpack, drawn over the canvas. Items are
+ * dragged between slots to move, swap and equip them, onto the world to drop
+ * them, or to and from the open vault (see VaultPanel); double-clicking a
+ * potion drinks it. The server validates every move and the panel shows the
+ * synced result.
+ */
+export class InventoryPanel {
+  private element: HTMLDivElement;
+  private slots: HTMLDivElement[] = [];
+  /** Item ids currently shown, "" for empty slots. */
+  private shown: string[] = new Array(INVENTORY_SIZE).fill("");
+  private room: GameRoom | null = null;
+
+  constructor() {
+    this.element = document.createElement("div");
+    Object.assign(this.element.style, {
+      position: "absolute",
+      right: "12px",
+      bottom: "12px",
+      display: "none",
+      gridTemplateColumns: `repeat(${COLUMNS}, ${SLOT_SIZE}px)`,
+      gap: "4px",
+      padding: "6px",
+      background: "rgba(20, 20, 20, 0.8)",
+      zIndex: "10",
+    });
+
+    for (let index = 0; index < INVENTORY_SIZE; index++) {
+      // Equipment row stands out from the backpack
+      const slot = createItemSlot(index < EQUIPMENT_SLOTS.length ? "rgba(70, 60, 40, 0.9)" : "rgba(45, 45, 45, 0.9)");
+      slot.addEventListener("dragstart", (e) => {
+        itemDrag.from = { area: "inventory", index };
+        itemDrag.item = this.shown[index];
+        e.dataTransfer?.setData("text/plain", String(index));
+      });
+      slot.addEventListener("dragend", () => itemDrag.from = null);
+      slot.addEventListener("dragover", (e) => {
+        // Only accept drops the server would: the target slot must hold the item and the swap must fit back
+        const from = itemDrag.from;
+        if (!from) return;
+        const fitsBack = from.area === "vault" || canHold(from.index, this.shown[index] || null);
+        if (canHold(index, itemDrag.item || null) && fitsBack) e.preventDefault();
+      });
+      slot.addEventListener("drop", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const from = itemDrag.from;
+        if (!from || (from.area === "inventory" && from.index === index)) return;
+        if (from.area === "inventory") {
+          const message: MoveItemMessage = { from: from.index, to: index };
+          this.room?.send("moveItem", message);
+        } else {
+          const message: VaultMoveMessage = { from, to: { area: "inventory", index } };
+          this.room?.send("vaultMove", message);
+        }
+      });
+      slot.addEventListener("dblclick", () => {
+        const item = this.shown[index];
+        if (!item || getItemDefinition(item).slot !== "consumable") return;
+        const message: UseItemMessage = { slot: index };
+        this.room?.send("useItem", message);
+      });
+      this.slots.push(slot);
+      this.element.appendChild(slot);
+    }
+    document.body.appendChild(this.element);
+
+    // Anywhere outside the panels drops an inventory item on the ground
+    document.addEventListener("dragover", (e) => {
+      if (itemDrag.from?.area === "inventory") e.preventDefault();
+    });
+    document.addEventListener("drop", (e) => {
+      if (itemDrag.from?.area !== "inventory") return;
+      e.preventDefault();
+      const message: DropItemMessage = { slot: itemDrag.from.index };
+      this.room?.send("dropItem", message);
+    });
+  }
+
+  /** Shows the local player's inventory in `room`, or hides the panel while offline or traveling. */
+  attach(room: GameRoom | null) {
+    this.room = room;
+    if (!room) this.element.style.display = "none";
+  }
+
+  update(_dt: number) {
+    const inventory = this.room?.state.players?.get(this.room.sessionId)?.inventory;
+    if (!inventory) return;
+    this.element.style.display = "grid";
+    for (let index = 0; index < INVENTORY_SIZE; index++) {
+      const item = inventory[index] ?? "";
+      if (item === this.shown[index]) continue;
+      this.shown[index] = item;
+      renderItemSlot(this.slots[index], item, index < EQUIPMENT_SLOTS.length ? EQUIPMENT_SLOTS[index] : "");
+    }
+  }
+}
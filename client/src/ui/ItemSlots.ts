@@ -0,0 +1,41 @@
+import { ITEM_DEFINITIONS, type ItemLocation } from "@rotmg/shared";
+
+export const SLOT_SIZE = 44; // px
+/** Slot border color per item tier, from plain to rare. */
+const TIER_COLORS = ["#8a8a8a", "#4caf50", "#9c5ce0", "#e0c040"];
+const EMPTY_BORDER = "#3a3a3a";
+
+/**
+ * The item being dragged, shared by the panels items are dragged between so a
+ * drop can tell where it came from. `from` is null while nothing is dragged.
+ */
+export const itemDrag: { from: ItemLocation | null; item: string } = { from: null, item: "" };
+
+/** An empty item slot with `background`, for a panel's grid. */
+export function createItemSlot(background: string): HTMLDivElement {
+  const slot = document.createElement("div");
+  Object.assign(slot.style, {
+    width: `${SLOT_SIZE}px`,
+    height: `${SLOT_SIZE}px`,
+    boxSizing: "border-box",
+    border: `2px solid ${EMPTY_BORDER}`,
+    background,
+    font: "10px sans-serif",
+    color: "#eee",
+    textAlign: "center",
+    overflow: "hidden",
+    userSelect: "none",
+  });
+  return slot;
+}
+
+/** Shows `item` (an ItemDef id, "" for none) in `slot`; empty slots get `emptyTitle` as tooltip. */
+export function renderItemSlot(slot: HTMLDivElement, item: string, emptyTitle = "") {
+  const def = item ? ITEM_DEFINITIONS[item] : undefined;
+  // textContent, not innerHTML: ids come from the server
+  slot.textContent = def?.name ?? item;
+  slot.title = def ? `${def.name} (T${def.tier} ${def.slot})` : emptyTitle;
+  slot.style.borderColor = def ? TIER_COLORS[Math.min(def.tier, TIER_COLORS.length - 1)] : EMPTY_BORDER;
+  slot.draggable = !!item;
+  slot.style.cursor = item ? "grab" : "default";
+}
@@ -0,0 +1,75 @@
+import { world } from "../ecs/world";
+import { LootBag } from "../ecs/components/LootBag";
+import { Networked } from "../ecs/components/Networked";
+import { Player, Transform, LOOT_PICKUP_RANGE, ITEM_DEFINITIONS, type PickUpMessage } from "@rotmg/shared";
+import { type GameRoom } from "../net/connection";
+
+/**
+ * Lists the items of the loot bag the local player stands on, and asks the
+ * server to move one into the backpack when its number key is pressed.
+ */
+export class LootPrompt {
+  private element: HTMLDivElement;
+  private playerQuery = world.with(Player, Transform);
+  private bagQuery = world.with(LootBag, Networked, Transform);
+  private room: GameRoom | null = null;
+  /** Server id of the bag in reach, if any. */
+  private nearest: string | null = null;
+
+  constructor() {
+    this.element = document.createElement("div");
+    Object.assign(this.element.style, {
+      position: "absolute",
+      bottom: "64px",
+      left: "50%",
+      transform: "translateX(-50%)",
+      padding: "6px 12px",
+      font: "14px sans-serif",
+      color: "#fff4dc",
+      background: "rgba(70, 45, 20, 0.75)",
+      pointerEvents: "none",
+      whiteSpace: "pre",
+      display: "none",
+      zIndex: "10",
+    });
+    document.body.appendChild(this.element);
+
+    window.addEventListener("keydown", (e) => {
+      const slot = Number(e.key);
+      if (!Number.isInteger(slot) || slot < 1 || !this.room || !this.nearest) return;
+      e.preventDefault();
+      const message: PickUpMessage = { bag: this.nearest, index: slot - 1 };
+      this.room.send("pickUp", message);
+    });
+  }
+
+  /** Sends pickup requests to `room`, or nowhere while offline or traveling. */
+  attach(room: GameRoom | null) {
+    this.room = room;
+  }
+
+  update(_dt: number) {
+    const player = this.playerQuery.first;
+    let nearest: (typeof this.bagQuery.entities)[number] | undefined;
+    let nearestDistance = LOOT_PICKUP_RANGE;
+    if (player && this.room) {
+      const pos = player[Transform].pos;
+      for (const bag of this.bagQuery) {
+        const distance = Math.hypot(bag[Transform].pos.x - pos.x, bag[Transform].pos.z - pos.z);
+        if (distance <= nearestDistance) {
+          nearest = bag;
+          nearestDistance = distance;
+        }
+      }
+    }
+
+    this.nearest = nearest ? nearest[Networked].serverId : null;
+    if (!nearest) {
+      this.element.style.display = "none";
+      return;
+    }
+    const lines = nearest[LootBag].items.map((id, index) => `[${index + 1}] ${ITEM_DEFINITIONS[id]?.name ?? id}`);
+    this.element.textContent = lines.join("\n");
+    this.element.style.display = "block";
+  }
+}
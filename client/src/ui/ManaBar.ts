@@ -0,0 +1,56 @@
+import { Player, Mana } from "@rotmg/shared";
+import { world } from "../ecs/world";
+import { AbilitySystem } from "../ecs/systems/AbilitySystem";
+
+const BAR_WIDTH = 180; // px
+
+/**
+ * The local player's MP, at the bottom of the screen. The bar dims while the
+ * ability is cooling down.
+ */
+export class ManaBar {
+  private element: HTMLDivElement;
+  private fill: HTMLDivElement;
+  private label: HTMLDivElement;
+  private abilitySystem: AbilitySystem;
+  private playerQuery = world.with(Player, Mana);
+
+  constructor(abilitySystem: AbilitySystem) {
+    this.abilitySystem = abilitySystem;
+    this.element = document.createElement("div");
+    Object.assign(this.element.style, {
+      position: "absolute",
+      left: "50%",
+      bottom: "12px",
+      transform: "translateX(-50%)",
+      width: `${BAR_WIDTH}px`,
+      height: "16px",
+      background: "rgba(20, 20, 20, 0.8)",
+      border: "1px solid #222",
+      pointerEvents: "none",
+      zIndex: "10",
+    });
+    this.fill = document.createElement("div");
+    Object.assign(this.fill.style, { height: "100%", width: "0", background: "#3f6fd8" });
+    this.label = document.createElement("div");
+    Object.assign(this.label.style, {
+      position: "absolute",
+      inset: "0",
+      font: "bold 11px sans-serif",
+      lineHeight: "16px",
+      textAlign: "center",
+      color: "#fff",
+    });
+    this.element.append(this.fill, this.label);
+    document.body.appendChild(this.element);
+  }
+
+  update(_dt: number) {
+    const player = this.playerQuery.first;
+    if (!player) return;
+    const { mp, maxMp } = player[Mana];
+    this.fill.style.width = `${maxMp > 0 ? Math.max(0, mp / maxMp) * 100 : 0}%`;
+    this.fill.style.opacity = this.abilitySystem.cooldown > 0 ? "0.5" : "1";
+    this.label.textContent = `MP ${Math.floor(mp)} / ${maxMp}`;
+  }
+}
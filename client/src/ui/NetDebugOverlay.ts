@@ -0,0 +1,77 @@
+import { InterpolationSystem } from "../ecs/systems/InterpolationSystem";
+import { BulletSystem } from "../ecs/systems/BulletSystem";
+import { Networked } from "../ecs/components/Networked";
+
+const REFRESH_INTERVAL = 0.25; // seconds
+const TOGGLE_KEY = "F3";
+
+/**
+ * Text overlay listing every networked entity with its snapshot buffer depth,
+ * interpolation delay and sampling mode, plus the bullet pool counters. Toggled with F3.
+ */
+export class NetDebugOverlay {
+  private element: HTMLPreElement;
+  private interpolationSystem: InterpolationSystem;
+  private bulletSystem?: BulletSystem;
+  private visible = false;
+  private refreshTimer = 0;
+
+  constructor(interpolationSystem: InterpolationSystem, bulletSystem?: BulletSystem) {
+    this.interpolationSystem = interpolationSystem;
+    this.bulletSystem = bulletSystem;
+
+    this.element = document.createElement("pre");
+    Object.assign(this.element.style, {
+      position: "absolute",
+      top: "8px",
+      left: "8px",
+      margin: "0",
+      padding: "6px 8px",
+      font: "12px monospace",
+      color: "#e0e0e0",
+      background: "rgba(0, 0, 0, 0.6)",
+      pointerEvents: "none",
+      display: "none",
+      zIndex: "10",
+    });
+    document.body.appendChild(this.element);
+
+    window.addEventListener("keydown", (e) => {
+      if (e.key === TOGGLE_KEY) {
+        e.preventDefault();
+        this.visible = !this.visible;
+        this.element.style.display = this.visible ? "block" : "none";
+        this.refreshTimer = 0;
+      }
+    });
+  }
+
+  update(dt: number) {
+    if (!this.visible) return;
+    this.refreshTimer -= dt;
+    if (this.refreshTimer > 0) return;
+    this.refreshTimer = REFRESH_INTERVAL;
+
+    const { delayMs, maxExtrapolationMs } = this.interpolationSystem.config;
+    const lines = [`interp delay ${delayMs}ms  max extrapolation ${maxExtrapolationMs}ms`];
+    if (this.bulletSystem) {
+      const pool = this.bulletSystem.poolCounters;
+      lines.push(`bullet pool  active ${pool.active}  free ${pool.free}  capacity ${pool.capacity}  high-water ${pool.highWater}`);
+      for (const [kind, counters] of Object.entries(pool.byKind)) {
+        lines.push(
+          `  ${kind.padEnd(8)} ${counters.active}/${counters.budget}  high-water ${counters.highWater}  rejected ${counters.rejected}`
+        );
+      }
+    }
+    lines.push(`${"entity".padEnd(24)} ${"kind".padEnd(10)} depth  delay(ms)  mode`);
+    for (const entity of this.interpolationSystem.networkedEntities) {
+      const networked = entity[Networked];
+      const delay = Number.isFinite(networked.lastDelayMs) ? networked.lastDelayMs.toFixed(0) : "-";
+      lines.push(
+        `${networked.serverId.padEnd(24)} ${networked.kind.padEnd(10)} ${String(networked.buffer.depth).padStart(5)}  ${delay.padStart(9)}  ${networked.lastSample}`
+      );
+    }
+    // textContent, not innerHTML: ids come from the server
+    this.element.textContent = lines.join("\n");
+  }
+}
@@ -0,0 +1,81 @@
+import { world } from "../ecs/world";
+import { Portal } from "../ecs/components/Portal";
+import { Networked } from "../ecs/components/Networked";
+import { InterpolationSystem } from "../ecs/systems/InterpolationSystem";
+import { Player, Transform, PORTAL_USE_RANGE, type UsePortalMessage } from "@rotmg/shared";
+import { type GameRoom } from "../net/connection";
+
+const USE_KEY = "Enter";
+
+/**
+ * Shows the portal the local player stands next to, with its countdown if it
+ * closes, and asks the server to use it when Enter is pressed.
+ */
+export class PortalPrompt {
+  private element: HTMLDivElement;
+  private interpolationSystem: InterpolationSystem;
+  private playerQuery = world.with(Player, Transform);
+  private portalQuery = world.with(Portal, Networked, Transform);
+  private room: GameRoom | null = null;
+  /** Server id of the portal in reach, if any. */
+  private nearest: string | null = null;
+
+  constructor(interpolationSystem: InterpolationSystem) {
+    this.interpolationSystem = interpolationSystem;
+
+    this.element = document.createElement("div");
+    Object.assign(this.element.style, {
+      position: "absolute",
+      bottom: "24px",
+      left: "50%",
+      transform: "translateX(-50%)",
+      padding: "6px 12px",
+      font: "14px sans-serif",
+      color: "#f0e6ff",
+      background: "rgba(40, 20, 70, 0.75)",
+      pointerEvents: "none",
+      display: "none",
+      zIndex: "10",
+    });
+    document.body.appendChild(this.element);
+
+    window.addEventListener("keydown", (e) => {
+      if (e.key !== USE_KEY || !this.room || !this.nearest) return;
+      e.preventDefault();
+      const message: UsePortalMessage = { id: this.nearest };
+      this.room.send("usePortal", message);
+    });
+  }
+
+  /** Sends portal requests to `room`, or nowhere while offline or traveling. */
+  attach(room: GameRoom | null) {
+    this.room = room;
+  }
+
+  update(_dt: number) {
+    const player = this.playerQuery.first;
+    let nearest: (typeof this.portalQuery.entities)[number] | undefined;
+    let nearestDistance = PORTAL_USE_RANGE;
+    if (player && this.room) {
+      const pos = player[Transform].pos;
+      for (const portal of this.portalQuery) {
+        const distance = Math.hypot(portal[Transform].pos.x - pos.x, portal[Transform].pos.z - pos.z);
+        if (distance <= nearestDistance) {
+          nearest = portal;
+          nearestDistance = distance;
+        }
+      }
+    }
+
+    this.nearest = nearest ? nearest[Networked].serverId : null;
+    if (!nearest) {
+      this.element.style.display = "none";
+      return;
+    }
+    const { label, closesAt } = nearest[Portal];
+    const secondsLeft = closesAt > 0 ? Math.max(0, Math.ceil((closesAt - this.interpolationSystem.renderTime) / 1000)) : 0;
+    // textContent, not innerHTML: labels come from the server
+    this.element.textContent = `[Enter] ${label}${closesAt > 0 ? ` (closes in ${secondsLeft}s)` : ""}`;
+    this.element.style.display = "block";
+  }
+}
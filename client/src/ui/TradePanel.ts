@@ -0,0 +1,273 @@
+import { world } from "../ecs/world";
+import { Networked } from "../ecs/components/Networked";
+import {
+  Player,
+  Transform,
+  EQUIPMENT_SLOTS,
+  BACKPACK_SIZE,
+  TRADE_RANGE,
+  TRADE_REQUEST_LIFETIME,
+  type TradeRequestMessage,
+  type TradeRequestedMessage,
+  type TradeOfferMessage,
+  type ConfirmTradeMessage,
+  type TradeMessage,
+  type TradeClosedMessage,
+  type TradeCloseReason,
+} from "@rotmg/shared";
+import { type GameRoom } from "../net/connection";
+import { Banner } from "./Banner";
+import { SLOT_SIZE, createItemSlot, renderItemSlot } from "./ItemSlots";
+
+const REQUEST_KEY = "t";
+const ACCEPT_KEY = "y";
+const COLUMNS = 4;
+/** Highlight of backpack slots in the player's offer. */
+const OFFERED_BACKGROUND = "rgba(40, 90, 60, 0.9)";
+const SLOT_BACKGROUND = "rgba(45, 45, 45, 0.9)";
+
+/** Banner shown when a trade ends, by reason. */
+const CLOSE_TEXT: Record<TradeCloseReason, string> = {
+  completed: "Trade complete",
+  cancelled: "Trade cancelled",
+  distance: "Trade cancelled: too far apart",
+  death: "Trade cancelled: a player died",
+  left: "Trade cancelled: the other player left",
+  noRoom: "Trade failed: not enough room",
+  failed: "Trade failed",
+};
+
+/**
+ * Trading with other players: a prompt to ask the nearest player in reach, a
+ * prompt to accept a request, and the trade window. In the window the player
+ * clicks backpack items to add them to or take them from their offer, and
+ * sees the other player's. Both confirm twice: "Ready" once happy with the
+ * offers, then "Confirm" once the other player is ready too; any change to an
+ * offer starts both over. The server does the swap and says how it ended.
+ */
+export class TradePanel {
+  private prompt: HTMLDivElement;
+  private element: HTMLDivElement;
+  private mySlots: HTMLDivElement[] = [];
+  private theirSlots: HTMLDivElement[] = [];
+  private status: HTMLDivElement;
+  private confirmButton: HTMLButtonElement;
+  private banner: Banner;
+  private playerQuery = world.with(Player, Transform);
+  private othersQuery = world.with(Networked, Transform);
+  private room: GameRoom | null = null;
+  /** Session id of the nearest other player in reach, if any. */
+  private nearest: string | null = null;
+  /** The last request to this player: who asked, and seconds left to accept. */
+  private request: { from: string; timeLeft: number } | null = null;
+  /** The open trade as the server last sent it, if any. */
+  private trade: TradeMessage | null = null;
+  /** Backpack items the window shows, to redraw it when they change. */
+  private shownBackpack = "";
+
+  constructor(banner: Banner) {
+    this.banner = banner;
+
+    this.prompt = document.createElement("div");
+    Object.assign(this.prompt.style, {
+      position: "absolute",
+      bottom: "104px",
+      left: "50%",
+      transform: "translateX(-50%)",
+      padding: "6px 12px",
+      font: "14px sans-serif",
+      color: "#dcf4ff",
+      background: "rgba(20, 50, 70, 0.75)",
+      pointerEvents: "none",
+      display: "none",
+      zIndex: "10",
+    });
+    document.body.appendChild(this.prompt);
+
+    this.element = document.createElement("div");
+    Object.assign(this.element.style, {
+      position: "absolute",
+      top: "50%",
+      left: "50%",
+      transform: "translate(-50%, -50%)",
+      display: "none",
+      padding: "8px",
+      font: "12px sans-serif",
+      color: "#dcf4ff",
+      background: "rgba(20, 30, 40, 0.9)",
+      zIndex: "11",
+    });
+
+    const columns = document.createElement("div");
+    Object.assign(columns.style, { display: "flex", gap: "12px" });
+    columns.append(
+      this.offerColumn("Your offer (click to pick)", this.mySlots, (offset) => this.toggle(EQUIPMENT_SLOTS.length + offset)),
+      this.offerColumn("Their offer", this.theirSlots),
+    );
+    this.element.appendChild(columns);
+
+    this.status = document.createElement("div");
+    this.status.style.margin = "6px 0";
+    this.element.appendChild(this.status);
+
+    this.confirmButton = document.createElement("button");
+    this.confirmButton.addEventListener("click", () => this.confirm());
+    const cancelButton = document.createElement("button");
+    cancelButton.textContent = "Cancel";
+    cancelButton.style.marginLeft = "6px";
+    cancelButton.addEventListener("click", () => this.room?.send("cancelTrade"));
+    this.element.append(this.confirmButton, cancelButton);
+    document.body.appendChild(this.element);
+
+    window.addEventListener("keydown", (e) => {
+      if (!this.room || this.trade) return;
+      const key = e.key.toLowerCase();
+      if (key === ACCEPT_KEY && this.request) {
+        e.preventDefault();
+        const message: TradeRequestMessage = { player: this.request.from };
+        this.room.send("acceptTrade", message);
+        this.request = null;
+      } else if (key === REQUEST_KEY && this.nearest) {
+        e.preventDefault();
+        const message: TradeRequestMessage = { player: this.nearest };
+        this.room.send("requestTrade", message);
+        this.banner.show("Trade requested", "#9fd8ff");
+      }
+    });
+  }
+
+  /** Trades in `room`, or closes the window while offline or traveling. */
+  attach(room: GameRoom | null) {
+    this.room = room;
+    this.request = null;
+    this.trade = null;
+    this.element.style.display = "none";
+    if (!room) return;
+    room.onMessage("tradeRequested", (message: TradeRequestedMessage) => {
+      if (this.room === room) this.request = { from: message.from, timeLeft: TRADE_REQUEST_LIFETIME };
+    });
+    room.onMessage("trade", (message: TradeMessage) => {
+      if (this.room !== room) return;
+      this.trade = message;
+      this.request = null;
+      this.render();
+    });
+    room.onMessage("tradeClosed", (message: TradeClosedMessage) => {
+      if (this.room !== room) return;
+      this.trade = null;
+      this.element.style.display = "none";
+      this.banner.show(CLOSE_TEXT[message.reason] ?? CLOSE_TEXT.failed, message.reason === "completed" ? "#9fffb0" : "#ff9f9f");
+    });
+  }
+
+  update(dt: number) {
+    if (this.request) {
+      this.request.timeLeft -= dt;
+      if (this.request.timeLeft <= 0) this.request = null;
+    }
+
+    const player = this.playerQuery.first;
+    let nearest: string | null = null;
+    let nearestDistance = TRADE_RANGE;
+    if (player && this.room) {
+      const pos = player[Transform].pos;
+      for (const other of this.othersQuery) {
+        if (other[Networked].kind !== "player") continue;
+        const distance = Math.hypot(other[Transform].pos.x - pos.x, other[Transform].pos.z - pos.z);
+        if (distance <= nearestDistance) {
+          nearest = other[Networked].serverId;
+          nearestDistance = distance;
+        }
+      }
+    }
+    this.nearest = nearest;
+
+    if (this.trade) {
+      this.prompt.style.display = "none";
+      // The backpack syncs separately from the trade messages
+      if (this.backpackKey() !== this.shownBackpack) this.render();
+    } else if (this.request) {
+      this.prompt.textContent = `Trade request (${Math.ceil(this.request.timeLeft)}s): [${ACCEPT_KEY.toUpperCase()}] accept`;
+      this.prompt.style.display = "block";
+    } else if (this.nearest) {
+      this.prompt.textContent = `[${REQUEST_KEY.toUpperCase()}] Trade`;
+      this.prompt.style.display = "block";
+    } else {
+      this.prompt.style.display = "none";
+    }
+  }
+
+  private offerColumn(title: string, slots: HTMLDivElement[], onClick?: (offset: number) => void): HTMLDivElement {
+    const column = document.createElement("div");
+    const heading = document.createElement("div");
+    heading.textContent = title;
+    heading.style.marginBottom = "4px";
+    const grid = document.createElement("div");
+    Object.assign(grid.style, { display: "grid", gridTemplateColumns: `repeat(${COLUMNS}, ${SLOT_SIZE}px)`, gap: "4px" });
+    for (let offset = 0; offset < BACKPACK_SIZE; offset++) {
+      const slot = createItemSlot(SLOT_BACKGROUND);
+      if (onClick) slot.addEventListener("click", () => onClick(offset));
+      slots.push(slot);
+      grid.appendChild(slot);
+    }
+    column.append(heading, grid);
+    return column;
+  }
+
+  /** Adds backpack slot `index` to the offer, or takes it out. */
+  private toggle(index: number) {
+    if (!this.trade || !this.backpackItem(index)) return;
+    const offered = this.trade.mine.slots;
+    const slots = offered.includes(index) ? offered.filter((slot) => slot !== index) : [...offered, index];
+    const message: TradeOfferMessage = { slots };
+    this.room?.send("tradeOffer", message);
+  }
+
+  /** Takes the next confirmation step for the offers as shown. */
+  private confirm() {
+    if (!this.trade) return;
+    const step = this.trade.mine.confirmed + 1;
+    if (step > 2) return;
+    const message: ConfirmTradeMessage = { step: step as 1 | 2, revision: this.trade.revision };
+    this.room?.send("confirmTrade", message);
+  }
+
+  private backpackItem(index: number): string {
+    return this.room?.state.players?.get(this.room.sessionId)?.inventory[index] ?? "";
+  }
+
+  private backpackKey(): string {
+    return Array.from({ length: BACKPACK_SIZE }, (_, offset) => this.backpackItem(EQUIPMENT_SLOTS.length + offset)).join(",");
+  }
+
+  private render() {
+    const trade = this.trade;
+    if (!trade) return;
+    this.shownBackpack = this.backpackKey();
+    this.mySlots.forEach((slot, offset) => {
+      const index = EQUIPMENT_SLOTS.length + offset;
+      renderItemSlot(slot, this.backpackItem(index));
+      // Offers are picked by clicking, not dragging
+      slot.draggable = false;
+      slot.style.cursor = "pointer";
+      slot.style.background = trade.mine.slots.includes(index) ? OFFERED_BACKGROUND : SLOT_BACKGROUND;
+    });
+    this.theirSlots.forEach((slot, offset) => {
+      renderItemSlot(slot, trade.theirs.items[offset] ?? "");
+      slot.draggable = false;
+      slot.style.cursor = "default";
+    });
+
+    const { mine, theirs } = trade;
+    const state = (confirmed: number) => ["choosing", "ready", "confirmed"][confirmed];
+    this.status.textContent = `You: ${state(mine.confirmed)}, them: ${state(theirs.confirmed)}`;
+    if (mine.confirmed === 0) {
+      this.confirmButton.textContent = "Ready";
+      this.confirmButton.disabled = false;
+    } else {
+      this.confirmButton.textContent = mine.confirmed === 2 ? "Waiting..." : "Confirm";
+      this.confirmButton.disabled = mine.confirmed === 2 || theirs.confirmed === 0;
+    }
+    this.element.style.display = "block";
+  }
+}
@@ -0,0 +1,195 @@
+import { world } from "../ecs/world";
+import { VaultChest } from "../ecs/components/VaultChest";
+import { Networked } from "../ecs/components/Networked";
+import {
+  Player,
+  Transform,
+  VAULT_USE_RANGE,
+  VAULT_PAGE_SIZE,
+  VAULT_PAGES,
+  canHold,
+  type OpenVaultMessage,
+  type VaultMoveMessage,
+  type VaultMessage,
+} from "@rotmg/shared";
+import { type GameRoom } from "../net/connection";
+import { SLOT_SIZE, itemDrag, createItemSlot, renderItemSlot } from "./ItemSlots";
+
+const OPEN_KEY = "v";
+const CLOSE_KEY = "Escape";
+const COLUMNS = 4;
+
+/**
+ * The account vault: a prompt next to a vault chest, and once opened a window
+ * of the vault's items a page at a time. Items are dragged between it and the
+ * InventoryPanel; the server stores each move before it applies and answers
+ * with the vault's new contents. Walking away from the chest closes it.
+ */
+export class VaultPanel {
+  private prompt: HTMLDivElement;
+  private element: HTMLDivElement;
+  private pageLabel: HTMLSpanElement;
+  private slots: HTMLDivElement[] = [];
+  private playerQuery = world.with(Player, Transform);
+  private chestQuery = world.with(VaultChest, Networked, Transform);
+  private room: GameRoom | null = null;
+  /** Server id of the chest in reach, if any. */
+  private nearest: string | null = null;
+  /** The open vault as the server last sent it, if any. */
+  private vault: VaultMessage | null = null;
+  private page = 0;
+
+  constructor() {
+    this.prompt = document.createElement("div");
+    Object.assign(this.prompt.style, {
+      position: "absolute",
+      bottom: "24px",
+      left: "50%",
+      transform: "translateX(-50%)",
+      padding: "6px 12px",
+      font: "14px sans-serif",
+      color: "#fff4dc",
+      background: "rgba(70, 45, 20, 0.75)",
+      pointerEvents: "none",
+      display: "none",
+      zIndex: "10",
+    });
+    this.prompt.textContent = `[${OPEN_KEY.toUpperCase()}] Open vault`;
+    document.body.appendChild(this.prompt);
+
+    this.element = document.createElement("div");
+    Object.assign(this.element.style, {
+      position: "absolute",
+      right: "12px",
+      bottom: "180px",
+      display: "none",
+      padding: "6px",
+      font: "12px sans-serif",
+      color: "#fff4dc",
+      background: "rgba(50, 35, 20, 0.85)",
+      zIndex: "10",
+    });
+
+    const header = document.createElement("div");
+    Object.assign(header.style, { display: "flex", alignItems: "center", gap: "6px", marginBottom: "4px" });
+    const title = document.createElement("span");
+    title.textContent = "Vault";
+    title.style.flex = "1";
+    this.pageLabel = document.createElement("span");
+    header.append(
+      title,
+      button("<", () => this.turnPage(-1)),
+      this.pageLabel,
+      button(">", () => this.turnPage(1)),
+      button("x", () => this.close(true)),
+    );
+    this.element.appendChild(header);
+
+    const grid = document.createElement("div");
+    Object.assign(grid.style, { display: "grid", gridTemplateColumns: `repeat(${COLUMNS}, ${SLOT_SIZE}px)`, gap: "4px" });
+    for (let offset = 0; offset < VAULT_PAGE_SIZE; offset++) {
+      const slot = createItemSlot("rgba(60, 45, 30, 0.9)");
+      const index = () => this.page * VAULT_PAGE_SIZE + offset;
+      slot.addEventListener("dragstart", (e) => {
+        itemDrag.from = { area: "vault", index: index() };
+        itemDrag.item = this.vault?.items[index()] ?? "";
+        e.dataTransfer?.setData("text/plain", String(index()));
+      });
+      slot.addEventListener("dragend", () => itemDrag.from = null);
+      slot.addEventListener("dragover", (e) => {
+        // Vault slots hold anything; a swapped item must fit back in the inventory slot
+        const from = itemDrag.from;
+        if (!from) return;
+        if (from.area === "vault" || canHold(from.index, this.vault?.items[index()] ?? null)) e.preventDefault();
+      });
+      slot.addEventListener("drop", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const from = itemDrag.from;
+        if (!from || (from.area === "vault" && from.index === index())) return;
+        const message: VaultMoveMessage = { from, to: { area: "vault", index: index() } };
+        this.room?.send("vaultMove", message);
+      });
+      this.slots.push(slot);
+      grid.appendChild(slot);
+    }
+    this.element.appendChild(grid);
+    document.body.appendChild(this.element);
+
+    window.addEventListener("keydown", (e) => {
+      if (e.key === CLOSE_KEY && this.vault) {
+        e.preventDefault();
+        this.close(true);
+        return;
+      }
+      if (e.key.toLowerCase() !== OPEN_KEY || this.vault || !this.room || !this.nearest) return;
+      e.preventDefault();
+      const message: OpenVaultMessage = { chest: this.nearest };
+      this.room.send("openVault", message);
+    });
+  }
+
+  /** Opens vaults in `room`, or closes the window while offline or traveling. */
+  attach(room: GameRoom | null) {
+    this.close(false);
+    this.room = room;
+    if (!room) return;
+    room.onMessage("vault", (message: VaultMessage) => {
+      if (this.room !== room) return;
+      this.vault = message;
+      this.render();
+    });
+    room.onMessage("closeVault", () => {
+      if (this.room === room) this.close(false);
+    });
+  }
+
+  update(_dt: number) {
+    const player = this.playerQuery.first;
+    let nearest: (typeof this.chestQuery.entities)[number] | undefined;
+    let nearestDistance = VAULT_USE_RANGE;
+    let openInReach = false;
+    if (player && this.room) {
+      const pos = player[Transform].pos;
+      for (const chest of this.chestQuery) {
+        const distance = Math.hypot(chest[Transform].pos.x - pos.x, chest[Transform].pos.z - pos.z);
+        if (distance > VAULT_USE_RANGE) continue;
+        if (chest[Networked].serverId === this.vault?.chest) openInReach = true;
+        if (distance <= nearestDistance) {
+          nearest = chest;
+          nearestDistance = distance;
+        }
+      }
+    }
+
+    if (this.vault && !openInReach) this.close(true);
+    this.nearest = nearest ? nearest[Networked].serverId : null;
+    this.prompt.style.display = this.nearest && !this.vault ? "block" : "none";
+  }
+
+  private turnPage(step: number) {
+    this.page = (this.page + step + VAULT_PAGES) % VAULT_PAGES;
+    this.render();
+  }
+
+  /** Hides the window, telling the server when it was the player's doing. */
+  private close(tellServer: boolean) {
+    if (this.vault && tellServer) this.room?.send("closeVault");
+    this.vault = null;
+    this.element.style.display = "none";
+  }
+
+  private render() {
+    if (!this.vault) return;
+    this.pageLabel.textContent = `${this.page + 1}/${VAULT_PAGES}`;
+    this.slots.forEach((slot, offset) => renderItemSlot(slot, this.vault!.items[this.page * VAULT_PAGE_SIZE + offset] ?? ""));
+    this.element.style.display = "block";
+  }
+}
+
+function button(label: string, onClick: () => void): HTMLButtonElement {
+  const element = document.createElement("button");
+  element.textContent = label;
+  element.addEventListener("click", onClick);
+  return element;
+}
@@ -6,13 +6,27 @@ import { playground } from "@colyseus/playground";
  * Import your Room files
  */
 import { MyRoom } from "./rooms/MyRoom";
+import { NexusRoom } from "./rooms/NexusRoom";
+import { RealmRoom } from "./rooms/RealmRoom";
+import { DungeonRoom } from "./rooms/DungeonRoom";
+import { NEXUS_ROOM, REALM_ROOM, DUNGEON_ROOM } from "@rotmg/shared";
+import { useStorage } from "./persistence/Storage";
+import { FileStorage } from "./persistence/FileStorage";
+import { accountRoutes } from "./auth/routes";
 
 export default config({
 
     initializeGameServer: (gameServer) => {
+        // Accounts and characters; tests swap in a MemoryStorage
+        useStorage(new FileStorage(process.env.DATA_FILE ?? "data/storage.json"));
+
         /**
          * Define your room handlers:
          */
+        gameServer.define(NEXUS_ROOM, NexusRoom);
+        gameServer.define(REALM_ROOM, RealmRoom);
+        // Created by dungeon portals, one instance per portal
+        gameServer.define(DUNGEON_ROOM, DungeonRoom);
         gameServer.define('my_room', MyRoom);
 
     },
@@ -22,6 +36,9 @@ export default config({
          * Bind your custom express routes here:
          * Read more: https://expressjs.com/en/starter/basic-routing.html
          */
+        // Register, login and character select
+        app.use(accountRoutes());
+
         app.get("/hello_world", (req, res) => {
             res.send("It's time to kick ass and chew bubblegum!");
         });
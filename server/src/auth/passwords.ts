@@ -0,0 +1,25 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+const KEY_LENGTH = 64;
+
+/** A password as stored: its scrypt hash and the random salt it was hashed with, both hex. */
+export type PasswordHash = { hash: string; salt: string };
+
+function derive(password: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/** Hashes `password` with a fresh salt. */
+export async function hashPassword(password: string): Promise<PasswordHash> {
+  const salt = randomBytes(16).toString("hex");
+  return { hash: (await derive(password, salt)).toString("hex"), salt };
+}
+
+/** True if `password` is the one `stored` was made from. Takes as long whether it is or not. */
+export async function verifyPassword(password: string, stored: PasswordHash): Promise<boolean> {
+  const key = await derive(password, stored.salt);
+  const expected = Buffer.from(stored.hash, "hex");
+  return expected.length === key.length && timingSafeEqual(key, expected);
+}
@@ -0,0 +1,26 @@
+import { type Request, type Response, type NextFunction } from "express";
+
+/**
+ * Express middleware letting each client IP make `limit` requests per window of
+ * `windowSeconds`; the rest get a 429 until the window is over.
+ */
+export function rateLimit(limit: number, windowSeconds: number) {
+  const windows = new Map<string, { count: number; endsAt: number }>();
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const key = req.ip ?? "";
+    let window = windows.get(key);
+    if (!window || window.endsAt <= now) {
+      // Forget finished windows, so the map only holds recent clients
+      for (const [ip, old] of windows) if (old.endsAt <= now) windows.delete(ip);
+      window = { count: 0, endsAt: now + windowSeconds * 1000 };
+      windows.set(key, window);
+    }
+    if (++window.count > limit) {
+      res.set("Retry-After", String(Math.ceil((window.endsAt - now) / 1000)));
+      res.status(429).json({ error: "Too many requests, try again later" });
+      return;
+    }
+    next();
+  };
+}
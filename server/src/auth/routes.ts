@@ -0,0 +1,113 @@
+import { randomUUID } from "crypto";
+import express, { type Request, type Response, type NextFunction, type RequestHandler, type Router } from "express";
+import { getBearerToken } from "@colyseus/core";
+import {
+  ACCOUNT_NAME_PATTERN,
+  MIN_PASSWORD_LENGTH,
+  CLASS_DEFINITIONS,
+  type AuthResponse,
+  type CharacterSummary,
+  type CharactersResponse,
+} from "@rotmg/shared";
+import { getStorage, type AccountRecord, type CharacterRecord } from "../persistence/Storage";
+import { newCharacter } from "../rooms/character";
+import { hashPassword, verifyPassword } from "./passwords";
+import { rateLimit } from "./rateLimit";
+import { signToken, verifyToken } from "./tokens";
+
+/** Register and login attempts each client IP may make per AUTH_RATE_WINDOW seconds. */
+export const AUTH_RATE_LIMIT = 10;
+export const AUTH_RATE_WINDOW = 60;
+/** Longest password accepted, so hashing stays cheap. */
+const MAX_PASSWORD_LENGTH = 128;
+
+/** Checked against on logins to unknown names, so those take as long as wrong passwords. */
+const DECOY_PASSWORD = hashPassword(randomUUID());
+
+/**
+ * HTTP routes for accounts and characters:
+ *
+ * - POST /auth/register and POST /auth/login take a name and password and
+ *   answer with an AuthResponse, whose token signs the player in.
+ * - GET /characters lists the signed-in account's living characters, and POST
+ *   /characters creates one; both need the token as a Bearer Authorization header.
+ *
+ * Errors answer with `{ error }` and a 4xx status. Register and login are rate
+ * limited per client IP.
+ */
+export function accountRoutes(): Router {
+  const router = express.Router();
+  router.use(express.json());
+  const limited = rateLimit(AUTH_RATE_LIMIT, AUTH_RATE_WINDOW);
+
+  router.post("/auth/register", limited, route(async (req, res) => {
+    const { name, password } = req.body ?? {};
+    if (typeof name !== "string" || !ACCOUNT_NAME_PATTERN.test(name)) {
+      return fail(res, 400, "Names are 3 to 16 letters, digits and underscores");
+    }
+    if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+      return fail(res, 400, `Passwords are ${MIN_PASSWORD_LENGTH} to ${MAX_PASSWORD_LENGTH} characters`);
+    }
+    const account: AccountRecord = { id: randomUUID(), name, password: await hashPassword(password), fame: 0 };
+    if (!await getStorage().createAccount(account)) return fail(res, 409, "That name is taken");
+    res.status(201).json(authResponse(account));
+  }));
+
+  router.post("/auth/login", limited, route(async (req, res) => {
+    const { name, password } = req.body ?? {};
+    if (typeof name !== "string" || typeof password !== "string" || password.length > MAX_PASSWORD_LENGTH) {
+      return fail(res, 400, "Name and password required");
+    }
+    const account = await getStorage().findAccount(name);
+    const matches = await verifyPassword(password, account?.password ?? await DECOY_PASSWORD);
+    if (!account || !matches) return fail(res, 401, "Wrong name or password");
+    res.json(authResponse(account));
+  }));
+
+  router.get("/characters", signedIn, route(async (_req, res) => {
+    const characters = await getStorage().listCharacters(res.locals.accountId);
+    const response: CharactersResponse = { characters: characters.map(summaryOf) };
+    res.json(response);
+  }));
+
+  router.post("/characters", signedIn, route(async (req, res) => {
+    const classId = req.body?.classId;
+    if (typeof classId !== "string" || !CLASS_DEFINITIONS[classId]) return fail(res, 400, "Unknown class");
+    const character: CharacterRecord = { ...newCharacter(classId), id: randomUUID(), accountId: res.locals.accountId };
+    await getStorage().saveCharacter(character);
+    res.status(201).json(summaryOf(character));
+  }));
+
+  return router;
+}
+
+function authResponse(account: AccountRecord): AuthResponse {
+  return { token: signToken(account.id), account: { id: account.id, name: account.name, fame: account.fame } };
+}
+
+function summaryOf(character: CharacterRecord): CharacterSummary {
+  const { id, classId, level, xp, inventory } = character;
+  return { id, classId, level, xp, inventory };
+}
+
+function fail(res: Response, status: number, error: string) {
+  res.status(status).json({ error });
+}
+
+/** Lets only requests with a valid token through, with its account id in `res.locals.accountId`. */
+function signedIn(req: Request, res: Response, next: NextFunction) {
+  const accountId = verifyToken(getBearerToken(req.headers.authorization ?? ""));
+  if (!accountId) return fail(res, 401, "Sign in first");
+  res.locals.accountId = accountId;
+  next();
+}
+
+/** Express 4 does not catch rejected handlers; this answers them with a 500. */
+function route(handler: (req: Request, res: Response) => Promise<void>): RequestHandler {
+  return (req, res) => {
+    handler(req, res).catch((error) => {
+      console.error(`${req.method} ${req.path} failed:`, error);
+      if (!res.headersSent) fail(res, 500, "Something went wrong");
+    });
+  };
+}
@@ -0,0 +1,36 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/** Seconds a token stays valid. */
+export const TOKEN_LIFETIME = 7 * 24 * 60 * 60;
+
+// Set AUTH_SECRET to keep tokens valid across restarts
+const SECRET = process.env.AUTH_SECRET ?? randomBytes(32).toString("hex");
+
+type TokenClaims = { account: string; expires: number };
+
+function sign(payload: string): string {
+  return createHmac("sha256", SECRET).update(payload).digest("base64url");
+}
+
+/** A token for account `accountId`: its claims and their HMAC, "<claims>.<signature>". */
+export function signToken(accountId: string, now = Date.now()): string {
+  const claims: TokenClaims = { account: accountId, expires: now + TOKEN_LIFETIME * 1000 };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+/** Account id a token was signed for, or null if it is malformed, forged or expired. */
+export function verifyToken(token: unknown, now = Date.now()): string | null {
+  if (typeof token !== "string") return null;
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return null;
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as TokenClaims;
+    return typeof claims.account === "string" && claims.expires > now ? claims.account : null;
+  } catch {
+    return null;
+  }
+}
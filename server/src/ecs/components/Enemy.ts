@@ -0,0 +1,18 @@
+import { type DamageTracker } from "@rotmg/shared";
+
+/**
+ * Tag data for hostile, server-controlled entities.
+ */
+export type EnemyData = {
+  /** Enemy type, sent to clients so they can pick a sprite. */
+  kind: string;
+  /** Bosses drop portals and other rewards when they die. */
+  boss?: boolean;
+  /** Damage each player dealt, to share out the kill's experience. */
+  damageTaken: DamageTracker;
+};
+
+/**
+ * Component identifier for Enemy.
+ */
+export const Enemy = "enemy";
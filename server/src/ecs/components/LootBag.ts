@@ -0,0 +1,19 @@
+/**
+ * Items lying on the ground after a kill, until someone takes them or the bag
+ * disappears.
+ */
+export type LootBagData = {
+  /** BagDef id; clients draw the bag with its sprite. */
+  bag: string;
+  /** ItemDef ids, at most LOOT_BAG_SIZE. */
+  items: string[];
+  /** Session ids of the players who may see and loot a soulbound bag; anyone if undefined. */
+  owners?: string[];
+  /** Seconds until the bag disappears. */
+  timeLeft: number;
+};
+
+/**
+ * Component identifier for LootBag.
+ */
+export const LootBag = "lootBag";
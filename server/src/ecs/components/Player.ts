@@ -0,0 +1,83 @@
+import { type Vec3, type InputCommand, type StatBlock, type StatName, type Inventory, type MapPoint, type Vault, type TradeOffer } from "@rotmg/shared";
+
+/** A stat raised for a while by an ability. */
+export type StatBuff = { stat: StatName; amount: number; timeLeft: number };
+
+/** The account vault a player has open at a chest. */
+export type OpenVault = {
+  /** Entity id of the chest. */
+  chest: string;
+  /** The stored vault as of `version`. */
+  items: Vault;
+  version: number;
+  /** The move being stored, if any; the inventory stays locked until it settles. */
+  pending: Promise<void> | null;
+};
+
+/**
+ * A trade between two players, shared by both of their PlayerData. Index 0 is
+ * the player who asked for it, in `players`, `offers` and `confirmed` alike.
+ */
+export type Trade = {
+  /** Session ids. */
+  players: [string, string];
+  offers: [TradeOffer, TradeOffer];
+  /** Confirmation step each player reached; see ConfirmTradeMessage. */
+  confirmed: [0 | 1 | 2, 0 | 1 | 2];
+  /** Counts the changes to the offers, so confirmations apply to the offers the player saw. */
+  revision: number;
+  /** The swap being stored, if any; nothing can cancel the trade meanwhile. */
+  pending: Promise<void> | null;
+};
+
+/**
+ * Server-side player data: who controls the entity and the input it sent.
+ */
+export type PlayerData = {
+  /** Colyseus session that owns this entity. */
+  sessionId: string;
+  /** Account and character the player is saved to; guests are not saved. */
+  accountId?: string;
+  characterId?: string;
+  /** Owner of the claim on the character (see claimCharacter), released when the player leaves. */
+  claim?: string;
+  /** Received input commands not processed yet, in arrival order. */
+  inputQueue: InputCommand[];
+  /** Sequence number of the last processed command, echoed to the client for reconciliation. */
+  lastProcessedInput: number;
+  /** Seconds of input the player may still consume; grows with simulation time so
+   *  clients cannot move faster by sending more (or longer) commands. */
+  inputBudget: number;
+  /** Normalized XZ aim direction of a requested shot, consumed by the next tick. */
+  pendingShot: Vec3 | null;
+  /** Seconds until the player may fire again. */
+  fireCooldown: number;
+  /** Ground point of a requested ability cast, consumed by the next tick. */
+  pendingCast: MapPoint | null;
+  /** Seconds until the player may cast their ability again. */
+  abilityCooldown: number;
+  /** Stat buffs from abilities still running; the Stats component includes them. */
+  buffs: StatBuff[];
+  /** Id of the character's ClassDef. */
+  classId: string;
+  level: number;
+  /** Total experience of the character; see levelForXp. */
+  xp: number;
+  /** Fame the player's dead characters earned. */
+  fame: number;
+  /** Stats from the class and level, before equipment; the Stats component adds the equipment. */
+  baseStats: StatBlock;
+  /** Equipped items and backpack; the equipped weapon decides what the player fires. */
+  inventory: Inventory;
+  /** Vault the player has open, if any. */
+  vault: OpenVault | null;
+  /** Trade the player is in, if any; the inventory stays locked while it lasts. */
+  trade: Trade | null;
+  /** Shots fired so far, for spinning patterns. */
+  shotsFired: number;
+};
+
+/**
+ * Component identifier for Player.
+ */
+export const Player = "player";
@@ -0,0 +1,20 @@
+/**
+ * A doorway to another room. Players standing next to it can ask to use it.
+ */
+export type PortalData = {
+  /** Name of the room type it leads to. */
+  target: string;
+  /** Shown to players next to the portal. */
+  label: string;
+  /** DungeonDef id, for portals into a dungeon instance. */
+  dungeon?: string;
+  /** Dungeon instance the portal leads to, once someone has used it. */
+  roomId?: string;
+  /** Seconds until the portal closes; never closes if undefined. */
+  timeLeft?: number;
+};
+
+/**
+ * Component identifier for Portal.
+ */
+export const Portal = "portal";
@@ -0,0 +1,10 @@
+/**
+ * Tag data for vault chests. Every chest opens the vault of whoever uses it, so
+ * chests hold nothing themselves.
+ */
+export type VaultChestData = Record<string, never>;
+
+/**
+ * Component identifier for VaultChest.
+ */
+export const VaultChest = "vaultChest";
@@ -0,0 +1,85 @@
+import {
+  Transform,
+  Health,
+  Mana,
+  checkCast,
+  equippedAbility,
+  getAbilityDefinition,
+  getPatternDefinition,
+  applyStatusEffect,
+  type AbilityDef,
+  type MapPoint,
+  type TileMap,
+} from "@rotmg/shared";
+import { type Entity, type GameWorld } from "../world";
+import { Player } from "../components/Player";
+import { BulletSystem } from "./BulletSystem";
+
+/**
+ * Casts the abilities players asked for, with the same rules as shots: the
+ * client only sends the target point, and the equipped ability, MP cost,
+ * cooldown and range are checked here (see checkCast). Refused casts are
+ * dropped. Also counts down ability cooldowns and stat buffs; `onStatsChanged`
+ * is called when a player's buffs change, so the room can recompute its stats.
+ */
+export class AbilitySystem {
+  private players;
+  private bulletSystem: BulletSystem;
+  private map: TileMap;
+  private onStatsChanged: (entity: Entity) => void;
+
+  constructor(world: GameWorld, bulletSystem: BulletSystem, map: TileMap, onStatsChanged: (entity: Entity) => void) {
+    this.players = world.with(Player, Transform, Health, Mana);
+    this.bulletSystem = bulletSystem;
+    this.map = map;
+    this.onStatsChanged = onStatsChanged;
+  }
+
+  update(dt: number) {
+    for (const entity of this.players) {
+      const player = entity[Player];
+      player.abilityCooldown = Math.max(0, player.abilityCooldown - dt);
+
+      const buffCount = player.buffs.length;
+      for (const buff of player.buffs) buff.timeLeft -= dt;
+      player.buffs = player.buffs.filter((buff) => buff.timeLeft > 0);
+      if (player.buffs.length !== buffCount) this.onStatsChanged(entity);
+
+      const target = player.pendingCast;
+      player.pendingCast = null;
+      const abilityId = equippedAbility(player.inventory);
+      if (!target || !abilityId) continue;
+      const ability = getAbilityDefinition(abilityId);
+      const mana = entity[Mana];
+      if (checkCast(ability, entity[Transform].pos, mana.mp, player.abilityCooldown, target, this.map)) continue;
+
+      mana.mp -= ability.mpCost;
+      player.abilityCooldown = ability.cooldown;
+      this.cast(entity, ability, target);
+    }
+  }
+
+  private cast(entity: Entity & Required<Pick<Entity, "player" | "transform" | "health">>, ability: AbilityDef, target: MapPoint) {
+    const effect = ability.effect;
+    switch (effect.type) {
+      case "spellBomb":
+        this.bulletSystem.firePattern(entity, getPatternDefinition(effect.pattern), 0, 0, target);
+        break;
+      case "heal":
+        entity.health.hp = Math.min(entity.health.maxHp, entity.health.hp + effect.amount);
+        break;
+      case "buff":
+        entity.player.buffs.push({ stat: effect.stat, amount: effect.amount, timeLeft: effect.duration });
+        this.onStatsChanged(entity);
+        break;
+      case "teleport":
+        entity.transform.pos.x = target.x;
+        entity.transform.pos.z = target.z;
+        break;
+      case "status":
+        if (!entity.statusEffects) break;
+        for (const application of effect.effects) applyStatusEffect(entity.statusEffects, application);
+        break;
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { BossScript, EnemyAI, Transform, updateBossPhases, type BossEvent, type With } from "@rotmg/shared";
+import { type Entity, type GameWorld } from "../world";
+import { Player } from "../components/Player";
+
+export type BossEntity = With<Entity, "bossScript" | "enemyAI" | "transform">;
+
+/**
+ * Runs the scripts of bosses (enemies whose definition has `boss`) against the
+ * players. Runs before EnemyAISystem so a new phase's AI state applies the same
+ * tick; what the scripts ask for (lockdowns, taunts, minions) goes to `onEvent`.
+ * Only players `engages` accepts wake a boss, by coming near or while it gets hurt.
+ */
+export class BossSystem {
+  private bosses;
+  private targets;
+  private onEvent: (boss: BossEntity, event: BossEvent) => void;
+  private engages: (boss: BossEntity, player: Entity) => boolean;
+
+  constructor(world: GameWorld, onEvent: (boss: BossEntity, event: BossEvent) => void, engages: (boss: BossEntity, player: Entity) => boolean) {
+    this.bosses = world.with(BossScript, EnemyAI, Transform);
+    this.targets = world.with(Player, Transform);
+    this.onEvent = onEvent;
+    this.engages = engages;
+  }
+
+  update(dt: number) {
+    updateBossPhases(this.bosses, this.targets, dt, this.onEvent, this.engages);
+  }
+}
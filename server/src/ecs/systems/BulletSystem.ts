@@ -0,0 +1,122 @@
+import {
+  Bullet,
+  Transform,
+  Velocity,
+  type PatternDef,
+  type ProjectileDef,
+  type ProjectileSpawn,
+  type ProjectileOwner,
+  type MapPoint,
+  type PoolCounters,
+  type Vec3,
+  type TileMap,
+  EntityPool,
+  PROJECTILE_BUDGETS,
+  createProjectile,
+  expandPattern,
+  advanceProjectiles,
+  tickBulletLifespans,
+  findWallImpacts,
+} from "@rotmg/shared";
+import { type Entity, type GameWorld } from "../world";
+
+/** A later burst of a pattern, waiting for its delay to pass. */
+type DelayedSpawn = { shooter: Entity; spawn: ProjectileSpawn; delay: number; origin?: MapPoint };
+
+/**
+ * Spawns projectiles from bullet patterns, moves them along their shared paths
+ * and despawns them when they hit a wall or their lifespan runs out.
+ * Projectile entities are pooled, with separate budgets for player and enemy shots.
+ */
+export class BulletSystem {
+  private world: GameWorld;
+  private map: TileMap;
+  private bullets;
+  private pool = new EntityPool<Entity, ProjectileOwner>({
+    budgets: PROJECTILE_BUDGETS,
+    create: () => ({ id: "" }),
+  });
+  private delayed: DelayedSpawn[] = [];
+  private nextBulletId = 0;
+
+  constructor(world: GameWorld, map: TileMap) {
+    this.world = world;
+    this.map = map;
+    this.bullets = world.with(Bullet, Transform, Velocity);
+  }
+
+  /** Pool counters, for diagnostics and tests. */
+  get poolCounters(): PoolCounters<ProjectileOwner> {
+    return this.pool.counters();
+  }
+
+  /**
+   * Fires one trigger pull of `pattern` from `shooter`. Later bursts are fired from
+   * wherever the shooter is by then, and dropped if it is gone.
+   * @param aimAngle Aim heading in radians (see `aimAngle`).
+   * @param volley Times the shooter fired this pattern before, for spinning patterns.
+   * @param origin Fire from this point instead of the shooter, like a spell bomb's target.
+   */
+  firePattern(shooter: Entity, pattern: PatternDef, aimAngle: number, volley = 0, origin?: MapPoint) {
+    if (!shooter.transform) return;
+    for (const spawn of expandPattern(pattern, aimAngle, volley)) {
+      if (spawn.delay > 0) {
+        this.delayed.push({ shooter, spawn, delay: spawn.delay, origin });
+      } else {
+        this.fireSpawn(shooter, spawn, origin);
+      }
+    }
+  }
+
+  /**
+   * Adds a single projectile entity, or returns undefined if `owner` is over budget.
+   * @param firedBy The entity ID that fired the projectile.
+   * @param owner Which budget the projectile counts against.
+   * @param position Shooter position; the projectile starts slightly ahead of it.
+   * @param angle Heading in radians.
+   * @param attack Shooter's attack stat, if it has stats; scales the damage.
+   */
+  fireProjectile(firedBy: string, owner: ProjectileOwner, position: Vec3, angle: number, def: ProjectileDef, attack?: number): Entity | undefined {
+    const entity = this.pool.acquire(owner);
+    if (!entity) return undefined;
+    // Fresh id per shot: clients must not mistake a reused entity for the old projectile
+    Object.assign(entity, createProjectile(def, firedBy, owner, position, angle, attack), { id: `bullet_${this.nextBulletId++}` });
+    return this.world.add(entity);
+  }
+
+  /**
+   * Removes a bullet from the world and returns it to the pool.
+   */
+  returnBullet(entity: Entity) {
+    if (!this.pool.isActive(entity)) return;
+    this.world.remove(entity);
+    this.pool.release(entity);
+  }
+
+  update(dt: number) {
+    for (let i = this.delayed.length - 1; i >= 0; i--) {
+      const pending = this.delayed[i];
+      pending.delay -= dt;
+      if (pending.delay > 0) continue;
+      this.delayed.splice(i, 1);
+      const shooter = pending.shooter;
+      if (!this.world.has(shooter)) continue;
+      this.fireSpawn(shooter, pending.spawn, pending.origin);
+    }
+    this.pool.update(dt);
+
+    advanceProjectiles(this.bullets, dt);
+    findWallImpacts(this.bullets, this.map, dt, (entity) => this.returnBullet(entity));
+    tickBulletLifespans(this.bullets, dt, (entity) => this.returnBullet(entity));
+  }
+
+  private fireSpawn(shooter: Entity, spawn: ProjectileSpawn, origin?: MapPoint) {
+    if (!shooter.transform) return;
+    const position = origin ? { x: origin.x, y: shooter.transform.pos.y, z: origin.z } : shooter.transform.pos;
+    this.fireProjectile(shooter.id, ownerOf(shooter), position, spawn.angle, spawn.projectile, shooter.stats?.attack);
+  }
+}
+
+function ownerOf(shooter: Entity): ProjectileOwner {
+  return shooter.player ? "player" : "enemy";
+}
@@ -0,0 +1,34 @@
+import { Bullet, Collidable, Transform, SpatialHash, resolveBulletHits, type CollisionBroadphase } from "@rotmg/shared";
+import { type Entity, type GameWorld } from "../world";
+import { BulletSystem } from "./BulletSystem";
+
+/**
+ * Resolves bullet hits against collidable entities using the shared collision rules.
+ * Damage is applied there, and recorded on enemies for kill credit; what happens
+ * on death is up to the room.
+ */
+export class CollisionSystem {
+  private bullets;
+  private targets;
+  /** Broad-phase grid, rebuilt from the targets every tick. */
+  private broadphase: CollisionBroadphase = new SpatialHash();
+  private bulletSystem: BulletSystem;
+  private onDeath: (entity: Entity) => void;
+
+  constructor(world: GameWorld, bulletSystem: BulletSystem, onDeath: (entity: Entity) => void) {
+    this.bullets = world.with(Bullet, Collidable, Transform);
+    this.targets = world.with(Collidable, Transform);
+    this.bulletSystem = bulletSystem;
+    this.onDeath = onDeath;
+  }
+
+  update(_dt: number) {
+    resolveBulletHits(this.bullets, this.targets, (bullet, target, killed, consumed, dealt) => {
+      target.enemy?.damageTaken.record(String(bullet[Bullet].firedBy), dealt);
+      if (consumed) this.bulletSystem.returnBullet(bullet);
+      if (killed) {
+        this.onDeath(target);
+      }
+    }, this.broadphase);
+  }
+}
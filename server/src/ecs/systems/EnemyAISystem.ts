@@ -0,0 +1,29 @@
+import { EnemyAI, Transform, Velocity, updateEnemyAI, type Random } from "@rotmg/shared";
+import { type GameWorld } from "../world";
+import { BulletSystem } from "./BulletSystem";
+import { Player } from "../components/Player";
+
+/**
+ * Drives enemies with the shared, data-driven AI. Players are the only targets.
+ * Runs before MovementSystem so the chosen velocities apply the same tick;
+ * attacks fire their patterns through the BulletSystem.
+ */
+export class EnemyAISystem {
+  private enemies;
+  private targets;
+  private random: Random;
+  private bulletSystem: BulletSystem;
+
+  constructor(world: GameWorld, bulletSystem: BulletSystem, random: Random) {
+    this.enemies = world.with(EnemyAI, Transform, Velocity);
+    this.targets = world.with(Player, Transform);
+    this.random = random;
+    this.bulletSystem = bulletSystem;
+  }
+
+  update(dt: number) {
+    updateEnemyAI(this.enemies, this.targets, dt, this.random, (enemy, pattern, angle, volley) => {
+      this.bulletSystem.firePattern(enemy, pattern, angle, volley);
+    });
+  }
+}
@@ -0,0 +1,24 @@
+import { type GameWorld } from "../world";
+import { LootBag } from "../components/LootBag";
+
+/**
+ * Removes loot bags once they are empty or their lifetime runs out.
+ */
+export class LootBagSystem {
+  private world: GameWorld;
+  private bags;
+
+  constructor(world: GameWorld) {
+    this.world = world;
+    this.bags = world.with(LootBag);
+  }
+
+  update(dt: number) {
+    // Queries iterate in reverse, so removing the current entity is safe
+    for (const entity of this.bags) {
+      const bag = entity[LootBag];
+      bag.timeLeft -= dt;
+      if (bag.timeLeft <= 0 || bag.items.length === 0) this.world.remove(entity);
+    }
+  }
+}
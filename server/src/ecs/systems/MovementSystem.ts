@@ -0,0 +1,23 @@
+import { Transform, Velocity, Bullet, integrateMovement, type TileMap } from "@rotmg/shared";
+import { type GameWorld } from "../world";
+import { Player } from "../components/Player";
+
+/**
+ * Integrates velocity into position for every moving entity.
+ * Players are excluded: they move by replaying input commands in PlayerControlSystem.
+ * So are bullets, which follow their pattern paths in BulletSystem.
+ * Walkers slide along the map's walls.
+ */
+export class MovementSystem {
+  private movingQuery;
+  private map: TileMap;
+
+  constructor(world: GameWorld, map: TileMap) {
+    this.movingQuery = world.with(Transform, Velocity).without(Player, Bullet);
+    this.map = map;
+  }
+
+  update(dt: number) {
+    integrateMovement(this.movingQuery, dt, this.map);
+  }
+}
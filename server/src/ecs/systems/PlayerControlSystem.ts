@@ -0,0 +1,85 @@
+import {
+  Transform,
+  Velocity,
+  Stats,
+  applyInputCommand,
+  moveSpeed,
+  fireCooldown,
+  aimAngle,
+  getWeaponDefinition,
+  equippedWeapon,
+  getPatternDefinition,
+  activeStatusEffects,
+  statusSpeedFactor,
+  statusAllowsFiring,
+  type TileMap,
+} from "@rotmg/shared";
+import { type GameWorld } from "../world";
+import { Player } from "../components/Player";
+import { BulletSystem } from "./BulletSystem";
+
+/** Cap on banked input time, so a lag spike can be caught up but not exploited. */
+const MAX_INPUT_BUDGET = 0.25; // seconds
+/** Cap on queued commands per player; extra ones are dropped. */
+export const MAX_QUEUED_INPUTS = 64;
+
+/**
+ * Replays each player's queued input commands and handles their shots.
+ * Clients only send intent (keys, camera yaw, frame time, aim); movement speed, total
+ * movement time, wall collision and the equipped weapon's pattern and fire rate are
+ * enforced here. Speed and fire rate follow the player's speed and dexterity stats,
+ * and status effects can slow or root players and keep them from firing; players
+ * with no weapon equipped cannot fire.
+ */
+export class PlayerControlSystem {
+  private players;
+  private bulletSystem: BulletSystem;
+  private map: TileMap;
+
+  constructor(world: GameWorld, bulletSystem: BulletSystem, map: TileMap) {
+    this.players = world.with(Player, Transform, Velocity, Stats);
+    this.bulletSystem = bulletSystem;
+    this.map = map;
+  }
+
+  update(dt: number) {
+    for (const entity of this.players) {
+      const player = entity[Player];
+      const pos = entity[Transform].pos;
+      const vel = entity[Velocity].vel;
+      const stats = entity[Stats];
+      const effects = activeStatusEffects(entity.statusEffects);
+      const speed = moveSpeed(stats.speed) * statusSpeedFactor(effects);
+
+      player.inputBudget = Math.min(player.inputBudget + dt, MAX_INPUT_BUDGET);
+      // Packets can arrive out of order; process by sequence and drop anything stale.
+      player.inputQueue.sort((a, b) => a.seq - b.seq);
+      while (player.inputQueue.length > 0) {
+        const cmd = player.inputQueue[0];
+        if (cmd.seq <= player.lastProcessedInput) {
+          player.inputQueue.shift();
+          continue;
+        }
+        if (cmd.dt > player.inputBudget) break; // Wait for the simulation to catch up
+
+        player.inputQueue.shift();
+        player.inputBudget -= cmd.dt;
+        const dir = applyInputCommand(pos, cmd, speed, this.map);
+        // Players are moved by commands, not integration; velocity records intent
+        vel.x = dir.x * speed;
+        vel.z = dir.z * speed;
+        player.lastProcessedInput = cmd.seq;
+      }
+
+      player.fireCooldown = Math.max(0, player.fireCooldown - dt);
+      const weaponId = equippedWeapon(player.inventory);
+      if (player.pendingShot && weaponId && player.fireCooldown <= 0 && statusAllowsFiring(effects)) {
+        const weapon = getWeaponDefinition(weaponId);
+        const angle = aimAngle(player.pendingShot.x, player.pendingShot.z);
+        this.bulletSystem.firePattern(entity, getPatternDefinition(weapon.pattern), angle, player.shotsFired++);
+        player.fireCooldown = fireCooldown(weapon.cooldown, stats.dexterity);
+      }
+      player.pendingShot = null;
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { type GameWorld } from "../world";
+import { Portal } from "../components/Portal";
+
+/**
+ * Counts down the lifetime of temporary portals and removes them when it runs out.
+ */
+export class PortalSystem {
+  private world: GameWorld;
+  private portals;
+
+  constructor(world: GameWorld) {
+    this.world = world;
+    this.portals = world.with(Portal);
+  }
+
+  update(dt: number) {
+    // Queries iterate in reverse, so removing the current entity is safe
+    for (const entity of this.portals) {
+      const portal = entity[Portal];
+      if (portal.timeLeft === undefined) continue;
+      portal.timeLeft -= dt;
+      if (portal.timeLeft <= 0) this.world.remove(entity);
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { Health, Mana, Stats, hpRegen, mpRegen } from "@rotmg/shared";
+import { type GameWorld } from "../world";
+
+/**
+ * Heals every living entity with stats by its vitality, up to its max HP, and
+ * refills MP by wisdom, up to its max MP.
+ */
+export class RegenSystem {
+  private entities;
+  private casters;
+
+  constructor(world: GameWorld) {
+    this.entities = world.with(Health, Stats);
+    this.casters = world.with(Mana, Stats);
+  }
+
+  update(dt: number) {
+    for (const entity of this.entities) {
+      const health = entity[Health];
+      if (health.hp <= 0 || health.hp >= health.maxHp) continue;
+      health.hp = Math.min(health.maxHp, health.hp + hpRegen(entity[Stats].vitality) * dt);
+    }
+    for (const entity of this.casters) {
+      const mana = entity[Mana];
+      if (mana.mp >= mana.maxMp) continue;
+      mana.mp = Math.min(mana.maxMp, mana.mp + mpRegen(entity[Stats].wisdom) * dt);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { Transform, Velocity, Health, Bullet, Stats, activeStatusEffects, type BulletData } from "@rotmg/shared";
+import { type Entity, type GameWorld } from "../world";
+import { Player } from "../components/Player";
+import { Enemy } from "../components/Enemy";
+import { Portal, type PortalData } from "../components/Portal";
+import { LootBag, type LootBagData } from "../components/LootBag";
+import { VaultChest } from "../components/VaultChest";
+import {
+  MyRoomState,
+  EntityState,
+  PlayerState,
+  EnemyState,
+  ProjectileState,
+  PortalState,
+  LootBagState,
+} from "../../rooms/schema/MyRoomState";
+import { MapSchema, ArraySchema, type StateView } from "@colyseus/schema";
+import { type Query } from "miniplex";
+
+/** Keeps one schema map in step with one query. */
+type Mirror = { update(): void };
+
+/**
+ * Mirrors simulation entities into the room's schema state.
+ * Schema entries are created/deleted as entities enter/leave the queries,
+ * and their fields are copied from the components once per tick.
+ *
+ * Loot bags are only sent to the clients allowed to see them: every client
+ * for public bags, the owners for soulbound ones. `viewOf` gives a player's
+ * StateView by session id.
+ */
+export class StateSyncSystem {
+  private mirrors: Mirror[];
+  private players;
+  private bags;
+  private state: MyRoomState;
+  private viewOf: (sessionId: string) => StateView | undefined;
+
+  constructor(world: GameWorld, state: MyRoomState, viewOf: (sessionId: string) => StateView | undefined) {
+    this.players = world.with(Player);
+    this.bags = world.with(LootBag, Transform);
+    this.state = state;
+    this.viewOf = viewOf;
+    this.mirrors = [
+      mirror(world.with(Player, Transform, Health, Stats), state.players, (entity) => new PlayerState().assign({ classId: entity[Player].classId }), (schema, entity) => {
+        schema.hp = entity[Health].hp;
+        schema.maxHp = entity[Health].maxHp;
+        schema.mp = entity.mana?.mp ?? 0;
+        schema.maxMp = entity.mana?.maxMp ?? 0;
+        schema.lastProcessedInput = entity[Player].lastProcessedInput;
+        schema.level = entity[Player].level;
+        schema.xp = entity[Player].xp;
+        schema.fame = entity[Player].fame;
+        syncList(schema.inventory, entity[Player].inventory.map((item) => item ?? ""));
+        syncList(schema.effects, activeStatusEffects(entity.statusEffects));
+        // Only changed fields are sent
+        schema.stats.assign(entity[Stats]);
+      }),
+      mirror(world.with(Enemy, Transform, Health), state.enemies, (entity) => new EnemyState().assign({ kind: entity[Enemy].kind }), (schema, entity) => {
+        schema.hp = entity[Health].hp;
+        schema.maxHp = entity[Health].maxHp;
+        syncList(schema.effects, activeStatusEffects(entity.statusEffects));
+      }),
+      mirror(world.with(Bullet, Transform, Velocity), state.projectiles, (entity) => createProjectileState(entity[Bullet], state.serverTime), (schema, entity) => {
+        schema.vx = entity[Velocity].vel.x;
+        schema.vz = entity[Velocity].vel.z;
+      }),
+      // Portals do not change once open; closesAt lets clients show the countdown
+      mirror(world.with(Portal, Transform), state.portals, (entity) => createPortalState(entity[Portal], state.serverTime), () => {}),
+      mirror(world.with(VaultChest, Transform), state.vaultChests, () => new EntityState(), () => {}),
+      mirror(this.bags, state.bags, (entity) => createLootBagState(entity[LootBag], state.serverTime), (schema, entity) => {
+        syncList(schema.items, entity[LootBag].items);
+      }),
+    ];
+  }
+
+  update(_dt: number) {
+    for (const m of this.mirrors) m.update();
+    this.updateViews();
+  }
+
+  /** Adds bags to the views of the players who may see them and do not yet. */
+  private updateViews() {
+    for (const player of this.players) {
+      const view = this.viewOf(player[Player].sessionId);
+      if (!view) continue;
+      for (const entity of this.bags) {
+        const schema = this.state.bags.get(entity.id);
+        const owners = entity[LootBag].owners;
+        if (!schema || view.has(schema)) continue;
+        if (!owners || owners.includes(player[Player].sessionId)) view.add(schema);
+      }
+    }
+  }
+}
+
+/** Copies `values` into `list`, touching only the entries that changed. */
+function syncList(list: ArraySchema<string>, values: readonly string[]) {
+  for (let i = 0; i < values.length; i++) {
+    if (i >= list.length) list.push(values[i]);
+    else if (list[i] !== values[i]) list[i] = values[i];
+  }
+  if (list.length > values.length) list.splice(values.length);
+}
+
+function createProjectileState(bullet: BulletData, serverTime: number): ProjectileState {
+  const schema = new ProjectileState().assign({ ownerId: String(bullet.firedBy) });
+  const motion = bullet.motion;
+  if (motion) {
+    // serverTime is stamped after the tick's systems ran, so subtracting the age
+    // gives the time the projectile's path started from.
+    schema.assign({
+      projectile: motion.def.id,
+      angle: motion.angle,
+      originX: motion.origin.x,
+      originZ: motion.origin.z,
+      spawnTime: serverTime - motion.age * 1000,
+    });
+  }
+  return schema;
+}
+
+function createPortalState(portal: PortalData, serverTime: number): PortalState {
+  return new PortalState().assign({
+    label: portal.label,
+    target: portal.target,
+    closesAt: portal.timeLeft === undefined ? 0 : serverTime + portal.timeLeft * 1000,
+  });
+}
+
+function createLootBagState(bag: LootBagData, serverTime: number): LootBagState {
+  return new LootBagState().assign({ bag: bag.bag, closesAt: serverTime + bag.timeLeft * 1000 });
+}
+
+function mirror<E extends Entity & { transform: NonNullable<Entity["transform"]> }, S extends EntityState>(
+  query: Query<E>,
+  map: MapSchema<S>,
+  create: (entity: E) => S,
+  copy: (schema: S, entity: E) => void
+): Mirror {
+  const sync = (schema: S, entity: E) => {
+    const pos = entity[Transform].pos;
+    schema.x = pos.x;
+    schema.y = pos.y;
+    schema.z = pos.z;
+    copy(schema, entity);
+  };
+  const add = (entity: E) => {
+    const schema = create(entity);
+    sync(schema, entity);
+    map.set(entity.id, schema);
+  };
+
+  query.onEntityAdded.subscribe(add);
+  query.onEntityRemoved.subscribe((entity) => map.delete(entity.id));
+  for (const entity of query) add(entity);
+
+  return {
+    update() {
+      for (const entity of query) {
+        const schema = map.get(entity.id);
+        if (schema) sync(schema, entity);
+      }
+    },
+  };
+}
@@ -0,0 +1,18 @@
+import { StatusEffects, tickStatusEffects } from "@rotmg/shared";
+import { type GameWorld } from "../world";
+
+/**
+ * Counts down status effects and applies bleeding and healing. What the other
+ * effects do is checked where it matters: movement, firing and bullet hits.
+ */
+export class StatusEffectSystem {
+  private entities;
+
+  constructor(world: GameWorld) {
+    this.entities = world.with(StatusEffects);
+  }
+
+  update(dt: number) {
+    tickStatusEffects(this.entities, dt);
+  }
+}
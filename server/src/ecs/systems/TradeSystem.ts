@@ -0,0 +1,31 @@
+import { Transform, TRADE_RANGE } from "@rotmg/shared";
+import { type Entity, type GameWorld } from "../world";
+import { Player, type Trade } from "../components/Player";
+
+/**
+ * Breaks off trades whose players stand more than TRADE_RANGE apart, or whose
+ * partner is gone. Trades being stored are left alone; what breaking off a
+ * trade involves is up to the room.
+ */
+export class TradeSystem {
+  private players;
+  private onOutOfRange: (trade: Trade) => void;
+
+  constructor(world: GameWorld, onOutOfRange: (trade: Trade) => void) {
+    this.players = world.with(Player, Transform);
+    this.onOutOfRange = onOutOfRange;
+  }
+
+  update(_dt: number) {
+    const bySession = new Map<string, Entity>();
+    for (const entity of this.players) bySession.set(entity[Player].sessionId, entity);
+    for (const entity of this.players) {
+      const trade = entity[Player].trade;
+      // Each trade once, from the player who asked for it
+      if (!trade || trade.pending || trade.players[0] !== entity[Player].sessionId) continue;
+      const partner = bySession.get(trade.players[1])?.transform;
+      const pos = entity[Transform].pos;
+      if (!partner || Math.hypot(partner.pos.x - pos.x, partner.pos.z - pos.z) > TRADE_RANGE) this.onOutOfRange(trade);
+    }
+  }
+}
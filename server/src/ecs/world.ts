@@ -0,0 +1,29 @@
+import { World } from "miniplex";
+import { type SimEntity } from "@rotmg/shared";
+import { type PlayerData } from "./components/Player";
+import { type EnemyData } from "./components/Enemy";
+import { type PortalData } from "./components/Portal";
+import { type LootBagData } from "./components/LootBag";
+import { type VaultChestData } from "./components/VaultChest";
+
+// Server entities are the shared simulation entity plus server-only roles.
+// Components are optional because not all entities have all components.
+export type Entity = SimEntity & {
+  id: string;
+
+  // Role/State components
+  player?: PlayerData;
+  enemy?: EnemyData;
+  portal?: PortalData;
+  lootBag?: LootBagData;
+  vaultChest?: VaultChestData;
+};
+
+/**
+ * Each room owns its own world, so unlike the client there is no global instance.
+ */
+export function createWorld() {
+  return new World<Entity>();
+}
+
+export type GameWorld = ReturnType<typeof createWorld>;
@@ -0,0 +1,117 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { MemoryStorage, emptyStorageData, type StorageData } from "./MemoryStorage";
+import { type AccountRecord, type CharacterRecord, type GraveRecord, type VaultRecord, type TradeRecord } from "./Storage";
+
+/**
+ * Storage in one JSON file, for local development. The file is read on first
+ * use and rewritten after every change: into a temporary file that then
+ * replaces it, so a crash mid-write leaves the last complete version behind.
+ * Writes happen one at a time, in the order of the changes.
+ */
+export class FileStorage extends MemoryStorage {
+  private file: string;
+  private loaded: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(file: string) {
+    super();
+    this.file = file;
+  }
+
+  async loadAccount(id: string): Promise<AccountRecord | undefined> {
+    await this.load();
+    return super.loadAccount(id);
+  }
+
+  async findAccount(name: string): Promise<AccountRecord | undefined> {
+    await this.load();
+    return super.findAccount(name);
+  }
+
+  async createAccount(account: AccountRecord): Promise<boolean> {
+    await this.load();
+    return super.createAccount(account);
+  }
+
+  async updateAccount(id: string, changes: Partial<Omit<AccountRecord, "id">>): Promise<void> {
+    await this.load();
+    return super.updateAccount(id, changes);
+  }
+
+  async listCharacters(accountId: string): Promise<CharacterRecord[]> {
+    await this.load();
+    return super.listCharacters(accountId);
+  }
+
+  async loadCharacter(id: string): Promise<CharacterRecord | undefined> {
+    await this.load();
+    return super.loadCharacter(id);
+  }
+
+  async saveCharacter(character: CharacterRecord): Promise<void> {
+    await this.load();
+    return super.saveCharacter(character);
+  }
+
+  async buryCharacter(grave: GraveRecord): Promise<void> {
+    await this.load();
+    return super.buryCharacter(grave);
+  }
+
+  async graveyard(accountId: string): Promise<GraveRecord[]> {
+    await this.load();
+    return super.graveyard(accountId);
+  }
+
+  async claimCharacter(characterId: string, owner: string, expiresAt: number): Promise<boolean> {
+    await this.load();
+    return super.claimCharacter(characterId, owner, expiresAt);
+  }
+
+  async releaseCharacter(characterId: string, owner: string): Promise<void> {
+    await this.load();
+    return super.releaseCharacter(characterId, owner);
+  }
+
+  async loadVault(accountId: string): Promise<VaultRecord> {
+    await this.load();
+    return super.loadVault(accountId);
+  }
+
+  async commitVaultMove(vault: VaultRecord, character: CharacterRecord): Promise<boolean> {
+    await this.load();
+    return super.commitVaultMove(vault, character);
+  }
+
+  async commitTrade(trade: TradeRecord, characters: [CharacterRecord, CharacterRecord]): Promise<void> {
+    await this.load();
+    return super.commitTrade(trade, characters);
+  }
+
+  async tradeLog(accountId: string): Promise<TradeRecord[]> {
+    await this.load();
+    return super.tradeLog(accountId);
+  }
+
+  /** Reads the file once; a missing file is an empty storage. */
+  private load(): Promise<void> {
+    this.loaded ??= fs.readFile(this.file, "utf8").then(
+      (text) => { this.data = { ...emptyStorageData(), ...JSON.parse(text) as StorageData }; },
+      (error: NodeJS.ErrnoException) => { if (error.code !== "ENOENT") throw error; },
+    );
+    return this.loaded;
+  }
+
+  protected commit(): Promise<void> {
+    // Snapshot now, so the file gets the data as of this change
+    const text = JSON.stringify(this.data);
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      const temporary = `${this.file}.tmp`;
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.writeFile(temporary, text);
+      await fs.rename(temporary, this.file);
+    });
+    return this.writing;
+  }
+}
@@ -0,0 +1,170 @@
+import { emptyVault } from "@rotmg/shared";
+import {
+  type Storage,
+  type AccountRecord,
+  type CharacterRecord,
+  type GraveRecord,
+  type ClaimRecord,
+  type VaultRecord,
+  type TradeRecord,
+} from "./Storage";
+
+/** Everything a storage holds, as plain JSON. */
+export type StorageData = {
+  accounts: Record<string, AccountRecord>;
+  characters: Record<string, CharacterRecord>;
+  graves: GraveRecord[];
+  /** Claims on characters in play, by character id. */
+  claims: Record<string, ClaimRecord>;
+  /** By account id. */
+  vaults: Record<string, VaultRecord>;
+  /** The trade audit log, oldest first. */
+  trades: TradeRecord[];
+};
+
+export function emptyStorageData(): StorageData {
+  return { accounts: {}, characters: {}, graves: [], claims: {}, vaults: {}, trades: [] };
+}
+
+/**
+ * Storage that lives as long as the process, for tests. Changes apply in the
+ * order they are called, before the returned promise settles. Vault moves and
+ * trades that fail to commit are undone, so what rooms load afterwards is what
+ * was stored.
+ */
+export class MemoryStorage implements Storage {
+  protected data: StorageData;
+
+  constructor(data: StorageData = emptyStorageData()) {
+    this.data = data;
+  }
+
+  async loadAccount(id: string): Promise<AccountRecord | undefined> {
+    return copy(this.data.accounts[id]);
+  }
+
+  async findAccount(name: string): Promise<AccountRecord | undefined> {
+    const lower = name.toLowerCase();
+    return copy(Object.values(this.data.accounts).find((account) => account.name.toLowerCase() === lower));
+  }
+
+  async createAccount(account: AccountRecord): Promise<boolean> {
+    const lower = account.name.toLowerCase();
+    if (Object.values(this.data.accounts).some((other) => other.name.toLowerCase() === lower)) return false;
+    this.data.accounts[account.id] = copy(account);
+    await this.commit();
+    return true;
+  }
+
+  async updateAccount(id: string, changes: Partial<Omit<AccountRecord, "id">>): Promise<void> {
+    const account = this.data.accounts[id];
+    if (!account) throw new Error(`Unknown account "${id}"`);
+    Object.assign(account, copy(changes));
+    await this.commit();
+  }
+
+  async listCharacters(accountId: string): Promise<CharacterRecord[]> {
+    return Object.values(this.data.characters).filter((character) => character.accountId === accountId).map(copy);
+  }
+
+  async loadCharacter(id: string): Promise<CharacterRecord | undefined> {
+    return copy(this.data.characters[id]);
+  }
+
+  async saveCharacter(character: CharacterRecord): Promise<void> {
+    this.checkAlive(character);
+    this.data.characters[character.id] = copy(character);
+    await this.commit();
+  }
+
+  async buryCharacter(grave: GraveRecord): Promise<void> {
+    delete this.data.characters[grave.character.id];
+    delete this.data.claims[grave.character.id];
+    this.data.graves.push(copy(grave));
+    const account = this.data.accounts[grave.character.accountId];
+    if (account) account.fame += grave.fame;
+    await this.commit();
+  }
+
+  async graveyard(accountId: string): Promise<GraveRecord[]> {
+    return this.data.graves.filter((grave) => grave.character.accountId === accountId).map(copy);
+  }
+
+  async claimCharacter(characterId: string, owner: string, expiresAt: number): Promise<boolean> {
+    const claim = this.data.claims[characterId];
+    if (claim && claim.owner !== owner && claim.expiresAt > Date.now()) return false;
+    this.data.claims[characterId] = { owner, expiresAt };
+    await this.commit();
+    return true;
+  }
+
+  async releaseCharacter(characterId: string, owner: string): Promise<void> {
+    if (this.data.claims[characterId]?.owner !== owner) return;
+    delete this.data.claims[characterId];
+    await this.commit();
+  }
+
+  async loadVault(accountId: string): Promise<VaultRecord> {
+    return copy(this.data.vaults[accountId]) ?? { accountId, items: emptyVault(), version: 0 };
+  }
+
+  async commitVaultMove(vault: VaultRecord, character: CharacterRecord): Promise<boolean> {
+    this.checkAlive(character);
+    if ((this.data.vaults[vault.accountId]?.version ?? 0) !== vault.version) return false;
+    const { vaults, characters } = this.data;
+    const previous = { vault: vaults[vault.accountId], character: characters[character.id] };
+    const stored = { vault: { ...copy(vault), version: vault.version + 1 }, character: copy(character) };
+    vaults[vault.accountId] = stored.vault;
+    characters[character.id] = stored.character;
+    try {
+      await this.commit();
+    } catch (error) {
+      // The room keeps the inventory from before; a later save must not find the move here
+      restore(vaults, vault.accountId, stored.vault, previous.vault);
+      restore(characters, character.id, stored.character, previous.character);
+      throw error;
+    }
+    return true;
+  }
+
+  async commitTrade(trade: TradeRecord, characters: [CharacterRecord, CharacterRecord]): Promise<void> {
+    characters.forEach((character) => this.checkAlive(character));
+    const previous = characters.map((character) => this.data.characters[character.id]);
+    const stored = characters.map(copy);
+    const logged = copy(trade);
+    stored.forEach((character) => this.data.characters[character.id] = character);
+    this.data.trades.push(logged);
+    try {
+      await this.commit();
+    } catch (error) {
+      stored.forEach((character, side) => restore(this.data.characters, character.id, character, previous[side]));
+      const index = this.data.trades.indexOf(logged);
+      if (index >= 0) this.data.trades.splice(index, 1);
+      throw error;
+    }
+  }
+
+  async tradeLog(accountId: string): Promise<TradeRecord[]> {
+    return this.data.trades.filter((trade) => trade.sides.some((side) => side.accountId === accountId)).map(copy);
+  }
+
+  private checkAlive(character: CharacterRecord) {
+    if (this.data.graves.some((grave) => grave.character.id === character.id)) {
+      throw new Error(`Character "${character.id}" is dead and cannot be saved`);
+    }
+  }
+
+  /** Called after every change; storages that keep the data elsewhere write it out here. */
+  protected async commit(): Promise<void> {}
+}
+
+/** Puts `previous` back in `table` in place of `stored`, unless a later change replaced it already. */
+function restore<T>(table: Record<string, T>, id: string, stored: T, previous: T | undefined) {
+  if (table[id] !== stored) return;
+  if (previous === undefined) delete table[id];
+  else table[id] = previous;
+}
+
+function copy<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value);
+}
@@ -0,0 +1,123 @@
+import { type Character } from "../rooms/character";
+import { type Vault } from "@rotmg/shared";
+import { type PasswordHash } from "../auth/passwords";
+
+/** A player's account; characters and the graveyard belong to it. */
+export type AccountRecord = {
+  id: string;
+  /** Sign-in name; unique regardless of case. */
+  name: string;
+  password: PasswordHash;
+  /** Fame the account's dead characters earned. */
+  fame: number;
+};
+
+/** A living character, saved as it was when it last left a room or autosaved. */
+export type CharacterRecord = Character & {
+  id: string;
+  accountId: string;
+};
+
+/** A dead character, kept in its account's graveyard. */
+export type GraveRecord = {
+  character: CharacterRecord;
+  /** Fame the death earned. */
+  fame: number;
+  /** When it died, in ms since the epoch. */
+  diedAt: number;
+};
+
+/** Who has a living character in play, and until when (ms since the epoch) unless renewed. */
+export type ClaimRecord = {
+  owner: string;
+  expiresAt: number;
+};
+
+/** An account's vault. `version` counts the changes stored, to detect conflicting ones. */
+export type VaultRecord = {
+  accountId: string;
+  items: Vault;
+  version: number;
+};
+
+/** What one character gave in a trade. */
+export type TradeSideRecord = {
+  accountId: string;
+  characterId: string;
+  /** ItemDef ids. */
+  gave: string[];
+};
+
+/** A completed trade, as kept in the trade audit log. */
+export type TradeRecord = {
+  id: string;
+  /** When it completed, in ms since the epoch. */
+  completedAt: number;
+  /** Room it happened in. */
+  roomId: string;
+  sides: [TradeSideRecord, TradeSideRecord];
+};
+
+/**
+ * Where accounts and characters outlive the rooms. Records go in and come out
+ * as copies, so changing one does not change what is stored.
+ */
+export interface Storage {
+  loadAccount(id: string): Promise<AccountRecord | undefined>;
+  /** The account named `name`, ignoring case. */
+  findAccount(name: string): Promise<AccountRecord | undefined>;
+  /** Adds an account; resolves false, adding nothing, if the name is taken. */
+  createAccount(account: AccountRecord): Promise<boolean>;
+  /** Changes some fields of an existing account; rejects for unknown accounts. */
+  updateAccount(id: string, changes: Partial<Omit<AccountRecord, "id">>): Promise<void>;
+  /** The account's living characters, oldest first. */
+  listCharacters(accountId: string): Promise<CharacterRecord[]>;
+  loadCharacter(id: string): Promise<CharacterRecord | undefined>;
+  /** Adds or replaces a living character; rejects for characters in a graveyard. */
+  saveCharacter(character: CharacterRecord): Promise<void>;
+  /**
+   * Moves a dead character from the living to its account's graveyard, for
+   * good, and adds the fame it earned to the account's, in one change.
+   */
+  buryCharacter(grave: GraveRecord): Promise<void>;
+  /** The account's dead characters, in the order they died. */
+  graveyard(accountId: string): Promise<GraveRecord[]>;
+  /**
+   * Marks a character as in play by `owner` until `expiresAt` (ms since the
+   * epoch), so no other session loads it meanwhile. Resolves false, changing
+   * nothing, while another owner's claim has not expired; the same owner
+   * claiming again renews its claim.
+   */
+  claimCharacter(characterId: string, owner: string, expiresAt: number): Promise<boolean>;
+  /** Ends `owner`'s claim on a character; claims of other owners stay. */
+  releaseCharacter(characterId: string, owner: string): Promise<void>;
+  /** The account's vault; empty, at version 0, until something is stored in it. */
+  loadVault(accountId: string): Promise<VaultRecord>;
+  /**
+   * Stores a vault and the character that moved items in or out of it, both or
+   * neither. `vault.version` is the version the change was made to; if the
+   * stored vault has moved on since, nothing is stored and it resolves false.
+   * Otherwise the stored vault gets the next version.
+   */
+  commitVaultMove(vault: VaultRecord, character: CharacterRecord): Promise<boolean>;
+  /**
+   * Stores the two characters of a completed trade and adds it to the audit
+   * log, all or nothing. Rejects if either character is in a graveyard.
+   */
+  commitTrade(trade: TradeRecord, characters: [CharacterRecord, CharacterRecord]): Promise<void>;
+  /** Trades the account's characters took part in, oldest first. */
+  tradeLog(accountId: string): Promise<TradeRecord[]>;
+}
+
+let current: Storage | null = null;
+
+/** Makes `storage` the one rooms load from and save to. */
+export function useStorage(storage: Storage) {
+  current = storage;
+}
+
+/** The storage set with useStorage. Throws if there is none. */
+export function getStorage(): Storage {
+  if (!current) throw new Error("No storage configured; call useStorage first");
+  return current;
+}
@@ -0,0 +1,22 @@
+import { getDungeonDefinition, NEXUS_ROOM } from "@rotmg/shared";
+import { GameRoom } from "./GameRoom";
+
+/**
+ * One instance of a generated dungeon, created by the portal that leads to it
+ * with the DungeonDef id in `options.dungeon`. A portal at the entrance leads
+ * back to the Nexus.
+ */
+export class DungeonRoom extends GameRoom {
+  maxClients = 20;
+
+  onCreate (options: any) {
+    super.onCreate(options);
+    const [entrance] = this.playerSpawns;
+    this.openPortal({ x: entrance.x, z: entrance.z + this.map.tileSize }, { target: NEXUS_ROOM, label: "Nexus" });
+  }
+
+  protected mapId (options: any) {
+    // Throws for unknown dungeons, so the room is never created
+    return getDungeonDefinition(String(options?.dungeon)).id;
+  }
+}
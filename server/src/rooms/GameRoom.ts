@@ -0,0 +1,1093 @@
+import { randomUUID } from "crypto";
+import { Room, Client, ServerError, matchMaker, type IRoomCache, type AuthContext } from "@colyseus/core";
+import { StateView } from "@colyseus/schema";
+import { MyRoomState } from "./schema/MyRoomState";
+import { createWorld, type Entity, type GameWorld } from "../ecs/world";
+import {
+  vec3,
+  normalizeXZInPlace,
+  parseInputCommand,
+  createRandom,
+  createEnemyAI,
+  createBossScript,
+  resetBossScript,
+  getEnemyDefinition,
+  getItemDefinition,
+  collisionFilter,
+  loadMapLayout,
+  getClassDefinition,
+  statsAtLevel,
+  levelForXp,
+  shareKillXp,
+  fameForDeath,
+  DamageTracker,
+  KILL_XP_SHARE_RADIUS,
+  rollLoot,
+  bagFor,
+  getLootTableDefinition,
+  LOOT_BAG_LIFETIME,
+  LOOT_BAG_SIZE,
+  LOOT_PICKUP_RANGE,
+  equipmentStats,
+  freeBackpackSlot,
+  moveItem,
+  moveVaultItem,
+  VAULT_USE_RANGE,
+  BACKPACK_SIZE,
+  isValidOffer,
+  tradeOffers,
+  TRADE_RANGE,
+  TRADE_REQUEST_LIFETIME,
+  DEFAULT_MAP,
+  DUNGEON_ROOM,
+  PORTAL_USE_RANGE,
+  arenaContains,
+  setArenaSealed,
+  nearestArenaPoint,
+  type UsePortalMessage,
+  type PickUpMessage,
+  type MoveItemMessage,
+  type DropItemMessage,
+  type UseItemMessage,
+  type CastMessage,
+  type OpenVaultMessage,
+  type VaultMoveMessage,
+  type VaultMessage,
+  type ItemLocation,
+  type TradeRequestMessage,
+  type TradeRequestedMessage,
+  type TradeOfferMessage,
+  type ConfirmTradeMessage,
+  type TradeMessage,
+  type TradeSideView,
+  type TradeClosedMessage,
+  type TradeCloseReason,
+  type TradeOffer,
+  type Random,
+  type LevelUpMessage,
+  type DeathMessage,
+  type TauntMessage,
+  type BossEvent,
+  type ArenaDef,
+  type TileMap,
+  type MapPoint,
+  type Vec3,
+} from "@rotmg/shared";
+import { MovementSystem } from "../ecs/systems/MovementSystem";
+import { BulletSystem } from "../ecs/systems/BulletSystem";
+import { CollisionSystem } from "../ecs/systems/CollisionSystem";
+import { PlayerControlSystem, MAX_QUEUED_INPUTS } from "../ecs/systems/PlayerControlSystem";
+import { StateSyncSystem } from "../ecs/systems/StateSyncSystem";
+import { EnemyAISystem } from "../ecs/systems/EnemyAISystem";
+import { BossSystem, type BossEntity } from "../ecs/systems/BossSystem";
+import { PortalSystem } from "../ecs/systems/PortalSystem";
+import { RegenSystem } from "../ecs/systems/RegenSystem";
+import { LootBagSystem } from "../ecs/systems/LootBagSystem";
+import { AbilitySystem } from "../ecs/systems/AbilitySystem";
+import { StatusEffectSystem } from "../ecs/systems/StatusEffectSystem";
+import { TradeSystem } from "../ecs/systems/TradeSystem";
+import { Player, type PlayerData, type Trade } from "../ecs/components/Player";
+import { Portal, type PortalData } from "../ecs/components/Portal";
+import { LootBag } from "../ecs/components/LootBag";
+import { VaultChest } from "../ecs/components/VaultChest";
+import { newCharacter, characterOf, characterRecordOf, claimExpiry, loadPlayer, type TravelAuth } from "./character";
+import { getStorage, type TradeRecord } from "../persistence/Storage";
+import { verifyToken } from "../auth/tokens";
+
+export const TICK_RATE = 20; // Simulation ticks per second
+const FIXED_TIME_STEP = 1000 / TICK_RATE; // ms
+/** Seconds between saves of every player in the room. */
+export const AUTOSAVE_INTERVAL = 30;
+
+/** Height entities stand at; maps only give spawn points on XZ. */
+const PLAYER_SPAWN_Y = 0.5;
+const ENEMY_SPAWN_Y = 0.51;
+const PORTAL_Y = 0.5;
+const LOOT_BAG_Y = 0.5;
+const VAULT_CHEST_Y = 0.5;
+const ENTITY_HALF_SIZE = 0.5;
+
+/** Message payload for "shoot": XZ aim direction. */
+type ShootMessage = { x: number; z: number };
+
+/** An arena a locked-down boss sealed, with the minions the boss called since. */
+type SealedArena = { boss: BossEntity; arena: number; minions: Entity[] };
+
+/**
+ * Shared simulation for every kind of game room: a map with players, enemies,
+ * projectiles and portals, advanced at a fixed tick rate. Subclasses choose the
+ * map and player cap, and react to kills.
+ *
+ * Killed enemies give experience to the players who damaged them or stood near
+ * (see shareKillXp), and players are told with a "levelUp" message when their
+ * character levels up. A character that dies earns its fame, announced with a
+ * "death" message, and the player starts over with a new one of the same class.
+ *
+ * Players join with the token of their account (see accountRoutes) and the id
+ * of the character they chose in `options.character`; rooms that allow guests
+ * also take players without a token, who play a new character of the class in
+ * `options.classId` that is never saved. Saved characters are saved when the
+ * player leaves or travels and every AUTOSAVE_INTERVAL seconds, and go to the
+ * account's graveyard when they die, for good; the new character that replaces
+ * one is saved under a new id. A character is claimed while in play, from
+ * joining to the last save when the player leaves, and travels with its claim;
+ * joins for a character claimed elsewhere are rejected.
+ * Kills also drop loot bags, rolled from the enemy's loot table; players take
+ * items from bags in reach into their backpack with "pickUp", rearrange and
+ * equip them with "moveItem", drop them in a bag with "dropItem", and use up
+ * potions with "useItem". Players cast their equipped ability at a ground point
+ * with "cast", paying MP for it.
+ *
+ * Vault chests placed with the map open the player's account vault ("openVault")
+ * for moving items between it and the inventory ("vaultMove"). Each move is
+ * stored with the character in one transaction (see commitVaultMove) before it
+ * applies, and the inventory is locked until it is, so no item is duplicated or
+ * lost whenever the player disconnects.
+ *
+ * Signed-in players trade items with each other: one asks with "requestTrade",
+ * the other answers with "acceptTrade", and both pick backpack items to offer
+ * with "tradeOffer". The swap happens once both confirmed twice the offers as
+ * they last changed (see ConfirmTradeMessage), and is stored together with
+ * the trade audit log (see commitTrade). Trades end with a "tradeClosed"
+ * message: done, cancelled by either player, or broken off when the players
+ * part, one of them dies or leaves. The inventories stay locked meanwhile.
+ *
+ * Bosses run their scripts (see updateBossPhases): the room spawns the minions
+ * they call, broadcasts their taunts as "taunt" messages, and seals the arena
+ * around a boss that locks down when engaged until it dies. Only players in
+ * such an arena or its gateways wake its boss by coming near. Once no living
+ * player is left in a sealed arena, its boss starts over as it spawned, its
+ * minions vanish and the gates open. Sealed arenas are listed in the state so
+ * clients close the same gates.
+ *
+ * Portals move players between rooms: using one reserves a seat in the target
+ * room, carrying the player's character along, and sends the reservation to the
+ * client as a "portal" message.
+ */
+export class GameRoom extends Room<MyRoomState> {
+  state = new MyRoomState();
+
+  /** Whether players may shoot. */
+  protected combat = true;
+  /** Whether players may join without signing in. */
+  protected guests = false;
+  protected world!: GameWorld;
+  protected map!: TileMap;
+  protected playerSpawns: MapPoint[] = [];
+  /** Arenas of the map, indexed as in the state's `sealedArenas`. */
+  protected arenas: ArenaDef[] = [];
+  /** Arena each locked-down boss sealed, by boss entity id. */
+  private bossArenas = new Map<string, SealedArena>();
+  private nextPlayerSpawn = 0;
+  private playerControlSystem!: PlayerControlSystem;
+  private enemyAISystem!: EnemyAISystem;
+  private bossSystem!: BossSystem;
+  private movementSystem!: MovementSystem;
+  private bulletSystem!: BulletSystem;
+  private collisionSystem!: CollisionSystem;
+  private portalSystem!: PortalSystem;
+  private regenSystem!: RegenSystem;
+  private lootBagSystem!: LootBagSystem;
+  private abilitySystem!: AbilitySystem;
+  private statusEffectSystem!: StatusEffectSystem;
+  private tradeSystem!: TradeSystem;
+  private stateSyncSystem!: StateSyncSystem;
+  private nextEnemyId = 0;
+  private nextPortalId = 0;
+  private nextBagId = 0;
+  private nextVaultId = 0;
+  private lootRandom!: Random;
+  /** Sessions that used a portal and are on their way out. */
+  private traveling = new Set<string>();
+  /** Unanswered trade requests by the session asking: who was asked, and the server time (ms) it expires at. */
+  private tradeRequests = new Map<string, { to: string; expiresAt: number }>();
+
+  onCreate (options: any) {
+    this.world = createWorld();
+    // Seedable so simulation tests can reproduce enemy decisions and generated maps
+    const seed = (Number.isFinite(options?.seed) ? options.seed : Date.now()) >>> 0;
+    // Clients rebuild the same map from its id and seed, to render and predict against it
+    const mapId = this.mapId(options);
+    const layout = loadMapLayout(mapId, seed);
+    this.map = layout.map;
+    this.playerSpawns = layout.playerSpawns;
+    this.arenas = layout.arenas ?? [];
+    this.state.mapId = mapId;
+    this.state.mapSeed = seed;
+    this.bulletSystem = new BulletSystem(this.world, this.map);
+    this.enemyAISystem = new EnemyAISystem(this.world, this.bulletSystem, createRandom(seed));
+    this.bossSystem = new BossSystem(
+      this.world,
+      (boss, event) => this.handleBossEvent(boss, event),
+      (boss, player) => this.mayEngage(boss, player),
+    );
+    this.playerControlSystem = new PlayerControlSystem(this.world, this.bulletSystem, this.map);
+    this.abilitySystem = new AbilitySystem(this.world, this.bulletSystem, this.map, (entity) => this.refreshStats(entity));
+    this.movementSystem = new MovementSystem(this.world, this.map);
+    this.collisionSystem = new CollisionSystem(this.world, this.bulletSystem, (entity) => this.handleDeath(entity));
+    this.portalSystem = new PortalSystem(this.world);
+    this.regenSystem = new RegenSystem(this.world);
+    this.statusEffectSystem = new StatusEffectSystem(this.world);
+    this.lootBagSystem = new LootBagSystem(this.world);
+    this.tradeSystem = new TradeSystem(this.world, (trade) => this.closeTrade(trade, "distance"));
+    this.stateSyncSystem = new StateSyncSystem(this.world, this.state, (sessionId) => this.clients.getById(sessionId)?.view);
+    // A stream of its own, so drops do not change enemy decisions
+    this.lootRandom = createRandom(seed + 1);
+
+    for (const spawn of layout.enemySpawns) {
+      this.spawnEnemy(spawn.enemy, vec3(spawn.x, ENEMY_SPAWN_Y, spawn.z), spawn.boss);
+    }
+    for (const { target, label, ...point } of layout.portals ?? []) {
+      this.openPortal(point, { target, label });
+    }
+    for (const point of layout.vaults ?? []) {
+      this.world.add({ id: `vault_${this.nextVaultId++}`, transform: { pos: vec3(point.x, VAULT_CHEST_Y, point.z) }, vaultChest: {} });
+    }
+
+    // "input": one sequenced InputCommand per client frame, see @rotmg/shared
+    this.onMessage("input", (client, message: unknown) => {
+      const player = this.getPlayerEntity(client);
+      if (!player?.player) return;
+      const cmd = parseInputCommand(message);
+      if (!cmd || cmd.seq <= player.player.lastProcessedInput) return;
+      if (player.player.inputQueue.length >= MAX_QUEUED_INPUTS) return;
+      player.player.inputQueue.push(cmd);
+    });
+
+    this.onMessage("shoot", (client, message: ShootMessage) => {
+      if (!this.combat) return;
+      const player = this.getPlayerEntity(client);
+      if (!player?.player) return;
+      const dir = vec3(Number(message?.x) || 0, 0, Number(message?.z) || 0);
+      if (!normalizeXZInPlace(dir)) return;
+      player.player.pendingShot = dir;
+    });
+
+    this.onMessage("cast", (client, message: CastMessage) => {
+      if (!this.combat) return;
+      const player = this.getPlayerEntity(client);
+      if (!player?.player) return;
+      const x = Number(message?.x);
+      const z = Number(message?.z);
+      if (!Number.isFinite(x) || !Number.isFinite(z)) return;
+      player.player.pendingCast = { x, z };
+    });
+
+    this.onMessage("usePortal", (client, message: UsePortalMessage) => {
+      this.usePortal(client, String(message?.id));
+    });
+
+    this.onMessage("pickUp", (client, message: PickUpMessage) => {
+      this.pickUp(client, String(message?.bag), Number(message?.index));
+    });
+
+    this.onMessage("moveItem", (client, message: MoveItemMessage) => {
+      const player = this.getPlayerEntity(client);
+      if (!player?.player || inventoryLocked(player.player)) return;
+      if (moveItem(player.player.inventory, Number(message?.from), Number(message?.to))) this.refreshStats(player);
+    });
+
+    this.onMessage("dropItem", (client, message: DropItemMessage) => {
+      this.dropItem(client, Number(message?.slot));
+    });
+
+    this.onMessage("useItem", (client, message: UseItemMessage) => {
+      this.useItem(client, Number(message?.slot));
+    });
+
+    this.onMessage("openVault", (client, message: OpenVaultMessage) => {
+      this.openVault(client, String(message?.chest)).catch((error) => console.error("Could not open a vault:", error));
+    });
+
+    this.onMessage("vaultMove", (client, message: VaultMoveMessage) => {
+      const from = itemLocation(message?.from);
+      const to = itemLocation(message?.to);
+      if (from && to) this.moveVaultItem(client, from, to);
+    });
+
+    this.onMessage("closeVault", (client) => {
+      const player = this.getPlayerEntity(client);
+      if (player?.player && !player.player.vault?.pending) player.player.vault = null;
+    });
+
+    this.onMessage("requestTrade", (client, message: TradeRequestMessage) => {
+      this.requestTrade(client, String(message?.player));
+    });
+
+    this.onMessage("acceptTrade", (client, message: TradeRequestMessage) => {
+      this.acceptTrade(client, String(message?.player));
+    });
+
+    this.onMessage("tradeOffer", (client, message: TradeOfferMessage) => {
+      const slots = message?.slots;
+      if (!Array.isArray(slots) || slots.length > BACKPACK_SIZE) return;
+      this.changeTradeOffer(client, slots.map(Number));
+    });
+
+    this.onMessage("confirmTrade", (client, message: ConfirmTradeMessage) => {
+      this.confirmTrade(client, Number(message?.step), Number(message?.revision));
+    });
+
+    this.onMessage("cancelTrade", (client) => {
+      const trade = this.getPlayerEntity(client)?.player?.trade;
+      if (trade) this.closeTrade(trade, "cancelled");
+    });
+
+    this.clock.setInterval(() => this.autosave(), AUTOSAVE_INTERVAL * 1000);
+
+    // Run the simulation at a fixed step regardless of timer jitter.
+    let elapsedTime = 0;
+    this.setSimulationInterval((deltaTime) => {
+      elapsedTime += deltaTime;
+      while (elapsedTime >= FIXED_TIME_STEP) {
+        elapsedTime -= FIXED_TIME_STEP;
+        this.fixedTick(FIXED_TIME_STEP / 1000);
+      }
+    });
+  }
+
+  /**
+   * Advances the simulation by one fixed step (in seconds).
+   */
+  fixedTick (dt: number) {
+    this.playerControlSystem.update(dt);
+    this.abilitySystem.update(dt);
+    this.bossSystem.update(dt);
+    this.enemyAISystem.update(dt);
+    this.movementSystem.update(dt);
+    this.bulletSystem.update(dt);
+    this.collisionSystem.update(dt);
+    this.regenSystem.update(dt);
+    this.statusEffectSystem.update(dt);
+    this.portalSystem.update(dt);
+    this.lootBagSystem.update(dt);
+    this.tradeSystem.update(dt);
+    this.resetAbandonedArenas();
+    this.stateSyncSystem.update(dt);
+    this.state.serverTime += dt * 1000;
+  }
+
+  /**
+   * Signs in a player joining with a token and loads and claims the character they chose.
+   * Players arriving through a portal skip this: they bring their TravelAuth.
+   */
+  async onAuth (_client: Client, options: any, context: AuthContext): Promise<TravelAuth> {
+    const accountId = verifyToken(context.token);
+    if (accountId) return await loadPlayer(accountId, options?.character);
+    if (this.guests) return { character: newCharacter(options?.classId), fame: 0 };
+    throw new ServerError(401, "Sign in first");
+  }
+
+  onJoin (client: Client, _options: any, auth: TravelAuth) {
+    console.log(client.sessionId, "joined!");
+    const character = auth.character;
+    // Filled with the loot bags the player may see
+    client.view = new StateView();
+    const stats = equipmentStats(character.stats, character.inventory);
+    this.world.add({
+      id: client.sessionId,
+      transform: { pos: this.nextSpawnPoint() },
+      velocity: { vel: vec3() },
+      health: { hp: Math.min(character.hp, stats.hp), maxHp: stats.hp },
+      stats,
+      mana: { mp: Math.min(character.mp, stats.mp), maxMp: stats.mp },
+      statusEffects: { effects: [] },
+      collidable: { halfExtents: vec3(ENTITY_HALF_SIZE, ENTITY_HALF_SIZE, ENTITY_HALF_SIZE), ...collisionFilter("player") },
+      player: {
+        sessionId: client.sessionId,
+        accountId: auth.accountId,
+        characterId: auth.characterId,
+        claim: auth.claim,
+        inputQueue: [],
+        lastProcessedInput: 0,
+        inputBudget: 0,
+        pendingShot: null,
+        fireCooldown: 0,
+        pendingCast: null,
+        abilityCooldown: 0,
+        buffs: [],
+        classId: character.classId,
+        level: character.level,
+        xp: character.xp,
+        fame: auth.fame,
+        baseStats: { ...character.stats },
+        inventory: [...character.inventory],
+        vault: null,
+        trade: null,
+        shotsFired: 0,
+      },
+    });
+  }
+
+  async onLeave (client: Client, _consented: boolean) {
+    console.log(client.sessionId, "left!");
+    this.traveling.delete(client.sessionId);
+    this.tradeRequests.delete(client.sessionId);
+    const player = this.getPlayerEntity(client);
+    if (!player) return;
+    if (player.player?.trade) this.closeTrade(player.player.trade, "left");
+    this.world.remove(player);
+    await this.savePlayer(player);
+    await this.releaseClaim(player);
+  }
+
+  onDispose() {
+    console.log("room", this.roomId, "disposing...");
+    this.world.clear();
+  }
+
+  /** Map the room loads; `options.map` or DEFAULT_MAP unless a subclass decides. */
+  protected mapId (options: any): string {
+    return typeof options?.map === "string" ? options.map : DEFAULT_MAP;
+  }
+
+  /** Called after an enemy died and was removed from the world. */
+  protected onEnemyKilled (_enemy: Entity) {}
+
+  /** Places a portal at `point` on the map. */
+  protected openPortal (point: MapPoint, portal: PortalData): Entity {
+    return this.world.add({
+      id: `portal_${this.nextPortalId++}`,
+      transform: { pos: vec3(point.x, PORTAL_Y, point.z) },
+      portal,
+    });
+  }
+
+  /** Saves the character of every player with an account, and renews the claims on them. */
+  async autosave () {
+    await Promise.all(this.world.with(Player).entities.map(async (entity) => {
+      await this.savePlayer(entity);
+      await this.renewClaim(entity);
+    }));
+  }
+
+  /**
+   * Saves a player's character, if they have an account. Failures are logged
+   * rather than thrown; the next save tries again. Account fame is not saved
+   * here: burying a character adds its fame (see buryCharacter), so sessions of
+   * one account never overwrite each other's.
+   */
+  private async savePlayer (entity: Entity) {
+    // Vault moves and trades store the character themselves; saving it from before would undo them
+    await entity.player?.vault?.pending;
+    await entity.player?.trade?.pending;
+    const character = characterRecordOf(entity);
+    if (!character) return;
+    try {
+      await getStorage().saveCharacter(character);
+    } catch (error) {
+      console.error(`Could not save character ${character.id}:`, error);
+    }
+  }
+
+  /** Claims a player's character for another CLAIM_LIFETIME. Failures are logged, like those of saves. */
+  private async renewClaim (entity: Entity) {
+    const { characterId, claim } = entity.player ?? {};
+    if (!characterId || !claim) return;
+    try {
+      if (!await getStorage().claimCharacter(characterId, claim, claimExpiry())) {
+        console.error(`Character ${characterId} was claimed elsewhere`);
+      }
+    } catch (error) {
+      console.error(`Could not claim character ${characterId}:`, error);
+    }
+  }
+
+  /** Lets a player's character be loaded again, once they left with it. */
+  private async releaseClaim (entity: Entity) {
+    const { characterId, claim } = entity.player ?? {};
+    if (!characterId || !claim) return;
+    try {
+      await getStorage().releaseCharacter(characterId, claim);
+    } catch (error) {
+      console.error(`Could not release character ${characterId}:`, error);
+    }
+  }
+
+  private getPlayerEntity (client: Client): Entity | undefined {
+    return this.getPlayerBySession(client.sessionId);
+  }
+
+  private getPlayerBySession (sessionId: string): Entity | undefined {
+    for (const entity of this.world.with(Player)) {
+      if (entity[Player].sessionId === sessionId) return entity;
+    }
+    return undefined;
+  }
+
+  /** Hands out the map's player spawns in turn. */
+  private nextSpawnPoint (): Vec3 {
+    const spawn = this.playerSpawns[this.nextPlayerSpawn++ % this.playerSpawns.length];
+    return vec3(spawn.x, PLAYER_SPAWN_Y, spawn.z);
+  }
+
+  private spawnEnemy (kind: string, pos: Vec3, boss?: boolean) {
+    const definition = getEnemyDefinition(kind);
+    const maxHp = definition.maxHp;
+    return this.world.add({
+      id: `enemy_${this.nextEnemyId++}`,
+      transform: { pos: { ...pos } },
+      velocity: { vel: vec3() },
+      health: { hp: maxHp, maxHp },
+      collidable: { halfExtents: vec3(ENTITY_HALF_SIZE, ENTITY_HALF_SIZE, ENTITY_HALF_SIZE), ...collisionFilter("enemy") },
+      enemy: { kind, boss, damageTaken: new DamageTracker() },
+      enemyAI: createEnemyAI(definition, pos),
+      ...(definition.boss ? { bossScript: createBossScript() } : {}),
+      statusEffects: { effects: [] },
+    });
+  }
+
+  /** Carries out what a boss script asks for. */
+  private handleBossEvent (boss: BossEntity, event: BossEvent) {
+    if (!boss.enemy || !boss.transform) return;
+    switch (event.type) {
+      case "lockdown":
+        this.sealArena(boss);
+        break;
+      case "taunt": {
+        const message: TauntMessage = { speaker: boss.enemy.kind, text: event.text };
+        this.broadcast("taunt", message);
+        break;
+      }
+      case "minions":
+        // Minions that would land in a wall appear on the boss instead
+        for (const point of event.points) {
+          const at = this.map.blocksMovement(point.x, point.z) ? boss.transform.pos : point;
+          const minion = this.spawnEnemy(event.enemy, vec3(at.x, ENEMY_SPAWN_Y, at.z));
+          this.bossArenas.get(boss.id)?.minions.push(minion);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Closes the gates of the arena `boss` stands in until it dies or everyone
+   * fighting it is gone. Players in a gateway are moved inside, out of the way
+   * of the gate.
+   */
+  private sealArena (boss: BossEntity) {
+    if (!boss.transform) return;
+    const index = this.arenas.findIndex((arena) => arenaContains(this.map, arena, boss.transform!.pos));
+    if (index < 0 || this.state.sealedArenas.includes(index)) return;
+    const arena = this.arenas[index];
+    setArenaSealed(this.map, arena, true);
+    this.bossArenas.set(boss.id, { boss, arena: index, minions: [] });
+    this.state.sealedArenas.push(index);
+
+    for (const player of this.world.with(Player, "transform")) {
+      const pos = player.transform.pos;
+      if (!this.map.blocksMovement(pos.x, pos.z)) continue;
+      const inside = nearestArenaPoint(this.map, arena, pos);
+      pos.x = inside.x;
+      pos.z = inside.z;
+    }
+  }
+
+  /**
+   * Whether `player` wakes `boss` by coming near, or lets damage wake it: for
+   * bosses that lock down their arena, only from inside it or its gateways, so
+   * the gates never shut with nobody in.
+   */
+  private mayEngage (boss: BossEntity, player: Entity): boolean {
+    if (!boss.enemyAI.definition.boss?.lockdown || !player.transform) return true;
+    const arena = this.arenas.find((arena) => arenaContains(this.map, arena, boss.transform.pos));
+    if (!arena) return true;
+    const pos = player.transform.pos;
+    const col = this.map.tileCol(pos.x);
+    const row = this.map.tileRow(pos.z);
+    return arenaContains(this.map, arena, pos) || arena.gates.some(([gateCol, gateRow]) => gateCol === col && gateRow === row);
+  }
+
+  /**
+   * Starts the fight over in sealed arenas no living player is left in, since
+   * they all died or left: the boss goes back as it spawned, its minions vanish
+   * and the gates open.
+   */
+  private resetAbandonedArenas () {
+    for (const { boss, arena, minions } of this.bossArenas.values()) {
+      const occupied = this.world.with(Player, "transform").entities.some((player) =>
+        (!player.health || player.health.hp > 0) && arenaContains(this.map, this.arenas[arena], player.transform.pos));
+      if (occupied) continue;
+      for (const minion of minions) if (this.world.has(minion)) this.world.remove(minion);
+      resetBossScript(boss);
+      if (boss.enemy) boss.enemy.damageTaken = new DamageTracker();
+      this.unsealArena(boss);
+    }
+  }
+
+  /** Opens the arena a dead or reset boss sealed, if any. */
+  private unsealArena (boss: Entity) {
+    const index = this.bossArenas.get(boss.id)?.arena;
+    if (index === undefined) return;
+    this.bossArenas.delete(boss.id);
+    setArenaSealed(this.map, this.arenas[index], false);
+    const at = this.state.sealedArenas.indexOf(index);
+    if (at >= 0) this.state.sealedArenas.splice(at, 1);
+  }
+
+  private handleDeath (entity: Entity) {
+    if (entity.player) {
+      this.killCharacter(entity);
+      return;
+    }
+    console.log(`${entity.id} died!`);
+    this.world.remove(entity);
+    if (entity.enemy) {
+      this.awardKillXp(entity);
+      this.dropLoot(entity);
+      this.unsealArena(entity);
+      this.onEnemyKilled(entity);
+    }
+  }
+
+  /**
+   * Rolls a dead enemy's loot table and drops the items where it died: public
+   * items in bags anyone can see, soulbound ones in bags only the players who
+   * damaged it can.
+   */
+  private dropLoot (enemy: Entity) {
+    if (!enemy.enemy || !enemy.transform) return;
+    const table = getEnemyDefinition(enemy.enemy.kind).loot;
+    if (!table) return;
+    const drop = rollLoot(getLootTableDefinition(table), this.lootRandom);
+    const owners = Array.from(enemy.enemy.damageTaken.byAttacker.keys());
+    this.dropBags(enemy.transform.pos, drop.items);
+    if (owners.length > 0) this.dropBags(enemy.transform.pos, drop.soulbound, owners);
+  }
+
+  /** Puts `items` on the ground at `pos`, LOOT_BAG_SIZE per bag. */
+  private dropBags (pos: Vec3, items: string[], owners?: string[]) {
+    for (let i = 0; i < items.length; i += LOOT_BAG_SIZE) {
+      const contents = items.slice(i, i + LOOT_BAG_SIZE);
+      this.world.add({
+        id: `bag_${this.nextBagId++}`,
+        transform: { pos: vec3(pos.x, LOOT_BAG_Y, pos.z) },
+        lootBag: { bag: bagFor(contents, !!owners).id, items: contents, owners, timeLeft: LOOT_BAG_LIFETIME },
+      });
+    }
+  }
+
+  /**
+   * Moves item `index` of a bag into the first free slot of the player's
+   * backpack. Requests for bags out of reach or not the player's to loot, or
+   * with a full backpack, are ignored.
+   */
+  private pickUp (client: Client, bagId: string, index: number) {
+    const player = this.getPlayerEntity(client);
+    const bag = this.world.with(LootBag, "transform").entities.find((entity) => entity.id === bagId);
+    if (!player?.player || !player.transform || !bag || inventoryLocked(player.player)) return;
+    const loot = bag[LootBag];
+    if (loot.owners && !loot.owners.includes(client.sessionId)) return;
+    if (!Number.isInteger(index) || index < 0 || index >= loot.items.length) return;
+    const from = player.transform.pos;
+    const to = bag.transform.pos;
+    if (Math.hypot(to.x - from.x, to.z - from.z) > LOOT_PICKUP_RANGE) return;
+
+    const slot = freeBackpackSlot(player.player.inventory);
+    if (slot < 0) return;
+    player.player.inventory[slot] = loot.items[index];
+    loot.items.splice(index, 1);
+  }
+
+  /** Drops the item in inventory slot `slot` in a bag of its own at the player's feet. */
+  private dropItem (client: Client, slot: number) {
+    const player = this.getPlayerEntity(client);
+    if (!player?.player || !player.transform || inventoryLocked(player.player)) return;
+    const item = player.player.inventory[slot];
+    if (!Number.isInteger(slot) || !item) return;
+    player.player.inventory[slot] = null;
+    this.dropBags(player.transform.pos, [item]);
+    this.refreshStats(player);
+  }
+
+  /** Uses up the consumable in `slot`. Potions are not wasted on a player at full HP. */
+  private useItem (client: Client, slot: number) {
+    const player = this.getPlayerEntity(client);
+    if (!player?.player || !player.health || inventoryLocked(player.player)) return;
+    const item = player.player.inventory[slot];
+    if (!Number.isInteger(slot) || !item) return;
+    const heal = getItemDefinition(item).heal;
+    if (!heal || player.health.hp >= player.health.maxHp) return;
+    player.player.inventory[slot] = null;
+    player.health.hp = Math.min(player.health.maxHp, player.health.hp + heal);
+  }
+
+  /**
+   * Opens the vault of a signed-in player's account at a chest in reach, and
+   * sends them its contents. Guests have no vault.
+   */
+  private async openVault (client: Client, chestId: string) {
+    const player = this.getPlayerEntity(client);
+    const accountId = player?.player?.accountId;
+    if (!player?.player || !accountId || player.player.vault?.pending || !this.vaultChestInReach(player, chestId)) return;
+    const stored = await getStorage().loadVault(accountId);
+    if (!this.world.has(player) || player.player.vault?.pending) return;
+    player.player.vault = { chest: chestId, items: stored.items, version: stored.version, pending: null };
+    this.sendVault(player);
+  }
+
+  /**
+   * Moves an item between the player's inventory and open vault. The move is
+   * stored first, together with the character, and applies once it is; if the
+   * vault changed elsewhere in the meantime (another session of the account),
+   * nothing moves and the player gets the vault as it is now. One move at a time.
+   */
+  private moveVaultItem (client: Client, from: ItemLocation, to: ItemLocation) {
+    const player = this.getPlayerEntity(client);
+    const vault = player?.player?.vault;
+    const character = player && characterRecordOf(player);
+    if (!player?.player || !vault || inventoryLocked(player.player) || !character) return;
+    if (!this.vaultChestInReach(player, vault.chest)) {
+      player.player.vault = null;
+      client.send("closeVault");
+      return;
+    }
+    const inventory = [...player.player.inventory];
+    const items = [...vault.items];
+    if (!moveVaultItem(inventory, items, from, to)) return;
+
+    const storage = getStorage();
+    const data = player.player;
+    vault.pending = storage.commitVaultMove({ accountId: character.accountId, items, version: vault.version }, { ...character, inventory })
+      .then(async (stored) => {
+        if (stored) {
+          // A character that died meanwhile was replaced; its successor keeps its own inventory
+          if (data.characterId === character.id) {
+            data.inventory = inventory;
+            this.refreshStats(player);
+          }
+          vault.items = items;
+          vault.version++;
+        } else {
+          const current = await storage.loadVault(character.accountId);
+          vault.items = current.items;
+          vault.version = current.version;
+        }
+      })
+      .catch((error) => console.error(`Could not store ${character.id}'s vault move:`, error))
+      .finally(() => {
+        vault.pending = null;
+        this.sendVault(player);
+      });
+  }
+
+  private vaultChestInReach (player: Entity, chestId: string): boolean {
+    const chest = this.world.with(VaultChest, "transform").entities.find((entity) => entity.id === chestId);
+    if (!chest || !player.transform) return false;
+    const from = player.transform.pos;
+    const to = chest.transform.pos;
+    return Math.hypot(to.x - from.x, to.z - from.z) <= VAULT_USE_RANGE;
+  }
+
+  private sendVault (player: Entity) {
+    const vault = player.player?.vault;
+    if (!vault) return;
+    const message: VaultMessage = { chest: vault.chest, items: vault.items };
+    this.clients.getById(player.player!.sessionId)?.send("vault", message);
+  }
+
+  /**
+   * Asks the player with session `to` to trade, if both are signed in, free to
+   * trade and within TRADE_RANGE. Replaces the player's earlier request.
+   */
+  private requestTrade (client: Client, to: string) {
+    const player = this.getPlayerEntity(client);
+    const other = this.getPlayerBySession(to);
+    if (!player || !other || player === other || !this.canTrade(player, other)) return;
+    this.tradeRequests.set(client.sessionId, { to, expiresAt: this.state.serverTime + TRADE_REQUEST_LIFETIME * 1000 });
+    const message: TradeRequestedMessage = { from: client.sessionId };
+    this.clients.getById(to)?.send("tradeRequested", message);
+  }
+
+  /** Opens a trade with the player of session `from`, if they asked this player and still may. */
+  private acceptTrade (client: Client, from: string) {
+    const request = this.tradeRequests.get(from);
+    if (!request || request.to !== client.sessionId || request.expiresAt < this.state.serverTime) return;
+    const player = this.getPlayerEntity(client);
+    const asking = this.getPlayerBySession(from);
+    if (!player?.player || !asking?.player || !this.canTrade(asking, player)) return;
+    this.tradeRequests.delete(from);
+    const trade: Trade = { players: [from, client.sessionId], offers: [[], []], confirmed: [0, 0], revision: 0, pending: null };
+    asking.player.trade = trade;
+    player.player.trade = trade;
+    this.sendTrade(trade);
+  }
+
+  /** Whether two players may start a trade: both signed in, in reach, alive, and neither busy. */
+  private canTrade (a: Entity, b: Entity): boolean {
+    const free = (entity: Entity) => !!entity.player?.accountId && !entity.player.trade && !entity.player.vault?.pending &&
+      (entity.health?.hp ?? 0) > 0 && !this.traveling.has(entity.player.sessionId);
+    if (!free(a) || !free(b) || !a.transform || !b.transform) return false;
+    return Math.hypot(a.transform.pos.x - b.transform.pos.x, a.transform.pos.z - b.transform.pos.z) <= TRADE_RANGE;
+  }
+
+  /** Replaces the player's offer; both players start confirming over. */
+  private changeTradeOffer (client: Client, slots: TradeOffer) {
+    const player = this.getPlayerEntity(client);
+    const trade = player?.player?.trade;
+    if (!player?.player || !trade || trade.pending || !isValidOffer(player.player.inventory, slots)) return;
+    trade.offers[trade.players.indexOf(client.sessionId)] = slots;
+    trade.confirmed = [0, 0];
+    trade.revision++;
+    this.sendTrade(trade);
+  }
+
+  /**
+   * Takes the player's confirmation `step` of the offers at `revision`: step 1
+   * first, step 2 once both players took step 1. The trade completes once both
+   * took step 2.
+   */
+  private confirmTrade (client: Client, step: number, revision: number) {
+    const trade = this.getPlayerEntity(client)?.player?.trade;
+    if (!trade || trade.pending || revision !== trade.revision) return;
+    const side = trade.players.indexOf(client.sessionId);
+    const confirmed = trade.confirmed[side];
+    if (step === 1 && confirmed === 0) trade.confirmed[side] = 1;
+    else if (step === 2 && confirmed === 1 && trade.confirmed[1 - side] >= 1) trade.confirmed[side] = 2;
+    else return;
+
+    if (trade.confirmed[0] === 2 && trade.confirmed[1] === 2) this.completeTrade(trade);
+    else this.sendTrade(trade);
+  }
+
+  /**
+   * Swaps the offered items, if both players have room for what they get. The
+   * swapped characters are stored together with the audit log entry first, and
+   * the swap applies once they are; a player who leaves meanwhile is saved
+   * after it, and one whose character died meanwhile does not get it on the
+   * new character.
+   */
+  private completeTrade (trade: Trade) {
+    const players = trade.players.map((sessionId) => this.getPlayerBySession(sessionId));
+    const records = players.map((entity) => entity && characterRecordOf(entity));
+    if (!players[0]?.player || !players[1]?.player || !records[0] || !records[1]) {
+      this.closeTrade(trade, "failed");
+      return;
+    }
+    const inventories = [players[0].player.inventory, players[1].player.inventory];
+    const swapped = tradeOffers(inventories[0], trade.offers[0], inventories[1], trade.offers[1]);
+    if (!swapped) {
+      this.closeTrade(trade, "noRoom");
+      return;
+    }
+
+    const [a, b] = records;
+    const gave = (side: 0 | 1) => trade.offers[side].map((slot) => inventories[side][slot]!);
+    const record: TradeRecord = {
+      id: randomUUID(),
+      completedAt: Date.now(),
+      roomId: this.roomId,
+      sides: [
+        { accountId: a.accountId, characterId: a.id, gave: gave(0) },
+        { accountId: b.accountId, characterId: b.id, gave: gave(1) },
+      ],
+    };
+    const data = [players[0].player, players[1].player];
+    trade.pending = getStorage().commitTrade(record, [{ ...a, inventory: swapped[0] }, { ...b, inventory: swapped[1] }])
+      .then(() => {
+        data.forEach((player, side) => {
+          if (player.characterId === records[side]!.id) player.inventory = swapped[side];
+        });
+        return "completed" as const;
+      }, (error) => {
+        console.error(`Could not store trade ${record.id}:`, error);
+        return "failed" as const;
+      })
+      .then((reason) => {
+        trade.pending = null;
+        this.closeTrade(trade, reason);
+      });
+  }
+
+  /** Ends a trade, unless it is being stored, and tells both players why. */
+  private closeTrade (trade: Trade, reason: TradeCloseReason) {
+    if (trade.pending) return;
+    const message: TradeClosedMessage = { reason };
+    for (const sessionId of trade.players) {
+      const player = this.getPlayerBySession(sessionId)?.player;
+      if (player?.trade === trade) player.trade = null;
+      this.clients.getById(sessionId)?.send("tradeClosed", message);
+    }
+  }
+
+  /** Sends both players the trade as it stands, each from their side. */
+  private sendTrade (trade: Trade) {
+    const players = trade.players.map((sessionId) => this.getPlayerBySession(sessionId));
+    const view = (side: number): TradeSideView => ({
+      slots: trade.offers[side],
+      items: trade.offers[side].map((slot) => players[side]?.player?.inventory[slot] ?? ""),
+      confirmed: trade.confirmed[side],
+    });
+    trade.players.forEach((sessionId, side) => {
+      const message: TradeMessage = { partner: trade.players[1 - side], revision: trade.revision, mine: view(side), theirs: view(1 - side) };
+      this.clients.getById(sessionId)?.send("trade", message);
+    });
+  }
+
+  /**
+   * Recomputes a player's stats from its base stats, equipment and buffs, after
+   * any of them changed. Max HP and MP follow the stats; HP and MP stay where
+   * they were, up to the new max.
+   */
+  private refreshStats (entity: Entity) {
+    if (!entity.player || !entity.stats || !entity.health) return;
+    Object.assign(entity.stats, equipmentStats(entity.player.baseStats, entity.player.inventory));
+    for (const buff of entity.player.buffs) entity.stats[buff.stat] += buff.amount;
+    entity.health.maxHp = entity.stats.hp;
+    entity.health.hp = Math.min(entity.health.hp, entity.health.maxHp);
+    if (entity.mana) {
+      entity.mana.maxMp = entity.stats.mp;
+      entity.mana.mp = Math.min(entity.mana.mp, entity.mana.maxMp);
+    }
+  }
+
+  /**
+   * Shares a dead enemy's experience between the players who damaged it and
+   * those within KILL_XP_SHARE_RADIUS of it. Damage from players who have left
+   * the room is forfeited.
+   */
+  private awardKillXp (enemy: Entity) {
+    if (!enemy.enemy || !enemy.transform) return;
+    const at = enemy.transform.pos;
+    const players = this.world.with(Player, "transform").entities;
+    const nearby = players
+      .filter((player) => Math.hypot(player.transform.pos.x - at.x, player.transform.pos.z - at.z) <= KILL_XP_SHARE_RADIUS)
+      .map((player) => player.id);
+    const shares = shareKillXp(getEnemyDefinition(enemy.enemy.kind).xp, enemy.enemy.damageTaken.byAttacker, nearby);
+    for (const player of players) {
+      const xp = shares.get(player.id);
+      if (xp) this.gainXp(player, xp);
+    }
+  }
+
+  /**
+   * Adds experience to a player's character. Each level gained raises its base
+   * stats to the class's stats at that level (up to MAX_LEVEL) and restores its
+   * HP and MP fully.
+   */
+  private gainXp (entity: Entity, xp: number) {
+    const player = entity.player;
+    if (!player || !entity.health || !entity.stats) return;
+    player.xp += xp;
+    const level = levelForXp(player.xp);
+    if (level <= player.level) return;
+
+    player.level = level;
+    player.baseStats = statsAtLevel(getClassDefinition(player.classId), level);
+    this.refreshStats(entity);
+    entity.health.hp = entity.health.maxHp;
+    if (entity.mana) entity.mana.mp = entity.mana.maxMp;
+    const message: LevelUpMessage = { level, stats: { ...entity.stats } };
+    this.clients.getById(player.sessionId)?.send("levelUp", message);
+  }
+
+  /**
+   * A player's character died: the player earns its fame and starts over at a
+   * spawn point with a new level 1 character of the same class. Saved
+   * characters go to the graveyard and the new one gets a new id.
+   */
+  private killCharacter (entity: Entity) {
+    const player = entity.player;
+    if (!player || !entity.transform || !entity.health || !entity.stats) return;
+    if (player.trade) this.closeTrade(player.trade, "death");
+    const fame = fameForDeath(player.xp, player.level);
+    player.fame += fame;
+    const message: DeathMessage = { level: player.level, fame, totalFame: player.fame };
+    const dead = characterRecordOf(entity);
+
+    const character = newCharacter(player.classId);
+    player.level = character.level;
+    player.xp = character.xp;
+    player.baseStats = character.stats;
+    player.inventory = character.inventory;
+    player.buffs = [];
+    player.abilityCooldown = 0;
+    if (entity.statusEffects) entity.statusEffects.effects = [];
+    this.refreshStats(entity);
+    entity.health.hp = entity.health.maxHp;
+    if (entity.mana) entity.mana.mp = entity.mana.maxMp;
+    Object.assign(entity.transform.pos, this.nextSpawnPoint());
+    this.clients.getById(player.sessionId)?.send("death", message);
+
+    if (dead) {
+      player.characterId = randomUUID();
+      getStorage().buryCharacter({ character: dead, fame, diedAt: Date.now() })
+        .then(async () => {
+          // A player who left or traveled meanwhile was saved on the way out, and the claim is no longer ours
+          if (!this.world.has(entity)) return;
+          await this.renewClaim(entity);
+          await this.savePlayer(entity);
+        })
+        .catch((error) => console.error(`Could not bury character ${dead.id}:`, error));
+    }
+  }
+
+  /**
+   * Sends `client` through a portal next to them: reserves a seat in the target
+   * room with their character, then takes them out of this one. Requests for
+   * portals out of reach, or while already traveling, are ignored.
+   */
+  private async usePortal (client: Client, portalId: string) {
+    if (this.traveling.has(client.sessionId)) return;
+    const player = this.getPlayerEntity(client);
+    const portal = this.world.with(Portal, "transform").entities.find((entity) => entity.id === portalId);
+    if (!player?.transform || !portal) return;
+    const from = player.transform.pos;
+    const to = portal.transform.pos;
+    if (Math.hypot(to.x - from.x, to.z - from.z) > PORTAL_USE_RANGE) return;
+
+    this.traveling.add(client.sessionId);
+    if (player.player?.trade) this.closeTrade(player.player.trade, "left");
+    try {
+      const target = await this.portalDestination(portal[Portal]);
+      await this.savePlayer(player);
+      const auth: TravelAuth = {
+        character: characterOf(player),
+        fame: player.player?.fame ?? 0,
+        accountId: player.player?.accountId,
+        characterId: player.player?.characterId,
+        claim: player.player?.claim,
+      };
+      const reservation = await matchMaker.reserveSeatFor(target, {}, auth);
+      // The character now lives in the target room, which releases the claim
+      if (this.world.has(player)) this.world.remove(player);
+      client.send("portal", reservation);
+    } catch (error) {
+      console.error(`${client.sessionId} could not use ${portalId}:`, error);
+      this.traveling.delete(client.sessionId);
+    }
+  }
+
+  /**
+   * Room a portal leads to. Dungeon portals lead to their own instance, created
+   * the first time someone uses the portal; other portals lead to any room of
+   * the target type with free seats, or a new one.
+   */
+  private async portalDestination (portal: PortalData): Promise<IRoomCache> {
+    if (portal.dungeon) {
+      const instance = portal.roomId ? await matchMaker.getRoomById(portal.roomId) : undefined;
+      if (instance) return instance;
+      const created = await matchMaker.createRoom(DUNGEON_ROOM, { dungeon: portal.dungeon });
+      portal.roomId = created.roomId;
+      return created;
+    }
+    return await matchMaker.findOneRoomAvailable(portal.target, {}) ?? await matchMaker.createRoom(portal.target, {});
+  }
+
+}
+
+/**
+ * An ItemLocation from a client message, or null if it is not one. The index
+ * may still name no slot; moveVaultItem rejects those.
+ */
+function itemLocation (value: unknown): ItemLocation | null {
+  if (typeof value !== "object" || value === null) return null;
+  const { area, index } = value as Record<string, unknown>;
+  if ((area !== "inventory" && area !== "vault") || typeof index !== "number") return null;
+  return { area, index };
+}
+
+/** Whether the player's inventory must stay as it is: while a vault move is stored, or during a trade. */
+function inventoryLocked (player: PlayerData): boolean {
+  return !!player.vault?.pending || !!player.trade;
+}
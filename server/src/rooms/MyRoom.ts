@@ -1,28 +1,10 @@
-import { Room, Client } from "@colyseus/core";
-import { MyRoomState } from "./schema/MyRoomState";
+import { GameRoom } from "./GameRoom";
 
-export class MyRoom extends Room<MyRoomState> {
+/**
+ * Sandbox room on the test arena (or any map given in `options.map`), used by
+ * tests and the load test. Guests may join.
+ */
+export class MyRoom extends GameRoom {
   maxClients = 4;
-  state = new MyRoomState();
-
-  onCreate (options: any) {
-    this.onMessage("type", (client, message) => {
-      //
-      // handle "type" message
-      //
-    });
-  }
-
-  onJoin (client: Client, options: any) {
-    console.log(client.sessionId, "joined!");
-  }
-
-  onLeave (client: Client, consented: boolean) {
-    console.log(client.sessionId, "left!");
-  }
-
-  onDispose() {
-    console.log("room", this.roomId, "disposing...");
-  }
-
+  protected guests = true;
 }
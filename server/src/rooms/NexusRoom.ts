@@ -0,0 +1,15 @@
+import { NEXUS_MAP } from "@rotmg/shared";
+import { GameRoom } from "./GameRoom";
+
+/**
+ * The safe hub players start in and return to. Nobody fights here; its portals
+ * lead out to the realm.
+ */
+export class NexusRoom extends GameRoom {
+  maxClients = 50;
+  protected combat = false;
+
+  protected mapId () {
+    return NEXUS_MAP;
+  }
+}
@@ -0,0 +1,38 @@
+import { getDungeonDefinition, REALM_MAP, NEXUS_ROOM, DUNGEON_ROOM } from "@rotmg/shared";
+import { GameRoom } from "./GameRoom";
+import { type Entity } from "../ecs/world";
+
+/** Seconds a dungeon portal dropped by the realm boss stays open. */
+export const DUNGEON_PORTAL_LIFETIME = 30;
+/** Dungeon the realm boss opens when it dies. */
+const BOSS_DUNGEON = "pirateCave";
+
+/**
+ * The generated open world. Each beach spawn has a portal back to the Nexus,
+ * and killing the realm boss opens a portal to a dungeon for a while.
+ */
+export class RealmRoom extends GameRoom {
+  maxClients = 85;
+
+  onCreate (options: any) {
+    super.onCreate(options);
+    for (const spawn of this.playerSpawns) {
+      this.openPortal({ x: spawn.x, z: spawn.z + this.map.tileSize }, { target: NEXUS_ROOM, label: "Nexus" });
+    }
+  }
+
+  protected mapId () {
+    return REALM_MAP;
+  }
+
+  protected onEnemyKilled (enemy: Entity) {
+    if (!enemy.enemy?.boss || !enemy.transform) return;
+    const dungeon = getDungeonDefinition(BOSS_DUNGEON);
+    this.openPortal(enemy.transform.pos, {
+      target: DUNGEON_ROOM,
+      label: dungeon.name,
+      dungeon: dungeon.id,
+      timeLeft: DUNGEON_PORTAL_LIFETIME,
+    });
+  }
+}
@@ -0,0 +1,110 @@
+import {
+  DEFAULT_CLASS,
+  emptyInventory,
+  equipmentIndex,
+  CLASS_DEFINITIONS,
+  getClassDefinition,
+  statsAtLevel,
+  type StatBlock,
+  type Inventory,
+} from "@rotmg/shared";
+import { randomUUID } from "crypto";
+import { ServerError } from "@colyseus/core";
+import { type Entity } from "../ecs/world";
+import { getStorage, type CharacterRecord } from "../persistence/Storage";
+
+/**
+ * Seconds a claim on a character in play lasts unless renewed; rooms renew
+ * it with every autosave. Claims of a crashed server run out after this.
+ */
+export const CLAIM_LIFETIME = 5 * 60;
+
+/**
+ * What a player takes along from room to room.
+ */
+export type Character = {
+  /** Id of the ClassDef. */
+  classId: string;
+  level: number;
+  /** Total experience. */
+  xp: number;
+  /** Stats from the class and level, before equipment. */
+  stats: StatBlock;
+  hp: number;
+  mp: number;
+  inventory: Inventory;
+};
+
+/**
+ * Handed to the target room with a portal's seat reservation. The server keeps it
+ * and passes it to `onJoin` as `client.auth`, so clients cannot tamper with it.
+ */
+export type TravelAuth = {
+  character: Character;
+  /** Fame the player earned with earlier characters. */
+  fame: number;
+  /** Where the character is saved; absent for guests. */
+  accountId?: string;
+  characterId?: string;
+  /** Owner of the claim on the character (see claimCharacter); absent for guests. */
+  claim?: string;
+};
+
+/**
+ * Level 1 character of `classId`, or of DEFAULT_CLASS if it is not a known class,
+ * at full health and MP with the class's starting weapon and ability.
+ */
+export function newCharacter(classId?: unknown): Character {
+  const def = getClassDefinition(typeof classId === "string" && CLASS_DEFINITIONS[classId] ? classId : DEFAULT_CLASS);
+  const stats = statsAtLevel(def, 1);
+  const inventory = emptyInventory();
+  inventory[equipmentIndex("weapon")] = def.weapon;
+  inventory[equipmentIndex("ability")] = def.ability;
+  return { classId: def.id, level: 1, xp: 0, stats, hp: stats.hp, mp: stats.mp, inventory };
+}
+
+/** Character state of a player entity, to carry into another room. */
+export function characterOf(entity: Entity): Character {
+  const character = newCharacter(entity.player?.classId);
+  return {
+    classId: character.classId,
+    level: entity.player?.level ?? character.level,
+    xp: entity.player?.xp ?? character.xp,
+    stats: { ...(entity.player?.baseStats ?? character.stats) },
+    hp: entity.health?.hp ?? character.hp,
+    mp: entity.mana?.mp ?? character.mp,
+    inventory: [...(entity.player?.inventory ?? character.inventory)],
+  };
+}
+
+/** Storage record of a saved player entity's character, or undefined for guests. */
+export function characterRecordOf(entity: Entity): CharacterRecord | undefined {
+  const player = entity.player;
+  if (!player?.accountId || !player.characterId) return undefined;
+  return { ...characterOf(entity), id: player.characterId, accountId: player.accountId };
+}
+
+/** When a claim made or renewed now runs out, in ms since the epoch. */
+export function claimExpiry(): number {
+  return Date.now() + CLAIM_LIFETIME * 1000;
+}
+
+/**
+ * Loads living character `characterId` of account `accountId` for a player
+ * joining a room, and claims it so no other session loads it meanwhile.
+ * Rejects with a ServerError if the account has no such character, or if it
+ * is already in play.
+ */
+export async function loadPlayer(accountId: string, characterId: unknown): Promise<TravelAuth> {
+  const storage = getStorage();
+  const [account, saved] = await Promise.all([
+    storage.loadAccount(accountId),
+    typeof characterId === "string" ? storage.loadCharacter(characterId) : undefined,
+  ]);
+  if (!account) throw new ServerError(401, "Unknown account");
+  if (!saved || saved.accountId !== accountId) throw new ServerError(404, "Choose one of your characters");
+  const { id, accountId: _, ...character } = saved;
+  const claim = randomUUID();
+  if (!await storage.claimCharacter(id, claim, claimExpiry())) throw new ServerError(409, "That character is already in play");
+  return { character, fame: account.fame, accountId, characterId: id, claim };
+}
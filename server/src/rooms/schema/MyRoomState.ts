@@ -1,7 +1,108 @@
-import { Schema, Context, type } from "@colyseus/schema";
+import { Schema, MapSchema, ArraySchema, type, view } from "@colyseus/schema";
+
+/**
+ * Common networked position. Entities are simulated on the XZ plane with Y up.
+ */
+export class EntityState extends Schema {
+  @type("number") x: number = 0;
+  @type("number") y: number = 0;
+  @type("number") z: number = 0;
+}
+
+/** A character's stats, see STAT_NAMES in @rotmg/shared. */
+export class StatsState extends Schema {
+  @type("uint16") hp: number = 0;
+  @type("uint16") mp: number = 0;
+  @type("uint8") attack: number = 0;
+  @type("uint8") defense: number = 0;
+  @type("uint8") speed: number = 0;
+  @type("uint8") dexterity: number = 0;
+  @type("uint8") vitality: number = 0;
+  @type("uint8") wisdom: number = 0;
+}
+
+export class PlayerState extends EntityState {
+  @type("number") hp: number = 0;
+  @type("number") maxHp: number = 0;
+  @type("number") mp: number = 0;
+  @type("number") maxMp: number = 0;
+  /** ClassDef id. */
+  @type("string") classId: string = "";
+  @type("uint8") level: number = 1;
+  /** Total experience of the character. */
+  @type("uint32") xp: number = 0;
+  /** Fame the player's dead characters earned. */
+  @type("uint32") fame: number = 0;
+  @type(StatsState) stats = new StatsState();
+  /** ItemDef ids per inventory slot (equipment, then backpack), "" where empty. */
+  @type(["string"]) inventory = new ArraySchema<string>();
+  /** Status effects the player is under, see STATUS_EFFECT_NAMES. */
+  @type(["string"]) effects = new ArraySchema<string>();
+  /** Last input command applied to x/y/z, for client reconciliation. */
+  @type("uint32") lastProcessedInput: number = 0;
+}
+
+export class EnemyState extends EntityState {
+  @type("string") kind: string = "";
+  @type("number") hp: number = 0;
+  @type("number") maxHp: number = 0;
+  /** Status effects the enemy is under, see STATUS_EFFECT_NAMES. */
+  @type(["string"]) effects = new ArraySchema<string>();
+}
+
+export class ProjectileState extends EntityState {
+  @type("number") vx: number = 0;
+  @type("number") vz: number = 0;
+  @type("string") ownerId: string = "";
+  /** ProjectileDef id; with the fields below, clients compute the exact path. */
+  @type("string") projectile: string = "";
+  /** Heading in radians. */
+  @type("number") angle: number = 0;
+  @type("number") originX: number = 0;
+  @type("number") originZ: number = 0;
+  /** Server time (ms) the projectile was fired at. */
+  @type("float64") spawnTime: number = 0;
+}
+
+export class PortalState extends EntityState {
+  @type("string") label: string = "";
+  /** Room type the portal leads to. */
+  @type("string") target: string = "";
+  /** Server time (ms) the portal closes at, or 0 if it stays open. */
+  @type("float64") closesAt: number = 0;
+}
+
+export class LootBagState extends EntityState {
+  /** BagDef id, for the sprite. */
+  @type("string") bag: string = "";
+  /** ItemDef ids. */
+  @type(["string"]) items = new ArraySchema<string>();
+  /** Server time (ms) the bag disappears at. */
+  @type("float64") closesAt: number = 0;
+}
 
 export class MyRoomState extends Schema {
 
-  @type("string") mySynchronizedProperty: string = "Hello world";
+  /** Simulation time in ms, advanced every fixed tick; clients interpolate against it. */
+  @type("float64") serverTime: number = 0;
+
+  /** Map id and seed; clients rebuild the same map from them (see loadMapLayout). */
+  @type("string") mapId: string = "";
+  @type("uint32") mapSeed: number = 0;
+  /** Indexes of the map's arenas (MapLayout `arenas`) sealed by a boss fight. */
+  @type(["uint8"]) sealedArenas = new ArraySchema<number>();
+
+  /** Players keyed by session id. */
+  @type({ map: PlayerState }) players = new MapSchema<PlayerState>();
+  /** Enemies keyed by entity id. */
+  @type({ map: EnemyState }) enemies = new MapSchema<EnemyState>();
+  /** Projectiles keyed by entity id. */
+  @type({ map: ProjectileState }) projectiles = new MapSchema<ProjectileState>();
+  /** Portals keyed by entity id. */
+  @type({ map: PortalState }) portals = new MapSchema<PortalState>();
+  /** Vault chests keyed by entity id. */
+  @type({ map: EntityState }) vaultChests = new MapSchema<EntityState>();
+  /** Loot bags keyed by entity id. Each client only gets the bags added to its view. */
+  @view() @type({ map: LootBagState }) bags = new MapSchema<LootBagState>();
 
 }
@@ -0,0 +1,99 @@
+import assert from "assert";
+import { ColyseusTestServer, boot } from "@colyseus/testing";
+import { type Room } from "colyseus.js";
+import { EQUIPMENT_SLOTS, getAbilityDefinition, getClassDefinition, mpRegen } from "@rotmg/shared";
+
+import appConfig from "../src/app.config";
+import { MyRoomState } from "../src/rooms/schema/MyRoomState";
+import { MyRoom } from "../src/rooms/MyRoom";
+import { type Entity } from "../src/ecs/world";
+import { playerEntity } from "./helpers/rooms";
+
+const ABILITY = EQUIPMENT_SLOTS.indexOf("ability");
+
+/** Sends a cast at `offset` from the player and runs one tick. */
+async function castAt(room: MyRoom, client: Room, player: Entity, offset: { x: number; z: number }) {
+  const pos = player.transform!.pos;
+  client.send("cast", { x: pos.x + offset.x, z: pos.z + offset.z });
+  await room.waitForMessage("cast");
+  room.fixedTick(0.05);
+}
+
+describe("abilities", () => {
+  let colyseus: ColyseusTestServer;
+
+  before(async () => colyseus = await boot(appConfig));
+  after(async () => colyseus.shutdown());
+
+  beforeEach(async () => await colyseus.cleanup());
+
+  it("bursts a spell bomb at the target point, paying MP and starting the cooldown", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    const player = playerEntity(room, client1.sessionId);
+    const bomb = getAbilityDefinition("spellBomb");
+    const maxMp = getClassDefinition("wizard").base.mp;
+
+    await castAt(room, client1, player, { x: 3, z: 0 });
+    const shards = Array.from(room.state.projectiles.values()).filter((p) => p.ownerId === client1.sessionId);
+    assert.strictEqual(shards.length, 16);
+    const pos = player.transform!.pos;
+    // Shards start around the target point, in a ring
+    const center = (axis: "originX" | "originZ") => shards.reduce((sum, p) => sum + p[axis], 0) / shards.length;
+    assert.ok(Math.abs(center("originX") - (pos.x + 3)) < 1e-6 && Math.abs(center("originZ") - pos.z) < 1e-6);
+    const synced = room.state.players.get(client1.sessionId)!;
+    assert.strictEqual(synced.maxMp, maxMp);
+    assert.ok(Math.abs(synced.mp - (maxMp - bomb.mpCost + mpRegen(player.stats!.wisdom) * 0.05)) < 1e-6);
+
+    // Cooling down, then out of range
+    const mp = player.mana!.mp;
+    await castAt(room, client1, player, { x: 3, z: 0 });
+    assert.strictEqual(player.player!.abilityCooldown > 0, true);
+    player.player!.abilityCooldown = 0;
+    await castAt(room, client1, player, { x: bomb.range + 1, z: 0 });
+    assert.ok(player.mana!.mp > mp, "refused casts cost nothing");
+  });
+
+  it("refuses casts without enough MP or with no ability equipped", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    const player = playerEntity(room, client1.sessionId);
+
+    player.mana!.mp = getAbilityDefinition("spellBomb").mpCost - 1;
+    await castAt(room, client1, player, { x: 1, z: 0 });
+    assert.strictEqual(room.state.projectiles.size, 0);
+    assert.strictEqual(player.player!.abilityCooldown, 0);
+
+    player.mana!.mp = player.mana!.maxMp;
+    player.player!.inventory[ABILITY] = null;
+    await castAt(room, client1, player, { x: 1, z: 0 });
+    assert.strictEqual(room.state.projectiles.size, 0);
+  });
+
+  it("heals, buffs stats for a while and teleports", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room, { classId: "warrior" });
+    const player = playerEntity(room, client1.sessionId);
+    const baseSpeed = player.stats!.speed;
+    const helm = getAbilityDefinition("warHelm").effect;
+    assert.ok(helm.type === "buff" && helm.stat === "speed");
+
+    // Wherever the cursor is
+    await castAt(room, client1, player, { x: 0.36, z: -2 });
+    assert.strictEqual(room.state.players.get(client1.sessionId)!.stats.speed, baseSpeed + helm.amount);
+    for (let i = 0; i <= helm.duration * 20; i++) room.fixedTick(0.05);
+    assert.strictEqual(player.stats!.speed, baseSpeed, "the buff wore off");
+
+    player.player!.inventory[ABILITY] = "healingTome";
+    player.player!.abilityCooldown = 0;
+    player.health!.hp = 50;
+    await castAt(room, client1, player, { x: -1.5, z: 0.36 });
+    assert.ok(player.health!.hp >= 110 && player.health!.hp < 111, `healed to ${player.health!.hp}`);
+
+    player.player!.inventory[ABILITY] = "teleportCloak";
+    player.player!.abilityCooldown = 0;
+    const from = { ...player.transform!.pos };
+    await castAt(room, client1, player, { x: 2, z: 1 });
+    assert.deepStrictEqual({ x: player.transform!.pos.x, z: player.transform!.pos.z }, { x: from.x + 2, z: from.z + 1 });
+  });
+});
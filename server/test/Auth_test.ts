@@ -0,0 +1,115 @@
+import assert from "assert";
+import { ColyseusTestServer, boot } from "@colyseus/testing";
+import { NEXUS_ROOM, type AuthResponse, type CharacterSummary, type CharactersResponse } from "@rotmg/shared";
+
+import appConfig from "../src/app.config";
+import { MyRoomState } from "../src/rooms/schema/MyRoomState";
+import { useStorage } from "../src/persistence/Storage";
+import { MemoryStorage } from "../src/persistence/MemoryStorage";
+import { hashPassword, verifyPassword } from "../src/auth/passwords";
+import { signToken, verifyToken, TOKEN_LIFETIME } from "../src/auth/tokens";
+import { AUTH_RATE_LIMIT } from "../src/auth/routes";
+import { signUp } from "./helpers/accounts";
+
+describe("accounts", () => {
+  let colyseus: ColyseusTestServer;
+  let storage: MemoryStorage;
+
+  before(async () => colyseus = await boot(appConfig));
+  after(async () => colyseus.shutdown());
+
+  beforeEach(async () => {
+    await colyseus.cleanup();
+    useStorage(storage = new MemoryStorage());
+  });
+
+  function post<T>(path: string, body: object): Promise<T> {
+    return colyseus.sdk.http.post(path, { body }).then((response) => response.data as T);
+  }
+
+  it("register, log in, and create and list characters", async () => {
+    const registered = await post<AuthResponse>("/auth/register", { name: "Ann", password: "correct horse" });
+    assert.strictEqual(registered.account.name, "Ann");
+    assert.strictEqual(verifyToken(registered.token), registered.account.id);
+
+    await assert.rejects(post("/auth/register", { name: "ann", password: "battery staple" }), { code: 409 });
+    await assert.rejects(post("/auth/register", { name: "a!", password: "battery staple" }), { code: 400 });
+    await assert.rejects(post("/auth/register", { name: "Bob", password: "short" }), { code: 400 });
+    await assert.rejects(post("/auth/login", { name: "Ann", password: "wrong horse" }), { code: 401 });
+    await assert.rejects(post("/auth/login", { name: "Nobody", password: "correct horse" }), { code: 401 });
+    const login = await post<AuthResponse>("/auth/login", { name: "ANN", password: "correct horse" });
+    assert.strictEqual(login.account.id, registered.account.id);
+
+    await assert.rejects(colyseus.sdk.http.get("/characters"), { code: 401 });
+    colyseus.sdk.auth.token = `${login.token.split(".")[0]}.forged`;
+    await assert.rejects(colyseus.sdk.http.get("/characters"), { code: 401 });
+
+    colyseus.sdk.auth.token = login.token;
+    await assert.rejects(post("/characters", { classId: "dragon" }), { code: 400 });
+    const created = await post<CharacterSummary>("/characters", { classId: "archer" });
+    assert.deepStrictEqual([created.classId, created.level, created.xp], ["archer", 1, 0]);
+    const listed = (await colyseus.sdk.http.get("/characters")).data as CharactersResponse;
+    assert.deepStrictEqual(listed.characters, [created]);
+
+    // Only salted hashes are stored
+    const account = (await storage.findAccount("Ann"))!;
+    assert.ok(!JSON.stringify(account).includes("correct horse"));
+    assert.strictEqual(await verifyPassword("correct horse", account.password), true);
+  });
+
+  it("salt every password differently", async () => {
+    const first = await hashPassword("same password");
+    const second = await hashPassword("same password");
+    assert.notStrictEqual(first.salt, second.salt);
+    assert.notStrictEqual(first.hash, second.hash);
+    assert.strictEqual(await verifyPassword("same password", second), true);
+    assert.strictEqual(await verifyPassword("other password", second), false);
+  });
+
+  it("reject tampered and expired tokens", () => {
+    const token = signToken("ann", 0);
+    assert.strictEqual(verifyToken(token, 1000), "ann");
+    assert.strictEqual(verifyToken(token, TOKEN_LIFETIME * 1000), null, "expired");
+    const [payload, signature] = token.split(".");
+    const tampered = Buffer.from(JSON.stringify({ account: "bob", expires: Infinity })).toString("base64url");
+    assert.strictEqual(verifyToken(`${tampered}.${signature}`, 1000), null);
+    assert.strictEqual(verifyToken(`${payload}.${signature}.x`, 1000), null);
+    assert.strictEqual(verifyToken(undefined), null);
+  });
+
+  it("let only signed-in players into rooms, with one of their own characters", async () => {
+    const ann = await signUp(storage, "ann", "archer");
+    const bob = await signUp(storage, "bob");
+    const nexus = await colyseus.createRoom<MyRoomState>(NEXUS_ROOM, {});
+    colyseus.sdk.auth.token = ann.token;
+    const client1 = await colyseus.connectTo(nexus, { character: ann.characterId });
+    assert.strictEqual(nexus.state.players.get(client1.sessionId)!.classId, "archer");
+
+    await assert.rejects(colyseus.connectTo(nexus, { character: bob.characterId }), /Choose one of your characters/);
+    await assert.rejects(colyseus.connectTo(nexus, {}), /Choose one of your characters/);
+    colyseus.sdk.auth.token = `${bob.token}x`;
+    await assert.rejects(colyseus.connectTo(nexus, { character: bob.characterId }), /Sign in first/);
+    colyseus.sdk.auth.token = "";
+    await assert.rejects(colyseus.connectTo(nexus, { character: bob.characterId }), /Sign in first/);
+
+    // The sandbox takes guests
+    const sandbox = await colyseus.createRoom<MyRoomState>("my_room", {});
+    const guest = await colyseus.connectTo(sandbox, { classId: "warrior" });
+    assert.strictEqual(sandbox.state.players.get(guest.sessionId)!.classId, "warrior");
+  });
+});
+
+describe("account rate limiting", () => {
+  let colyseus: ColyseusTestServer;
+
+  before(async () => colyseus = await boot(appConfig));
+  after(async () => colyseus.shutdown());
+
+  it("turn away clients that keep guessing", async () => {
+    useStorage(new MemoryStorage());
+    const login = () => colyseus.sdk.http.post("/auth/login", { body: { name: "ann", password: "guess" } });
+    for (let i = 0; i < AUTH_RATE_LIMIT; i++) await assert.rejects(login(), { code: 401 });
+    await assert.rejects(login(), { code: 429 });
+    await assert.rejects(colyseus.sdk.http.post("/auth/register", { body: { name: "ann", password: "password" } }), { code: 429 });
+  });
+});
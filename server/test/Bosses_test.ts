@@ -0,0 +1,132 @@
+import assert from "assert";
+import { ColyseusTestServer, boot } from "@colyseus/testing";
+import { loadMapLayout, arenaContains, type TauntMessage } from "@rotmg/shared";
+
+import appConfig from "../src/app.config";
+import { MyRoomState } from "../src/rooms/schema/MyRoomState";
+import { MyRoom } from "../src/rooms/MyRoom";
+import { worldOf, mapOf, playerEntity, handleDeath, killCharacter } from "./helpers/rooms";
+
+describe("bosses", () => {
+  let colyseus: ColyseusTestServer;
+
+  before(async () => colyseus = await boot(appConfig));
+  after(async () => colyseus.shutdown());
+
+  beforeEach(async () => await colyseus.cleanup());
+
+  it("seal the arena when engaged, taunt, call minions by phase and open the arena on death", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", { map: "pirateCave", seed: 42 }) as MyRoom;
+    const client = await colyseus.connectTo(room);
+    const taunts: TauntMessage[] = [];
+    client.onMessage("taunt", (message: TauntMessage) => taunts.push(message));
+    const world = worldOf(room);
+    const boss = world.entities.find((entity) => entity.enemy?.boss)!;
+    const player = playerEntity(room, client.sessionId);
+    const [arena] = loadMapLayout("pirateCave", 42).arenas!;
+    const map = mapOf(room);
+    assert.ok(arena.gates.length > 0);
+    assert.ok(arena.gates.every(([col, row]) => !map.tileBlocksMovement(col, row)));
+
+    // Stand in a gateway and hurt the boss from there
+    const [gateCol, gateRow] = arena.gates[0];
+    Object.assign(player.transform!.pos, map.tileCenter(gateCol, gateRow));
+    boss.health!.hp -= 1;
+    room.fixedTick(0.05);
+    await room.waitForNextPatch();
+
+    assert.deepStrictEqual(Array.from(room.state.sealedArenas), [0]);
+    assert.deepStrictEqual(Array.from(client.state.sealedArenas), [0]);
+    assert.ok(arena.gates.every(([col, row]) => map.tileBlocksMovement(col, row)), "gates closed");
+    const pos = player.transform!.pos;
+    assert.ok(!map.blocksMovement(pos.x, pos.z), "moved out of the gateway");
+    assert.strictEqual(boss.bossScript!.phase, 0);
+
+    // Second phase calls pirates
+    const enemiesBefore = room.state.enemies.size;
+    boss.health!.hp = boss.health!.maxHp * 0.5;
+    room.fixedTick(0.05);
+    assert.strictEqual(boss.bossScript!.phase, 1);
+    assert.strictEqual(room.state.enemies.size, enemiesBefore + 3);
+    assert.ok(boss.statusEffects!.effects.some((effect) => effect.effect === "invulnerable"));
+
+    await room.waitForNextPatch();
+    assert.deepStrictEqual(taunts.map((taunt) => taunt.speaker), ["pirateCaptain", "pirateCaptain"]);
+
+    // Death opens the gates again
+    boss.health!.hp = 0;
+    handleDeath(room, boss);
+    await room.waitForNextPatch();
+    assert.deepStrictEqual(Array.from(client.state.sealedArenas), []);
+    assert.ok(arena.gates.every(([col, row]) => !map.tileBlocksMovement(col, row)), "gates open");
+  });
+
+  it("start over and open the arena once no living player is left inside", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", { map: "pirateCave", seed: 42 }) as MyRoom;
+    const client = await colyseus.connectTo(room);
+    const world = worldOf(room);
+    const boss = world.entities.find((entity) => entity.enemy?.boss)!;
+    const player = playerEntity(room, client.sessionId);
+    const [arena] = loadMapLayout("pirateCave", 42).arenas!;
+    const map = mapOf(room);
+    const spawn = { ...boss.transform!.pos };
+    const enemiesBefore = room.state.enemies.size;
+
+    // Engage from inside, and fight on to the phase with minions
+    Object.assign(player.transform!.pos, { x: boss.transform!.pos.x + 2, z: boss.transform!.pos.z });
+    room.fixedTick(0.05);
+    assert.deepStrictEqual(Array.from(room.state.sealedArenas), [0]);
+    boss.health!.hp = boss.health!.maxHp * 0.5;
+    boss.transform!.pos.x += 1;
+    room.fixedTick(0.05);
+    assert.strictEqual(boss.bossScript!.phase, 1);
+    assert.strictEqual(room.state.enemies.size, enemiesBefore + 3);
+
+    // The only player inside dies and comes back outside
+    killCharacter(room, player);
+    assert.ok(!arenaContains(map, arena, player.transform!.pos));
+    room.fixedTick(0.05);
+    await room.waitForNextPatch();
+
+    assert.deepStrictEqual(Array.from(client.state.sealedArenas), []);
+    assert.ok(arena.gates.every(([col, row]) => !map.tileBlocksMovement(col, row)), "gates open");
+    assert.strictEqual(boss.bossScript!.phase, -1);
+    assert.strictEqual(boss.health!.hp, boss.health!.maxHp);
+    assert.deepStrictEqual({ x: boss.transform!.pos.x, z: boss.transform!.pos.z }, { x: spawn.x, z: spawn.z });
+    assert.strictEqual(room.state.enemies.size, enemiesBefore, "minions gone");
+
+    // Standing near from outside the walls does not wake it again
+    const [col, row] = [arena.col + arena.width, map.tileRow(spawn.z)];
+    assert.ok(!arena.gates.some(([gateCol, gateRow]) => gateCol === col && gateRow === row));
+    Object.assign(player.transform!.pos, map.tileCenter(col, row));
+    assert.ok(Math.hypot(player.transform!.pos.x - spawn.x, player.transform!.pos.z - spawn.z) <= boss.enemyAI!.definition.boss!.engageRange);
+    room.fixedTick(0.05);
+    assert.strictEqual(boss.bossScript!.phase, -1);
+  });
+
+  it("stay asleep when shot from outside the arena", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", { map: "pirateCave", seed: 42 }) as MyRoom;
+    const client = await colyseus.connectTo(room);
+    const taunts: TauntMessage[] = [];
+    client.onMessage("taunt", (message: TauntMessage) => taunts.push(message));
+    const boss = worldOf(room).entities.find((entity) => entity.enemy?.boss)!;
+    const player = playerEntity(room, client.sessionId);
+    const [arena] = loadMapLayout("pirateCave", 42).arenas!;
+    const map = mapOf(room);
+    const enemiesBefore = room.state.enemies.size;
+
+    // Hit after hit from beyond the walls
+    Object.assign(player.transform!.pos, map.tileCenter(arena.col + arena.width, map.tileRow(boss.transform!.pos.z)));
+    for (let i = 0; i < 5; i++) {
+      boss.health!.hp -= 10;
+      room.fixedTick(0.05);
+    }
+    await room.waitForNextPatch();
+
+    assert.strictEqual(boss.bossScript!.phase, -1);
+    assert.strictEqual(boss.health!.hp, boss.health!.maxHp - 50, "the damage stays");
+    assert.deepStrictEqual(Array.from(client.state.sealedArenas), []);
+    assert.strictEqual(room.state.enemies.size, enemiesBefore);
+    assert.deepStrictEqual(taunts, []);
+  });
+});
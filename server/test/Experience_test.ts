@@ -0,0 +1,101 @@
+import assert from "assert";
+import { ColyseusTestServer, boot } from "@colyseus/testing";
+import { type Room } from "colyseus.js";
+import {
+  getClassDefinition,
+  getEnemyDefinition,
+  statsAtLevel,
+  fameForDeath,
+  type LevelUpMessage,
+  type DeathMessage,
+} from "@rotmg/shared";
+
+import appConfig from "../src/app.config";
+import { MyRoomState } from "../src/rooms/schema/MyRoomState";
+import { MyRoom } from "../src/rooms/MyRoom";
+import { worldOf, playerEntity } from "./helpers/rooms";
+
+/** Collects every `type` message sent to `client`. */
+function messages<T>(client: Room, type: string): T[] {
+  const received: T[] = [];
+  client.onMessage(type, (message: T) => received.push(message));
+  return received;
+}
+
+describe("experience, levels and fame", () => {
+  let colyseus: ColyseusTestServer;
+
+  before(async () => colyseus = await boot(appConfig));
+  after(async () => colyseus.shutdown());
+
+  beforeEach(async () => await colyseus.cleanup());
+
+  it("shares kill experience between the killer and players nearby, and levels up", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    const client2 = await colyseus.connectTo(room);
+    const levelUps = messages<LevelUpMessage>(client1, "levelUp");
+    const enemy = worldOf(room).entities.find((entity) => entity.enemy)!;
+    const xp = getEnemyDefinition(enemy.enemy!.kind).xp;
+
+    // Close to level 2; one shot finishes the enemy at (5, 5) off
+    playerEntity(room, client1.sessionId).player!.xp = 45;
+    playerEntity(room, client1.sessionId).health!.hp = 50;
+    enemy.health!.hp = 1;
+    client1.send("shoot", { x: 1, z: 1 });
+    await room.waitForMessage("shoot");
+    for (let i = 0; i < 10; i++) room.fixedTick(0.05);
+    assert.strictEqual(worldOf(room).has(enemy), false);
+
+    const killer = room.state.players.get(client1.sessionId)!;
+    const bystander = room.state.players.get(client2.sessionId)!;
+    assert.strictEqual(killer.xp, 45 + xp);
+    assert.strictEqual(bystander.xp, xp / 2, "players near the kill get a share");
+    assert.strictEqual(bystander.level, 1);
+
+    const level2 = statsAtLevel(getClassDefinition("wizard"), 2);
+    assert.strictEqual(killer.level, 2);
+    assert.strictEqual(killer.maxHp, level2.hp);
+    assert.strictEqual(killer.hp, level2.hp, "leveling up heals fully");
+    assert.strictEqual(killer.stats.wisdom, level2.wisdom);
+    await room.waitForNextPatch();
+    assert.deepStrictEqual(levelUps, [{ level: 2, stats: level2 }]);
+  });
+
+  it("gives experience only for damage that hurt the enemy", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    const enemy = worldOf(room).entities.find((entity) => entity.enemy)!;
+
+    enemy.health!.hp = 3;
+    client1.send("shoot", { x: 1, z: 1 });
+    await room.waitForMessage("shoot");
+    for (let i = 0; i < 10; i++) room.fixedTick(0.05);
+    assert.strictEqual(enemy.enemy!.damageTaken.total, 3);
+    assert.deepStrictEqual(Array.from(enemy.enemy!.damageTaken.byAttacker), [[client1.sessionId, 3]]);
+  });
+
+  it("turns a dead character's experience into fame and starts a new one", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", { seed: 1 }) as MyRoom;
+    const client1 = await colyseus.connectTo(room, { classId: "archer" });
+    const deaths = messages<DeathMessage>(client1, "death");
+    const player = playerEntity(room, client1.sessionId);
+    player.player!.xp = 500;
+    player.player!.level = 4;
+    player.health!.hp = 1;
+
+    // Wait for the pirate to get a shot in
+    for (let i = 0; i < 200 && player.player!.level > 1; i++) room.fixedTick(0.05);
+    await room.waitForNextPatch();
+
+    const fame = fameForDeath(500, 4);
+    assert.ok(fame > 0);
+    assert.deepStrictEqual(deaths, [{ level: 4, fame, totalFame: fame }]);
+    const synced = room.state.players.get(client1.sessionId)!;
+    assert.strictEqual(synced.fame, fame);
+    assert.strictEqual(synced.classId, "archer");
+    assert.strictEqual(synced.level, 1);
+    assert.strictEqual(synced.xp, 0);
+    assert.strictEqual(synced.maxHp, getClassDefinition("archer").base.hp);
+  });
+});
@@ -0,0 +1,137 @@
+import assert from "assert";
+import { ColyseusTestServer, boot } from "@colyseus/testing";
+import { EQUIPMENT_SLOTS, getClassDefinition, getItemDefinition } from "@rotmg/shared";
+
+import appConfig from "../src/app.config";
+import { MyRoomState } from "../src/rooms/schema/MyRoomState";
+import { MyRoom } from "../src/rooms/MyRoom";
+import { playerEntity } from "./helpers/rooms";
+
+/** Inventory index of the first backpack slot. */
+const BACKPACK = EQUIPMENT_SLOTS.length;
+const WEAPON = EQUIPMENT_SLOTS.indexOf("weapon");
+const ABILITY = EQUIPMENT_SLOTS.indexOf("ability");
+const ARMOR = EQUIPMENT_SLOTS.indexOf("armor");
+
+describe("inventory and equipment", () => {
+  let colyseus: ColyseusTestServer;
+
+  before(async () => colyseus = await boot(appConfig));
+  after(async () => colyseus.shutdown());
+
+  beforeEach(async () => await colyseus.cleanup());
+
+  it("starts characters with their class's weapon and ability equipped", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room, { classId: "archer" });
+    room.fixedTick(0.05);
+
+    const inventory = Array.from(room.state.players.get(client1.sessionId)!.inventory);
+    assert.strictEqual(inventory.length, BACKPACK + 8);
+    assert.strictEqual(inventory[WEAPON], getClassDefinition("archer").weapon);
+    assert.strictEqual(inventory[ABILITY], getClassDefinition("archer").ability);
+    assert.ok(inventory.slice(ABILITY + 1).every((item) => item === ""));
+  });
+
+  it("equips items into their own slots only, changing stats", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    const player = playerEntity(room, client1.sessionId);
+    player.player!.inventory[BACKPACK] = "leatherArmor";
+    const move = async (from: number, to: number) => {
+      client1.send("moveItem", { from, to });
+      await room.waitForMessage("moveItem");
+      room.fixedTick(0.05);
+    };
+
+    await move(BACKPACK, WEAPON);
+    await move(BACKPACK, 99);
+    await move(BACKPACK + 1, ARMOR);
+    assert.strictEqual(player.player!.inventory[BACKPACK], "leatherArmor", "invalid moves change nothing");
+    assert.strictEqual(player.stats!.defense, 0);
+
+    await move(BACKPACK, ARMOR);
+    const synced = room.state.players.get(client1.sessionId)!;
+    assert.strictEqual(synced.inventory[ARMOR], "leatherArmor");
+    assert.strictEqual(synced.inventory[BACKPACK], "");
+    assert.strictEqual(synced.stats.defense, getItemDefinition("leatherArmor").stats!.defense);
+
+    // Back into the backpack, one slot further
+    await move(ARMOR, BACKPACK + 1);
+    assert.strictEqual(synced.inventory[BACKPACK + 1], "leatherArmor");
+    assert.strictEqual(synced.stats.defense, 0);
+  });
+
+  it("fires the equipped weapon, and nothing without one", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    const player = playerEntity(room, client1.sessionId);
+    player.player!.inventory[BACKPACK] = "tripleBow";
+    const shots = () => Array.from(room.state.projectiles.values()).filter((p) => p.ownerId === client1.sessionId);
+    const shoot = async () => {
+      player.player!.fireCooldown = 0;
+      client1.send("shoot", { x: 0, z: -1 });
+      await room.waitForMessage("shoot");
+      room.fixedTick(0.05);
+    };
+
+    // Swapping puts the wand in the bow's backpack slot
+    client1.send("moveItem", { from: BACKPACK, to: WEAPON });
+    await room.waitForMessage("moveItem");
+    assert.deepStrictEqual(player.player!.inventory.slice(0, BACKPACK + 1), ["tripleBow", "spellBomb", null, null, "starterWand"]);
+    await shoot();
+    assert.strictEqual(shots().length, 3);
+    assert.ok(shots().every((p) => p.projectile === "arrow"));
+
+    for (let i = 0; i < 20; i++) room.fixedTick(0.05);
+    client1.send("moveItem", { from: WEAPON, to: BACKPACK + 1 });
+    await room.waitForMessage("moveItem");
+    await shoot();
+    assert.strictEqual(shots().length, 0);
+  });
+
+  it("drops items into a bag at the player's feet", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    const player = playerEntity(room, client1.sessionId);
+    player.player!.inventory[BACKPACK] = "chainmail";
+    client1.send("moveItem", { from: BACKPACK, to: ARMOR });
+    await room.waitForMessage("moveItem");
+    const baseHp = getClassDefinition("wizard").base.hp;
+    assert.strictEqual(player.health!.maxHp, baseHp + getItemDefinition("chainmail").stats!.hp!);
+
+    client1.send("dropItem", { slot: ARMOR });
+    await room.waitForMessage("dropItem");
+    client1.send("dropItem", { slot: BACKPACK + 3 });
+    await room.waitForMessage("dropItem");
+    room.fixedTick(0.05);
+
+    assert.strictEqual(player.player!.inventory[ARMOR], null);
+    assert.strictEqual(player.health!.maxHp, baseHp);
+    assert.ok(player.health!.hp <= baseHp);
+    const bags = Array.from(room.state.bags.values());
+    assert.strictEqual(bags.length, 1, "dropping from an empty slot does nothing");
+    assert.deepStrictEqual(Array.from(bags[0].items), ["chainmail"]);
+    assert.deepStrictEqual({ x: bags[0].x, z: bags[0].z }, { x: player.transform!.pos.x, z: player.transform!.pos.z });
+  });
+
+  it("uses up potions to heal, but not at full HP", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    const player = playerEntity(room, client1.sessionId);
+    player.player!.inventory[BACKPACK] = "healthPotion";
+    player.player!.inventory[BACKPACK + 1] = "ringOfAttack";
+
+    client1.send("useItem", { slot: BACKPACK });
+    await room.waitForMessage("useItem");
+    assert.strictEqual(player.player!.inventory[BACKPACK], "healthPotion", "kept at full HP");
+
+    player.health!.hp = 10;
+    client1.send("useItem", { slot: BACKPACK + 1 });
+    client1.send("useItem", { slot: BACKPACK });
+    await room.waitForMessage("useItem");
+    assert.strictEqual(player.player!.inventory[BACKPACK + 1], "ringOfAttack", "only consumables are used up");
+    assert.strictEqual(player.player!.inventory[BACKPACK], null);
+    assert.strictEqual(player.health!.hp, Math.min(player.health!.maxHp, 10 + getItemDefinition("healthPotion").heal!));
+  });
+});
@@ -0,0 +1,75 @@
+import assert from "assert";
+import { ColyseusTestServer, boot } from "@colyseus/testing";
+import { LOOT_BAG_LIFETIME, EQUIPMENT_SLOTS } from "@rotmg/shared";
+
+import appConfig from "../src/app.config";
+import { MyRoomState } from "../src/rooms/schema/MyRoomState";
+import { MyRoom } from "../src/rooms/MyRoom";
+import { worldOf, playerEntity } from "./helpers/rooms";
+
+/** Inventory index of the first backpack slot. */
+const BACKPACK = EQUIPMENT_SLOTS.length;
+
+describe("loot", () => {
+  let colyseus: ColyseusTestServer;
+
+  before(async () => colyseus = await boot(appConfig));
+  after(async () => colyseus.shutdown());
+
+  beforeEach(async () => await colyseus.cleanup());
+
+  it("drops public and soulbound bags, and lets players take what they may see", async () => {
+    // With this seed the boss drops a soulbound Chainmail along with its public loot
+    const room = await colyseus.createRoom<MyRoomState>("my_room", { map: "pirateCave", seed: 9 }) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    const client2 = await colyseus.connectTo(room);
+    const world = worldOf(room);
+    const boss = world.entities.find((entity) => entity.enemy?.boss)!;
+    const killer = playerEntity(room, client1.sessionId);
+    const looter = playerEntity(room, client2.sessionId);
+
+    // Only client1 hurts the boss; one shot finishes it off
+    boss.health!.hp = 1;
+    Object.assign(killer.transform!.pos, { x: boss.transform!.pos.x - 2, z: boss.transform!.pos.z });
+    client1.send("shoot", { x: 1, z: 0 });
+    await room.waitForMessage("shoot");
+    for (let i = 0; i < 3; i++) room.fixedTick(0.05);
+    assert.strictEqual(world.has(boss), false);
+
+    const bags = Array.from(room.state.bags.entries());
+    const [publicId, publicBag] = bags.find(([, bag]) => bag.bag === "brown")!;
+    const [soulboundId, soulboundBag] = bags.find(([, bag]) => bag.bag === "white")!;
+    assert.strictEqual(bags.length, 2);
+    assert.deepStrictEqual(Array.from(publicBag.items), ["healthPotion", "ringOfVitality"]);
+    assert.deepStrictEqual(Array.from(soulboundBag.items), ["chainmail"]);
+
+    await room.waitForNextPatch();
+    assert.deepStrictEqual(Array.from(client1.state.bags.keys()).sort(), [publicId, soulboundId].sort());
+    assert.deepStrictEqual(Array.from(client2.state.bags.keys()), [publicId], "only damage dealers see soulbound bags");
+
+    // Out of reach
+    client2.send("pickUp", { bag: publicId, index: 1 });
+    await room.waitForMessage("pickUp");
+    assert.strictEqual(looter.player!.inventory[BACKPACK], null);
+
+    Object.assign(looter.transform!.pos, { x: publicBag.x, z: publicBag.z });
+    client2.send("pickUp", { bag: publicId, index: 1 });
+    await room.waitForMessage("pickUp");
+    client2.send("pickUp", { bag: soulboundId, index: 0 });
+    await room.waitForMessage("pickUp");
+    room.fixedTick(0.05);
+    assert.deepStrictEqual(looter.player!.inventory.slice(BACKPACK, BACKPACK + 2), ["ringOfVitality", null]);
+    assert.deepStrictEqual(Array.from(publicBag.items), ["healthPotion"]);
+    assert.deepStrictEqual(Array.from(room.state.players.get(client2.sessionId)!.inventory).slice(BACKPACK, BACKPACK + 2), ["ringOfVitality", ""]);
+
+    // Taking the last item removes the bag
+    client2.send("pickUp", { bag: publicId, index: 0 });
+    await room.waitForMessage("pickUp");
+    room.fixedTick(0.05);
+    assert.strictEqual(room.state.bags.has(publicId), false);
+    assert.deepStrictEqual(looter.player!.inventory.slice(BACKPACK, BACKPACK + 2), ["ringOfVitality", "healthPotion"]);
+
+    for (let i = 0; i < LOOT_BAG_LIFETIME * 20; i++) room.fixedTick(0.05);
+    assert.strictEqual(room.state.bags.size, 0, "bags disappear after a while");
+  });
+});
@@ -4,6 +4,8 @@ import { ColyseusTestServer, boot } from "@colyseus/testing";
 // import your "app.config.ts" file here.
 import appConfig from "../src/app.config";
 import { MyRoomState } from "../src/rooms/schema/MyRoomState";
+import { MyRoom } from "../src/rooms/MyRoom";
+import { loadMapLayout, moveSpeed, getClassDefinition, statsAtLevel } from "@rotmg/shared";
 
 describe("testing your Colyseus app", () => {
   let colyseus: ColyseusTestServer;
@@ -26,6 +28,169 @@ describe("testing your Colyseus app", () => {
     // wait for state sync
     await room.waitForNextPatch();
 
-    assert.deepStrictEqual({ mySynchronizedProperty: "Hello world" }, client1.state.toJSON());
+    const player = client1.state.players.get(client1.sessionId);
+    assert.ok(player, "joining client should have a synced player");
+    assert.strictEqual(player.hp, 100);
+    assert.strictEqual(client1.state.enemies.size, 1);
+  });
+
+  it("moves the player on the server by replaying input commands", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+
+    // yaw 0: camera looks down +Z, so "d" strafes towards +X
+    for (let seq = 1; seq <= 4; seq++) {
+      client1.send("input", { seq, keys: { w: false, a: false, s: false, d: true }, yaw: 0, dt: 0.05 });
+      await room.waitForMessage("input");
+    }
+    for (let i = 0; i < 4; i++) room.fixedTick(0.05);
+    await room.waitForNextPatch();
+
+    const player = client1.state.players.get(client1.sessionId)!;
+    assert.strictEqual(player.x, 1);
+    assert.strictEqual(player.z, 0);
+    assert.strictEqual(player.lastProcessedInput, 4);
+  });
+
+  it("limits movement to the simulated time, whatever dt the client claims", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+
+    for (let seq = 1; seq <= 10; seq++) {
+      client1.send("input", { seq, keys: { w: false, a: false, s: false, d: true }, yaw: 0, dt: 10 });
+      await room.waitForMessage("input");
+    }
+    room.fixedTick(0.05);
+    room.fixedTick(0.05);
+
+    // Each command is clamped to 0.1s, and only 0.1s of simulation has passed
+    const player = room.state.players.get(client1.sessionId)!;
+    assert.strictEqual(player.x, 0.5);
+    assert.strictEqual(player.lastProcessedInput, 1);
+  });
+
+  it("derives players' stats from their class, and their speed from the stats", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room, { classId: "warrior" });
+    const warrior = statsAtLevel(getClassDefinition("warrior"), 1);
+
+    for (let seq = 1; seq <= 4; seq++) {
+      client1.send("input", { seq, keys: { w: false, a: false, s: false, d: true }, yaw: 0, dt: 0.05 });
+      await room.waitForMessage("input");
+    }
+    for (let i = 0; i < 4; i++) room.fixedTick(0.05);
+
+    const player = room.state.players.get(client1.sessionId)!;
+    assert.strictEqual(player.classId, "warrior");
+    assert.strictEqual(player.maxHp, warrior.hp);
+    assert.strictEqual(player.stats.speed, warrior.speed);
+    assert.ok(Math.abs(player.x - moveSpeed(warrior.speed) * 0.2) < 1e-9);
+  });
+
+  it("stamps state with simulation time for interpolation", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const before = room.state.serverTime;
+    room.fixedTick(0.05);
+    assert.strictEqual(room.state.serverTime - before, 50);
+  });
+
+  it("runs enemy AI on the server: enemies chase nearby players", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", { seed: 1 }) as MyRoom;
+    await colyseus.connectTo(room);
+    const enemy = Array.from(room.state.enemies.values())[0];
+    assert.strictEqual(enemy.kind, "pirate");
+
+    const startDistance = Math.hypot(enemy.x, enemy.z);
+    for (let i = 0; i < 20; i++) room.fixedTick(0.05);
+    assert.ok(Math.hypot(enemy.x, enemy.z) < startDistance - 2, "enemy closes in on the player");
+  });
+
+  it("fires the equipped weapon's pattern and syncs the projectile path", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    room.fixedTick(0.05);
+
+    client1.send("shoot", { x: 0, z: -1 });
+    await room.waitForMessage("shoot");
+    room.fixedTick(0.05);
+
+    const projectiles = Array.from(room.state.projectiles.values()).filter((p) => p.ownerId === client1.sessionId);
+    assert.strictEqual(projectiles.length, 1);
+    const [bolt] = projectiles;
+    assert.strictEqual(bolt.projectile, "bolt");
+    assert.ok(Math.abs(bolt.angle + Math.PI / 2) < 1e-6);
+    // Fired during the second tick, which started at 50ms
+    assert.strictEqual(bolt.spawnTime, 50);
+    assert.ok(Math.abs(bolt.z - (bolt.originZ - 25 * 0.05)) < 1e-4);
+  });
+
+  it("player shots pass through other players", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    const client2 = await colyseus.connectTo(room);
+
+    // Both players stand on the spawn point, so the shot starts inside player 2
+    client1.send("shoot", { x: -1, z: -1 });
+    await room.waitForMessage("shoot");
+    for (let i = 0; i < 3; i++) room.fixedTick(0.05);
+
+    assert.strictEqual(room.state.players.get(client2.sessionId)!.hp, 100);
+    const shots = Array.from(room.state.projectiles.values()).filter((p) => p.ownerId === client1.sessionId);
+    assert.strictEqual(shots.length, 1, "the shot keeps flying");
+  });
+
+  it("stops players and projectiles at map walls", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", { seed: 1 }) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    const playerShots = () => Array.from(room.state.projectiles.values()).filter((p) => p.ownerId === client1.sessionId);
+
+    // The arena has a pillar on the tile spanning x 0..1, z -6..-5
+    client1.send("shoot", { x: 0, z: -1 });
+    await room.waitForMessage("shoot");
+    room.fixedTick(0.05);
+    assert.strictEqual(playerShots().length, 1);
+    for (let i = 0; i < 3; i++) room.fixedTick(0.05);
+    assert.strictEqual(playerShots().length, 0, "the shot is destroyed on the pillar");
+
+    // Walk "s" (-Z) into it
+    for (let seq = 1; seq <= 40; seq++) {
+      client1.send("input", { seq, keys: { w: false, a: false, s: true, d: false }, yaw: 0, dt: 0.05 });
+      await room.waitForMessage("input");
+    }
+    for (let i = 0; i < 40; i++) room.fixedTick(0.05);
+    const player = room.state.players.get(client1.sessionId)!;
+    assert.strictEqual(player.lastProcessedInput, 40);
+    assert.ok(player.z > -5 + 0.39 && player.z < -5 + 0.41, `stopped against the pillar at z ${player.z}`);
+  });
+
+  it("populates generated maps from their spawn points", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", { map: "pirateCave", seed: 3 }) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    await room.waitForNextPatch();
+
+    assert.strictEqual(client1.state.mapId, "pirateCave");
+    assert.strictEqual(client1.state.mapSeed, 3);
+    // The client can rebuild the exact layout from the synced id and seed
+    const layout = loadMapLayout(client1.state.mapId, client1.state.mapSeed);
+    assert.strictEqual(room.state.enemies.size, layout.enemySpawns.length);
+    const player = room.state.players.get(client1.sessionId)!;
+    assert.deepStrictEqual({ x: player.x, z: player.z }, layout.playerSpawns[0]);
+  });
+
+  it("bullets damage and eventually kill enemies", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    const [enemyId, enemy] = Array.from(room.state.enemies.entries())[0];
+
+    // Enemy starts at (5, 5); keep firing diagonally until it dies.
+    for (let shot = 0; shot < 5; shot++) {
+      client1.send("shoot", { x: 1, z: 1 });
+      await room.waitForMessage("shoot");
+      for (let i = 0; i < 10; i++) room.fixedTick(0.05);
+      if (shot < 4) assert.strictEqual(enemy.hp, 50 - (shot + 1) * 10);
+    }
+
+    assert.strictEqual(room.state.enemies.has(enemyId), false);
+    assert.strictEqual(room.state.projectiles.size, 0);
   });
 });
@@ -0,0 +1,304 @@
+import assert from "assert";
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { ColyseusTestServer, boot } from "@colyseus/testing";
+import { fameForDeath, equipmentIndex, emptyVault } from "@rotmg/shared";
+
+import appConfig from "../src/app.config";
+import { MyRoomState } from "../src/rooms/schema/MyRoomState";
+import { MyRoom } from "../src/rooms/MyRoom";
+import { newCharacter } from "../src/rooms/character";
+import { useStorage, type Storage, type AccountRecord, type CharacterRecord, type GraveRecord, type TradeRecord } from "../src/persistence/Storage";
+import { MemoryStorage } from "../src/persistence/MemoryStorage";
+import { FileStorage } from "../src/persistence/FileStorage";
+import { signUp } from "./helpers/accounts";
+import { playerEntity, killCharacter } from "./helpers/rooms";
+
+function accountRecord(id: string, name: string): AccountRecord {
+  return { id, name, password: { hash: "00", salt: "00" }, fame: 0 };
+}
+
+function characterRecord(id: string, accountId: string): CharacterRecord {
+  return { ...newCharacter("wizard"), id, accountId };
+}
+
+/** Buries characters only on `release`. */
+class SlowBurialStorage extends MemoryStorage {
+  release = () => {};
+
+  async buryCharacter(grave: GraveRecord): Promise<void> {
+    await new Promise<void>((resolve) => this.release = resolve);
+    return super.buryCharacter(grave);
+  }
+}
+
+/** Checks that apply to every Storage implementation. */
+function storageContract(create: () => Promise<Storage>) {
+  it("keeps accounts and characters, as copies", async () => {
+    const storage = await create();
+    assert.strictEqual(await storage.loadAccount("ann"), undefined);
+    assert.strictEqual(await storage.createAccount(accountRecord("ann", "Ann")), true);
+    const character = characterRecord("c1", "ann");
+    await storage.saveCharacter(character);
+    await storage.saveCharacter(characterRecord("c2", "bob"));
+    await storage.updateAccount("ann", { fame: 3 });
+
+    character.level = 20;
+    assert.deepStrictEqual(await storage.loadAccount("ann"), { ...accountRecord("ann", "Ann"), fame: 3 });
+    assert.strictEqual((await storage.findAccount("aNN"))!.id, "ann");
+    assert.strictEqual((await storage.loadCharacter("c1"))!.level, 1);
+    assert.deepStrictEqual((await storage.listCharacters("ann")).map((saved) => saved.id), ["c1"]);
+    await assert.rejects(storage.updateAccount("bob", { fame: 1 }), /Unknown account/);
+  });
+
+  it("keeps account names unique regardless of case", async () => {
+    const storage = await create();
+    assert.strictEqual(await storage.createAccount(accountRecord("ann", "Ann")), true);
+    assert.strictEqual(await storage.createAccount(accountRecord("ann2", "ANN")), false);
+    assert.strictEqual(await storage.loadAccount("ann2"), undefined);
+  });
+
+  it("buries dead characters for good, adding their fame to the account", async () => {
+    const storage = await create();
+    await storage.createAccount(accountRecord("ann", "Ann"));
+    const character = characterRecord("c1", "ann");
+    await storage.saveCharacter(character);
+    await storage.buryCharacter({ character, fame: 12, diedAt: 1000 });
+    await storage.buryCharacter({ character: characterRecord("c2", "ann"), fame: 5, diedAt: 1500 });
+    assert.strictEqual((await storage.loadAccount("ann"))!.fame, 17);
+
+    assert.strictEqual(await storage.loadCharacter("c1"), undefined);
+    assert.deepStrictEqual(await storage.listCharacters("ann"), []);
+    const graves = await storage.graveyard("ann");
+    assert.deepStrictEqual(graves.map((grave) => grave.character.id), ["c1", "c2"]);
+    assert.deepStrictEqual(graves[0], { character, fame: 12, diedAt: 1000 });
+    assert.deepStrictEqual(await storage.graveyard("bob"), []);
+    await assert.rejects(storage.saveCharacter(character), /dead/);
+  });
+
+  it("lets one owner at a time claim a character, until the claim runs out", async () => {
+    const storage = await create();
+    const now = Date.now();
+    assert.strictEqual(await storage.claimCharacter("c1", "room1", now + 60_000), true);
+    assert.strictEqual(await storage.claimCharacter("c1", "room2", now + 60_000), false);
+    assert.strictEqual(await storage.claimCharacter("c1", "room1", now + 120_000), true, "renews its own claim");
+    await storage.releaseCharacter("c1", "room2");
+    assert.strictEqual(await storage.claimCharacter("c1", "room2", now + 60_000), false, "releases only its own claim");
+    await storage.releaseCharacter("c1", "room1");
+    assert.strictEqual(await storage.claimCharacter("c1", "room2", now - 1), true);
+    assert.strictEqual(await storage.claimCharacter("c1", "room3", now + 60_000), true, "takes over expired claims");
+
+    await storage.createAccount(accountRecord("ann", "Ann"));
+    await storage.buryCharacter({ character: characterRecord("c1", "ann"), fame: 0, diedAt: 1000 });
+    assert.strictEqual(await storage.claimCharacter("c1", "room1", now + 60_000), true, "burial ends the claim");
+  });
+
+  it("stores both characters of a trade with its log entry, or nothing", async () => {
+    const storage = await create();
+    const trade = (id: string): TradeRecord => ({
+      id,
+      completedAt: 1000,
+      roomId: "nexus",
+      sides: [{ accountId: "ann", characterId: "c1", gave: ["tripleBow"] }, { accountId: "bob", characterId: "c2", gave: [] }],
+    });
+    const ann = { ...characterRecord("c1", "ann"), level: 2 };
+    const bob = { ...characterRecord("c2", "bob"), level: 3 };
+    await storage.commitTrade(trade("t1"), [ann, bob]);
+    assert.strictEqual((await storage.loadCharacter("c1"))!.level, 2);
+    assert.strictEqual((await storage.loadCharacter("c2"))!.level, 3);
+    assert.deepStrictEqual(await storage.tradeLog("bob"), [trade("t1")]);
+    assert.deepStrictEqual(await storage.tradeLog("cyd"), []);
+
+    await storage.buryCharacter({ character: bob, fame: 0, diedAt: 2000 });
+    await assert.rejects(storage.commitTrade(trade("t2"), [{ ...ann, level: 9 }, bob]), /dead/);
+    assert.strictEqual((await storage.loadCharacter("c1"))!.level, 2);
+    assert.deepStrictEqual((await storage.tradeLog("ann")).map((logged) => logged.id), ["t1"]);
+  });
+}
+
+describe("persistence", () => {
+  describe("MemoryStorage", () => {
+    storageContract(async () => new MemoryStorage());
+  });
+
+  describe("FileStorage", () => {
+    let dir: string;
+    beforeEach(async () => dir = await fs.mkdtemp(path.join(os.tmpdir(), "rotmg-storage-")));
+    afterEach(async () => fs.rm(dir, { recursive: true, force: true }));
+
+    storageContract(async () => new FileStorage(path.join(dir, "storage.json")));
+
+    it("survives a restart and leaves no half-written file behind", async () => {
+      const file = path.join(dir, "nested", "storage.json");
+      const storage = new FileStorage(file);
+      await storage.createAccount(accountRecord("ann", "Ann"));
+      await storage.saveCharacter(characterRecord("c1", "ann"));
+      assert.deepStrictEqual(await fs.readdir(path.dirname(file)), ["storage.json"]);
+
+      const restarted = new FileStorage(file);
+      assert.deepStrictEqual(await restarted.loadAccount("ann"), accountRecord("ann", "Ann"));
+      assert.deepStrictEqual(await restarted.loadCharacter("c1"), characterRecord("c1", "ann"));
+    });
+
+    it("undoes vault moves and trades it could not write", async () => {
+      const file = path.join(dir, "storage.json");
+      const storage = new FileStorage(file);
+      const ann = characterRecord("c1", "ann");
+      const bob = characterRecord("c2", "bob");
+      const trade = (id: string): TradeRecord => ({
+        id,
+        completedAt: 1000,
+        roomId: "nexus",
+        sides: [{ accountId: "ann", characterId: "c1", gave: [] }, { accountId: "bob", characterId: "c2", gave: [] }],
+      });
+      await storage.commitTrade(trade("t1"), [ann, bob]);
+      // Writing the next version of the file fails
+      await fs.mkdir(`${file}.tmp`);
+
+      const vault = await storage.loadVault("ann");
+      vault.items[0] = "tripleBow";
+      await assert.rejects(storage.commitVaultMove(vault, { ...ann, level: 2 }));
+      await assert.rejects(storage.commitTrade(trade("t2"), [{ ...ann, level: 3 }, bob]));
+      assert.deepStrictEqual(await storage.loadVault("ann"), { accountId: "ann", items: emptyVault(), version: 0 });
+      assert.deepStrictEqual(await storage.loadCharacter("c1"), ann);
+      assert.deepStrictEqual((await storage.tradeLog("ann")).map((logged) => logged.id), ["t1"]);
+
+      // Later writes store neither
+      await fs.rmdir(`${file}.tmp`);
+      await storage.saveCharacter({ ...bob, level: 4 });
+      const restarted = new FileStorage(file);
+      assert.strictEqual((await restarted.loadVault("ann")).version, 0);
+      assert.deepStrictEqual(await restarted.loadCharacter("c1"), ann);
+      assert.deepStrictEqual((await restarted.tradeLog("bob")).map((logged) => logged.id), ["t1"]);
+    });
+  });
+
+  describe("rooms", () => {
+    let colyseus: ColyseusTestServer;
+    let storage: MemoryStorage;
+
+    before(async () => colyseus = await boot(appConfig));
+    after(async () => colyseus.shutdown());
+
+    beforeEach(async () => {
+      await colyseus.cleanup();
+      useStorage(storage = new MemoryStorage());
+    });
+
+    it("loads the chosen character on join and saves it on leave", async () => {
+      const ann = await signUp(storage, "ann", "archer");
+      colyseus.sdk.auth.token = ann.token;
+      const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+      const client1 = await colyseus.connectTo(room, { character: ann.characterId });
+      const player = playerEntity(room, client1.sessionId);
+      assert.strictEqual(player.player!.classId, "archer");
+      assert.strictEqual(player.player!.characterId, ann.characterId);
+
+      player.player!.level = 5;
+      player.player!.xp = 900;
+      player.player!.inventory[equipmentIndex("armor")] = "chainmail";
+      await client1.leave();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const saved = (await storage.loadCharacter(ann.characterId))!;
+      assert.strictEqual(saved.level, 5);
+      assert.strictEqual(saved.xp, 900);
+      assert.strictEqual(saved.inventory[equipmentIndex("armor")], "chainmail");
+
+      const next = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+      const client2 = await colyseus.connectTo(next, { character: ann.characterId });
+      const synced = next.state.players.get(client2.sessionId)!;
+      assert.strictEqual(synced.classId, "archer");
+      assert.strictEqual(synced.level, 5);
+      assert.strictEqual(synced.inventory[equipmentIndex("armor")], "chainmail");
+    });
+
+    it("keeps each character in one session at a time", async () => {
+      const ann = await signUp(storage, "ann");
+      colyseus.sdk.auth.token = ann.token;
+      const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+      const other = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+      const client1 = await colyseus.connectTo(room, { character: ann.characterId });
+      await assert.rejects(colyseus.connectTo(room, { character: ann.characterId }), /already in play/);
+      await assert.rejects(colyseus.connectTo(other, { character: ann.characterId }), /already in play/);
+
+      await client1.leave();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const next = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+      const client2 = await colyseus.connectTo(next, { character: ann.characterId });
+      assert.strictEqual(playerEntity(next, client2.sessionId).player!.characterId, ann.characterId);
+    });
+
+    it("lets a player who left while their dead character was buried back in with the new one", async () => {
+      const slow = new SlowBurialStorage();
+      useStorage(slow);
+      const ann = await signUp(slow, "ann");
+      colyseus.sdk.auth.token = ann.token;
+      const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+      const client1 = await colyseus.connectTo(room, { character: ann.characterId });
+      const player = playerEntity(room, client1.sessionId);
+      killCharacter(room, player);
+      const characterId = player.player!.characterId!;
+
+      await client1.leave();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      slow.release();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const next = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+      const client2 = await colyseus.connectTo(next, { character: characterId });
+      assert.strictEqual(playerEntity(next, client2.sessionId).player!.characterId, characterId);
+    });
+
+    it("autosaves players who stay", async () => {
+      const ann = await signUp(storage, "ann");
+      colyseus.sdk.auth.token = ann.token;
+      const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+      const client1 = await colyseus.connectTo(room, { character: ann.characterId });
+      const player = playerEntity(room, client1.sessionId);
+      player.player!.xp = 250;
+      // Fame another session of the account earned meanwhile
+      await storage.updateAccount(ann.accountId, { fame: 40 });
+      await room.autosave();
+      assert.strictEqual((await storage.loadCharacter(ann.characterId))!.xp, 250);
+      assert.strictEqual((await storage.loadAccount(ann.accountId))!.fame, 40, "saves leave account fame alone");
+    });
+
+    it("sends dead characters to the graveyard and saves the new one", async () => {
+      const ann = await signUp(storage, "ann", "archer");
+      colyseus.sdk.auth.token = ann.token;
+      const room = await colyseus.createRoom<MyRoomState>("my_room", { seed: 1 }) as MyRoom;
+      const client1 = await colyseus.connectTo(room, { character: ann.characterId });
+      const player = playerEntity(room, client1.sessionId);
+      player.player!.xp = 500;
+      player.player!.level = 4;
+      player.health!.hp = 1;
+
+      // Wait for the pirate to get a shot in
+      for (let i = 0; i < 200 && player.player!.level > 1; i++) room.fixedTick(0.05);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const fame = fameForDeath(500, 4);
+      const graves = await storage.graveyard(ann.accountId);
+      assert.strictEqual(graves.length, 1);
+      assert.strictEqual(graves[0].character.id, ann.characterId);
+      assert.strictEqual(graves[0].character.level, 4);
+      assert.strictEqual(graves[0].fame, fame);
+      assert.strictEqual((await storage.loadAccount(ann.accountId))!.fame, fame);
+
+      const [alive] = await storage.listCharacters(ann.accountId);
+      assert.notStrictEqual(alive.id, ann.characterId);
+      assert.strictEqual(alive.id, player.player!.characterId);
+      assert.strictEqual(alive.level, 1);
+      assert.strictEqual(alive.classId, "archer");
+    });
+
+    it("does not save guests", async () => {
+      const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+      const client1 = await colyseus.connectTo(room);
+      await room.autosave();
+      await client1.leave();
+      assert.deepStrictEqual((storage as unknown as { data: unknown }).data, { accounts: {}, characters: {}, graves: [], claims: {}, vaults: {}, trades: [] });
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import assert from "assert";
+import { ColyseusTestServer, boot } from "@colyseus/testing";
+import { Client, type Room, type SeatReservation } from "colyseus.js";
+import { NEXUS_ROOM, REALM_ROOM, DUNGEON_ROOM } from "@rotmg/shared";
+
+import appConfig from "../src/app.config";
+import { MyRoomState } from "../src/rooms/schema/MyRoomState";
+import { GameRoom } from "../src/rooms/GameRoom";
+import { DUNGEON_PORTAL_LIFETIME } from "../src/rooms/RealmRoom";
+import { useStorage } from "../src/persistence/Storage";
+import { MemoryStorage } from "../src/persistence/MemoryStorage";
+import { signUp, type TestAccount } from "./helpers/accounts";
+import { worldOf, playerEntity } from "./helpers/rooms";
+
+const TEST_PORT = 2568;
+
+/** Resolves with the next "portal" seat reservation sent to `client`. */
+function nextReservation(client: Room): Promise<SeatReservation> {
+  return new Promise((resolve) => client.onMessage("portal", resolve));
+}
+
+describe("rooms and portals", () => {
+  let colyseus: ColyseusTestServer;
+
+  before(async () => colyseus = await boot(appConfig, TEST_PORT));
+  after(async () => colyseus.shutdown());
+
+  // The Nexus, realm and dungeons only let signed-in players in
+  let account: TestAccount;
+  beforeEach(async () => {
+    await colyseus.cleanup();
+    const storage = new MemoryStorage();
+    useStorage(storage);
+    account = await signUp(storage, "traveler");
+    colyseus.sdk.auth.token = account.token;
+  });
+
+  it("keeps the Nexus free of combat", async () => {
+    const room = await colyseus.createRoom<MyRoomState>(NEXUS_ROOM, {}) as GameRoom;
+    const client1 = await colyseus.connectTo(room, { character: account.characterId });
+
+    client1.send("shoot", { x: 1, z: 0 });
+    await room.waitForMessage("shoot");
+    room.fixedTick(0.05);
+
+    assert.strictEqual(room.state.projectiles.size, 0);
+    assert.strictEqual(room.state.enemies.size, 0);
+    const portals = Array.from(room.state.portals.values());
+    assert.deepStrictEqual(portals.map((p) => [p.target, p.closesAt]), [[REALM_ROOM, 0]]);
+  });
+
+  it("moves players through portals with their character", async () => {
+    const nexus = await colyseus.createRoom<MyRoomState>(NEXUS_ROOM, {}) as GameRoom;
+    const client1 = await colyseus.connectTo(nexus, { character: account.characterId });
+    nexus.fixedTick(0.05);
+    const [portalId, portal] = Array.from(nexus.state.portals.entries())[0];
+    const player = playerEntity(nexus, client1.sessionId);
+    player.health!.hp = 60;
+
+    // Out of reach from the spawn point
+    client1.send("usePortal", { id: portalId });
+    await nexus.waitForMessage("usePortal");
+    assert.ok(nexus.state.players.has(client1.sessionId));
+
+    const reservation = nextReservation(client1);
+    Object.assign(player.transform!.pos, { x: portal.x, z: portal.z - 1 });
+    client1.send("usePortal", { id: portalId });
+    const seat = await reservation;
+    nexus.fixedTick(0.05);
+    assert.strictEqual(seat.room.name, REALM_ROOM);
+    assert.strictEqual(nexus.state.players.has(client1.sessionId), false, "the player left the Nexus");
+
+    const client = new Client(`ws://127.0.0.1:${TEST_PORT}`);
+    const realmClient = await client.consumeSeatReservation(seat);
+    const realm = colyseus.getRoomById<MyRoomState>(seat.room.roomId) as GameRoom;
+    const arrived = realm.state.players.get(realmClient.sessionId)!;
+    // Vitality may have healed a little since
+    assert.ok(arrived.hp >= 60 && arrived.hp < 61, `arrived with ${arrived.hp} HP`);
+    assert.strictEqual(arrived.maxHp, 100);
+    assert.strictEqual(arrived.classId, "wizard");
+    assert.strictEqual(playerEntity(realm, realmClient.sessionId).player!.characterId, account.characterId, "still saved to the same character");
+    await realmClient.leave();
+  });
+
+  it("drops a dungeon portal when the realm boss dies, which closes after a while", async () => {
+    const realm = await colyseus.createRoom<MyRoomState>(REALM_ROOM, { seed: 1 }) as GameRoom;
+    const client1 = await colyseus.connectTo(realm, { character: account.characterId });
+    const world = worldOf(realm);
+    const boss = world.entities.find((entity) => entity.enemy?.boss)!;
+    const player = playerEntity(realm, client1.sessionId);
+    const portalsBefore = realm.state.portals.size;
+
+    // One shot from next to the boss finishes it off
+    boss.health!.hp = 1;
+    Object.assign(player.transform!.pos, { x: boss.transform!.pos.x - 2, z: boss.transform!.pos.z });
+    client1.send("shoot", { x: 1, z: 0 });
+    await realm.waitForMessage("shoot");
+    for (let i = 0; i < 3; i++) realm.fixedTick(0.05);
+    assert.strictEqual(world.has(boss), false);
+
+    const dropped = Array.from(realm.state.portals.entries()).filter(([, p]) => p.target === DUNGEON_ROOM);
+    assert.strictEqual(dropped.length, 1);
+    const [portalId, portal] = dropped[0];
+    assert.strictEqual(realm.state.portals.size, portalsBefore + 1);
+    assert.strictEqual(portal.label, "Pirate Cave");
+    assert.ok(portal.closesAt > realm.state.serverTime && portal.closesAt <= realm.state.serverTime + DUNGEON_PORTAL_LIFETIME * 1000);
+
+    // Each dungeon portal leads to its own instance
+    const reservation = nextReservation(client1);
+    Object.assign(player.transform!.pos, { x: portal.x, z: portal.z });
+    client1.send("usePortal", { id: portalId });
+    const seat = await reservation;
+    assert.strictEqual(seat.room.name, DUNGEON_ROOM);
+    assert.strictEqual(colyseus.getRoomById<MyRoomState>(seat.room.roomId).state.mapId, "pirateCave");
+
+    for (let i = 0; i < DUNGEON_PORTAL_LIFETIME * 20; i++) realm.fixedTick(0.05);
+    assert.strictEqual(realm.state.portals.has(portalId), false, "the portal closed");
+    assert.strictEqual(realm.state.portals.size, portalsBefore);
+  });
+});
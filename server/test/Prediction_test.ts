@@ -0,0 +1,121 @@
+import assert from "assert";
+import { ColyseusTestServer, boot } from "@colyseus/testing";
+import {
+  InputPredictor,
+  type MoveKeys,
+  vec3,
+  distanceXZ,
+  copyVec3,
+  loadMap,
+  moveSpeed,
+  getClassDefinition,
+  DEFAULT_MAP,
+  DEFAULT_CLASS,
+} from "@rotmg/shared";
+
+import appConfig from "../src/app.config";
+import { MyRoomState } from "../src/rooms/schema/MyRoomState";
+import { LaggyLink, sleep } from "./helpers/LaggyLink";
+
+const FRAME_DT = 1 / 60;
+const YAW = Math.PI / 4; // The default isometric camera
+const RIGHT: MoveKeys = { w: false, a: false, s: false, d: true };
+const FORWARD: MoveKeys = { w: true, a: false, s: false, d: false };
+/** Speed of a new character of the default class. */
+const PLAYER_MOVE_SPEED = moveSpeed(getClassDefinition(DEFAULT_CLASS).base.speed);
+/** Positions are synced as 32-bit floats, so allow for rounding. */
+const POSITION_EPSILON = 1e-4;
+
+type SessionResult = {
+  predicted: { x: number; z: number };
+  server: { x: number; z: number };
+  maxCorrection: number;
+  pending: number;
+  reordered: number;
+};
+
+/**
+ * Plays `frames` frames of input through a predicted client whose upstream (inputs)
+ * and downstream (snapshots) both go through a laggy, reordering link.
+ */
+async function runSession(colyseus: ColyseusTestServer, latencyMs: number, jitterMs: number, frames: number): Promise<SessionResult> {
+  const room = await colyseus.createRoom<MyRoomState>("my_room", {});
+  const client = await colyseus.connectTo(room);
+  await room.waitForNextPatch();
+
+  const up = new LaggyLink(latencyMs, jitterMs, 7);
+  const down = new LaggyLink(latencyMs, jitterMs, 13);
+  const predictor = new InputPredictor(PLAYER_MOVE_SPEED, loadMap(DEFAULT_MAP));
+  const me = client.state.players.get(client.sessionId)!;
+  const predicted = vec3(me.x, me.y, me.z);
+  let maxCorrection = 0;
+
+  client.onStateChange((state) => {
+    const player = state.players.get(client.sessionId);
+    if (!player) return;
+    // Copy now: the schema instance keeps changing while the snapshot is "in flight"
+    const serverPos = vec3(player.x, player.y, player.z);
+    const ack = player.lastProcessedInput;
+    down.send(() => {
+      const before = copyVec3(vec3(), predicted);
+      if (predictor.reconcile(predicted, serverPos, ack)) {
+        maxCorrection = Math.max(maxCorrection, distanceXZ(before, predicted));
+      }
+    });
+  });
+
+  for (let frame = 0; frame < frames; frame++) {
+    const keys = frame < frames / 2 ? RIGHT : FORWARD;
+    const cmd = predictor.predict(predicted, keys, YAW, FRAME_DT);
+    up.send(() => client.send("input", cmd));
+    await sleep(FRAME_DT * 1000);
+  }
+
+  // Let the links drain and the server acknowledge everything
+  const deadline = Date.now() + 5000;
+  while ((up.busy || down.busy || predictor.pendingCount > 0) && Date.now() < deadline) {
+    await sleep(20);
+  }
+  up.close();
+  down.close();
+
+  const server = room.state.players.get(client.sessionId)!;
+  return {
+    predicted: { x: predicted.x, z: predicted.z },
+    server: { x: server.x, z: server.z },
+    maxCorrection,
+    pending: predictor.pendingCount,
+    reordered: up.reordered + down.reordered,
+  };
+}
+
+describe("client prediction and reconciliation", () => {
+  let colyseus: ColyseusTestServer;
+
+  before(async () => colyseus = await boot(appConfig));
+  after(async () => colyseus.shutdown());
+
+  beforeEach(async () => await colyseus.cleanup());
+
+  it("matches the server exactly under steady latency", async () => {
+    const result = await runSession(colyseus, 80, 0, 60);
+
+    assert.strictEqual(result.pending, 0);
+    assert.strictEqual(result.reordered, 0);
+    assert.ok(distanceXZ(vec3(result.predicted.x, 0, result.predicted.z), vec3(result.server.x, 0, result.server.z)) < POSITION_EPSILON);
+    // Nothing was lost, so the server never disagreed with the prediction
+    assert.ok(result.maxCorrection < POSITION_EPSILON, `unexpected correction ${result.maxCorrection}`);
+    // Half a second right, half a second forward at full speed
+    assert.ok(Math.abs(distanceXZ(vec3(), vec3(result.server.x, 0, result.server.z)) - PLAYER_MOVE_SPEED * 0.5 * Math.SQRT2) < 0.01);
+  });
+
+  it("converges to the server after jitter reorders inputs and snapshots", async () => {
+    const result = await runSession(colyseus, 60, 50, 60);
+
+    assert.ok(result.reordered > 0, "harness should have reordered some packets");
+    assert.strictEqual(result.pending, 0);
+    assert.ok(distanceXZ(vec3(result.predicted.x, 0, result.predicted.z), vec3(result.server.x, 0, result.server.z)) < POSITION_EPSILON);
+    // Out-of-order inputs are dropped by the server; each costs at most a frame of movement
+    assert.ok(result.maxCorrection < PLAYER_MOVE_SPEED * FRAME_DT * 10, `correction too large: ${result.maxCorrection}`);
+  });
+});
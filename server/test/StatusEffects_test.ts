@@ -0,0 +1,82 @@
+import assert from "assert";
+import { ColyseusTestServer, boot } from "@colyseus/testing";
+import { EQUIPMENT_SLOTS, getProjectileDefinition, moveSpeed, SLOWED_SPEED_FACTOR, vec3 } from "@rotmg/shared";
+
+import appConfig from "../src/app.config";
+import { MyRoomState } from "../src/rooms/schema/MyRoomState";
+import { MyRoom } from "../src/rooms/MyRoom";
+import { worldOf, bulletsOf, playerEntity } from "./helpers/rooms";
+
+const ABILITY = EQUIPMENT_SLOTS.indexOf("ability");
+
+describe("status effects", () => {
+  let colyseus: ColyseusTestServer;
+
+  before(async () => colyseus = await boot(appConfig));
+  after(async () => colyseus.shutdown());
+
+  beforeEach(async () => await colyseus.cleanup());
+
+  it("are inflicted by enemy shots, synced, and slow the player down", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    const player = playerEntity(room, client1.sessionId);
+    // No enemy shots but the one below
+    for (const enemy of worldOf(room).with("enemy").entities) worldOf(room).remove(enemy);
+
+    const pos = player.transform!.pos;
+    bulletsOf(room).fireProjectile("enemy_x", "enemy", vec3(pos.x - 1, pos.y, pos.z), 0, getProjectileDefinition("dart"));
+    room.fixedTick(0.05);
+    assert.deepStrictEqual(Array.from(room.state.players.get(client1.sessionId)!.effects), ["slowed"]);
+
+    const start = pos.x;
+    for (let seq = 1; seq <= 4; seq++) {
+      client1.send("input", { seq, keys: { w: false, a: false, s: false, d: true }, yaw: 0, dt: 0.05 });
+      await room.waitForMessage("input");
+    }
+    for (let i = 0; i < 4; i++) room.fixedTick(0.05);
+    const expected = moveSpeed(player.stats!.speed) * SLOWED_SPEED_FACTOR * 0.2;
+    assert.ok(Math.abs(pos.x - start - expected) < 1e-9, `moved ${pos.x - start}`);
+
+    for (let i = 0; i < 40; i++) room.fixedTick(0.05);
+    assert.strictEqual(room.state.players.get(client1.sessionId)!.effects.length, 0, "the slow wore off");
+  });
+
+  it("keep stunned players from firing", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    const player = playerEntity(room, client1.sessionId);
+    player.statusEffects!.effects.push({ effect: "stunned", timeLeft: 1 });
+
+    client1.send("shoot", { x: 1, z: 0 });
+    await room.waitForMessage("shoot");
+    room.fixedTick(0.05);
+    const shots = () => Array.from(room.state.projectiles.values()).filter((p) => p.ownerId === client1.sessionId);
+    assert.strictEqual(shots().length, 0);
+
+    for (let i = 0; i < 20; i++) room.fixedTick(0.05);
+    client1.send("shoot", { x: 1, z: 0 });
+    await room.waitForMessage("shoot");
+    room.fixedTick(0.05);
+    assert.strictEqual(shots().length, 1);
+  });
+
+  it("shield casters with Holy Shield, healing them over time", async () => {
+    const room = await colyseus.createRoom<MyRoomState>("my_room", {}) as MyRoom;
+    const client1 = await colyseus.connectTo(room);
+    const player = playerEntity(room, client1.sessionId);
+    player.player!.inventory[ABILITY] = "holyShield";
+    player.health!.hp = 20;
+
+    const pos = player.transform!.pos;
+    client1.send("cast", { x: pos.x + 2, z: pos.z + 0.36 });
+    await room.waitForMessage("cast");
+    room.fixedTick(0.05);
+    assert.deepStrictEqual(Array.from(room.state.players.get(client1.sessionId)!.effects), ["invulnerable", "healing"]);
+
+    const hp = player.health!.hp;
+    bulletsOf(room).fireProjectile("enemy_x", "enemy", vec3(pos.x - 1, pos.y, pos.z), 0, getProjectileDefinition("orb"));
+    room.fixedTick(0.05);
+    assert.ok(player.health!.hp > hp, "the hit did no damage and healing went on");
+  });
+});
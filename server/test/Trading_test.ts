@@ -0,0 +1,188 @@
+import assert from "assert";
+import { ColyseusTestServer, boot } from "@colyseus/testing";
+import { type Room } from "colyseus.js";
+import { NEXUS_ROOM, EQUIPMENT_SLOTS, type TradeMessage, type TradeClosedMessage, type TradeRequestedMessage } from "@rotmg/shared";
+
+import appConfig from "../src/app.config";
+import { MyRoomState } from "../src/rooms/schema/MyRoomState";
+import { GameRoom } from "../src/rooms/GameRoom";
+import { type Entity } from "../src/ecs/world";
+import { useStorage } from "../src/persistence/Storage";
+import { MemoryStorage } from "../src/persistence/MemoryStorage";
+import { signUp, type TestAccount } from "./helpers/accounts";
+import { playerEntity, killCharacter } from "./helpers/rooms";
+
+const BACKPACK = EQUIPMENT_SLOTS.length;
+
+/** Resolves with the next message of `type` sent to `client`. */
+function next<T>(client: Room, type: string): Promise<T> {
+  return new Promise((resolve) => client.onMessage(type, resolve));
+}
+
+describe("trading", () => {
+  let colyseus: ColyseusTestServer;
+  let storage: MemoryStorage;
+  let room: GameRoom;
+  let ann: TestAccount;
+  let bob: TestAccount;
+  let clientA: Room;
+  let clientB: Room;
+  let playerA: Entity;
+  let playerB: Entity;
+
+  before(async () => colyseus = await boot(appConfig));
+  after(async () => colyseus.shutdown());
+
+  // Ann and Bob stand side by side in the Nexus
+  beforeEach(async () => {
+    await colyseus.cleanup();
+    useStorage(storage = new MemoryStorage());
+    ann = await signUp(storage, "ann");
+    bob = await signUp(storage, "bob");
+    room = await colyseus.createRoom<MyRoomState>(NEXUS_ROOM, {}) as GameRoom;
+    colyseus.sdk.auth.token = ann.token;
+    clientA = await colyseus.connectTo(room, { character: ann.characterId });
+    colyseus.sdk.auth.token = bob.token;
+    clientB = await colyseus.connectTo(room, { character: bob.characterId });
+    playerA = playerEntity(room, clientA.sessionId);
+    playerB = playerEntity(room, clientB.sessionId);
+    Object.assign(playerB.transform!.pos, { x: playerA.transform!.pos.x + 1, z: playerA.transform!.pos.z });
+    playerA.player!.inventory[BACKPACK] = "tripleBow";
+    playerA.player!.inventory[BACKPACK + 1] = "leatherArmor";
+    playerB.player!.inventory[BACKPACK] = "ringOfAttack";
+  });
+
+  /** Ann asks Bob to trade and Bob accepts; resolves with the trade as Ann sees it. */
+  async function openTrade(): Promise<TradeMessage> {
+    const requested = next<TradeRequestedMessage>(clientB, "tradeRequested");
+    clientA.send("requestTrade", { player: clientB.sessionId });
+    assert.strictEqual((await requested).from, clientA.sessionId);
+    const opened = next<TradeMessage>(clientA, "trade");
+    clientB.send("acceptTrade", { player: clientA.sessionId });
+    return opened;
+  }
+
+  /** Sends `message` from `client` and resolves with the trade Ann sees afterwards. */
+  async function update(client: Room, type: string, message: unknown): Promise<TradeMessage> {
+    const updated = next<TradeMessage>(clientA, "trade");
+    client.send(type, message);
+    return updated;
+  }
+
+  it("opens a trade once the player asked accepts", async () => {
+    const trade = await openTrade();
+    assert.strictEqual(trade.partner, clientB.sessionId);
+    assert.deepStrictEqual(trade.mine, { slots: [], items: [], confirmed: 0 });
+    assert.strictEqual(playerA.player!.trade, playerB.player!.trade);
+
+    // The request is used up
+    clientA.send("acceptTrade", { player: clientB.sessionId });
+    await room.waitForMessage("acceptTrade");
+    assert.strictEqual(playerA.player!.trade, playerB.player!.trade);
+  });
+
+  it("ignores requests from out of range", async () => {
+    playerB.transform!.pos.x += 10;
+    clientA.send("requestTrade", { player: clientB.sessionId });
+    await room.waitForMessage("requestTrade");
+    clientB.send("acceptTrade", { player: clientA.sessionId });
+    await room.waitForMessage("acceptTrade");
+    assert.strictEqual(playerA.player!.trade, null);
+  });
+
+  it("takes two confirmations from each side, and starts over when an offer changes", async () => {
+    await openTrade();
+    let trade = await update(clientA, "tradeOffer", { slots: [BACKPACK, BACKPACK + 1] });
+    assert.deepStrictEqual(trade.mine.items, ["tripleBow", "leatherArmor"]);
+    trade = await update(clientB, "tradeOffer", { slots: [BACKPACK] });
+    assert.deepStrictEqual(trade.theirs.items, ["ringOfAttack"]);
+    const revision = trade.revision;
+
+    // Step 2 waits for both step 1s; confirmations of older offers are ignored
+    clientA.send("confirmTrade", { step: 1, revision: revision - 1 });
+    clientA.send("confirmTrade", { step: 2, revision });
+    trade = await update(clientA, "confirmTrade", { step: 1, revision });
+    assert.deepStrictEqual([trade.mine.confirmed, trade.theirs.confirmed], [1, 0]);
+    trade = await update(clientB, "confirmTrade", { step: 1, revision });
+    trade = await update(clientA, "confirmTrade", { step: 2, revision });
+    assert.deepStrictEqual([trade.mine.confirmed, trade.theirs.confirmed], [2, 1]);
+
+    trade = await update(clientB, "tradeOffer", { slots: [] });
+    assert.deepStrictEqual([trade.mine.confirmed, trade.theirs.confirmed], [0, 0]);
+    assert.ok(trade.revision > revision);
+    assert.strictEqual(playerA.player!.inventory[BACKPACK], "tripleBow");
+  });
+
+  it("swaps the items, stores both characters and logs the trade", async () => {
+    await openTrade();
+    await update(clientA, "tradeOffer", { slots: [BACKPACK + 1] });
+    const { revision } = await update(clientB, "tradeOffer", { slots: [BACKPACK] });
+    await update(clientA, "confirmTrade", { step: 1, revision });
+    await update(clientB, "confirmTrade", { step: 1, revision });
+    await update(clientA, "confirmTrade", { step: 2, revision });
+    const closedA = next<TradeClosedMessage>(clientA, "tradeClosed");
+    const closedB = next<TradeClosedMessage>(clientB, "tradeClosed");
+    clientB.send("confirmTrade", { step: 2, revision });
+    assert.deepStrictEqual(await closedA, { reason: "completed" });
+    assert.deepStrictEqual(await closedB, { reason: "completed" });
+
+    assert.deepStrictEqual(playerA.player!.inventory.slice(BACKPACK, BACKPACK + 2), ["tripleBow", "ringOfAttack"]);
+    assert.deepStrictEqual(playerB.player!.inventory.slice(BACKPACK, BACKPACK + 2), ["leatherArmor", null]);
+    assert.strictEqual(playerA.player!.trade, null);
+    assert.strictEqual((await storage.loadCharacter(ann.characterId))!.inventory[BACKPACK + 1], "ringOfAttack");
+    assert.strictEqual((await storage.loadCharacter(bob.characterId))!.inventory[BACKPACK], "leatherArmor");
+
+    const [logged] = await storage.tradeLog(ann.accountId);
+    assert.deepStrictEqual(logged.sides, [
+      { accountId: ann.accountId, characterId: ann.characterId, gave: ["leatherArmor"] },
+      { accountId: bob.accountId, characterId: bob.characterId, gave: ["ringOfAttack"] },
+    ]);
+    assert.strictEqual(logged.roomId, room.roomId);
+    assert.deepStrictEqual(await storage.tradeLog(bob.accountId), [logged]);
+  });
+
+  it("swaps nothing when a side has no room", async () => {
+    playerB.player!.inventory.fill("healthPotion", BACKPACK);
+    await openTrade();
+    const { revision } = await update(clientA, "tradeOffer", { slots: [BACKPACK, BACKPACK + 1] });
+    await update(clientA, "confirmTrade", { step: 1, revision });
+    await update(clientB, "confirmTrade", { step: 1, revision });
+    await update(clientA, "confirmTrade", { step: 2, revision });
+    const closed = next<TradeClosedMessage>(clientA, "tradeClosed");
+    clientB.send("confirmTrade", { step: 2, revision });
+    assert.deepStrictEqual(await closed, { reason: "noRoom" });
+    assert.strictEqual(playerA.player!.inventory[BACKPACK], "tripleBow");
+    assert.deepStrictEqual(await storage.tradeLog(ann.accountId), []);
+  });
+
+  it("locks both inventories while the trade lasts", async () => {
+    await openTrade();
+    clientA.send("moveItem", { from: BACKPACK, to: BACKPACK + 5 });
+    clientB.send("dropItem", { slot: BACKPACK });
+    await room.waitForMessage("dropItem");
+    assert.strictEqual(playerA.player!.inventory[BACKPACK], "tripleBow");
+    assert.strictEqual(playerB.player!.inventory[BACKPACK], "ringOfAttack");
+  });
+
+  it("breaks off when the players part, one dies or leaves", async () => {
+    await openTrade();
+    let closed = next<TradeClosedMessage>(clientB, "tradeClosed");
+    playerA.transform!.pos.x -= 10;
+    room.fixedTick(0.05);
+    assert.deepStrictEqual(await closed, { reason: "distance" });
+    assert.strictEqual(playerB.player!.trade, null);
+
+    playerA.transform!.pos.x += 10;
+    await openTrade();
+    closed = next<TradeClosedMessage>(clientB, "tradeClosed");
+    killCharacter(room, playerA);
+    assert.deepStrictEqual(await closed, { reason: "death" });
+
+    Object.assign(playerA.transform!.pos, { x: playerB.transform!.pos.x - 1, z: playerB.transform!.pos.z });
+    await openTrade();
+    closed = next<TradeClosedMessage>(clientB, "tradeClosed");
+    await clientA.leave();
+    assert.deepStrictEqual(await closed, { reason: "left" });
+    assert.strictEqual(playerB.player!.trade, null);
+  });
+});
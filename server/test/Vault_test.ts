@@ -0,0 +1,226 @@
+import assert from "assert";
+import { ColyseusTestServer, boot } from "@colyseus/testing";
+import { type Room } from "colyseus.js";
+import { NEXUS_ROOM, equipmentIndex, type VaultMessage } from "@rotmg/shared";
+
+import appConfig from "../src/app.config";
+import { MyRoomState } from "../src/rooms/schema/MyRoomState";
+import { GameRoom } from "../src/rooms/GameRoom";
+import { useStorage, type VaultRecord, type CharacterRecord } from "../src/persistence/Storage";
+import { MemoryStorage } from "../src/persistence/MemoryStorage";
+import { signUp, type TestAccount } from "./helpers/accounts";
+import { playerEntity, killCharacter } from "./helpers/rooms";
+
+/** Resolves with the next "vault" message sent to `client`. */
+function nextVault(client: Room): Promise<VaultMessage> {
+  return new Promise((resolve) => client.onMessage("vault", resolve));
+}
+
+/** Vault moves wait for `release` before they are stored. */
+class SlowStorage extends MemoryStorage {
+  release = () => {};
+
+  async commitVaultMove(vault: VaultRecord, character: CharacterRecord): Promise<boolean> {
+    await new Promise<void>((resolve) => this.release = resolve);
+    return super.commitVaultMove(vault, character);
+  }
+}
+
+/** Vault moves are stored right away, but the room hears so only on `release`. */
+class LateStorage extends MemoryStorage {
+  release = () => {};
+
+  async commitVaultMove(vault: VaultRecord, character: CharacterRecord): Promise<boolean> {
+    const stored = await super.commitVaultMove(vault, character);
+    await new Promise<void>((resolve) => this.release = resolve);
+    return stored;
+  }
+}
+
+const WEAPON = equipmentIndex("weapon");
+
+describe("vaults", () => {
+  let colyseus: ColyseusTestServer;
+  let storage: MemoryStorage;
+  let account: TestAccount;
+
+  before(async () => colyseus = await boot(appConfig));
+  after(async () => colyseus.shutdown());
+
+  beforeEach(async () => {
+    await colyseus.cleanup();
+    useStorage(storage = new MemoryStorage());
+    account = await signUp(storage, "hoarder");
+    colyseus.sdk.auth.token = account.token;
+  });
+
+  /** Joins the Nexus and stands the player next to its first vault chest. */
+  async function joinAtChest() {
+    const room = await colyseus.createRoom<MyRoomState>(NEXUS_ROOM, {}) as GameRoom;
+    const client = await colyseus.connectTo(room, { character: account.characterId });
+    room.fixedTick(0.05);
+    const [chestId, chest] = Array.from(room.state.vaultChests.entries())[0];
+    const player = playerEntity(room, client.sessionId);
+    player.transform!.pos.x = chest.x + 1;
+    player.transform!.pos.z = chest.z;
+    return { room, client, player, chestId };
+  }
+
+  async function openVault(client: Room, chestId: string): Promise<VaultMessage> {
+    const opened = nextVault(client);
+    client.send("openVault", { chest: chestId });
+    return opened;
+  }
+
+  it("places the chests in the Nexus and opens the account's vault", async () => {
+    const { room, client, chestId } = await joinAtChest();
+    assert.strictEqual(room.state.vaultChests.size, 2);
+    const vault = await openVault(client, chestId);
+    assert.strictEqual(vault.chest, chestId);
+    assert.ok(vault.items.length > 0);
+    assert.ok(vault.items.every((item) => item === null));
+  });
+
+  it("stores each move with the character before applying it", async () => {
+    const { client, player, chestId } = await joinAtChest();
+    await openVault(client, chestId);
+
+    const moved = nextVault(client);
+    client.send("vaultMove", { from: { area: "inventory", index: WEAPON }, to: { area: "vault", index: 5 } });
+    const vault = await moved;
+    assert.strictEqual(vault.items[5], "starterWand");
+    assert.strictEqual(player.player!.inventory[WEAPON], null);
+    assert.strictEqual((await storage.loadVault(account.accountId)).items[5], "starterWand");
+    assert.strictEqual((await storage.loadCharacter(account.characterId))!.inventory[WEAPON], null);
+
+    const back = nextVault(client);
+    client.send("vaultMove", { from: { area: "vault", index: 5 }, to: { area: "inventory", index: WEAPON } });
+    await back;
+    assert.strictEqual(player.player!.inventory[WEAPON], "starterWand");
+    assert.strictEqual((await storage.loadVault(account.accountId)).items[5], null);
+  });
+
+  it("refuses chests out of reach and moves that break slot rules", async () => {
+    const { room, client, player, chestId } = await joinAtChest();
+    await openVault(client, chestId);
+
+    // The wand cannot go in the armor slot
+    client.send("vaultMove", { from: { area: "inventory", index: WEAPON }, to: { area: "inventory", index: equipmentIndex("armor") } });
+    await room.waitForMessage("vaultMove");
+    assert.strictEqual(player.player!.vault!.pending, null);
+    assert.strictEqual(player.player!.inventory[WEAPON], "starterWand");
+
+    player.transform!.pos.x += 5;
+    const closed = new Promise((resolve) => client.onMessage("closeVault", resolve));
+    client.send("vaultMove", { from: { area: "inventory", index: WEAPON }, to: { area: "vault", index: 0 } });
+    await closed;
+    assert.strictEqual(player.player!.vault, null);
+    assert.strictEqual(player.player!.inventory[WEAPON], "starterWand");
+
+    client.send("openVault", { chest: chestId });
+    await room.waitForMessage("openVault");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.strictEqual(player.player!.vault, null);
+  });
+
+  it("locks the inventory while a move is being stored", async () => {
+    const slow = new SlowStorage();
+    useStorage(storage = slow);
+    account = await signUp(storage, "slowpoke");
+    colyseus.sdk.auth.token = account.token;
+    const { room, client, player, chestId } = await joinAtChest();
+    await openVault(client, chestId);
+
+    const moved = nextVault(client);
+    client.send("vaultMove", { from: { area: "inventory", index: WEAPON }, to: { area: "vault", index: 0 } });
+    await room.waitForMessage("vaultMove");
+    client.send("dropItem", { slot: equipmentIndex("ability") });
+    await room.waitForMessage("dropItem");
+    assert.strictEqual(player.player!.inventory[WEAPON], "starterWand", "not applied before it is stored");
+    assert.notStrictEqual(player.player!.inventory[equipmentIndex("ability")], null, "nothing else moves meanwhile");
+
+    slow.release();
+    await moved;
+    assert.strictEqual(player.player!.inventory[WEAPON], null);
+  });
+
+  it("neither duplicates nor loses an item when the player leaves mid-move", async () => {
+    const slow = new SlowStorage();
+    useStorage(storage = slow);
+    account = await signUp(storage, "quitter");
+    colyseus.sdk.auth.token = account.token;
+    const { room, client, chestId } = await joinAtChest();
+    await openVault(client, chestId);
+
+    client.send("vaultMove", { from: { area: "inventory", index: WEAPON }, to: { area: "vault", index: 0 } });
+    await room.waitForMessage("vaultMove");
+    // The room saves the leaving player only once the move is stored
+    const left = client.leave();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    slow.release();
+    await left;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const vault = await storage.loadVault(account.accountId);
+    const character = (await storage.loadCharacter(account.characterId))!;
+    assert.deepStrictEqual([vault.items[0], character.inventory[WEAPON]], ["starterWand", null]);
+  });
+
+  it("leaves the inventory of a character that replaced a dead one mid-move alone", async () => {
+    const late = new LateStorage();
+    useStorage(storage = late);
+    account = await signUp(storage, "unlucky");
+    colyseus.sdk.auth.token = account.token;
+    const { room, client, player, chestId } = await joinAtChest();
+    await openVault(client, chestId);
+
+    const moved = nextVault(client);
+    client.send("vaultMove", { from: { area: "inventory", index: WEAPON }, to: { area: "vault", index: 0 } });
+    await room.waitForMessage("vaultMove");
+    killCharacter(room, player);
+    late.release();
+    const vault = await moved;
+
+    assert.strictEqual(vault.items[0], "starterWand");
+    assert.notStrictEqual(player.player!.characterId, account.characterId);
+    assert.strictEqual(player.player!.inventory[WEAPON], "starterWand", "the new character's own wand");
+  });
+
+  it("moves nothing when another session changed the vault first", async () => {
+    const { client, player, chestId } = await joinAtChest();
+    await openVault(client, chestId);
+
+    // Another character of the account puts a ring in meanwhile
+    const other = (await storage.loadVault(account.accountId)).items;
+    other[0] = "ringOfAttack";
+    const elsewhere = { ...(await storage.loadCharacter(account.characterId))!, id: "other" };
+    assert.strictEqual(await storage.commitVaultMove({ accountId: account.accountId, items: other, version: 0 }, elsewhere), true);
+
+    const reloaded = nextVault(client);
+    client.send("vaultMove", { from: { area: "inventory", index: WEAPON }, to: { area: "vault", index: 0 } });
+    const vault = await reloaded;
+    assert.strictEqual(vault.items[0], "ringOfAttack");
+    assert.strictEqual(player.player!.inventory[WEAPON], "starterWand");
+    assert.strictEqual((await storage.loadVault(account.accountId)).items[0], "ringOfAttack");
+  });
+
+  it("keeps one vault per account, across rooms and characters", async () => {
+    const first = await joinAtChest();
+    await openVault(first.client, first.chestId);
+    const moved = nextVault(first.client);
+    first.client.send("vaultMove", { from: { area: "inventory", index: WEAPON }, to: { area: "vault", index: 3 } });
+    await moved;
+    await first.client.leave();
+
+    const second = await joinAtChest();
+    assert.strictEqual((await openVault(second.client, second.chestId)).items[3], "starterWand");
+
+    const stranger = await signUp(storage, "stranger");
+    colyseus.sdk.auth.token = stranger.token;
+    const client = await colyseus.connectTo(second.room, { character: stranger.characterId });
+    const player = playerEntity(second.room, client.sessionId);
+    player.transform!.pos.x = second.player.transform!.pos.x;
+    player.transform!.pos.z = second.player.transform!.pos.z;
+    assert.ok((await openVault(client, second.chestId)).items.every((item) => item === null));
+  });
+});
@@ -0,0 +1,51 @@
+import { createRandom, type Random } from "@rotmg/shared";
+
+/**
+ * Simulates one direction of a network link for tests: every packet is delayed by
+ * `latencyMs` plus random jitter, so packets sent close together can overtake each other.
+ */
+export class LaggyLink {
+  private inFlight = new Set<ReturnType<typeof setTimeout>>();
+  private random: Random;
+
+  /** Number of packets that arrived before one sent earlier. */
+  reordered = 0;
+  private lastSentAt = 0;
+  private lastDeliveredSentAt = 0;
+
+  constructor(
+    private latencyMs: number,
+    private jitterMs: number,
+    seed = 1
+  ) {
+    this.random = createRandom(seed);
+  }
+
+  /** Schedules `deliver` to run after the simulated delay. */
+  send(deliver: () => void) {
+    const sentAt = ++this.lastSentAt;
+    const delay = this.latencyMs + this.random() * this.jitterMs;
+    const timer = setTimeout(() => {
+      this.inFlight.delete(timer);
+      if (sentAt < this.lastDeliveredSentAt) this.reordered++;
+      this.lastDeliveredSentAt = Math.max(this.lastDeliveredSentAt, sentAt);
+      deliver();
+    }, delay);
+    this.inFlight.add(timer);
+  }
+
+  /** True while packets are still travelling. */
+  get busy(): boolean {
+    return this.inFlight.size > 0;
+  }
+
+  /** Drops everything still in flight. */
+  close() {
+    for (const timer of this.inFlight) clearTimeout(timer);
+    this.inFlight.clear();
+  }
+}
+
+export function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
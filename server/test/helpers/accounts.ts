@@ -0,0 +1,20 @@
+import { randomUUID } from "crypto";
+import { type Storage } from "../../src/persistence/Storage";
+import { hashPassword } from "../../src/auth/passwords";
+import { newCharacter } from "../../src/rooms/character";
+import { signToken } from "../../src/auth/tokens";
+
+/** A signed-up player, ready to join rooms with `{ character: characterId }`. */
+export type TestAccount = { accountId: string; characterId: string; token: string };
+
+/**
+ * Adds an account named `name` with one new character of `classId` to
+ * `storage`, the way the account routes would, and signs it in.
+ */
+export async function signUp(storage: Storage, name: string, classId = "wizard"): Promise<TestAccount> {
+  const accountId = randomUUID();
+  await storage.createAccount({ id: accountId, name, password: await hashPassword("password"), fame: 0 });
+  const characterId = randomUUID();
+  await storage.saveCharacter({ ...newCharacter(classId), id: characterId, accountId });
+  return { accountId, characterId, token: signToken(accountId) };
+}
@@ -0,0 +1,34 @@
+import { type TileMap } from "@rotmg/shared";
+import { type GameRoom } from "../../src/rooms/GameRoom";
+import { type Entity, type GameWorld } from "../../src/ecs/world";
+import { type BulletSystem } from "../../src/ecs/systems/BulletSystem";
+
+// The room keeps its simulation to itself; tests reach in with element access,
+// to set up situations that would take long to play out.
+
+export function worldOf(room: GameRoom): GameWorld {
+  return room["world"];
+}
+
+export function mapOf(room: GameRoom): TileMap {
+  return room["map"];
+}
+
+export function bulletsOf(room: GameRoom): BulletSystem {
+  return room["bulletSystem"];
+}
+
+/** Has `entity` die in `room` as if its HP had run out. */
+export function handleDeath(room: GameRoom, entity: Entity) {
+  room["handleDeath"](entity);
+}
+
+/** Has the character of player `entity` die in `room`. */
+export function killCharacter(room: GameRoom, entity: Entity) {
+  room["killCharacter"](entity);
+}
+
+/** The entity of the player in `room` with session `sessionId`. */
+export function playerEntity(room: GameRoom, sessionId: string): Entity {
+  return worldOf(room).entities.find((entity) => entity.player?.sessionId === sessionId)!;
+}
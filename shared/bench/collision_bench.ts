@@ -0,0 +1,88 @@
+/**
+ * Micro-benchmark for bullet collision: brute force vs the spatial hash broad-phase.
+ * Run with `npm run bench` in shared/. Scenes are seeded, so runs are comparable.
+ */
+import {
+  type SimEntity,
+  type With,
+  vec3,
+  createRandom,
+  randomRange,
+  collidersOverlap,
+  resolveBulletHits,
+  SpatialHash,
+  type CollisionBroadphase,
+} from "../src";
+
+type Target = With<SimEntity, "transform" | "collidable" | "health">;
+type Projectile = With<SimEntity, "transform" | "collidable" | "bullet">;
+
+const ARENA_HALF_SIZE = 60;
+const ITERATIONS = 50;
+
+function makeScene(bulletCount: number, targetCount: number) {
+  const random = createRandom(bulletCount * 31 + targetCount);
+  const coord = () => randomRange(random, -ARENA_HALF_SIZE, ARENA_HALF_SIZE);
+  const targets: Target[] = Array.from({ length: targetCount }, (_, i) => ({
+    id: `t${i}`,
+    transform: { pos: vec3(coord(), 0, coord()) },
+    collidable: { halfExtents: vec3(0.5, 0.5, 0.5) },
+    // Enough health that nothing dies between iterations
+    health: { hp: 1e12, maxHp: 1e12 },
+  }));
+  const bullets: Projectile[] = Array.from({ length: bulletCount }, (_, i) => ({
+    id: `b${i}`,
+    transform: { pos: vec3(coord(), 0, coord()) },
+    collidable: { halfExtents: vec3(0.25, 0.25, 0.25), radius: 0.25 },
+    bullet: { damage: 1, lifespan: 1, firedBy: "none" },
+  }));
+  return { targets, bullets };
+}
+
+/** The old O(bullets × targets) loop, for comparison. */
+function bruteForce(bullets: Projectile[], targets: Target[]): number {
+  let hits = 0;
+  for (const b of Array.from(bullets)) {
+    for (const t of Array.from(targets)) {
+      if (collidersOverlap(b.transform.pos, b.collidable, t.transform.pos, t.collidable)) {
+        hits++;
+        break;
+      }
+    }
+  }
+  return hits;
+}
+
+function time(run: () => number): { ms: number; hits: number } {
+  let hits = run(); // warm-up
+  const start = performance.now();
+  for (let i = 0; i < ITERATIONS; i++) hits = run();
+  return { ms: (performance.now() - start) / ITERATIONS, hits };
+}
+
+const sizes: [number, number][] = [
+  [250, 25],
+  [500, 50],
+  [1000, 100],
+  [2000, 200],
+];
+
+console.log(`arena ${ARENA_HALF_SIZE * 2}x${ARENA_HALF_SIZE * 2}, mean of ${ITERATIONS} ticks`);
+console.log("bullets  targets  brute(ms)  hashed(ms)  speedup  hits");
+for (const [bulletCount, targetCount] of sizes) {
+  const { bullets, targets } = makeScene(bulletCount, targetCount);
+  const broadphase: CollisionBroadphase = new SpatialHash();
+
+  const brute = time(() => bruteForce(bullets, targets));
+  const hashed = time(() => {
+    let hits = 0;
+    resolveBulletHits(bullets, targets, () => hits++, broadphase);
+    return hits;
+  });
+  if (brute.hits !== hashed.hits) throw new Error(`hit counts differ: ${brute.hits} vs ${hashed.hits}`);
+
+  console.log(
+    `${String(bulletCount).padStart(7)}  ${String(targetCount).padStart(7)}  ${brute.ms.toFixed(3).padStart(9)}  ` +
+      `${hashed.ms.toFixed(3).padStart(10)}  ${(brute.ms / hashed.ms).toFixed(1).padStart(6)}x  ${hashed.hits}`
+  );
+}
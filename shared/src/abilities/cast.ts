@@ -0,0 +1,43 @@
+import { type Vec3 } from "../math/vec3";
+import { type MapPoint } from "../map/definitions";
+import { type TileMap } from "../map/tileMap";
+import { type AbilityDef } from "./definitions";
+
+/** Why a cast was refused. */
+export type CastRejection = "cooldown" | "mana" | "range" | "blocked";
+
+/**
+ * Checks whether a caster at `pos` with `mp` MP, whose ability is still cooling
+ * down for `cooldown` seconds, may cast `ability` at `target`. Returns why not,
+ * or undefined if the cast may go ahead. Abilities that act on the caster
+ * take any target. The server decides with this; clients use it to avoid
+ * sending casts that would be refused.
+ */
+export function checkCast(ability: AbilityDef, pos: Vec3, mp: number, cooldown: number, target: MapPoint, map: TileMap): CastRejection | undefined {
+  if (cooldown > 0) return "cooldown";
+  if (mp < ability.mpCost) return "mana";
+  if (!targetsCaster(ability) && Math.hypot(target.x - pos.x, target.z - pos.z) > ability.range) return "range";
+  if (ability.effect.type === "teleport" && pathBlocked(map, pos, target)) return "blocked";
+  return undefined;
+}
+
+/** True if the ability acts on the caster rather than at the target point. */
+function targetsCaster(ability: AbilityDef): boolean {
+  const type = ability.effect.type;
+  return type === "heal" || type === "buff" || type === "status";
+}
+
+/**
+ * True if the straight line from `from` to `to` crosses a tile walkers cannot
+ * enter, so teleports cannot skip walls or closed gates. The line is sampled
+ * every half tile, ends included.
+ */
+function pathBlocked(map: TileMap, from: Vec3, to: MapPoint): boolean {
+  const dx = to.x - from.x;
+  const dz = to.z - from.z;
+  const steps = Math.max(1, Math.ceil(Math.hypot(dx, dz) / (map.tileSize * 0.5)));
+  for (let i = 1; i <= steps; i++) {
+    if (map.blocksMovement(from.x + dx * i / steps, from.z + dz * i / steps)) return true;
+  }
+  return false;
+}
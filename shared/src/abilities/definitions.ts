@@ -0,0 +1,29 @@
+import { type StatName } from "../stats/definitions";
+import { type StatusEffectApplication } from "../status/definitions";
+
+/** What casting an ability does, at the ground point the caster aimed at. */
+export type AbilityEffectDef =
+  /** Fire a bullet pattern from the target point, like a ring of shards bursting there. */
+  | { type: "spellBomb"; pattern: string }
+  /** Restore the caster's HP by `amount`, up to the max. */
+  | { type: "heal"; amount: number }
+  /** Raise one of the caster's stats by `amount` for `duration` seconds. */
+  | { type: "buff"; stat: StatName; amount: number; duration: number }
+  /** Move the caster to the target point, which must be walkable. */
+  | { type: "teleport" }
+  /** Put the caster under status effects. */
+  | { type: "status"; effects: StatusEffectApplication[] };
+
+/**
+ * An active ability, cast by the item in the ability slot. Costs `mpCost` MP and
+ * cannot be cast again for `cooldown` seconds.
+ */
+export type AbilityDef = {
+  id: string;
+  name: string;
+  mpCost: number;
+  cooldown: number;
+  /** Farthest the target point may be from the caster, in world units; abilities that act on the caster ignore it. */
+  range: number;
+  effect: AbilityEffectDef;
+};
@@ -0,0 +1,149 @@
+import { type Vec3, distanceXZ } from "../math/vec3";
+import { type Random } from "../math/random";
+import { type BehaviorDef, type ConditionDef } from "./definitions";
+import { type BehaviorMemory } from "../ecs/components/EnemyAI";
+
+/** Everything a behavior may look at for one enemy on one tick. */
+export type BehaviorContext = {
+  pos: Vec3;
+  spawn: Vec3;
+  /** Nearest target position, or null when there is no target. */
+  target: Vec3 | null;
+  /** Distance to `target` on the XZ plane (Infinity without a target). */
+  targetDistance: number;
+  hpFraction: number;
+  stateTime: number;
+  dt: number;
+  random: Random;
+};
+
+/**
+ * Runs one behavior. Writes the desired XZ velocity into `out` and returns true
+ * if the behavior applies this tick; returns false to defer to the next behavior.
+ */
+export function runBehavior(def: BehaviorDef, ctx: BehaviorContext, memory: BehaviorMemory, out: Vec3): boolean {
+  switch (def.type) {
+    case "wander": {
+      memory.timer -= ctx.dt;
+      if (def.radius !== undefined && distanceXZ(ctx.pos, ctx.spawn) > def.radius) {
+        // Drifted too far: pick the next heading back towards spawn
+        steerTowards(ctx.pos, ctx.spawn, 1, out);
+        memory.dirX = out.x;
+        memory.dirZ = out.z;
+        memory.timer = def.changeInterval;
+      } else if (memory.timer <= 0) {
+        const angle = ctx.random() * Math.PI * 2;
+        memory.dirX = Math.cos(angle);
+        memory.dirZ = Math.sin(angle);
+        memory.timer = def.changeInterval;
+      }
+      setXZ(out, memory.dirX * def.speed, memory.dirZ * def.speed);
+      return true;
+    }
+
+    case "chase": {
+      if (!ctx.target || ctx.targetDistance > def.range) return false;
+      if (ctx.targetDistance <= (def.stopDistance ?? 0)) {
+        setXZ(out, 0, 0);
+      } else {
+        steerTowards(ctx.pos, ctx.target, def.speed, out);
+      }
+      return true;
+    }
+
+    case "orbit": {
+      if (!ctx.target || ctx.targetDistance > def.range) return false;
+      const direction = def.clockwise ? -1 : 1;
+      const angle = Math.atan2(ctx.pos.z - ctx.target.z, ctx.pos.x - ctx.target.x);
+      const next = angle + direction * (def.speed / def.radius) * ctx.dt;
+      const goal = {
+        x: ctx.target.x + Math.cos(next) * def.radius,
+        y: ctx.pos.y,
+        z: ctx.target.z + Math.sin(next) * def.radius,
+      };
+      steerTowards(ctx.pos, goal, def.speed, out);
+      return true;
+    }
+
+    case "keepDistance": {
+      if (!ctx.target || ctx.targetDistance > def.range) return false;
+      const tolerance = 0.5;
+      if (ctx.targetDistance < def.distance - tolerance) {
+        steerTowards(ctx.pos, ctx.target, -def.speed, out);
+      } else if (ctx.targetDistance > def.distance + tolerance) {
+        steerTowards(ctx.pos, ctx.target, def.speed, out);
+      } else {
+        setXZ(out, 0, 0);
+      }
+      return true;
+    }
+
+    case "charge": {
+      memory.timer -= ctx.dt;
+      if (memory.active) {
+        if (memory.timer > 0) {
+          setXZ(out, memory.dirX * def.speed, memory.dirZ * def.speed);
+          return true;
+        }
+        memory.active = false;
+        memory.timer = def.cooldown;
+      }
+      if (memory.timer > 0 || !ctx.target || ctx.targetDistance > def.range) return false;
+      // Lock the direction at the start of the dash
+      steerTowards(ctx.pos, ctx.target, 1, out);
+      memory.dirX = out.x;
+      memory.dirZ = out.z;
+      memory.active = true;
+      memory.timer = def.duration;
+      setXZ(out, memory.dirX * def.speed, memory.dirZ * def.speed);
+      return true;
+    }
+
+    case "returnToSpawn": {
+      const away = distanceXZ(ctx.pos, ctx.spawn);
+      if (memory.active ? away <= 0.25 : away <= def.threshold) {
+        memory.active = false;
+        return false;
+      }
+      // Keep walking until (almost) home, not just back inside the threshold
+      memory.active = true;
+      steerTowards(ctx.pos, ctx.spawn, def.speed, out);
+      return true;
+    }
+  }
+}
+
+/**
+ * Evaluates one transition condition.
+ */
+export function checkCondition(def: ConditionDef, ctx: BehaviorContext): boolean {
+  switch (def.type) {
+    case "targetWithin":
+      return ctx.targetDistance <= def.range;
+    case "noTargetWithin":
+      return ctx.targetDistance > def.range;
+    case "hpBelow":
+      return ctx.hpFraction < def.fraction;
+    case "hpAbove":
+      return ctx.hpFraction > def.fraction;
+    case "timeInState":
+      return ctx.stateTime >= def.seconds;
+  }
+}
+
+function setXZ(out: Vec3, x: number, z: number) {
+  out.x = x;
+  out.z = z;
+}
+
+/** Velocity of magnitude |speed| from `from` towards `to` (away if speed is negative). */
+function steerTowards(from: Vec3, to: Vec3, speed: number, out: Vec3) {
+  const dx = to.x - from.x;
+  const dz = to.z - from.z;
+  const len = Math.hypot(dx, dz);
+  if (len < 0.0001) {
+    setXZ(out, 0, 0);
+    return;
+  }
+  setXZ(out, (dx / len) * speed, (dz / len) * speed);
+}
@@ -0,0 +1,71 @@
+import { type BossScriptDef } from "../boss/definitions";
+
+/**
+ * Enemy behavior as data. An enemy is a small state machine: each named state runs
+ * a priority list of movement behaviors, and transitions move it between states.
+ * Everything here is plain JSON-compatible data, so new enemies need no code.
+ */
+
+/** Movement behaviors. The first applicable behavior in a state's list drives the enemy. */
+export type BehaviorDef =
+  /** Random walk, changing direction every `changeInterval` s, staying within `radius` of spawn. */
+  | { type: "wander"; speed: number; changeInterval: number; radius?: number }
+  /** Move towards the target while it is within `range`, stopping at `stopDistance`. */
+  | { type: "chase"; speed: number; range: number; stopDistance?: number }
+  /** Circle the target at `radius` while it is within `range`. */
+  | { type: "orbit"; speed: number; radius: number; range: number; clockwise?: boolean }
+  /** Hold `distance` from the target (backing off or closing in) while it is within `range`. */
+  | { type: "keepDistance"; speed: number; distance: number; range: number }
+  /** Dash in a straight line at the target for `duration` s, then wait `cooldown` s. */
+  | { type: "charge"; speed: number; range: number; duration: number; cooldown: number }
+  /** Walk back to spawn when further than `threshold` from it. */
+  | { type: "returnToSpawn"; speed: number; threshold: number };
+
+/** Conditions for state transitions. */
+export type ConditionDef =
+  | { type: "targetWithin"; range: number }
+  | { type: "noTargetWithin"; range: number }
+  | { type: "hpBelow"; fraction: number }
+  | { type: "hpAbove"; fraction: number }
+  | { type: "timeInState"; seconds: number };
+
+/**
+ * Moves the enemy to `to` when every condition in `when` holds.
+ * `from` may be `"*"` to apply in any state.
+ */
+export type TransitionDef = {
+  from: string;
+  to: string;
+  when: ConditionDef[];
+};
+
+/**
+ * Fires a bullet pattern at the target every `cooldown` seconds while it is within `range`.
+ */
+export type AttackDef = {
+  /** Id of a PatternDef. */
+  pattern: string;
+  cooldown: number;
+  range: number;
+  /** Seconds before the first shot after entering the state. */
+  initialDelay?: number;
+};
+
+export type EnemyDefinition = {
+  /** Unique id, also sent to clients as the enemy kind. */
+  id: string;
+  maxHp: number;
+  /** Experience for the kill, shared out by shareKillXp. */
+  xp: number;
+  /** Id of the LootTableDef rolled when it dies; drops nothing without one. */
+  loot?: string;
+  initialState: string;
+  /** Behavior priority list per state. */
+  states: Record<string, BehaviorDef[]>;
+  /** Checked in order every tick; the first matching transition wins. */
+  transitions: TransitionDef[];
+  /** Attacks per state; all of a state's attacks run independently. */
+  attacks?: Record<string, AttackDef[]>;
+  /** Makes the enemy a scripted boss, whose phases pick its state instead of `transitions`. */
+  boss?: BossScriptDef;
+};
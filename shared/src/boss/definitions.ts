@@ -0,0 +1,46 @@
+/**
+ * Boss encounters as data. A boss is an enemy whose EnemyDefinition has a
+ * `boss` script: it waits in its initial AI state until a player engages it,
+ * then runs through its phases in order. Each phase puts the boss's AI in one of
+ * its states, so the state's behaviors and attacks make up the phase's movement
+ * and bullet patterns; the definition's own transitions are not used.
+ */
+
+/** When a boss moves on to a phase. */
+export type BossPhaseTriggerDef =
+  | { type: "hpBelow"; fraction: number }
+  /** Seconds since the previous phase began. */
+  | { type: "timeInPhase"; seconds: number };
+
+/** Minions called in when a phase begins, spread evenly on a ring around the boss. */
+export type MinionSpawnDef = {
+  /** EnemyDefinition id. */
+  enemy: string;
+  count: number;
+  radius: number;
+};
+
+export type BossPhaseDef = {
+  id: string;
+  /** AI state the boss is in during the phase. */
+  state: string;
+  /** Begins once any trigger holds. Unused on the first phase, which begins on engagement. */
+  when?: BossPhaseTriggerDef[];
+  /**
+   * Seconds at the start of the phase the boss spends invulnerable, standing
+   * still and holding its fire, so players see the change coming.
+   */
+  transition?: number;
+  minions?: MinionSpawnDef[];
+  /** Said to the room when the phase begins. */
+  taunt?: string;
+};
+
+export type BossScriptDef = {
+  /** Distance at which a player wakes the boss up. Hurting it does too. */
+  engageRange: number;
+  /** Seals the arena the boss stands in (see ArenaDef) once engaged, until it dies. */
+  lockdown?: boolean;
+  /** In order; at least one. */
+  phases: BossPhaseDef[];
+};
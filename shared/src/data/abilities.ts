@@ -0,0 +1,39 @@
+import { type AbilityDef } from "../abilities/definitions";
+
+/**
+ * Active abilities, cast by ability items of the same id.
+ */
+export const ABILITY_DEFINITIONS: Record<string, AbilityDef> = {
+  spellBomb: {
+    id: "spellBomb", name: "Spell Bomb", mpCost: 40, cooldown: 1, range: 10,
+    effect: { type: "spellBomb", pattern: "spellBomb" },
+  },
+  healingTome: {
+    id: "healingTome", name: "Healing Tome", mpCost: 35, cooldown: 2, range: 0,
+    effect: { type: "heal", amount: 60 },
+  },
+  warHelm: {
+    id: "warHelm", name: "War Helm", mpCost: 30, cooldown: 6, range: 0,
+    effect: { type: "buff", stat: "speed", amount: 15, duration: 4 },
+  },
+  teleportCloak: {
+    id: "teleportCloak", name: "Teleport Cloak", mpCost: 25, cooldown: 2, range: 8,
+    effect: { type: "teleport" },
+  },
+  holyShield: {
+    id: "holyShield", name: "Holy Shield", mpCost: 60, cooldown: 8, range: 0,
+    effect: {
+      type: "status",
+      effects: [{ effect: "invulnerable", duration: 1.5 }, { effect: "healing", duration: 3, hpPerSecond: 10 }],
+    },
+  },
+};
+
+/**
+ * Looks up an ability definition, throwing if the id is unknown.
+ */
+export function getAbilityDefinition(id: string): AbilityDef {
+  const definition = ABILITY_DEFINITIONS[id];
+  if (!definition) throw new Error(`Unknown ability definition "${id}"`);
+  return definition;
+}
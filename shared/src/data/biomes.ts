@@ -0,0 +1,44 @@
+import { type BiomeDef } from "../map/definitions";
+
+/**
+ * Realm biomes, from the coast inward. Harder enemies live closer to the center.
+ */
+export const BIOME_DEFINITIONS: Record<string, BiomeDef> = {
+  beach: {
+    id: "beach",
+    minDifficulty: 0,
+    ground: "sand",
+    objects: [{ object: "rock", chance: 0.01 }],
+    enemies: ["pirate"],
+  },
+  lowlands: {
+    id: "lowlands",
+    minDifficulty: 0.15,
+    ground: "grass",
+    objects: [{ object: "tree", chance: 0.03 }, { object: "rock", chance: 0.01 }],
+    enemies: ["pirate", "snake"],
+  },
+  midlands: {
+    id: "midlands",
+    minDifficulty: 0.45,
+    ground: "grass",
+    objects: [{ object: "tree", chance: 0.08 }],
+    enemies: ["snake", "bull"],
+  },
+  godlands: {
+    id: "godlands",
+    minDifficulty: 0.75,
+    ground: "stone",
+    objects: [{ object: "rock", chance: 0.04 }],
+    enemies: ["bull"],
+  },
+};
+
+/**
+ * Looks up a biome definition, throwing if the id is unknown.
+ */
+export function getBiomeDefinition(id: string): BiomeDef {
+  const definition = BIOME_DEFINITIONS[id];
+  if (!definition) throw new Error(`Unknown biome definition "${id}"`);
+  return definition;
+}
@@ -0,0 +1,49 @@
+import { type ClassDef } from "../stats/definitions";
+
+/**
+ * Playable classes.
+ */
+export const CLASS_DEFINITIONS: Record<string, ClassDef> = {
+  /** Fragile, hits hard from range. */
+  wizard: {
+    id: "wizard",
+    name: "Wizard",
+    weapon: "starterWand",
+    ability: "spellBomb",
+    base: { hp: 100, mp: 100, attack: 25, defense: 0, speed: 15, dexterity: 15, vitality: 10, wisdom: 15 },
+    growth: { hp: 25, mp: 8, attack: 2, defense: 0, speed: 1, dexterity: 2, vitality: 1, wisdom: 1.5 },
+    caps: { hp: 575, mp: 252, attack: 75, defense: 25, speed: 50, dexterity: 75, vitality: 40, wisdom: 60 },
+  },
+  /** Tough and quick, at the cost of range. */
+  warrior: {
+    id: "warrior",
+    name: "Warrior",
+    weapon: "boomerang",
+    ability: "warHelm",
+    base: { hp: 200, mp: 100, attack: 20, defense: 0, speed: 17, dexterity: 10, vitality: 15, wisdom: 10 },
+    growth: { hp: 35, mp: 5, attack: 2, defense: 0, speed: 1.5, dexterity: 1, vitality: 2, wisdom: 1 },
+    caps: { hp: 770, mp: 252, attack: 75, defense: 25, speed: 50, dexterity: 50, vitality: 75, wisdom: 50 },
+  },
+  /** Spread shots and steady defense. */
+  archer: {
+    id: "archer",
+    name: "Archer",
+    weapon: "tripleBow",
+    ability: "healingTome",
+    base: { hp: 130, mp: 100, attack: 22, defense: 2, speed: 15, dexterity: 12, vitality: 12, wisdom: 12 },
+    growth: { hp: 28, mp: 6, attack: 2, defense: 0.5, speed: 1, dexterity: 1.5, vitality: 1.5, wisdom: 1 },
+    caps: { hp: 700, mp: 252, attack: 75, defense: 25, speed: 50, dexterity: 50, vitality: 40, wisdom: 50 },
+  },
+};
+
+/** Class new characters get when none is chosen. */
+export const DEFAULT_CLASS = "wizard";
+
+/**
+ * Looks up a class definition, throwing if the id is unknown.
+ */
+export function getClassDefinition(id: string): ClassDef {
+  const definition = CLASS_DEFINITIONS[id];
+  if (!definition) throw new Error(`Unknown class definition "${id}"`);
+  return definition;
+}
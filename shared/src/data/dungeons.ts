@@ -0,0 +1,30 @@
+import { type DungeonDef } from "../map/definitions";
+
+/**
+ * Procedurally generated dungeons.
+ */
+export const DUNGEON_DEFINITIONS: Record<string, DungeonDef> = {
+  pirateCave: {
+    id: "pirateCave",
+    name: "Pirate Cave",
+    width: 64,
+    height: 64,
+    roomCount: 6,
+    roomSize: [6, 10],
+    bossRoomSize: 13,
+    floor: "floor",
+    wall: "wall",
+    enemies: ["pirate", "snake"],
+    enemiesPerRoom: [1, 3],
+    boss: "pirateCaptain",
+  },
+};
+
+/**
+ * Looks up a dungeon definition, throwing if the id is unknown.
+ */
+export function getDungeonDefinition(id: string): DungeonDef {
+  const definition = DUNGEON_DEFINITIONS[id];
+  if (!definition) throw new Error(`Unknown dungeon definition "${id}"`);
+  return definition;
+}
@@ -0,0 +1,152 @@
+import { type EnemyDefinition } from "../ai/definitions";
+
+/**
+ * Enemy roster. Add new enemies here; the AI system only reads this data.
+ * States used by convention: idle -> aggro when a player comes close,
+ * flee at low HP, back to idle when players leave.
+ */
+export const ENEMY_DEFINITIONS: Record<string, EnemyDefinition> = {
+  /** Basic melee grunt: chases, runs away when hurt. */
+  pirate: {
+    id: "pirate",
+    maxHp: 50,
+    xp: 20,
+    loot: "pirate",
+    initialState: "idle",
+    states: {
+      idle: [
+        { type: "returnToSpawn", speed: 2, threshold: 6 },
+        { type: "wander", speed: 1, changeInterval: 2, radius: 4 },
+      ],
+      aggro: [{ type: "chase", speed: 2.5, range: 12, stopDistance: 1.5 }],
+      flee: [{ type: "keepDistance", speed: 3, distance: 10, range: 12 }],
+    },
+    transitions: [
+      { from: "*", to: "flee", when: [{ type: "hpBelow", fraction: 0.25 }] },
+      { from: "idle", to: "aggro", when: [{ type: "targetWithin", range: 8 }] },
+      { from: "aggro", to: "idle", when: [{ type: "noTargetWithin", range: 12 }] },
+      { from: "flee", to: "idle", when: [{ type: "noTargetWithin", range: 12 }] },
+    ],
+    attacks: {
+      aggro: [{ pattern: "fan", cooldown: 1.5, range: 8, initialDelay: 0.5 }],
+    },
+  },
+
+  /** Circles the player at a distance. */
+  snake: {
+    id: "snake",
+    maxHp: 30,
+    xp: 15,
+    loot: "snake",
+    initialState: "idle",
+    states: {
+      idle: [{ type: "wander", speed: 1.5, changeInterval: 1, radius: 5 }],
+      aggro: [
+        { type: "orbit", speed: 3, radius: 4, range: 10 },
+        { type: "chase", speed: 3, range: 14 },
+      ],
+    },
+    transitions: [
+      { from: "idle", to: "aggro", when: [{ type: "targetWithin", range: 9 }] },
+      { from: "aggro", to: "idle", when: [{ type: "noTargetWithin", range: 14 }] },
+    ],
+    attacks: {
+      aggro: [{ pattern: "aimedBurst", cooldown: 2, range: 10 }],
+    },
+  },
+
+  /** Keeps its distance, then rams the player when it has been aggro for a while. */
+  bull: {
+    id: "bull",
+    maxHp: 120,
+    xp: 60,
+    loot: "bull",
+    initialState: "idle",
+    states: {
+      idle: [
+        { type: "returnToSpawn", speed: 2, threshold: 3 },
+        { type: "wander", speed: 0.8, changeInterval: 3, radius: 3 },
+      ],
+      aggro: [{ type: "keepDistance", speed: 2, distance: 6, range: 14 }],
+      enraged: [
+        { type: "charge", speed: 12, range: 14, duration: 0.6, cooldown: 1.5 },
+        { type: "keepDistance", speed: 2, distance: 6, range: 14 },
+      ],
+    },
+    transitions: [
+      { from: "idle", to: "aggro", when: [{ type: "targetWithin", range: 10 }] },
+      { from: "aggro", to: "enraged", when: [{ type: "timeInState", seconds: 3 }] },
+      { from: "*", to: "idle", when: [{ type: "noTargetWithin", range: 16 }] },
+    ],
+    attacks: {
+      aggro: [{ pattern: "stompRing", cooldown: 2.5, range: 10 }],
+      enraged: [{ pattern: "spiral", cooldown: 0.25, range: 14 }],
+    },
+  },
+
+  /**
+   * Pirate Cave boss. Trades broadsides from a distance, calls boarders in and
+   * rushes the players when hurt, then makes a last stand in a storm of thorns.
+   */
+  pirateCaptain: {
+    id: "pirateCaptain",
+    maxHp: 600,
+    xp: 300,
+    loot: "pirateCaptain",
+    initialState: "idle",
+    states: {
+      idle: [{ type: "returnToSpawn", speed: 2, threshold: 1 }],
+      broadsides: [{ type: "keepDistance", speed: 2, distance: 5, range: 20 }],
+      boarding: [
+        { type: "charge", speed: 10, range: 12, duration: 0.5, cooldown: 2.5 },
+        { type: "chase", speed: 2.5, range: 20, stopDistance: 2 },
+      ],
+      lastStand: [{ type: "orbit", speed: 3, radius: 4, range: 20 }],
+    },
+    transitions: [],
+    attacks: {
+      broadsides: [
+        { pattern: "fan", cooldown: 1.2, range: 14, initialDelay: 0.5 },
+        { pattern: "stompRing", cooldown: 3, range: 8, initialDelay: 1.5 },
+      ],
+      boarding: [{ pattern: "aimedBurst", cooldown: 1, range: 12 }],
+      lastStand: [
+        { pattern: "spiral", cooldown: 0.2, range: 16 },
+        { pattern: "fan", cooldown: 2, range: 14, initialDelay: 1 },
+      ],
+    },
+    boss: {
+      engageRange: 7,
+      lockdown: true,
+      phases: [
+        { id: "broadsides", state: "broadsides", taunt: "Ye picked the wrong cave, landlubbers!" },
+        {
+          id: "boarding",
+          state: "boarding",
+          when: [{ type: "hpBelow", fraction: 0.66 }],
+          transition: 1.5,
+          minions: [{ enemy: "pirate", count: 3, radius: 3 }],
+          taunt: "All hands! Repel boarders!",
+        },
+        {
+          id: "lastStand",
+          state: "lastStand",
+          // Or when the fight drags on
+          when: [{ type: "hpBelow", fraction: 0.33 }, { type: "timeInPhase", seconds: 60 }],
+          transition: 2,
+          minions: [{ enemy: "snake", count: 2, radius: 4 }],
+          taunt: "I'll take ye all to the bottom with me!",
+        },
+      ],
+    },
+  },
+};
+
+/**
+ * Looks up an enemy definition, throwing if the id is unknown.
+ */
+export function getEnemyDefinition(id: string): EnemyDefinition {
+  const definition = ENEMY_DEFINITIONS[id];
+  if (!definition) throw new Error(`Unknown enemy definition "${id}"`);
+  return definition;
+}
@@ -0,0 +1,31 @@
+import { type ItemDef } from "../items/definitions";
+
+/**
+ * Every item in the game. Weapon items fire the WeaponDef of the same id, and
+ * ability items cast the AbilityDef of the same id.
+ */
+export const ITEM_DEFINITIONS: Record<string, ItemDef> = {
+  starterWand: { id: "starterWand", name: "Starter Wand", slot: "weapon", tier: 0, weapon: "starterWand" },
+  tripleBow: { id: "tripleBow", name: "Triple Bow", slot: "weapon", tier: 1, weapon: "tripleBow" },
+  boomerang: { id: "boomerang", name: "Boomerang", slot: "weapon", tier: 1, weapon: "boomerang" },
+  waveStaff: { id: "waveStaff", name: "Wave Staff", slot: "weapon", tier: 3, weapon: "waveStaff" },
+  spellBomb: { id: "spellBomb", name: "Spell Bomb", slot: "ability", tier: 0, ability: "spellBomb" },
+  healingTome: { id: "healingTome", name: "Healing Tome", slot: "ability", tier: 0, ability: "healingTome" },
+  warHelm: { id: "warHelm", name: "War Helm", slot: "ability", tier: 0, ability: "warHelm" },
+  holyShield: { id: "holyShield", name: "Holy Shield", slot: "ability", tier: 2, ability: "holyShield" },
+  teleportCloak: { id: "teleportCloak", name: "Teleport Cloak", slot: "ability", tier: 2, ability: "teleportCloak" },
+  leatherArmor: { id: "leatherArmor", name: "Leather Armor", slot: "armor", tier: 1, stats: { defense: 4 } },
+  chainmail: { id: "chainmail", name: "Chainmail", slot: "armor", tier: 3, stats: { defense: 8, hp: 20 } },
+  ringOfVitality: { id: "ringOfVitality", name: "Ring of Vitality", slot: "ring", tier: 1, stats: { vitality: 4 } },
+  ringOfAttack: { id: "ringOfAttack", name: "Ring of Attack", slot: "ring", tier: 2, stats: { attack: 4 } },
+  healthPotion: { id: "healthPotion", name: "Health Potion", slot: "consumable", tier: 0, heal: 100 },
+};
+
+/**
+ * Looks up an item definition, throwing if the id is unknown.
+ */
+export function getItemDefinition(id: string): ItemDef {
+  const definition = ITEM_DEFINITIONS[id];
+  if (!definition) throw new Error(`Unknown item definition "${id}"`);
+  return definition;
+}
@@ -0,0 +1,73 @@
+import { type LootTableDef, type BagDef } from "../loot/definitions";
+
+/**
+ * Loot tables, referenced by enemies' `loot`.
+ */
+export const LOOT_TABLE_DEFINITIONS: Record<string, LootTableDef> = {
+  pirate: {
+    id: "pirate",
+    chance: 0.3,
+    tiers: [
+      { weight: 8, items: ["healthPotion"] },
+      { weight: 2, items: ["leatherArmor", "ringOfVitality"] },
+    ],
+  },
+  snake: {
+    id: "snake",
+    chance: 0.25,
+    tiers: [
+      { weight: 3, items: ["healthPotion"] },
+      { weight: 1, items: ["tripleBow", "boomerang", "holyShield"] },
+    ],
+  },
+  bull: {
+    id: "bull",
+    chance: 1,
+    rolls: 2,
+    guaranteed: ["healthPotion"],
+    tiers: [
+      { weight: 6, items: ["leatherArmor", "ringOfVitality", "tripleBow"] },
+      { weight: 3, items: ["ringOfAttack", "teleportCloak"], soulbound: true },
+      { weight: 1, items: ["waveStaff", "chainmail"], soulbound: true },
+    ],
+  },
+  pirateCaptain: {
+    id: "pirateCaptain",
+    chance: 1,
+    rolls: 2,
+    guaranteed: ["healthPotion"],
+    tiers: [
+      { weight: 6, items: ["leatherArmor", "ringOfVitality", "tripleBow"] },
+      { weight: 3, items: ["ringOfAttack", "teleportCloak"], soulbound: true },
+      { weight: 1, items: ["waveStaff", "chainmail"], soulbound: true },
+    ],
+  },
+};
+
+/**
+ * Loot bag kinds, from plain to rare.
+ */
+export const BAG_DEFINITIONS: Record<string, BagDef> = {
+  brown: { id: "brown", minTier: 0 },
+  purple: { id: "purple", minTier: 2 },
+  cyan: { id: "cyan", minTier: 0, soulbound: true },
+  white: { id: "white", minTier: 3, soulbound: true },
+};
+
+/**
+ * Looks up a loot table, throwing if the id is unknown.
+ */
+export function getLootTableDefinition(id: string): LootTableDef {
+  const definition = LOOT_TABLE_DEFINITIONS[id];
+  if (!definition) throw new Error(`Unknown loot table definition "${id}"`);
+  return definition;
+}
+
+/**
+ * Looks up a bag definition, throwing if the id is unknown.
+ */
+export function getBagDefinition(id: string): BagDef {
+  const definition = BAG_DEFINITIONS[id];
+  if (!definition) throw new Error(`Unknown bag definition "${id}"`);
+  return definition;
+}
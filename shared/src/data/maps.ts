@@ -0,0 +1,164 @@
+import { type MapDefinition, type MapLegendEntry } from "../map/definitions";
+import { type TileMap, type MapLayout, parseMap } from "../map/tileMap";
+import { generateRealm } from "../map/realmGenerator";
+import { generateDungeon } from "../map/dungeonGenerator";
+import { DUNGEON_DEFINITIONS } from "./dungeons";
+import { REALM_ROOM } from "../net/rooms";
+
+/** Characters shared by the hand-made maps. */
+export const DEFAULT_MAP_LEGEND: Record<string, MapLegendEntry> = {
+  ".": { ground: "grass" },
+  ",": { ground: "sand" },
+  "~": { ground: "water" },
+  "_": { ground: "floor" },
+  ":": { ground: "stone" },
+  "#": { ground: "floor", object: "wall" },
+  "T": { ground: "grass", object: "tree" },
+  "o": { ground: "grass", object: "rock" },
+};
+
+/**
+ * Hand-made maps. The arena is 50x50 tiles centered on the world origin, where
+ * players spawn, with one test enemy. The Nexus is the safe hub, with the portal
+ * to the realm north of the spawn and vault chests south of it.
+ */
+export const MAP_DEFINITIONS: Record<string, MapDefinition> = {
+  nexus: {
+    id: "nexus",
+    origin: { x: -10.5, z: -10.5 },
+    legend: DEFAULT_MAP_LEGEND,
+    playerSpawns: [{ x: 0, z: 0 }],
+    portals: [{ x: 0, z: 5, target: REALM_ROOM, label: "Realm" }],
+    vaults: [{ x: -3, z: -4 }, { x: 3, z: -4 }],
+    rows: [
+      "#####################",
+      "#___________________#",
+      "#___________________#",
+      "#______#_____#______#",
+      "#___________________#",
+      "#___________________#",
+      "#___________________#",
+      "#______#_____#______#",
+      "#___________________#",
+      "#___________________#",
+      "#___________________#",
+      "#___________________#",
+      "#___________________#",
+      "#___________________#",
+      "#___________________#",
+      "#___________________#",
+      "#___________________#",
+      "#___________________#",
+      "#___________________#",
+      "#___________________#",
+      "#####################",
+    ],
+  },
+  arena: {
+    id: "arena",
+    origin: { x: -25, z: -25 },
+    legend: DEFAULT_MAP_LEGEND,
+    playerSpawns: [{ x: 0, z: 0 }],
+    enemySpawns: [{ enemy: "pirate", x: 5, z: 5 }],
+    rows: [
+    "##################################################",
+    "#................................................#",
+    "#................................................#",
+    "#................................................#",
+    "#.........,..........................#########...#",
+    "#......,,,,,,,.......................#_______#...#",
+    "#.....,,,~~~,,,......................#_______#...#",
+    "#.....,,~~~~~,,......................#_______#...#",
+    "#.....,~~~~~~~,......................________#...#",
+    "#....,,~~~~~~~,,.....................________#...#",
+    "#.....,~~~~~~~,..................o...#_______#...#",
+    "#.....,,~~~~~,,......................#_______#...#",
+    "#.....,,,~~~,,,......................#########...#",
+    "#......,,,,,,,...................................#",
+    "#.........,......................................#",
+    "#................................................#",
+    "#...................#............................#",
+    "#................................................#",
+    "#............................................o...#",
+    "#................................................#",
+    "#................................................#",
+    "#................................................#",
+    "#................................................#",
+    "#................................................#",
+    "#................................................#",
+    "#................................................#",
+    "#................................................#",
+    "#................................................#",
+    "#................................................#",
+    "#................................................#",
+    "#..........o.............#.......................#",
+    "#................................................#",
+    "#............o...................................#",
+    "#................................................#",
+    "#......................................T.........#",
+    "#..........................................T.....#",
+    "#......#########.....................T...........#",
+    "#......#.........................................#",
+    "#......#.................................T.......#",
+    "#......#..............o..........................#",
+    "#......#............................T............#",
+    "#......#....................................T....#",
+    "#......#................................T........#",
+    "#......#.........................................#",
+    "#......#..............................T..........#",
+    "#................................................#",
+    "#................................................#",
+    "#................................................#",
+    "#................................................#",
+    "##################################################",
+    ],
+  },
+};
+
+/** Map rooms load when none is given. */
+export const DEFAULT_MAP = "arena";
+
+/** Map id of the safe hub players start in. */
+export const NEXUS_MAP = "nexus";
+
+/** Map id of the procedurally generated overworld. */
+export const REALM_MAP = "realm";
+
+/**
+ * Looks up a map definition, throwing if the id is unknown.
+ */
+export function getMapDefinition(id: string): MapDefinition {
+  const definition = MAP_DEFINITIONS[id];
+  if (!definition) throw new Error(`Unknown map definition "${id}"`);
+  return definition;
+}
+
+/**
+ * Builds the tile map for a map id. Server and client both load maps through this,
+ * so they collide against the same tiles.
+ */
+export function loadMap(id: string): TileMap {
+  return parseMap(getMapDefinition(id));
+}
+
+/**
+ * Builds the map for a map id together with its spawn points: a generated realm
+ * for REALM_MAP, a generated dungeon for a DUNGEON_DEFINITIONS id, or a hand-made map.
+ * `seed` only matters for generated maps; the same id and seed always give the
+ * same layout, so clients can rebuild what the server generated.
+ */
+export function loadMapLayout(id: string, seed: number): MapLayout {
+  if (id === REALM_MAP) return generateRealm(seed);
+  const dungeon = DUNGEON_DEFINITIONS[id];
+  if (dungeon) return generateDungeon(dungeon, seed);
+
+  const definition = getMapDefinition(id);
+  const map = parseMap(definition);
+  return {
+    map,
+    playerSpawns: definition.playerSpawns ?? [map.tileCenter(Math.floor(map.width / 2), Math.floor(map.height / 2))],
+    enemySpawns: definition.enemySpawns ?? [],
+    portals: definition.portals ?? [],
+    vaults: definition.vaults ?? [],
+  };
+}
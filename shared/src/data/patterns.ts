@@ -0,0 +1,32 @@
+import { type PatternDef } from "../patterns/definitions";
+
+/**
+ * Shot patterns for weapons and enemy attacks.
+ */
+export const PATTERN_DEFINITIONS: Record<string, PatternDef> = {
+  single: { id: "single", projectile: "bolt", count: 1, arc: 0 },
+  tripleArrow: { id: "tripleArrow", projectile: "arrow", count: 3, arc: 20 },
+  waveBeam: { id: "waveBeam", projectile: "wave", count: 1, arc: 0 },
+  boomerang: { id: "boomerang", projectile: "boomerang", count: 1, arc: 0 },
+  /** 5-way spread. */
+  fan: { id: "fan", projectile: "orb", count: 5, arc: 60 },
+  /** 12 shots around the shooter. */
+  ring: { id: "ring", projectile: "orb", count: 12, arc: 360, aimed: false },
+  /** 8 paralyzing shots around the shooter. */
+  stompRing: { id: "stompRing", projectile: "stomp", count: 8, arc: 360, aimed: false },
+  /** The Spell Bomb ability's burst, fired from the target point. */
+  spellBomb: { id: "spellBomb", projectile: "shard", count: 16, arc: 360, aimed: false },
+  /** Ring that turns a little each time, tracing a spiral when fired repeatedly. */
+  spiral: { id: "spiral", projectile: "thorn", count: 4, arc: 360, aimed: false, spin: 15 },
+  /** Three quick aimed darts. */
+  aimedBurst: { id: "aimedBurst", projectile: "dart", count: 1, arc: 0, bursts: 3, burstDelay: 0.15 },
+};
+
+/**
+ * Looks up a pattern definition, throwing if the id is unknown.
+ */
+export function getPatternDefinition(id: string): PatternDef {
+  const definition = PATTERN_DEFINITIONS[id];
+  if (!definition) throw new Error(`Unknown pattern definition "${id}"`);
+  return definition;
+}
@@ -0,0 +1,54 @@
+import { type ProjectileDef } from "../patterns/definitions";
+
+const BULLET_SPRITE = "bullet";
+
+/**
+ * Projectile kinds, referenced by id from patterns and sent over the network.
+ */
+export const PROJECTILE_DEFINITIONS: Record<string, ProjectileDef> = {
+  /** Starter weapon shot. */
+  bolt: { id: "bolt", speed: 25, range: 50, size: 0.25, damage: 10, sprite: BULLET_SPRITE },
+  arrow: { id: "arrow", speed: 20, range: 12, size: 0.25, damage: 12, sprite: BULLET_SPRITE, piercing: true },
+  /** Breaks the armor of what it hits. */
+  wave: {
+    id: "wave", speed: 14, range: 14, size: 0.3, damage: 15, sprite: BULLET_SPRITE,
+    path: { type: "wavy", amplitude: 0.75, frequency: 2 },
+    effects: [{ effect: "armorBroken", duration: 2 }],
+  },
+  /** Spell Bomb fragment: short range, heavy hit, stuns. */
+  shard: {
+    id: "shard", speed: 12, range: 4, size: 0.25, damage: 25, sprite: BULLET_SPRITE,
+    effects: [{ effect: "stunned", duration: 1 }],
+  },
+  /** Slow enemy shot. */
+  orb: { id: "orb", speed: 6, range: 9, size: 0.3, damage: 8, sprite: BULLET_SPRITE },
+  /** Heavy enemy shot that roots its target for a moment. */
+  stomp: {
+    id: "stomp", speed: 6, range: 8, size: 0.35, damage: 12, sprite: BULLET_SPRITE,
+    effects: [{ effect: "paralyzed", duration: 0.75 }],
+  },
+  /** Leaves its target bleeding. */
+  thorn: {
+    id: "thorn", speed: 7, range: 10, size: 0.25, damage: 6, sprite: BULLET_SPRITE,
+    effects: [{ effect: "bleeding", duration: 3, hpPerSecond: 4 }],
+  },
+  /** Starts slow and speeds up; slows what it hits. */
+  dart: {
+    id: "dart", speed: 3, range: 12, size: 0.2, damage: 10, sprite: BULLET_SPRITE,
+    path: { type: "accelerate", acceleration: 12, targetSpeed: 15 },
+    effects: [{ effect: "slowed", duration: 2 }],
+  },
+  boomerang: {
+    id: "boomerang", speed: 10, range: 12, size: 0.35, damage: 14, sprite: BULLET_SPRITE,
+    piercing: true, path: { type: "boomerang" },
+  },
+};
+
+/**
+ * Looks up a projectile definition, throwing if the id is unknown.
+ */
+export function getProjectileDefinition(id: string): ProjectileDef {
+  const definition = PROJECTILE_DEFINITIONS[id];
+  if (!definition) throw new Error(`Unknown projectile definition "${id}"`);
+  return definition;
+}
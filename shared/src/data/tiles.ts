@@ -0,0 +1,42 @@
+import { type TileDef, type MapObjectDef } from "../map/definitions";
+
+/**
+ * Ground tiles. `sprite` indexes the tile sheet (4 columns of 16px cells).
+ */
+export const TILE_DEFINITIONS: Record<string, TileDef> = {
+  grass: { id: "grass", sprite: 0 },
+  sand: { id: "sand", sprite: 1 },
+  water: { id: "water", sprite: 2, blocksMovement: true },
+  floor: { id: "floor", sprite: 3 },
+  stone: { id: "stone", sprite: 7 },
+};
+
+/**
+ * Objects placed on tiles.
+ */
+export const MAP_OBJECT_DEFINITIONS: Record<string, MapObjectDef> = {
+  wall: { id: "wall", sprite: 4, blocksMovement: true, blocksProjectiles: true, height: 1 },
+  tree: { id: "tree", sprite: 5, blocksMovement: true, blocksProjectiles: true },
+  // Low enough to shoot over
+  rock: { id: "rock", sprite: 6, blocksMovement: true },
+  // Seals a boss arena for the fight (see ArenaDef)
+  gate: { id: "gate", sprite: 8, blocksMovement: true, blocksProjectiles: true, height: 1 },
+};
+
+/**
+ * Looks up a ground tile definition, throwing if the id is unknown.
+ */
+export function getTileDefinition(id: string): TileDef {
+  const definition = TILE_DEFINITIONS[id];
+  if (!definition) throw new Error(`Unknown tile definition "${id}"`);
+  return definition;
+}
+
+/**
+ * Looks up a map object definition, throwing if the id is unknown.
+ */
+export function getMapObjectDefinition(id: string): MapObjectDef {
+  const definition = MAP_OBJECT_DEFINITIONS[id];
+  if (!definition) throw new Error(`Unknown map object definition "${id}"`);
+  return definition;
+}
@@ -0,0 +1,23 @@
+import { type WeaponDef } from "../patterns/definitions";
+
+/**
+ * Player weapons.
+ */
+export const WEAPON_DEFINITIONS: Record<string, WeaponDef> = {
+  starterWand: { id: "starterWand", name: "Starter Wand", pattern: "single", cooldown: 0.2 },
+  tripleBow: { id: "tripleBow", name: "Triple Bow", pattern: "tripleArrow", cooldown: 0.35 },
+  waveStaff: { id: "waveStaff", name: "Wave Staff", pattern: "waveBeam", cooldown: 0.3 },
+  boomerang: { id: "boomerang", name: "Boomerang", pattern: "boomerang", cooldown: 0.6 },
+};
+
+/** Weapon new characters start with. */
+export const DEFAULT_WEAPON = "starterWand";
+
+/**
+ * Looks up a weapon definition, throwing if the id is unknown.
+ */
+export function getWeaponDefinition(id: string): WeaponDef {
+  const definition = WEAPON_DEFINITIONS[id];
+  if (!definition) throw new Error(`Unknown weapon definition "${id}"`);
+  return definition;
+}
@@ -0,0 +1,68 @@
+import { type CollidableData } from "./components/Collidable";
+
+/** Named collision groups. Each one is a bit in Collidable `layer`/`mask`. */
+export type CollisionGroupName = "player" | "player-projectile" | "enemy" | "enemy-projectile" | "wall" | "pickup";
+
+export const COLLISION_GROUPS: Record<CollisionGroupName, number> = {
+  player: 1 << 0,
+  "player-projectile": 1 << 1,
+  enemy: 1 << 2,
+  "enemy-projectile": 1 << 3,
+  wall: 1 << 4,
+  pickup: 1 << 5,
+};
+
+/**
+ * Which groups interact. Pairs are symmetric: listing `b` under `a` is enough.
+ */
+export type CollisionMatrix = Partial<Record<CollisionGroupName, CollisionGroupName[]>>;
+
+/**
+ * Enemy shots hit only players, player shots hit only enemies, walls block both,
+ * and only players touch pickups.
+ */
+export const DEFAULT_COLLISION_MATRIX: CollisionMatrix = {
+  "player-projectile": ["enemy", "wall"],
+  "enemy-projectile": ["player", "wall"],
+  player: ["wall", "pickup"],
+  enemy: ["wall"],
+};
+
+/** Bit of every group, the implicit layer/mask of collidables without one. */
+const ALL_GROUPS = 0xffffffff;
+
+/**
+ * Resolves a matrix into a mask per group.
+ */
+export function buildCollisionMasks(matrix: CollisionMatrix): Record<CollisionGroupName, number> {
+  const masks = {} as Record<CollisionGroupName, number>;
+  for (const group of Object.keys(COLLISION_GROUPS) as CollisionGroupName[]) masks[group] = 0;
+  for (const [group, others] of Object.entries(matrix) as [CollisionGroupName, CollisionGroupName[]][]) {
+    for (const other of others) {
+      masks[group] |= COLLISION_GROUPS[other];
+      masks[other] |= COLLISION_GROUPS[group];
+    }
+  }
+  return masks;
+}
+
+const DEFAULT_MASKS = buildCollisionMasks(DEFAULT_COLLISION_MATRIX);
+
+/**
+ * Layer and mask for a Collidable in `group`, e.g.
+ * `collidable: { halfExtents, ...collisionFilter("enemy") }`.
+ */
+export function collisionFilter(
+  group: CollisionGroupName,
+  masks: Record<CollisionGroupName, number> = DEFAULT_MASKS
+): Pick<CollidableData, "layer" | "mask"> {
+  return { layer: COLLISION_GROUPS[group], mask: masks[group] };
+}
+
+/**
+ * True if each collidable's layer is in the other's mask. Collidables without a
+ * layer or mask interact with everything.
+ */
+export function canCollide(a: CollidableData, b: CollidableData): boolean {
+  return ((a.layer ?? ALL_GROUPS) & (b.mask ?? ALL_GROUPS)) !== 0 && ((b.layer ?? ALL_GROUPS) & (a.mask ?? ALL_GROUPS)) !== 0;
+}
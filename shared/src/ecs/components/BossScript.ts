@@ -0,0 +1,21 @@
+/**
+ * Progress of an enemy through its boss script (EnemyDefinition `boss`).
+ */
+export type BossScriptData = {
+  /** Index of the current phase; -1 until a player engages the boss. */
+  phase: number;
+  /** Seconds since the current phase began. */
+  phaseTime: number;
+};
+
+/**
+ * Component identifier for BossScript.
+ */
+export const BossScript = "bossScript";
+
+/**
+ * Creates the script state for a freshly spawned boss, not yet engaged.
+ */
+export function createBossScript(): BossScriptData {
+  return { phase: -1, phaseTime: 0 };
+}
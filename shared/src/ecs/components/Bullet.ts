@@ -0,0 +1,40 @@
+import { type Vec3 } from "../../math/vec3";
+import { type ProjectileDef } from "../../patterns/definitions";
+import { type StatusEffectApplication } from "../../status/definitions";
+
+/**
+ * Where a pattern projectile was fired from; its position is a function of these and `age`.
+ */
+export type ProjectileMotion = {
+  def: ProjectileDef;
+  origin: Vec3;
+  /** Heading in radians. */
+  angle: number;
+  /** Seconds since it was fired. */
+  age: number;
+};
+
+/**
+ * Data for the Bullet component.
+ */
+export type BulletData = {
+  /** Damage dealt on collision. */
+  damage: number;
+  /** Time in seconds before the bullet despawns. */
+  lifespan: number;
+  /** The entity ID that fired this bullet (to avoid self-collision). */
+  firedBy: number | string;
+  /** Set for pattern projectiles; without it the bullet flies straight by its velocity. */
+  motion?: ProjectileMotion;
+  /** Passes through targets with health instead of despawning on the first hit. */
+  piercing?: boolean;
+  /** Targets a piercing bullet already hit, so it damages each only once. */
+  hitIds?: (number | string)[];
+  /** Inflicted on targets it hits, if they can be under status effects. */
+  effects?: StatusEffectApplication[];
+};
+
+/**
+ * Component identifier for Bullet.
+ */
+export const Bullet = "bullet";
@@ -0,0 +1,21 @@
+import { type Vec3 } from "../../math/vec3";
+
+/**
+ * Marks an entity as collidable. The shape is centered on the entity's Transform
+ * position, so it never needs to be rebuilt when the entity moves.
+ */
+export type CollidableData = {
+  /** Half size of the axis-aligned box on each axis. */
+  halfExtents: Vec3;
+  /** If set, the entity is a circle of this radius on the XZ plane instead of a box. */
+  radius?: number;
+  /** Bitmask for collision layers/groups (optional); see `collisionFilter`. */
+  layer?: number;
+  /** Bitmask for which layers this collidable interacts with (optional). */
+  mask?: number;
+};
+
+/**
+ * Component identifier for Collidable.
+ */
+export const Collidable = "collidable";
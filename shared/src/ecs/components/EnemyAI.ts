@@ -0,0 +1,57 @@
+import { type Vec3 } from "../../math/vec3";
+import { type EnemyDefinition } from "../../ai/definitions";
+
+/** Per-behavior scratch state (timers, chosen directions). */
+export type BehaviorMemory = {
+  timer: number;
+  active: boolean;
+  dirX: number;
+  dirZ: number;
+};
+
+/** Per-attack state. */
+export type AttackMemory = {
+  /** Seconds until the attack may fire again. */
+  cooldown: number;
+  /** Times fired, for spinning patterns. */
+  volley: number;
+};
+
+/**
+ * AI state for an enemy driven by an EnemyDefinition.
+ */
+export type EnemyAIData = {
+  definition: EnemyDefinition;
+  /** Current state name, a key of `definition.states`. */
+  state: string;
+  /** Seconds spent in the current state. */
+  stateTime: number;
+  /** Where the enemy spawned, for leashing and returnToSpawn. */
+  spawn: Vec3;
+  /** Id of the entity currently targeted, if any. */
+  targetId: string | number | null;
+  /** Behavior memory keyed by `${state}:${index}`; reset on state change. */
+  memory: Record<string, BehaviorMemory>;
+  /** Attack memory keyed like `memory`; also reset on state change. */
+  attacks: Record<string, AttackMemory>;
+};
+
+/**
+ * Component identifier for EnemyAI.
+ */
+export const EnemyAI = "enemyAI";
+
+/**
+ * Creates the AI component for a freshly spawned enemy.
+ */
+export function createEnemyAI(definition: EnemyDefinition, spawn: Vec3): EnemyAIData {
+  return {
+    definition,
+    state: definition.initialState,
+    stateTime: 0,
+    spawn: { x: spawn.x, y: spawn.y, z: spawn.z },
+    targetId: null,
+    memory: {},
+    attacks: {},
+  };
+}
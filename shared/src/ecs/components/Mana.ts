@@ -0,0 +1,13 @@
+/**
+ * Magic points that pay for abilities. The max follows the MP stat; wisdom
+ * regenerates them (see mpRegen).
+ */
+export type ManaData = {
+  mp: number;
+  maxMp: number;
+};
+
+/**
+ * Component identifier for Mana.
+ */
+export const Mana = "mana";
@@ -0,0 +1,5 @@
+/**
+ * Component identifier for the player entity.
+ * The client stores a plain tag here; the server stores its input state.
+ */
+export const Player = "player";
@@ -0,0 +1,12 @@
+import { type StatBlock } from "../../stats/definitions";
+
+/**
+ * A character's current stats (see STAT_NAMES). Movement, fire rate, damage and
+ * mitigation are derived from these with the formulas in `stats/formulas`.
+ */
+export type StatsData = StatBlock;
+
+/**
+ * Component identifier for Stats.
+ */
+export const Stats = "stats";
@@ -0,0 +1,22 @@
+import { type StatusEffectName } from "../../status/definitions";
+
+/** One timed instance of a status effect. */
+export type StatusEffectInstance = {
+  effect: StatusEffectName;
+  /** Seconds until it runs out. */
+  timeLeft: number;
+  /** HP lost (bleeding) or regained (healing) per second. */
+  hpPerSecond?: number;
+};
+
+/**
+ * Status effects an entity is under, stacked; see STATUS_EFFECT_NAMES.
+ */
+export type StatusEffectsData = {
+  effects: StatusEffectInstance[];
+};
+
+/**
+ * Component identifier for StatusEffects.
+ */
+export const StatusEffects = "statusEffects";
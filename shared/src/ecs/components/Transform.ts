@@ -1,12 +1,10 @@
-import { Vector3 } from "@babylonjs/core";
+import { type Vec3 } from "../../math/vec3";
 
 /**
  * Type definition for the Transform component's data.
  */
 export type TransformData = {
-  pos: Vector3;
-  // rotation?: Quaternion; // Add later if needed
-  // scale?: Vector3;       // Add later if needed
+  pos: Vec3;
 };
 
 /**
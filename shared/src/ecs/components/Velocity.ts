@@ -0,0 +1,11 @@
+import { type Vec3 } from "../../math/vec3";
+
+/**
+ * Represents the velocity of an entity in world units per second.
+ * Movement is currently constrained to the XZ plane.
+ */
+export const Velocity = "velocity"; // Component identifier
+export type VelocityData = {
+  /** The velocity vector. */
+  vel: Vec3;
+};
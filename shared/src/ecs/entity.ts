@@ -0,0 +1,38 @@
+import { type TransformData } from "./components/Transform";
+import { type VelocityData } from "./components/Velocity";
+import { type HealthData } from "./components/Health";
+import { type CollidableData } from "./components/Collidable";
+import { type BulletData } from "./components/Bullet";
+import { type EnemyAIData } from "./components/EnemyAI";
+import { type StatsData } from "./components/Stats";
+import { type ManaData } from "./components/Mana";
+import { type StatusEffectsData } from "./components/StatusEffects";
+import { type BossScriptData } from "./components/BossScript";
+
+/**
+ * The components both sides simulate. Client and server entity types extend this
+ * with their own render or network components.
+ * Components are optional because not all entities have all components.
+ */
+export type SimEntity = {
+  id?: string | number;
+
+  // Core components
+  transform?: TransformData;
+  velocity?: VelocityData;
+  health?: HealthData;
+  collidable?: CollidableData;
+  stats?: StatsData;
+  mana?: ManaData;
+  statusEffects?: StatusEffectsData;
+
+  // Role/State components
+  bullet?: BulletData;
+  enemyAI?: EnemyAIData;
+  bossScript?: BossScriptData;
+};
+
+/**
+ * Marks the given components as present, like miniplex's `With`.
+ */
+export type With<E, P extends keyof E> = E & Required<Pick<E, P>>;
@@ -0,0 +1,145 @@
+/** Usage counters for one owner kind. */
+export type PoolKindCounters = {
+  active: number;
+  /** Most items this kind had out at once. */
+  highWater: number;
+  /** Max items this kind may have out at once. */
+  budget: number;
+  /** Acquires refused because the budget was used up. */
+  rejected: number;
+};
+
+/** Usage counters for a whole pool, for debug displays. */
+export type PoolCounters<K extends string> = {
+  active: number;
+  free: number;
+  /** Items currently allocated, active or free. */
+  capacity: number;
+  /** Most items out at once across all kinds. */
+  highWater: number;
+  byKind: Record<K, PoolKindCounters>;
+};
+
+export type EntityPoolOptions<T, K extends string> = {
+  /** Allocates a new, inactive item. */
+  create: () => T;
+  /** Frees an item dropped when the pool shrinks. */
+  destroy?: (item: T) => void;
+  /** Max active items per owner kind, so one kind cannot starve the others. */
+  budgets: Record<K, number>;
+  /** Items allocated at a time when the pool runs dry, and kept as slack. Default 64. */
+  chunkSize?: number;
+  /** Seconds of surplus free items before a chunk is released. Default 10. */
+  shrinkAfter?: number;
+};
+
+/**
+ * Pool of reusable entities (or any objects) that grows a chunk at a time when it
+ * runs dry and shrinks back once the extra items sit unused. Every item is handed
+ * out to an owner kind, each with its own budget.
+ */
+export class EntityPool<T, K extends string> {
+  private readonly create: () => T;
+  private readonly destroy?: (item: T) => void;
+  private readonly chunkSize: number;
+  private readonly shrinkAfter: number;
+  private freeItems: T[] = [];
+  private owners = new Map<T, K>();
+  private kinds: Record<K, PoolKindCounters>;
+  private capacity = 0;
+  private highWater = 0;
+  private idleTime = 0;
+
+  constructor(options: EntityPoolOptions<T, K>) {
+    this.create = options.create;
+    this.destroy = options.destroy;
+    this.chunkSize = Math.max(1, options.chunkSize ?? 64);
+    this.shrinkAfter = options.shrinkAfter ?? 10;
+    this.kinds = {} as Record<K, PoolKindCounters>;
+    for (const kind of Object.keys(options.budgets) as K[]) {
+      this.kinds[kind] = { active: 0, highWater: 0, budget: options.budgets[kind], rejected: 0 };
+    }
+    this.grow();
+  }
+
+  /** Items currently handed out. */
+  get active(): number {
+    return this.owners.size;
+  }
+
+  /**
+   * Hands out an item for `kind`, growing the pool if needed.
+   * Returns undefined when the kind's budget is used up.
+   */
+  acquire(kind: K): T | undefined {
+    const counters = this.kinds[kind];
+    if (counters.active >= counters.budget) {
+      counters.rejected++;
+      return undefined;
+    }
+    if (this.freeItems.length === 0) this.grow();
+
+    const item = this.freeItems.pop()!;
+    this.owners.set(item, kind);
+    counters.active++;
+    counters.highWater = Math.max(counters.highWater, counters.active);
+    this.highWater = Math.max(this.highWater, this.owners.size);
+    return item;
+  }
+
+  /**
+   * Takes an item back. Returns false if it was not handed out by this pool.
+   */
+  release(item: T): boolean {
+    const kind = this.owners.get(item);
+    if (kind === undefined) return false;
+    this.owners.delete(item);
+    this.kinds[kind].active--;
+    this.freeItems.push(item);
+    return true;
+  }
+
+  /** True if `item` is currently handed out. */
+  isActive(item: T): boolean {
+    return this.owners.has(item);
+  }
+
+  /**
+   * Shrinks the pool by a chunk once more than one chunk of items has been free
+   * for `shrinkAfter` seconds.
+   */
+  update(dt: number) {
+    if (this.freeItems.length <= this.chunkSize) {
+      this.idleTime = 0;
+      return;
+    }
+    this.idleTime += dt;
+    if (this.idleTime < this.shrinkAfter) return;
+    this.idleTime = 0;
+
+    const count = Math.min(this.chunkSize, this.freeItems.length - this.chunkSize);
+    for (const item of this.freeItems.splice(this.freeItems.length - count, count)) {
+      this.destroy?.(item);
+    }
+    this.capacity -= count;
+  }
+
+  /** Snapshot of the pool's counters. */
+  counters(): PoolCounters<K> {
+    const byKind = {} as Record<K, PoolKindCounters>;
+    for (const kind of Object.keys(this.kinds) as K[]) byKind[kind] = { ...this.kinds[kind] };
+    return {
+      active: this.owners.size,
+      free: this.freeItems.length,
+      capacity: this.capacity,
+      highWater: this.highWater,
+      byKind,
+    };
+  }
+
+  private grow() {
+    for (let i = 0; i < this.chunkSize; i++) this.freeItems.push(this.create());
+    this.capacity += this.chunkSize;
+    this.idleTime = 0;
+  }
+}
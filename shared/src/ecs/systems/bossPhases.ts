@@ -0,0 +1,117 @@
+import { type SimEntity, type With } from "../entity";
+import { type MapPoint } from "../../map/definitions";
+import { type BossPhaseDef, type BossPhaseTriggerDef } from "../../boss/definitions";
+import { type BossScriptData } from "../components/BossScript";
+import { distanceXZ } from "../../math/vec3";
+import { setAIState } from "./enemyAI";
+import { applyStatusEffect } from "../../status/effects";
+import { type StatusEffectName } from "../../status/definitions";
+
+type BossEntity = With<SimEntity, "bossScript" | "enemyAI" | "transform">;
+type TargetEntity = With<SimEntity, "transform">;
+
+/** What a boss script asks of the game; the caller carries it out. */
+export type BossEvent =
+  /** Seal the boss's arena; sent once, on engagement, for scripts with `lockdown`. */
+  | { type: "lockdown" }
+  | { type: "phase"; index: number; phase: BossPhaseDef }
+  | { type: "taunt"; text: string }
+  /** Spawn an `enemy` minion at each of `points`. */
+  | { type: "minions"; enemy: string; points: MapPoint[] };
+
+/** Effects that make up a phase transition window. */
+const TRANSITION_EFFECTS: StatusEffectName[] = ["invulnerable", "paralyzed", "stunned"];
+
+/**
+ * Runs one tick of boss scripts. A boss that is not engaged yet wakes up when a
+ * living target `engages` accepts (any, by default) comes within its
+ * `engageRange`, or when it gets hurt while such a target is anywhere, and
+ * begins its first phase; an engaged boss moves on to the next phase once any of that
+ * phase's triggers holds, one phase per tick, so phases always come in order.
+ * Beginning a phase sets the boss's AI state, starts its transition window and
+ * reports the phase, taunt and minions through `onEvent`.
+ * Runs before updateEnemyAI. Pure simulation: it runs the same headless.
+ */
+export function updateBossPhases<E extends BossEntity, T extends TargetEntity>(
+  bosses: Iterable<E>,
+  targets: Iterable<T>,
+  dt: number,
+  onEvent: (boss: E, event: BossEvent) => void,
+  engages: (boss: E, target: T) => boolean = () => true
+) {
+  const living: T[] = [];
+  for (const target of targets) {
+    if (!target.health || target.health.hp > 0) living.push(target);
+  }
+
+  for (const boss of bosses) {
+    const script = boss.enemyAI.definition.boss;
+    if (!script || script.phases.length === 0) continue;
+    const progress = boss.bossScript;
+    const hpFraction = boss.health ? boss.health.hp / boss.health.maxHp : 1;
+
+    if (progress.phase < 0) {
+      const engaging = living.filter((target) => engages(boss, target));
+      const hurt = hpFraction < 1 && engaging.length > 0;
+      const near = engaging.some((target) => distanceXZ(boss.transform.pos, target.transform.pos) <= script.engageRange);
+      if (!hurt && !near) continue;
+      if (script.lockdown) onEvent(boss, { type: "lockdown" });
+      beginPhase(boss, progress, 0, onEvent);
+      continue;
+    }
+
+    progress.phaseTime += dt;
+    const next = script.phases[progress.phase + 1];
+    if (next?.when?.some((trigger) => triggerHolds(trigger, hpFraction, progress.phaseTime))) {
+      beginPhase(boss, progress, progress.phase + 1, onEvent);
+    }
+  }
+}
+
+/**
+ * Puts a boss back the way it spawned: not engaged, at full HP, back on its
+ * spawn point in its initial AI state, with no status effects. For when
+ * everyone fighting it is gone, so the next party starts the fight over.
+ */
+export function resetBossScript(boss: BossEntity) {
+  const ai = boss.enemyAI;
+  boss.bossScript.phase = -1;
+  boss.bossScript.phaseTime = 0;
+  if (boss.health) boss.health.hp = boss.health.maxHp;
+  if (boss.statusEffects) boss.statusEffects.effects = [];
+  Object.assign(boss.transform.pos, ai.spawn);
+  setAIState(ai, ai.definition.initialState);
+}
+
+function triggerHolds(trigger: BossPhaseTriggerDef, hpFraction: number, phaseTime: number): boolean {
+  switch (trigger.type) {
+    case "hpBelow":
+      return hpFraction < trigger.fraction;
+    case "timeInPhase":
+      return phaseTime >= trigger.seconds;
+  }
+}
+
+function beginPhase<E extends BossEntity>(boss: E, progress: BossScriptData, index: number, onEvent: (boss: E, event: BossEvent) => void) {
+  const phase = boss.enemyAI.definition.boss!.phases[index];
+  progress.phase = index;
+  progress.phaseTime = 0;
+  setAIState(boss.enemyAI, phase.state);
+  if (phase.transition && boss.statusEffects) {
+    for (const effect of TRANSITION_EFFECTS) applyStatusEffect(boss.statusEffects, { effect, duration: phase.transition });
+  }
+
+  onEvent(boss, { type: "phase", index, phase });
+  if (phase.taunt) onEvent(boss, { type: "taunt", text: phase.taunt });
+  for (const minion of phase.minions ?? []) {
+    onEvent(boss, { type: "minions", enemy: minion.enemy, points: ringPoints(boss.transform.pos, minion.count, minion.radius) });
+  }
+}
+
+/** `count` points evenly spaced on a circle around `center`, starting on +X. */
+function ringPoints(center: MapPoint, count: number, radius: number): MapPoint[] {
+  return Array.from({ length: count }, (_, i) => {
+    const angle = (i / count) * Math.PI * 2;
+    return { x: center.x + Math.cos(angle) * radius, z: center.z + Math.sin(angle) * radius };
+  });
+}
@@ -0,0 +1,18 @@
+import { type SimEntity, type With } from "../entity";
+
+/**
+ * Counts down bullet lifespans and reports the ones that ran out.
+ * Despawning is left to the caller: the client pools bullets, the server removes them.
+ */
+export function tickBulletLifespans<E extends With<SimEntity, "bullet">>(
+  bullets: Iterable<E>,
+  dt: number,
+  onExpired: (bullet: E) => void
+) {
+  for (const entity of bullets) {
+    entity.bullet.lifespan -= dt;
+    if (entity.bullet.lifespan <= 0) {
+      onExpired(entity);
+    }
+  }
+}
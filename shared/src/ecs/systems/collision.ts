@@ -0,0 +1,109 @@
+import { type SimEntity, type With } from "../entity";
+import { type HealthData } from "../components/Health";
+import { type CollidableData } from "../components/Collidable";
+import { type Vec3 } from "../../math/vec3";
+import { centeredBoxesOverlap } from "../../math/aabb";
+import { circlesOverlapXZ, circleBoxOverlapXZ } from "../../math/shapes";
+import { SpatialHash } from "../../math/spatialHash";
+import { canCollide } from "../collisionGroups";
+import { activeStatusEffects, applyStatusEffect, statusDamage } from "../../status/effects";
+
+type CollidingEntity = With<SimEntity, "transform" | "collidable">;
+
+/** Broad-phase grid for `resolveBulletHits`; keep one per system to reuse its storage. */
+export type CollisionBroadphase = SpatialHash<CollidingEntity>;
+
+/**
+ * Subtracts damage, clamping at zero. Returns true if this hit was lethal.
+ */
+export function applyDamage(health: HealthData, damage: number): boolean {
+  if (health.hp <= 0) return false;
+  health.hp = Math.max(0, health.hp - damage);
+  return health.hp <= 0;
+}
+
+/**
+ * Narrow phase: exact overlap of two collidables. Circles are tested on the XZ
+ * plane; two boxes are tested on all three axes.
+ */
+export function collidersOverlap(aPos: Vec3, a: CollidableData, bPos: Vec3, b: CollidableData): boolean {
+  if (a.radius !== undefined) {
+    return b.radius !== undefined
+      ? circlesOverlapXZ(aPos, a.radius, bPos, b.radius)
+      : circleBoxOverlapXZ(aPos, a.radius, bPos, b.halfExtents);
+  }
+  if (b.radius !== undefined) return circleBoxOverlapXZ(bPos, b.radius, aPos, a.halfExtents);
+  return centeredBoxesOverlap(aPos, a.halfExtents, bPos, b.halfExtents);
+}
+
+/** Half size of a collidable's footprint on X and Z. */
+function extentX(c: CollidableData): number {
+  return c.radius ?? c.halfExtents.x;
+}
+
+function extentZ(c: CollidableData): number {
+  return c.radius ?? c.halfExtents.z;
+}
+
+/** Scratch candidate list, reused between calls. */
+const nearby: CollidingEntity[] = [];
+
+/**
+ * Tests every bullet against nearby targets and resolves the first hit per bullet.
+ * Targets are bucketed into `broadphase` (cleared and refilled on each call), so
+ * each bullet only runs the exact test against targets in its own grid cells.
+ * Collidable layers and masks decide which targets a bullet can hit at all.
+ * Targets without Health still absorb the bullet (walls, props); targets with Stats
+ * take less damage from their defense, and status effects can change that (see
+ * statusDamage). Targets that survive get the bullet's status effects.
+ * Piercing bullets carry on through targets with health, hitting each one once.
+ * `onHit` is called after damage is applied, with the HP the hit took away; when
+ * `consumed` is true the caller despawns the bullet there (removing the current
+ * bullet from `bullets` is safe).
+ */
+export function resolveBulletHits<B extends CollidingEntity & With<SimEntity, "bullet">, T extends CollidingEntity>(
+  bullets: Iterable<B>,
+  targets: Iterable<T>,
+  onHit: (bullet: B, target: T, killed: boolean, consumed: boolean, dealt: number) => void,
+  broadphase: CollisionBroadphase = new SpatialHash()
+) {
+  broadphase.clear();
+  for (const target of targets) {
+    // Bullets never collide with each other
+    if (target.bullet) continue;
+    const { pos } = target.transform;
+    const ex = extentX(target.collidable);
+    const ez = extentZ(target.collidable);
+    broadphase.insert(target, pos.x - ex, pos.z - ez, pos.x + ex, pos.z + ez);
+  }
+
+  for (const bullet of bullets) {
+    const bulletData = bullet.bullet;
+    const { pos } = bullet.transform;
+    const ex = extentX(bullet.collidable);
+    const ez = extentZ(bullet.collidable);
+    broadphase.query(pos.x - ex, pos.z - ez, pos.x + ex, pos.z + ez, nearby);
+
+    for (const candidate of nearby) {
+      const target = candidate as T;
+      if ((target as SimEntity) === bullet || target.id === bulletData.firedBy) continue;
+      if (!canCollide(bullet.collidable, target.collidable)) continue;
+      if (target.health && target.health.hp <= 0) continue;
+      if (bulletData.hitIds && target.id !== undefined && bulletData.hitIds.includes(target.id)) continue;
+
+      if (!collidersOverlap(pos, bullet.collidable, target.transform.pos, target.collidable)) continue;
+
+      const hpBefore = target.health?.hp ?? 0;
+      const damage = statusDamage(bulletData.damage, target.stats?.defense ?? 0, activeStatusEffects(target.statusEffects));
+      const killed = target.health ? applyDamage(target.health, damage) : false;
+      if (!killed && target.statusEffects && bulletData.effects) {
+        for (const effect of bulletData.effects) applyStatusEffect(target.statusEffects, effect);
+      }
+      const consumed = !bulletData.piercing || !target.health;
+      if (!consumed && target.id !== undefined) (bulletData.hitIds ??= []).push(target.id);
+      onHit(bullet, target, killed, consumed, hpBefore - (target.health?.hp ?? 0));
+      if (consumed) break;
+    }
+  }
+  nearby.length = 0;
+}
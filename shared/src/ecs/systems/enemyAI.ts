@@ -0,0 +1,121 @@
+import { type SimEntity, type With } from "../entity";
+import { type EnemyAIData } from "../components/EnemyAI";
+import { type Random } from "../../math/random";
+import { type Vec3, distanceXZ } from "../../math/vec3";
+import { type BehaviorContext, runBehavior, checkCondition } from "../../ai/behaviors";
+import { type PatternDef } from "../../patterns/definitions";
+import { getPatternDefinition } from "../../data/patterns";
+import { aimAngle } from "../../patterns/patterns";
+import { activeStatusEffects, statusAllowsFiring, statusSpeedFactor } from "../../status/effects";
+
+type AIEntity = With<SimEntity, "enemyAI" | "transform" | "velocity">;
+type TargetEntity = With<SimEntity, "transform">;
+
+/** Called when an enemy attack fires; the caller spawns the projectiles. */
+export type EnemyAttackHandler<E> = (enemy: E, pattern: PatternDef, aimAngle: number, volley: number) => void;
+
+/**
+ * Runs one tick of enemy AI: picks the nearest living target, applies the first
+ * matching state transition, then lets the state's behaviors set the velocity
+ * and its attacks fire through `onAttack`; scripted bosses skip the transitions.
+ * Slowed and paralyzed enemies move slower or not at all, and stunned ones hold
+ * their fire.
+ * Pure simulation: no rendering or networking, so it runs the same headless.
+ */
+export function updateEnemyAI<E extends AIEntity>(
+  enemies: Iterable<E>,
+  targets: Iterable<TargetEntity>,
+  dt: number,
+  random: Random,
+  onAttack?: EnemyAttackHandler<E>
+) {
+  const living: TargetEntity[] = [];
+  for (const target of targets) {
+    if (!target.health || target.health.hp > 0) living.push(target);
+  }
+
+  for (const enemy of enemies) {
+    const ai = enemy.enemyAI;
+    const pos = enemy.transform.pos;
+
+    let target: TargetEntity | null = null;
+    let targetDistance = Infinity;
+    for (const candidate of living) {
+      const d = distanceXZ(pos, candidate.transform.pos);
+      if (d < targetDistance) {
+        target = candidate;
+        targetDistance = d;
+      }
+    }
+    ai.targetId = target?.id ?? null;
+
+    ai.stateTime += dt;
+    const ctx: BehaviorContext = {
+      pos,
+      spawn: ai.spawn,
+      target: target ? target.transform.pos : null,
+      targetDistance,
+      hpFraction: enemy.health ? enemy.health.hp / enemy.health.maxHp : 1,
+      stateTime: ai.stateTime,
+      dt,
+      random,
+    };
+
+    // Boss scripts pick their bosses' states (see updateBossPhases)
+    const transitions = ai.definition.boss ? [] : ai.definition.transitions;
+    for (const transition of transitions) {
+      if (transition.from !== "*" && transition.from !== ai.state) continue;
+      if (transition.to === ai.state) continue;
+      if (transition.when.every((condition) => checkCondition(condition, ctx))) {
+        setAIState(ai, transition.to);
+        ctx.stateTime = 0;
+        break;
+      }
+    }
+
+    runBehaviors(ai, ctx, enemy.velocity.vel);
+    const effects = activeStatusEffects(enemy.statusEffects);
+    const speedFactor = statusSpeedFactor(effects);
+    enemy.velocity.vel.x *= speedFactor;
+    enemy.velocity.vel.z *= speedFactor;
+    if (onAttack && statusAllowsFiring(effects)) runAttacks(enemy, ctx, onAttack);
+  }
+}
+
+/**
+ * Switches state, resetting the state timer and behavior memory.
+ */
+export function setAIState(ai: EnemyAIData, state: string) {
+  ai.state = state;
+  ai.stateTime = 0;
+  ai.memory = {};
+  ai.attacks = {};
+}
+
+function runBehaviors(ai: EnemyAIData, ctx: BehaviorContext, vel: Vec3) {
+  const behaviors = ai.definition.states[ai.state] ?? [];
+  for (let i = 0; i < behaviors.length; i++) {
+    const key = `${ai.state}:${i}`;
+    const memory = (ai.memory[key] ??= { timer: 0, active: false, dirX: 0, dirZ: 0 });
+    if (runBehavior(behaviors[i], ctx, memory, vel)) return;
+  }
+  // Nothing applies: stand still
+  vel.x = 0;
+  vel.z = 0;
+}
+
+function runAttacks<E extends AIEntity>(enemy: E, ctx: BehaviorContext, onAttack: EnemyAttackHandler<E>) {
+  const ai = enemy.enemyAI;
+  const attacks = ai.definition.attacks?.[ai.state] ?? [];
+  for (let i = 0; i < attacks.length; i++) {
+    const attack = attacks[i];
+    const key = `${ai.state}:${i}`;
+    const memory = (ai.attacks[key] ??= { cooldown: attack.initialDelay ?? 0, volley: 0 });
+    memory.cooldown -= ctx.dt;
+    if (memory.cooldown > 0 || !ctx.target || ctx.targetDistance > attack.range) continue;
+
+    const angle = aimAngle(ctx.target.x - ctx.pos.x, ctx.target.z - ctx.pos.z);
+    onAttack(enemy, getPatternDefinition(attack.pattern), angle, memory.volley++);
+    memory.cooldown = attack.cooldown;
+  }
+}
@@ -0,0 +1,21 @@
+import { type SimEntity, type With } from "../entity";
+import { addScaledInPlace } from "../../math/vec3";
+import { type TileMap } from "../../map/tileMap";
+import { moveAndSlide } from "../../map/collision";
+
+/**
+ * Integrates velocity into position: `pos += vel * dt`.
+ * With a `map`, movement on XZ stops at blocking tiles and slides along them.
+ */
+export function integrateMovement(entities: Iterable<With<SimEntity, "transform" | "velocity">>, dt: number, map?: TileMap) {
+  for (const entity of entities) {
+    const pos = entity.transform.pos;
+    const vel = entity.velocity.vel;
+    if (!map) {
+      addScaledInPlace(pos, vel, dt);
+      continue;
+    }
+    moveAndSlide(map, pos, vel.x * dt, vel.z * dt);
+    pos.y += vel.y * dt;
+  }
+}
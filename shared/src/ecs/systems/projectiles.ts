@@ -0,0 +1,111 @@
+import { type SimEntity, type With } from "../entity";
+import { type Vec3, vec3, addScaledInPlace } from "../../math/vec3";
+import { type ProjectileDef } from "../../patterns/definitions";
+import { projectileLifetime, projectilePosition, projectileVelocity } from "../../patterns/paths";
+import { collisionFilter } from "../collisionGroups";
+import { type TileMap } from "../../map/tileMap";
+import { attackDamage } from "../../stats/formulas";
+
+/** Projectiles spawn slightly ahead of the shooter. */
+export const PROJECTILE_SPAWN_OFFSET = 0.5;
+
+/** Who fired a projectile, for per-owner pool budgets. */
+export type ProjectileOwner = "player" | "enemy";
+
+/**
+ * Max live projectiles per owner kind. Enemies get the larger share for bullet-hell
+ * phases, but a separate budget so they can never use up the players' shots.
+ */
+export const PROJECTILE_BUDGETS: Record<ProjectileOwner, number> = {
+  player: 400,
+  enemy: 1600,
+};
+
+/**
+ * Components for a projectile fired by `firedBy` from `shooterPos` at heading `angle`.
+ * Both sides build projectiles with this so they start from the same origin.
+ * `owner` picks the collision group: player shots hit enemies, enemy shots hit players.
+ * With the shooter's `attack` stat the damage is scaled by `attackDamage`; without
+ * it the projectile deals its listed damage.
+ */
+export function createProjectile(
+  def: ProjectileDef,
+  firedBy: number | string,
+  owner: ProjectileOwner,
+  shooterPos: Vec3,
+  angle: number,
+  attack?: number
+): With<SimEntity, "transform" | "velocity" | "collidable" | "bullet"> {
+  const origin = vec3(
+    shooterPos.x + Math.cos(angle) * PROJECTILE_SPAWN_OFFSET,
+    shooterPos.y,
+    shooterPos.z + Math.sin(angle) * PROJECTILE_SPAWN_OFFSET
+  );
+  return {
+    transform: { pos: vec3(origin.x, origin.y, origin.z) },
+    velocity: { vel: projectileVelocity(def, angle, 0, vec3()) },
+    collidable: {
+      halfExtents: vec3(def.size, def.size, def.size),
+      radius: def.size,
+      ...collisionFilter(owner === "player" ? "player-projectile" : "enemy-projectile"),
+    },
+    bullet: {
+      damage: attack === undefined ? def.damage : attackDamage(def.damage, attack),
+      lifespan: projectileLifetime(def),
+      firedBy,
+      motion: { def, origin, angle, age: 0 },
+      piercing: def.piercing,
+      hitIds: def.piercing ? [] : undefined,
+      effects: def.effects,
+    },
+  };
+}
+
+/**
+ * Moves bullets along their paths. Pattern projectiles are placed from their closed-form
+ * path; plain bullets integrate their velocity. Velocity is kept up to date either way,
+ * for networking. Lifespans are left to `tickBulletLifespans`.
+ */
+export function advanceProjectiles(bullets: Iterable<With<SimEntity, "bullet" | "transform" | "velocity">>, dt: number) {
+  for (const entity of bullets) {
+    const motion = entity.bullet.motion;
+    const pos = entity.transform.pos;
+    const vel = entity.velocity.vel;
+    if (!motion) {
+      addScaledInPlace(pos, vel, dt);
+      continue;
+    }
+    motion.age += dt;
+    projectilePosition(motion.def, motion.origin, motion.angle, motion.age, pos);
+    projectileVelocity(motion.def, motion.angle, motion.age, vel);
+  }
+}
+
+/**
+ * Reports bullets that flew into a tile that blocks projectiles (or off the map)
+ * during the last `dt` seconds. The stretch back along the velocity is sampled
+ * every half tile, so fast shots cannot skip over thin walls.
+ * Despawning is left to the caller, as with `tickBulletLifespans`.
+ */
+export function findWallImpacts<E extends With<SimEntity, "bullet" | "transform" | "velocity">>(
+  bullets: Iterable<E>,
+  map: TileMap,
+  dt: number,
+  onImpact: (bullet: E) => void
+) {
+  const maxStep = map.tileSize * 0.5;
+  for (const entity of bullets) {
+    const pos = entity.transform.pos;
+    const vel = entity.velocity.vel;
+    const backX = vel.x * dt;
+    const backZ = vel.z * dt;
+    const steps = Math.ceil(Math.hypot(backX, backZ) / maxStep);
+    for (let i = steps; i >= 0; i--) {
+      const t = i / Math.max(steps, 1);
+      if (map.blocksProjectiles(pos.x - backX * t, pos.z - backZ * t)) {
+        onImpact(entity);
+        break;
+      }
+    }
+  }
+}
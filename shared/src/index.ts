@@ -0,0 +1,93 @@
+// Math
+export * from "./math/vec3";
+export * from "./math/aabb";
+export * from "./math/shapes";
+export * from "./math/spatialHash";
+export * from "./math/random";
+export * from "./math/noise";
+
+// ECS components
+export * from "./ecs/components/Transform";
+export * from "./ecs/components/Velocity";
+export * from "./ecs/components/Health";
+export * from "./ecs/components/Collidable";
+export * from "./ecs/components/Bullet";
+export * from "./ecs/components/Player";
+export * from "./ecs/components/EnemyAI";
+export * from "./ecs/components/Stats";
+export * from "./ecs/components/Mana";
+export * from "./ecs/components/StatusEffects";
+export * from "./ecs/components/BossScript";
+export * from "./ecs/entity";
+export * from "./ecs/pool";
+export * from "./ecs/collisionGroups";
+
+// Simulation systems
+export * from "./ecs/systems/movement";
+export * from "./ecs/systems/bullets";
+export * from "./ecs/systems/collision";
+export * from "./ecs/systems/enemyAI";
+export * from "./ecs/systems/bossPhases";
+export * from "./ecs/systems/projectiles";
+
+// Tile maps
+export * from "./map/definitions";
+export * from "./map/tileMap";
+export * from "./map/collision";
+export * from "./map/arena";
+export * from "./map/realmGenerator";
+export * from "./map/dungeonGenerator";
+
+// Character stats
+export * from "./stats/definitions";
+export * from "./stats/formulas";
+export * from "./stats/experience";
+export * from "./stats/damageTracker";
+
+// Items and loot
+export * from "./items/definitions";
+export * from "./items/inventory";
+export * from "./items/vault";
+export * from "./items/trade";
+export * from "./loot/definitions";
+export * from "./loot/roll";
+
+// Status effects
+export * from "./status/definitions";
+export * from "./status/effects";
+
+// Abilities
+export * from "./abilities/definitions";
+export * from "./abilities/cast";
+
+// AI, bullet patterns and game data
+export * from "./ai/definitions";
+export * from "./ai/behaviors";
+export * from "./boss/definitions";
+export * from "./patterns/definitions";
+export * from "./patterns/paths";
+export * from "./patterns/patterns";
+export * from "./data/enemies";
+export * from "./data/projectiles";
+export * from "./data/patterns";
+export * from "./data/weapons";
+export * from "./data/classes";
+export * from "./data/tiles";
+export * from "./data/biomes";
+export * from "./data/dungeons";
+export * from "./data/maps";
+export * from "./data/items";
+export * from "./data/loot";
+export * from "./data/abilities";
+
+// Networking
+export * from "./net/input";
+export * from "./net/prediction";
+export * from "./net/interpolation";
+export * from "./net/rooms";
+export * from "./net/events";
+export * from "./net/loot";
+export * from "./net/abilities";
+export * from "./net/accounts";
+export * from "./net/vault";
+export * from "./net/trade";
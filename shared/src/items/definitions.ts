@@ -0,0 +1,24 @@
+import { type StatBlock } from "../stats/definitions";
+
+/** Where an item goes when equipped; consumables are used up instead. */
+export type ItemSlot = "weapon" | "ability" | "armor" | "ring" | "consumable";
+
+/**
+ * A kind of item. Bags and inventories hold items by id; all items of a kind
+ * are alike.
+ */
+export type ItemDef = {
+  id: string;
+  name: string;
+  slot: ItemSlot;
+  /** Higher tiers are rarer and stronger, and drop in better loot bags. */
+  tier: number;
+  /** WeaponDef fired while equipped, for weapons. */
+  weapon?: string;
+  /** AbilityDef cast while equipped, for ability items. */
+  ability?: string;
+  /** Added to the character's stats while equipped. */
+  stats?: Partial<StatBlock>;
+  /** HP restored when used, for consumables. */
+  heal?: number;
+};
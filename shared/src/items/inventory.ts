@@ -0,0 +1,80 @@
+import { STAT_NAMES, type StatBlock } from "../stats/definitions";
+import { type ItemSlot } from "./definitions";
+import { getItemDefinition } from "../data/items";
+
+/** Equipment slots, in the order they come first in an inventory. */
+export const EQUIPMENT_SLOTS = ["weapon", "ability", "armor", "ring"] as const satisfies readonly ItemSlot[];
+export type EquipmentSlot = (typeof EQUIPMENT_SLOTS)[number];
+/** Slots in a character's backpack, after the equipment slots. */
+export const BACKPACK_SIZE = 8;
+export const INVENTORY_SIZE = EQUIPMENT_SLOTS.length + BACKPACK_SIZE;
+
+/**
+ * ItemDef ids per inventory slot: the EQUIPMENT_SLOTS first, then the backpack.
+ * Empty slots hold null (or "" when read from synced state).
+ */
+export type Inventory = (string | null)[];
+
+/** Inventory with nothing in it. */
+export function emptyInventory(): Inventory {
+  return new Array<string | null>(INVENTORY_SIZE).fill(null);
+}
+
+/** Index of an equipment slot in an inventory. */
+export function equipmentIndex(slot: EquipmentSlot): number {
+  return EQUIPMENT_SLOTS.indexOf(slot);
+}
+
+/** Whether inventory slot `index` may hold `item`: equipment slots take their kind of item, the backpack anything. */
+export function canHold(index: number, item: string | null): boolean {
+  if (!Number.isInteger(index) || index < 0 || index >= INVENTORY_SIZE) return false;
+  if (!item || index >= EQUIPMENT_SLOTS.length) return true;
+  return getItemDefinition(item).slot === EQUIPMENT_SLOTS[index];
+}
+
+/**
+ * Moves the item in slot `from` to slot `to`, swapping with whatever is there.
+ * Returns false and leaves the inventory alone if the slots are out of range,
+ * `from` is empty, or either item would end up in a slot that cannot hold it.
+ */
+export function moveItem(inventory: Inventory, from: number, to: number): boolean {
+  if (!canHold(from, null) || !canHold(to, null) || from === to) return false;
+  const moving = inventory[from];
+  const other = inventory[to];
+  if (!moving || !canHold(to, moving) || !canHold(from, other)) return false;
+  inventory[to] = moving;
+  inventory[from] = other || null;
+  return true;
+}
+
+/** First empty backpack slot, or -1 if the backpack is full. */
+export function freeBackpackSlot(inventory: ArrayLike<string | null>): number {
+  for (let i = EQUIPMENT_SLOTS.length; i < INVENTORY_SIZE; i++) {
+    if (!inventory[i]) return i;
+  }
+  return -1;
+}
+
+/** WeaponDef id of the equipped weapon, or undefined with the weapon slot empty. */
+export function equippedWeapon(inventory: ArrayLike<string | null>): string | undefined {
+  const item = inventory[equipmentIndex("weapon")];
+  return item ? getItemDefinition(item).weapon : undefined;
+}
+
+/** AbilityDef id of the equipped ability item, or undefined with the ability slot empty. */
+export function equippedAbility(inventory: ArrayLike<string | null>): string | undefined {
+  const item = inventory[equipmentIndex("ability")];
+  return item ? getItemDefinition(item).ability : undefined;
+}
+
+/** `base` stats plus the bonuses of every equipped item. Equipment may go past the class caps. */
+export function equipmentStats(base: StatBlock, inventory: ArrayLike<string | null>): StatBlock {
+  const stats = { ...base };
+  for (let i = 0; i < EQUIPMENT_SLOTS.length; i++) {
+    const item = inventory[i];
+    const bonus = item ? getItemDefinition(item).stats : undefined;
+    if (!bonus) continue;
+    for (const stat of STAT_NAMES) stats[stat] += bonus[stat] ?? 0;
+  }
+  return stats;
+}
@@ -0,0 +1,34 @@
+import { EQUIPMENT_SLOTS, INVENTORY_SIZE, freeBackpackSlot, type Inventory } from "./inventory";
+
+/** Backpack slots a player offers in a trade. Equipped items cannot be offered; unequip them first. */
+export type TradeOffer = number[];
+
+/** Whether `offer` names distinct backpack slots of `inventory` that all hold an item. */
+export function isValidOffer(inventory: Inventory, offer: TradeOffer): boolean {
+  return offer.every((slot, i) =>
+    Number.isInteger(slot) && slot >= EQUIPMENT_SLOTS.length && slot < INVENTORY_SIZE && !!inventory[slot] && offer.indexOf(slot) === i);
+}
+
+/**
+ * Swaps the items of two offers: each side's offered items leave its inventory,
+ * and the other side's go into its first empty backpack slots, counting the ones
+ * just left. Returns both new inventories, or null if an offer is invalid or
+ * either side has no room for what it gets. The inventories are not changed.
+ */
+export function tradeOffers(a: Inventory, offerA: TradeOffer, b: Inventory, offerB: TradeOffer): [Inventory, Inventory] | null {
+  if (!isValidOffer(a, offerA) || !isValidOffer(b, offerB)) return null;
+  const nextA = receive(a, offerA, offerB.map((slot) => b[slot]!));
+  const nextB = receive(b, offerB, offerA.map((slot) => a[slot]!));
+  return nextA && nextB ? [nextA, nextB] : null;
+}
+
+function receive(inventory: Inventory, given: TradeOffer, items: string[]): Inventory | null {
+  const next = [...inventory];
+  for (const slot of given) next[slot] = null;
+  for (const item of items) {
+    const slot = freeBackpackSlot(next);
+    if (slot < 0) return null;
+    next[slot] = item;
+  }
+  return next;
+}
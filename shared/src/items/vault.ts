@@ -0,0 +1,43 @@
+import { canHold, INVENTORY_SIZE, type Inventory } from "./inventory";
+
+/** Slots per page of the vault window, and pages per vault. */
+export const VAULT_PAGE_SIZE = 8;
+export const VAULT_PAGES = 3;
+export const VAULT_SIZE = VAULT_PAGE_SIZE * VAULT_PAGES;
+
+/** ItemDef ids per vault slot, null where empty. Vault slots hold any item. */
+export type Vault = (string | null)[];
+
+/** A slot of either the character's inventory or the account's vault. */
+export type ItemLocation = { area: "inventory" | "vault"; index: number };
+
+/** Vault with nothing in it. */
+export function emptyVault(): Vault {
+  return new Array<string | null>(VAULT_SIZE).fill(null);
+}
+
+function isSlot(at: ItemLocation): boolean {
+  const size = at.area === "vault" ? VAULT_SIZE : at.area === "inventory" ? INVENTORY_SIZE : 0;
+  return Number.isInteger(at.index) && at.index >= 0 && at.index < size;
+}
+
+function holds(at: ItemLocation, item: string | null): boolean {
+  return at.area === "vault" || canHold(at.index, item);
+}
+
+/**
+ * Moves the item at `from` to `to`, across the inventory and the vault or within
+ * either, swapping with whatever is there. Returns false and changes nothing if
+ * either slot does not exist, `from` is empty, or either item would end up in
+ * an inventory slot that cannot hold it.
+ */
+export function moveVaultItem(inventory: Inventory, vault: Vault, from: ItemLocation, to: ItemLocation): boolean {
+  if (!isSlot(from) || !isSlot(to) || (from.area === to.area && from.index === to.index)) return false;
+  const areas = { inventory, vault };
+  const moving = areas[from.area][from.index];
+  const other = areas[to.area][to.index];
+  if (!moving || !holds(to, moving) || !holds(from, other)) return false;
+  areas[to.area][to.index] = moving;
+  areas[from.area][from.index] = other || null;
+  return true;
+}
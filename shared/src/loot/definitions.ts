@@ -0,0 +1,38 @@
+/**
+ * One tier of a loot table: when the tier is rolled, one of its items drops,
+ * each equally likely.
+ */
+export type LootTierDef = {
+  /** Relative chance of this tier against the table's other tiers. */
+  weight: number;
+  /** ItemDef ids. */
+  items: string[];
+  /** Drops into a soulbound bag that only players who damaged the enemy can see. */
+  soulbound?: boolean;
+};
+
+/**
+ * What an enemy drops when it dies: every item in `guaranteed`, plus `rolls`
+ * chances to get one item from a tier picked by weight.
+ */
+export type LootTableDef = {
+  id: string;
+  /** Chance of each roll dropping anything, from 0 to 1. */
+  chance: number;
+  /** Times the table is rolled per kill. Default 1. */
+  rolls?: number;
+  tiers: LootTierDef[];
+  /** ItemDef ids dropped on every kill, into the public bag. */
+  guaranteed?: string[];
+};
+
+/**
+ * A kind of loot bag. A bag's kind follows from its best item and whether it is
+ * soulbound, and picks the sprite clients draw it with.
+ */
+export type BagDef = {
+  id: string;
+  /** Lowest item tier the bag is used for. */
+  minTier: number;
+  soulbound?: boolean;
+};
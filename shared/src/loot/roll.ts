@@ -0,0 +1,43 @@
+import { type Random, randomInt, weightedIndex } from "../math/random";
+import { type LootTableDef, type BagDef } from "./definitions";
+import { BAG_DEFINITIONS } from "../data/loot";
+import { getItemDefinition } from "../data/items";
+
+/** Items from one kill, split by the bag they go into. */
+export type LootDrop = {
+  /** Anyone may see and pick these up. */
+  items: string[];
+  /** Only players who damaged the enemy may see and pick these up. */
+  soulbound: string[];
+};
+
+/**
+ * Rolls a loot table once per kill. Pass a seeded `random` for reproducible drops.
+ */
+export function rollLoot(table: LootTableDef, random: Random): LootDrop {
+  const drop: LootDrop = { items: [...(table.guaranteed ?? [])], soulbound: [] };
+  const weights = table.tiers.map((tier) => tier.weight);
+  for (let roll = 0; roll < (table.rolls ?? 1); roll++) {
+    if (random() >= table.chance) continue;
+    const tier = table.tiers[weightedIndex(random, weights)];
+    if (!tier || tier.items.length === 0) continue;
+    const item = tier.items[randomInt(random, 0, tier.items.length - 1)];
+    (tier.soulbound ? drop.soulbound : drop.items).push(item);
+  }
+  return drop;
+}
+
+/**
+ * Kind of bag `items` drop in: the soulbound (or public) bag with the highest
+ * `minTier` their best item reaches.
+ */
+export function bagFor(items: readonly string[], soulbound: boolean): BagDef {
+  const bestTier = Math.max(0, ...items.map((id) => getItemDefinition(id).tier));
+  let best: BagDef | undefined;
+  for (const bag of Object.values(BAG_DEFINITIONS)) {
+    if (!!bag.soulbound !== soulbound || bag.minTier > bestTier) continue;
+    if (!best || bag.minTier > best.minTier) best = bag;
+  }
+  if (!best) throw new Error(`No ${soulbound ? "soulbound" : "public"} bag for item tier ${bestTier}`);
+  return best;
+}
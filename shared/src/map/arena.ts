@@ -0,0 +1,43 @@
+import { type ArenaDef, type MapPoint } from "./definitions";
+import { type TileMap } from "./tileMap";
+
+/** Map object placed on an arena's gates while it is sealed. */
+export const ARENA_GATE = "gate";
+
+/**
+ * Describes the room of tiles at (`col`, `row`) of `width` x `height` as an
+ * arena, with a gate on every tile around it that walkers can enter, such as
+ * where corridors lead in.
+ */
+export function arenaAround(map: TileMap, col: number, row: number, width: number, height: number): ArenaDef {
+  const gates: [number, number][] = [];
+  for (let r = row - 1; r <= row + height; r++) {
+    for (let c = col - 1; c <= col + width; c++) {
+      const onEdge = r === row - 1 || r === row + height || c === col - 1 || c === col + width;
+      if (onEdge && !map.tileBlocksMovement(c, r)) gates.push([c, r]);
+    }
+  }
+  return { col, row, width, height, gates };
+}
+
+/** True if world point `point` lies inside `arena`. */
+export function arenaContains(map: TileMap, arena: ArenaDef, point: MapPoint): boolean {
+  const col = map.tileCol(point.x);
+  const row = map.tileRow(point.z);
+  return col >= arena.col && col < arena.col + arena.width && row >= arena.row && row < arena.row + arena.height;
+}
+
+/** Closes an arena's gates, or opens them again. */
+export function setArenaSealed(map: TileMap, arena: ArenaDef, sealed: boolean) {
+  for (const [col, row] of arena.gates) map.setObject(col, row, sealed ? ARENA_GATE : null);
+}
+
+/**
+ * The middle of the arena tile nearest `point`, for moving someone standing
+ * in a gateway out of the way of the closing gate.
+ */
+export function nearestArenaPoint(map: TileMap, arena: ArenaDef, point: MapPoint): MapPoint {
+  const col = Math.min(Math.max(map.tileCol(point.x), arena.col), arena.col + arena.width - 1);
+  const row = Math.min(Math.max(map.tileRow(point.z), arena.row), arena.row + arena.height - 1);
+  return map.tileCenter(col, row);
+}
@@ -0,0 +1,62 @@
+import { type Vec3 } from "../math/vec3";
+import { type TileMap } from "./tileMap";
+
+/**
+ * Half size of the square footprint walkers collide with walls by. A bit under
+ * half a tile, so players and enemies fit through one-tile gaps.
+ */
+export const MOVEMENT_HALF_SIZE = 0.4;
+
+/** Gap left between a stopped walker and the wall it ran into. */
+const WALL_SKIN = 1e-3;
+
+/**
+ * Moves `pos` by (dx, dz) on the XZ plane, stopping at tiles that block movement.
+ * The two axes are resolved separately, so a diagonal move into a wall keeps the
+ * part along the wall and the walker slides instead of sticking.
+ * Long moves are split into steps of at most half a tile, so nothing tunnels through walls.
+ */
+export function moveAndSlide(map: TileMap, pos: Vec3, dx: number, dz: number, halfSize = MOVEMENT_HALF_SIZE) {
+  const steps = Math.max(1, Math.ceil(Math.max(Math.abs(dx), Math.abs(dz)) / (map.tileSize * 0.5)));
+  const stepX = dx / steps;
+  const stepZ = dz / steps;
+  for (let i = 0; i < steps; i++) {
+    slideX(map, pos, stepX, halfSize);
+    slideZ(map, pos, stepZ, halfSize);
+  }
+}
+
+function slideX(map: TileMap, pos: Vec3, dx: number, halfSize: number) {
+  if (dx === 0) return;
+  const x = pos.x + dx;
+  // Only the column the leading edge moves into can be newly blocked
+  const col = map.tileCol(dx > 0 ? x + halfSize : x - halfSize);
+  const minRow = map.tileRow(pos.z - halfSize);
+  const maxRow = map.tileRow(pos.z + halfSize);
+  for (let row = minRow; row <= maxRow; row++) {
+    if (map.tileBlocksMovement(col, row)) {
+      pos.x = dx > 0
+        ? map.tileMinX(col) - halfSize - WALL_SKIN
+        : map.tileMinX(col + 1) + halfSize + WALL_SKIN;
+      return;
+    }
+  }
+  pos.x = x;
+}
+
+function slideZ(map: TileMap, pos: Vec3, dz: number, halfSize: number) {
+  if (dz === 0) return;
+  const z = pos.z + dz;
+  const row = map.tileRow(dz > 0 ? z + halfSize : z - halfSize);
+  const minCol = map.tileCol(pos.x - halfSize);
+  const maxCol = map.tileCol(pos.x + halfSize);
+  for (let col = minCol; col <= maxCol; col++) {
+    if (map.tileBlocksMovement(col, row)) {
+      pos.z = dz > 0
+        ? map.tileMinZ(row) - halfSize - WALL_SKIN
+        : map.tileMinZ(row + 1) + halfSize + WALL_SKIN;
+      return;
+    }
+  }
+  pos.z = z;
+}
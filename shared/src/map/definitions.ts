@@ -0,0 +1,120 @@
+/**
+ * A ground tile. Every cell of a map has exactly one.
+ */
+export type TileDef = {
+  id: string;
+  /** Cell index in the client's tile sprite sheet. */
+  sprite: number;
+  /** Walkers cannot enter the tile (deep water, lava...). Projectiles still fly over it. */
+  blocksMovement?: boolean;
+};
+
+/**
+ * Something standing on a tile: a wall, a tree, a rock. At most one per cell.
+ */
+export type MapObjectDef = {
+  id: string;
+  /** Cell index in the client's tile sprite sheet. */
+  sprite: number;
+  blocksMovement?: boolean;
+  /** Projectiles that reach the tile are destroyed. */
+  blocksProjectiles?: boolean;
+  /** Drawn as a block this tall instead of a flat decal. */
+  height?: number;
+};
+
+/** What one character of a map's rows stands for. */
+export type MapLegendEntry = { ground: string; object?: string };
+
+/**
+ * A hand-made map as data. Each character of `rows` is one tile, looked up in `legend`.
+ * The first row is the far (+Z) edge of the map and the last row the near (-Z) edge,
+ * so the text reads like a top-down view; columns run along +X.
+ */
+export type MapDefinition = {
+  id: string;
+  /** World units per tile. Default 1. */
+  tileSize?: number;
+  /** World XZ position of the map's -X/-Z corner. Default (0, 0). */
+  origin?: { x: number; z: number };
+  legend: Record<string, MapLegendEntry>;
+  rows: string[];
+  /** Where players enter. Default: the middle of the map. */
+  playerSpawns?: MapPoint[];
+  enemySpawns?: EnemySpawn[];
+  portals?: PortalSpawn[];
+  /** Vault chests, where players reach their account's vault. */
+  vaults?: MapPoint[];
+};
+
+/** A point on the XZ plane, in world units. */
+export type MapPoint = { x: number; z: number };
+
+/** Where a room should place an enemy when it populates a map. */
+export type EnemySpawn = MapPoint & {
+  /** Enemy definition id. */
+  enemy: string;
+  /** Biome or room the spawn belongs to, for debugging and balancing. */
+  region?: string;
+  boss?: boolean;
+};
+
+/**
+ * A room that can be sealed for a boss fight, as a rectangle of tiles: columns
+ * `col`..`col + width - 1`, rows likewise. Sealing puts a gate on each of
+ * `gates`, the open tiles just outside the room, as [col, row].
+ */
+export type ArenaDef = {
+  col: number;
+  row: number;
+  width: number;
+  height: number;
+  gates: [number, number][];
+};
+
+/** A portal standing on a map from the start, such as the Nexus's realm portal. */
+export type PortalSpawn = MapPoint & {
+  /** Name of the room type the portal leads to. */
+  target: string;
+  /** Shown to players next to the portal. */
+  label: string;
+};
+
+/**
+ * One overworld biome. Realms are rings of biomes, harder toward the center:
+ * a tile gets the hardest biome whose `minDifficulty` its difficulty reaches,
+ * where difficulty runs from 0 at the coast to 1 at the center.
+ */
+export type BiomeDef = {
+  id: string;
+  minDifficulty: number;
+  ground: string;
+  /** Objects scattered over the biome, each rolled per tile with its chance. */
+  objects: { object: string; chance: number }[];
+  /** Enemy set the biome's spawn regions pick from. */
+  enemies: string[];
+};
+
+/**
+ * A kind of procedurally generated dungeon: rooms carved out of solid walls,
+ * joined by corridors, with a boss room.
+ */
+export type DungeonDef = {
+  id: string;
+  name: string;
+  /** Size in tiles. */
+  width: number;
+  height: number;
+  /** Rooms besides the entrance and the boss room. */
+  roomCount: number;
+  /** Smallest and largest room side, in tiles. */
+  roomSize: [number, number];
+  bossRoomSize: number;
+  floor: string;
+  wall: string;
+  /** Enemy set for the ordinary rooms. */
+  enemies: string[];
+  /** Fewest and most enemies per ordinary room. */
+  enemiesPerRoom: [number, number];
+  boss: string;
+};
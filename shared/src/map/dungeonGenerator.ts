@@ -0,0 +1,166 @@
+import { type DungeonDef, type EnemySpawn, type MapPoint } from "./definitions";
+import { TileMap, type MapLayout } from "./tileMap";
+import { arenaAround } from "./arena";
+import { type Random, createRandom, randomInt } from "../math/random";
+
+/** A rectangle of tiles: columns `col`..`col + width - 1`, rows likewise. */
+type Room = { col: number; row: number; width: number; height: number };
+
+/** Solid tiles kept between rooms, and between rooms and the map edge. */
+const ROOM_MARGIN = 2;
+/** Placement attempts per room before giving up on it. */
+const PLACEMENT_ATTEMPTS = 50;
+/** Candidate spots tried for the boss room; the one farthest from the entrance wins. */
+const BOSS_ROOM_CANDIDATES = 20;
+/** Corridor width in tiles. */
+const CORRIDOR_WIDTH = 2;
+/** Player spawns around the middle of the entrance room. */
+const ENTRANCE_SPAWN_OFFSETS: [number, number][] = [[0, 0], [-1, 0], [1, 0], [0, -1], [0, 1]];
+
+/**
+ * Generates a room-and-corridor dungeon from `seed`: rooms are carved out of
+ * solid wall and joined by corridors along a spanning tree, so every room can be
+ * reached. The entrance room holds the player spawns and the boss room, placed
+ * as far from it as it fits, holds the boss and is the map's arena. Ordinary
+ * rooms get a few enemies from the dungeon's enemy set.
+ * The same definition and seed always give the same layout.
+ */
+export function generateDungeon(definition: DungeonDef, seed: number): MapLayout {
+  const { width, height } = definition;
+  const random = createRandom(seed);
+  const map = new TileMap({
+    id: definition.id,
+    width,
+    height,
+    fill: definition.floor,
+    origin: { x: -Math.floor(width / 2), z: -Math.floor(height / 2) },
+  });
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) map.setObject(col, row, definition.wall);
+  }
+
+  const [minSize, maxSize] = definition.roomSize;
+  const rooms: Room[] = [];
+  const entrance = tryPlaceRoom(rooms, definition, random, minSize, minSize);
+  if (!entrance) throw new Error(`Dungeon "${definition.id}" is too small for its entrance room`);
+  rooms.push(entrance);
+
+  let boss: Room | undefined;
+  let bossDistance = -1;
+  for (let i = 0; i < BOSS_ROOM_CANDIDATES; i++) {
+    const candidate = tryPlaceRoom(rooms, definition, random, definition.bossRoomSize, definition.bossRoomSize);
+    if (candidate && roomDistance(candidate, entrance) > bossDistance) {
+      boss = candidate;
+      bossDistance = roomDistance(candidate, entrance);
+    }
+  }
+  if (!boss) throw new Error(`Dungeon "${definition.id}" is too small for its boss room`);
+  rooms.push(boss);
+
+  const ordinary: Room[] = [];
+  for (let i = 0; i < definition.roomCount; i++) {
+    const room = tryPlaceRoom(rooms, definition, random, minSize, maxSize);
+    if (!room) break;
+    rooms.push(room);
+    ordinary.push(room);
+  }
+
+  for (const room of rooms) carve(map, room.col, room.row, room.width, room.height);
+  for (const [a, b] of spanningTree(rooms)) carveCorridor(map, roomCenterTile(a), roomCenterTile(b));
+
+  const [entranceCol, entranceRow] = roomCenterTile(entrance);
+  const playerSpawns: MapPoint[] = ENTRANCE_SPAWN_OFFSETS.map(([dc, dr]) => map.tileCenter(entranceCol + dc, entranceRow + dr));
+
+  const enemySpawns: EnemySpawn[] = [];
+  ordinary.forEach((room, index) => {
+    const count = randomInt(random, definition.enemiesPerRoom[0], definition.enemiesPerRoom[1]);
+    for (let i = 0; i < count; i++) {
+      // Keep clear of the walls so enemies do not spawn half inside them
+      const col = room.col + randomInt(random, 1, room.width - 2);
+      const row = room.row + randomInt(random, 1, room.height - 2);
+      const enemy = definition.enemies[randomInt(random, 0, definition.enemies.length - 1)];
+      enemySpawns.push({ ...map.tileCenter(col, row), enemy, region: `room${index + 1}` });
+    }
+  });
+  const [bossCol, bossRow] = roomCenterTile(boss);
+  enemySpawns.push({ ...map.tileCenter(bossCol, bossRow), enemy: definition.boss, region: "boss", boss: true });
+
+  const arenas = [arenaAround(map, boss.col, boss.row, boss.width, boss.height)];
+
+  return { map, playerSpawns, enemySpawns, arenas };
+}
+
+/**
+ * Picks a random spot for a room that keeps its margin from the edges and the
+ * other rooms, or returns undefined if none was found.
+ */
+function tryPlaceRoom(rooms: Room[], definition: DungeonDef, random: Random, minSize: number, maxSize: number): Room | undefined {
+  for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+    const width = randomInt(random, minSize, maxSize);
+    const height = randomInt(random, minSize, maxSize);
+    const maxCol = definition.width - ROOM_MARGIN - width;
+    const maxRow = definition.height - ROOM_MARGIN - height;
+    if (maxCol < ROOM_MARGIN || maxRow < ROOM_MARGIN) return undefined;
+
+    const room = { col: randomInt(random, ROOM_MARGIN, maxCol), row: randomInt(random, ROOM_MARGIN, maxRow), width, height };
+    if (!rooms.some((other) => roomsTooClose(room, other))) return room;
+  }
+  return undefined;
+}
+
+function roomsTooClose(a: Room, b: Room): boolean {
+  return (
+    a.col < b.col + b.width + ROOM_MARGIN && b.col < a.col + a.width + ROOM_MARGIN &&
+    a.row < b.row + b.height + ROOM_MARGIN && b.row < a.row + a.height + ROOM_MARGIN
+  );
+}
+
+function roomCenterTile(room: Room): [number, number] {
+  return [room.col + Math.floor(room.width / 2), room.row + Math.floor(room.height / 2)];
+}
+
+function roomDistance(a: Room, b: Room): number {
+  const [ac, ar] = roomCenterTile(a);
+  const [bc, br] = roomCenterTile(b);
+  return Math.hypot(ac - bc, ar - br);
+}
+
+/**
+ * Minimum spanning tree over room centers (Prim's algorithm), as pairs of rooms
+ * to join with corridors.
+ */
+function spanningTree(rooms: Room[]): [Room, Room][] {
+  const edges: [Room, Room][] = [];
+  const connected = [rooms[0]];
+  const remaining = rooms.slice(1);
+  while (remaining.length > 0) {
+    let best: [Room, number] | undefined;
+    let bestDistance = Infinity;
+    for (const from of connected) {
+      remaining.forEach((to, index) => {
+        const distance = roomDistance(from, to);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = [from, index];
+        }
+      });
+    }
+    const [from, index] = best!;
+    const [to] = remaining.splice(index, 1);
+    connected.push(to);
+    edges.push([from, to]);
+  }
+  return edges;
+}
+
+/** L-shaped corridor: along X from `a`, then along Z to `b`. */
+function carveCorridor(map: TileMap, [aCol, aRow]: [number, number], [bCol, bRow]: [number, number]) {
+  carve(map, Math.min(aCol, bCol), aRow, Math.abs(bCol - aCol) + CORRIDOR_WIDTH, CORRIDOR_WIDTH);
+  carve(map, bCol, Math.min(aRow, bRow), CORRIDOR_WIDTH, Math.abs(bRow - aRow) + CORRIDOR_WIDTH);
+}
+
+function carve(map: TileMap, col: number, row: number, width: number, height: number) {
+  for (let r = row; r < row + height; r++) {
+    for (let c = col; c < col + width; c++) map.setObject(c, r, null);
+  }
+}
@@ -0,0 +1,127 @@
+import { type BiomeDef, type EnemySpawn, type MapPoint } from "./definitions";
+import { TileMap, type MapLayout } from "./tileMap";
+import { type Random, createRandom, randomInt } from "../math/random";
+import { createValueNoise } from "../math/noise";
+import { BIOME_DEFINITIONS } from "../data/biomes";
+
+export type RealmOptions = {
+  /** Map id. Default "realm". */
+  id?: string;
+  /** Side of the square realm in tiles. Default 128. */
+  size?: number;
+  /** Biomes to use. Default: all of BIOME_DEFINITIONS. */
+  biomes?: BiomeDef[];
+};
+
+const DEFAULT_REALM_SIZE = 128;
+/** Fraction of the half-size covered by land; the rest is sea. */
+const ISLAND_RADIUS = 0.85;
+/** How far the noise pushes the coastline and biome borders in or out. */
+const COAST_ROUGHNESS = 0.25;
+/** Players arrive on the beach at this many points around the island. */
+const PLAYER_SPAWN_COUNT = 4;
+/** Tiles around a player spawn kept free of objects and enemies. */
+const PLAYER_SPAWN_CLEARING = 2;
+const SAFE_RADIUS = 12;
+/** Enemy spawn regions are scattered one per cell of a grid this many tiles wide. */
+const ENEMY_SPAWN_SPACING = 8;
+/** The realm boss stands at the center of the island. */
+const REALM_BOSS = "bull";
+
+/**
+ * Generates an island realm from `seed`: sea around the edge, then rings of biomes
+ * that get harder toward the center, with ragged borders from value noise.
+ * Players spawn on the beach; enemy spawns are scattered over the land, each
+ * picking from its biome's enemy set, with the realm boss in the middle.
+ * The same seed and options always give the same layout.
+ */
+export function generateRealm(seed: number, options: RealmOptions = {}): MapLayout {
+  const size = options.size ?? DEFAULT_REALM_SIZE;
+  const half = size / 2;
+  const biomes = [...(options.biomes ?? Object.values(BIOME_DEFINITIONS))]
+    .sort((a, b) => b.minDifficulty - a.minDifficulty);
+  const random = createRandom(seed);
+  const noise = createValueNoise(random, size / 8);
+  const map = new TileMap({ id: options.id ?? "realm", width: size, height: size, fill: "water", origin: { x: -half, z: -half } });
+
+  // Biome per tile, or undefined for sea
+  const tileBiomes: (BiomeDef | undefined)[] = new Array(size * size);
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const radius = Math.hypot(col + 0.5 - half, row + 0.5 - half) / half;
+      const distorted = radius + (noise(col, row) - 0.5) * COAST_ROUGHNESS;
+      if (distorted >= ISLAND_RADIUS) continue;
+
+      const difficulty = 1 - distorted / ISLAND_RADIUS;
+      const biome = biomes.find((b) => difficulty >= b.minDifficulty) ?? biomes[biomes.length - 1];
+      tileBiomes[row * size + col] = biome;
+      map.setGround(col, row, biome.ground);
+      for (const { object, chance } of biome.objects) {
+        if (random() < chance) {
+          map.setObject(col, row, object);
+          break;
+        }
+      }
+    }
+  }
+
+  const playerSpawns = placePlayerSpawns(map, tileBiomes, random);
+  const enemySpawns: EnemySpawn[] = [];
+  for (let cellRow = 0; cellRow < size; cellRow += ENEMY_SPAWN_SPACING) {
+    for (let cellCol = 0; cellCol < size; cellCol += ENEMY_SPAWN_SPACING) {
+      const col = cellCol + randomInt(random, 0, ENEMY_SPAWN_SPACING - 1);
+      const row = cellRow + randomInt(random, 0, ENEMY_SPAWN_SPACING - 1);
+      const biome = tileBiomes[row * size + col];
+      const pick = random();
+      if (!biome || biome.enemies.length === 0 || map.tileBlocksMovement(col, row)) continue;
+
+      const point = map.tileCenter(col, row);
+      if (playerSpawns.some((spawn) => Math.hypot(spawn.x - point.x, spawn.z - point.z) < SAFE_RADIUS)) continue;
+      enemySpawns.push({ ...point, enemy: biome.enemies[Math.floor(pick * biome.enemies.length)], region: biome.id });
+    }
+  }
+
+  const center = Math.floor(half);
+  map.setObject(center, center, null);
+  enemySpawns.push({ ...map.tileCenter(center, center), enemy: REALM_BOSS, region: tileBiomes[center * size + center]?.id, boss: true });
+
+  return { map, playerSpawns, enemySpawns };
+}
+
+/**
+ * Walks in from the sea at evenly spread angles until reaching land, and clears
+ * a patch of objects around each landing point.
+ */
+function placePlayerSpawns(map: TileMap, tileBiomes: (BiomeDef | undefined)[], random: Random): MapPoint[] {
+  const half = map.width / 2;
+  const startAngle = random() * Math.PI * 2;
+  const spawns: MapPoint[] = [];
+  for (let i = 0; i < PLAYER_SPAWN_COUNT; i++) {
+    const angle = startAngle + (i / PLAYER_SPAWN_COUNT) * Math.PI * 2;
+    for (let distance = half - 1; distance > 0; distance--) {
+      const col = Math.floor(half + Math.cos(angle) * distance);
+      const row = Math.floor(half + Math.sin(angle) * distance);
+      if (!tileBiomes[row * map.width + col]) continue;
+      // Step a few tiles past the waterline when that is still land, so the spawn is not on the very edge
+      let landCol = Math.floor(half + Math.cos(angle) * (distance - PLAYER_SPAWN_CLEARING));
+      let landRow = Math.floor(half + Math.sin(angle) * (distance - PLAYER_SPAWN_CLEARING));
+      if (!tileBiomes[landRow * map.width + landCol]) {
+        landCol = col;
+        landRow = row;
+      }
+      clearObjects(map, landCol, landRow, PLAYER_SPAWN_CLEARING);
+      spawns.push(map.tileCenter(landCol, landRow));
+      break;
+    }
+  }
+  if (spawns.length === 0) spawns.push(map.tileCenter(Math.floor(half), Math.floor(half)));
+  return spawns;
+}
+
+function clearObjects(map: TileMap, col: number, row: number, radius: number) {
+  for (let r = row - radius; r <= row + radius; r++) {
+    for (let c = col - radius; c <= col + radius; c++) {
+      if (map.inBounds(c, r)) map.setObject(c, r, null);
+    }
+  }
+}
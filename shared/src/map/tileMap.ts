@@ -0,0 +1,202 @@
+import {
+  type TileDef,
+  type MapObjectDef,
+  type MapDefinition,
+  type MapLegendEntry,
+  type MapPoint,
+  type EnemySpawn,
+  type PortalSpawn,
+  type ArenaDef,
+} from "./definitions";
+import { getTileDefinition, getMapObjectDefinition } from "../data/tiles";
+
+export type TileMapOptions = {
+  id: string;
+  width: number;
+  height: number;
+  /** Ground tile every cell starts with. */
+  fill: string;
+  /** World units per tile. Default 1. */
+  tileSize?: number;
+  /** World XZ position of the -X/-Z corner. Default (0, 0). */
+  origin?: { x: number; z: number };
+};
+
+/**
+ * A loaded map plus where rooms put players and enemies on it.
+ */
+export type MapLayout = {
+  map: TileMap;
+  /** At least one; players join and respawn at these. */
+  playerSpawns: MapPoint[];
+  enemySpawns: EnemySpawn[];
+  /** Portals placed with the map; rooms may open more as the game goes on. */
+  portals?: PortalSpawn[];
+  /** Vault chests placed with the map. */
+  vaults?: MapPoint[];
+  /** Rooms boss fights can seal. */
+  arenas?: ArenaDef[];
+};
+
+/**
+ * A grid of ground tiles with optional objects on top, laid out on the XZ plane.
+ * Cell (col, row) covers X from `originX + col * tileSize` and Z from
+ * `originZ + row * tileSize`, one tile wide. Everything outside the grid blocks
+ * both movement and projectiles.
+ */
+export class TileMap {
+  readonly id: string;
+  readonly width: number;
+  readonly height: number;
+  readonly tileSize: number;
+  readonly originX: number;
+  readonly originZ: number;
+  private ground: TileDef[];
+  private objects: (MapObjectDef | undefined)[];
+
+  constructor(options: TileMapOptions) {
+    this.id = options.id;
+    this.width = options.width;
+    this.height = options.height;
+    this.tileSize = options.tileSize ?? 1;
+    this.originX = options.origin?.x ?? 0;
+    this.originZ = options.origin?.z ?? 0;
+    this.ground = new Array(this.width * this.height).fill(getTileDefinition(options.fill));
+    this.objects = new Array(this.width * this.height).fill(undefined);
+  }
+
+  inBounds(col: number, row: number): boolean {
+    return col >= 0 && row >= 0 && col < this.width && row < this.height;
+  }
+
+  /** Column of the tile containing world X. May be out of bounds. */
+  tileCol(x: number): number {
+    return Math.floor((x - this.originX) / this.tileSize);
+  }
+
+  /** Row of the tile containing world Z. May be out of bounds. */
+  tileRow(z: number): number {
+    return Math.floor((z - this.originZ) / this.tileSize);
+  }
+
+  /** World X of a column's -X edge. */
+  tileMinX(col: number): number {
+    return this.originX + col * this.tileSize;
+  }
+
+  /** World Z of a row's -Z edge. */
+  tileMinZ(row: number): number {
+    return this.originZ + row * this.tileSize;
+  }
+
+  /** World position of the middle of tile (col, row). */
+  tileCenter(col: number, row: number): MapPoint {
+    return { x: this.originX + (col + 0.5) * this.tileSize, z: this.originZ + (row + 0.5) * this.tileSize };
+  }
+
+  getGround(col: number, row: number): TileDef | undefined {
+    return this.inBounds(col, row) ? this.ground[row * this.width + col] : undefined;
+  }
+
+  getObject(col: number, row: number): MapObjectDef | undefined {
+    return this.inBounds(col, row) ? this.objects[row * this.width + col] : undefined;
+  }
+
+  setGround(col: number, row: number, tile: string) {
+    if (!this.inBounds(col, row)) throw new Error(`Tile (${col}, ${row}) is outside map "${this.id}"`);
+    this.ground[row * this.width + col] = getTileDefinition(tile);
+  }
+
+  /** Places an object on a tile, or clears it with null. */
+  setObject(col: number, row: number, object: string | null) {
+    if (!this.inBounds(col, row)) throw new Error(`Tile (${col}, ${row}) is outside map "${this.id}"`);
+    this.objects[row * this.width + col] = object === null ? undefined : getMapObjectDefinition(object);
+  }
+
+  /** True if walkers cannot enter tile (col, row). */
+  tileBlocksMovement(col: number, row: number): boolean {
+    if (!this.inBounds(col, row)) return true;
+    const index = row * this.width + col;
+    return !!(this.ground[index].blocksMovement || this.objects[index]?.blocksMovement);
+  }
+
+  /** True if projectiles are destroyed on tile (col, row). */
+  tileBlocksProjectiles(col: number, row: number): boolean {
+    if (!this.inBounds(col, row)) return true;
+    return !!this.objects[row * this.width + col]?.blocksProjectiles;
+  }
+
+  /** True if the world point (x, z) lies on a tile walkers cannot enter. */
+  blocksMovement(x: number, z: number): boolean {
+    return this.tileBlocksMovement(this.tileCol(x), this.tileRow(z));
+  }
+
+  /** True if a projectile at world point (x, z) hits a wall. */
+  blocksProjectiles(x: number, z: number): boolean {
+    return this.tileBlocksProjectiles(this.tileCol(x), this.tileRow(z));
+  }
+}
+
+/**
+ * Builds a TileMap from a hand-made map definition, throwing on unknown characters
+ * or rows of different lengths.
+ */
+export function parseMap(definition: MapDefinition): TileMap {
+  const { rows, legend } = definition;
+  const width = rows[0]?.length ?? 0;
+  if (width === 0) throw new Error(`Map "${definition.id}" is empty`);
+
+  const map = new TileMap({
+    id: definition.id,
+    width,
+    height: rows.length,
+    fill: legend[rows[0][0]]?.ground ?? "",
+    tileSize: definition.tileSize,
+    origin: definition.origin,
+  });
+  rows.forEach((line, lineIndex) => {
+    if (line.length !== width) {
+      throw new Error(`Map "${definition.id}" line ${lineIndex} is ${line.length} tiles wide, expected ${width}`);
+    }
+    // The first line is the +Z edge
+    const row = rows.length - 1 - lineIndex;
+    for (let col = 0; col < width; col++) {
+      const entry = legend[line[col]];
+      if (!entry) throw new Error(`Map "${definition.id}" uses "${line[col]}" at line ${lineIndex}, which is not in its legend`);
+      map.setGround(col, row, entry.ground);
+      if (entry.object) map.setObject(col, row, entry.object);
+    }
+  });
+  return map;
+}
+
+/**
+ * Writes a map back out as text rows (the `MapDefinition` layout, +Z edge first),
+ * for snapshots and debugging. Cells with no exact legend entry fall back to the
+ * entry for their object, then for their ground, then to "?".
+ */
+export function formatMap(map: TileMap, legend: Record<string, MapLegendEntry>): string[] {
+  const exact = new Map<string, string>();
+  const byObject = new Map<string, string>();
+  const byGround = new Map<string, string>();
+  for (const [char, entry] of Object.entries(legend)) {
+    const key = `${entry.ground}/${entry.object ?? ""}`;
+    if (!exact.has(key)) exact.set(key, char);
+    if (entry.object && !byObject.has(entry.object)) byObject.set(entry.object, char);
+    if (!entry.object && !byGround.has(entry.ground)) byGround.set(entry.ground, char);
+  }
+
+  const rows: string[] = [];
+  for (let row = map.height - 1; row >= 0; row--) {
+    let line = "";
+    for (let col = 0; col < map.width; col++) {
+      const ground = map.getGround(col, row)!.id;
+      const object = map.getObject(col, row)?.id;
+      line += exact.get(`${ground}/${object ?? ""}`)
+        ?? (object ? byObject.get(object) : byGround.get(ground))
+        ?? "?";
+    }
+    rows.push(line);
+  }
+  return rows;
+}
@@ -0,0 +1,35 @@
+import { type Vec3 } from "./vec3";
+
+/**
+ * Axis-aligned bounding box in world space.
+ */
+export type AABB = { min: Vec3; max: Vec3 };
+
+/**
+ * Builds the box centered on `center` with the given half size on each axis.
+ */
+export function aabbFromCenter(center: Vec3, halfExtents: Vec3): AABB {
+  return {
+    min: { x: center.x - halfExtents.x, y: center.y - halfExtents.y, z: center.z - halfExtents.z },
+    max: { x: center.x + halfExtents.x, y: center.y + halfExtents.y, z: center.z + halfExtents.z },
+  };
+}
+
+export function aabbIntersects(a: AABB, b: AABB): boolean {
+  return (
+    a.min.x <= b.max.x && a.max.x >= b.min.x &&
+    a.min.y <= b.max.y && a.max.y >= b.min.y &&
+    a.min.z <= b.max.z && a.max.z >= b.min.z
+  );
+}
+
+/**
+ * Overlap test for two centered boxes, without allocating AABBs.
+ */
+export function centeredBoxesOverlap(aPos: Vec3, aHalf: Vec3, bPos: Vec3, bHalf: Vec3): boolean {
+  return (
+    Math.abs(aPos.x - bPos.x) <= aHalf.x + bHalf.x &&
+    Math.abs(aPos.y - bPos.y) <= aHalf.y + bHalf.y &&
+    Math.abs(aPos.z - bPos.z) <= aHalf.z + bHalf.z
+  );
+}
@@ -0,0 +1,38 @@
+import { type Random } from "./random";
+
+/** Lattice values per noise instance; coordinates wrap around this many cells. */
+const LATTICE_SIZE = 256;
+
+/**
+ * Smooth 2D value noise in [0, 1): random values on a lattice `cellSize` apart,
+ * blended with smoothstep. Draws its lattice from `random` up front, so the
+ * same seed always gives the same field.
+ */
+export function createValueNoise(random: Random, cellSize: number): (x: number, y: number) => number {
+  const values = new Float64Array(LATTICE_SIZE);
+  const permutation = new Uint8Array(LATTICE_SIZE);
+  for (let i = 0; i < LATTICE_SIZE; i++) {
+    values[i] = random();
+    permutation[i] = i;
+  }
+  for (let i = LATTICE_SIZE - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+  }
+
+  const lattice = (ix: number, iy: number) =>
+    values[permutation[(permutation[ix & (LATTICE_SIZE - 1)] + iy) & (LATTICE_SIZE - 1)]];
+  const smooth = (t: number) => t * t * (3 - 2 * t);
+
+  return (x, y) => {
+    const fx = x / cellSize;
+    const fy = y / cellSize;
+    const ix = Math.floor(fx);
+    const iy = Math.floor(fy);
+    const tx = smooth(fx - ix);
+    const ty = smooth(fy - iy);
+    const top = lattice(ix, iy) + (lattice(ix + 1, iy) - lattice(ix, iy)) * tx;
+    const bottom = lattice(ix, iy + 1) + (lattice(ix + 1, iy + 1) - lattice(ix, iy + 1)) * tx;
+    return top + (bottom - top) * ty;
+  };
+}
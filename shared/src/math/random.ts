@@ -0,0 +1,51 @@
+/**
+ * A source of uniformly distributed numbers in [0, 1), like `Math.random`.
+ * Simulation code takes one of these instead of calling `Math.random` so that
+ * seeded runs are reproducible.
+ */
+export type Random = () => number;
+
+/**
+ * Seeded PRNG (mulberry32). Fast, 32-bit state, good enough for gameplay.
+ */
+export function createRandom(seed: number): Random {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Uniform float in [min, max). */
+export function randomRange(random: Random, min: number, max: number): number {
+  return min + random() * (max - min);
+}
+
+/** Uniform integer in [min, max]. */
+export function randomInt(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * Index into `weights` picked with probability proportional to its weight,
+ * or -1 if no weight is positive.
+ */
+export function weightedIndex(random: Random, weights: readonly number[]): number {
+  let total = 0;
+  for (const weight of weights) total += Math.max(0, weight);
+  if (total <= 0) return -1;
+  let roll = random() * total;
+  let last = -1;
+  for (let i = 0; i < weights.length; i++) {
+    const weight = Math.max(0, weights[i]);
+    if (weight <= 0) continue;
+    if (roll < weight) return i;
+    roll -= weight;
+    last = i;
+  }
+  // Rounding can leave the roll just past the end
+  return last;
+}
@@ -0,0 +1,21 @@
+import { type Vec3 } from "./vec3";
+
+/**
+ * Overlap test for two circles on the XZ plane.
+ */
+export function circlesOverlapXZ(aPos: Vec3, aRadius: number, bPos: Vec3, bRadius: number): boolean {
+  const dx = aPos.x - bPos.x;
+  const dz = aPos.z - bPos.z;
+  const r = aRadius + bRadius;
+  return dx * dx + dz * dz <= r * r;
+}
+
+/**
+ * Overlap test for a circle and a centered box on the XZ plane (the box's Y extent is ignored).
+ */
+export function circleBoxOverlapXZ(circlePos: Vec3, radius: number, boxPos: Vec3, boxHalf: Vec3): boolean {
+  // Distance from the circle center to the closest point of the box
+  const dx = Math.max(Math.abs(circlePos.x - boxPos.x) - boxHalf.x, 0);
+  const dz = Math.max(Math.abs(circlePos.z - boxPos.z) - boxHalf.z, 0);
+  return dx * dx + dz * dz <= radius * radius;
+}
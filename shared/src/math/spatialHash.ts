@@ -0,0 +1,81 @@
+/**
+ * Uniform grid on the XZ plane for broad-phase collision. Items are inserted with
+ * their bounds and land in every cell they touch; queries return each item once.
+ * Meant to be cleared and refilled every tick: cell arrays are reused, so a
+ * rebuild allocates nothing once the grid has warmed up.
+ */
+export class SpatialHash<T> {
+  readonly cellSize: number;
+  private cells = new Map<number, T[]>();
+  /** Cells holding items since the last clear. */
+  private used: T[][] = [];
+  private seen = new Set<T>();
+
+  constructor(cellSize = 2) {
+    this.cellSize = cellSize;
+  }
+
+  /** Removes every item, keeping the cell storage for reuse. */
+  clear() {
+    for (const cell of this.used) cell.length = 0;
+    this.used.length = 0;
+  }
+
+  /** Adds `item` to every cell overlapping the given XZ bounds. */
+  insert(item: T, minX: number, minZ: number, maxX: number, maxZ: number) {
+    const x0 = this.cellOf(minX);
+    const x1 = this.cellOf(maxX);
+    const z0 = this.cellOf(minZ);
+    const z1 = this.cellOf(maxZ);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cz = z0; cz <= z1; cz++) {
+        const key = cellKey(cx, cz);
+        let cell = this.cells.get(key);
+        if (!cell) {
+          cell = [];
+          this.cells.set(key, cell);
+        }
+        if (cell.length === 0) this.used.push(cell);
+        cell.push(item);
+      }
+    }
+  }
+
+  /**
+   * Collects the items in cells overlapping the given XZ bounds into `out` (which is
+   * cleared first). Candidates only: the caller still runs the exact test.
+   */
+  query(minX: number, minZ: number, maxX: number, maxZ: number, out: T[] = []): T[] {
+    out.length = 0;
+    this.seen.clear();
+    const x0 = this.cellOf(minX);
+    const x1 = this.cellOf(maxX);
+    const z0 = this.cellOf(minZ);
+    const z1 = this.cellOf(maxZ);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cz = z0; cz <= z1; cz++) {
+        const cell = this.cells.get(cellKey(cx, cz));
+        if (!cell) continue;
+        for (const item of cell) {
+          if (this.seen.has(item)) continue;
+          this.seen.add(item);
+          out.push(item);
+        }
+      }
+    }
+    return out;
+  }
+
+  private cellOf(v: number): number {
+    return Math.floor(v / this.cellSize);
+  }
+}
+
+/**
+ * Packs cell coordinates into one number. Exact within ±2^20 cells per axis,
+ * which is far beyond any map; further out, distant cells share a bucket, which
+ * only adds candidates.
+ */
+function cellKey(cx: number, cz: number): number {
+  return (cx & 0x1fffff) * 0x200000 + (cz & 0x1fffff);
+}
@@ -0,0 +1,65 @@
+/**
+ * Plain-object 3D vector. The simulation runs on the XZ plane with Y up,
+ * matching the Babylon scene on the client, but has no engine dependency.
+ */
+export type Vec3 = { x: number; y: number; z: number };
+
+export function vec3(x = 0, y = 0, z = 0): Vec3 {
+  return { x, y, z };
+}
+
+export function cloneVec3(v: Vec3): Vec3 {
+  return { x: v.x, y: v.y, z: v.z };
+}
+
+export function copyVec3(out: Vec3, v: Vec3): Vec3 {
+  out.x = v.x;
+  out.y = v.y;
+  out.z = v.z;
+  return out;
+}
+
+export function addVec3(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+export function subVec3(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+export function scaleVec3(v: Vec3, s: number): Vec3 {
+  return { x: v.x * s, y: v.y * s, z: v.z * s };
+}
+
+/** `out += v * s`, the building block for integration. */
+export function addScaledInPlace(out: Vec3, v: Vec3, s: number): Vec3 {
+  out.x += v.x * s;
+  out.y += v.y * s;
+  out.z += v.z * s;
+  return out;
+}
+
+export function lengthXZ(v: Vec3): number {
+  return Math.hypot(v.x, v.z);
+}
+
+export function distanceXZ(a: Vec3, b: Vec3): number {
+  return Math.hypot(a.x - b.x, a.z - b.z);
+}
+
+/**
+ * Normalizes the XZ part of a vector in place (Y is zeroed).
+ * Returns false if the vector is too short to have a meaningful direction.
+ */
+export function normalizeXZInPlace(v: Vec3): boolean {
+  const len = lengthXZ(v);
+  v.y = 0;
+  if (len < 0.0001) {
+    v.x = 0;
+    v.z = 0;
+    return false;
+  }
+  v.x /= len;
+  v.z /= len;
+  return true;
+}
@@ -0,0 +1,2 @@
+/** Message payload for "cast": the ground point the ability is aimed at. */
+export type CastMessage = { x: number; z: number };
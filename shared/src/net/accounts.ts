@@ -0,0 +1,35 @@
+import { type Inventory } from "../items/inventory";
+
+/** Account names: 3 to 16 letters, digits and underscores. */
+export const ACCOUNT_NAME_PATTERN = /^[A-Za-z0-9_]{3,16}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+
+/** Body of POST /auth/register and POST /auth/login. */
+export type CredentialsRequest = { name: string; password: string };
+
+/**
+ * Response to a successful register or login. The token goes in the
+ * Authorization header of the character routes and signs the player into rooms.
+ */
+export type AuthResponse = {
+  token: string;
+  account: { id: string; name: string; fame: number };
+};
+
+/** A living character, as the character select screen lists it. */
+export type CharacterSummary = {
+  id: string;
+  classId: string;
+  level: number;
+  xp: number;
+  inventory: Inventory;
+};
+
+/** Response to GET /characters. */
+export type CharactersResponse = { characters: CharacterSummary[] };
+
+/** Body of POST /characters; the response is the new CharacterSummary. */
+export type CreateCharacterRequest = { classId: string };
+
+/** Join option naming the character to play, by CharacterSummary id. */
+export type JoinOptions = { character?: string };
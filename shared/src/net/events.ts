@@ -0,0 +1,25 @@
+import { type StatBlock } from "../stats/definitions";
+
+/** Message payload for "levelUp", sent to a player whose character gained a level. */
+export type LevelUpMessage = {
+  level: number;
+  /** Stats at the new level. */
+  stats: StatBlock;
+};
+
+/** Message payload for "death", sent to a player whose character died. */
+export type DeathMessage = {
+  /** Level the character died at. */
+  level: number;
+  /** Fame the character earned. */
+  fame: number;
+  /** The player's fame including this death. */
+  totalFame: number;
+};
+
+/** Message payload for "taunt", broadcast when a boss taunts the players. */
+export type TauntMessage = {
+  /** EnemyDefinition id of the boss. */
+  speaker: string;
+  text: string;
+};
@@ -0,0 +1,97 @@
+import { type Vec3 } from "../math/vec3";
+import { type TileMap } from "../map/tileMap";
+import { moveAndSlide } from "../map/collision";
+
+/** Longest frame a single input command may cover; larger values are clamped. */
+export const MAX_INPUT_DT = 0.1;
+
+/** Movement keys held during one client frame. */
+export type MoveKeys = { w: boolean; a: boolean; s: boolean; d: boolean };
+
+/**
+ * One frame of player input, sent to the server and replayed during reconciliation.
+ * Movement is camera-relative, so the camera yaw at the time of the frame travels with it.
+ */
+export type InputCommand = {
+  /** Monotonically increasing per client, starting at 1. */
+  seq: number;
+  keys: MoveKeys;
+  /** Camera yaw in radians; camera forward on XZ is `(sin yaw, 0, cos yaw)`. */
+  yaw: number;
+  /** Frame duration in seconds. */
+  dt: number;
+};
+
+/**
+ * Yaw of a camera placed at `offset` from its target and looking at it.
+ */
+export function yawFromCameraOffset(offset: Vec3): number {
+  return Math.atan2(-offset.x, -offset.z);
+}
+
+/**
+ * Writes the normalized camera-relative XZ move direction for the held keys into `out`.
+ * Returns false (and a zero vector) when the keys cancel out or none are held.
+ */
+export function moveDirectionFromInput(keys: MoveKeys, yaw: number, out: Vec3): boolean {
+  const sin = Math.sin(yaw);
+  const cos = Math.cos(yaw);
+  // forward = (sin, 0, cos), right = (cos, 0, -sin) for a left-handed, Y-up world
+  let x = 0;
+  let z = 0;
+  if (keys.w) { x += sin; z += cos; }
+  if (keys.s) { x -= sin; z -= cos; }
+  if (keys.d) { x += cos; z -= sin; }
+  if (keys.a) { x -= cos; z += sin; }
+
+  const len = Math.hypot(x, z);
+  out.y = 0;
+  if (len < 0.001) {
+    out.x = 0;
+    out.z = 0;
+    return false;
+  }
+  out.x = x / len;
+  out.z = z / len;
+  return true;
+}
+
+const _dir: Vec3 = { x: 0, y: 0, z: 0 };
+
+/**
+ * Moves `pos` by one input command. This is the only movement rule for players,
+ * used by the server, by client prediction, and by reconciliation replay.
+ * With a `map`, the player slides along the walls it runs into.
+ * Returns the move direction (a shared scratch vector; copy it if you keep it).
+ */
+export function applyInputCommand(pos: Vec3, cmd: InputCommand, speed: number, map?: TileMap): Vec3 {
+  const dt = Math.min(Math.max(cmd.dt, 0), MAX_INPUT_DT);
+  if (moveDirectionFromInput(cmd.keys, cmd.yaw, _dir)) {
+    if (map) {
+      moveAndSlide(map, pos, _dir.x * speed * dt, _dir.z * speed * dt);
+    } else {
+      pos.x += _dir.x * speed * dt;
+      pos.z += _dir.z * speed * dt;
+    }
+  }
+  return _dir;
+}
+
+/**
+ * Validates an untrusted "input" message payload. Returns null if it is malformed.
+ */
+export function parseInputCommand(message: unknown): InputCommand | null {
+  if (typeof message !== "object" || message === null) return null;
+  const { seq, keys, yaw, dt } = message as Record<string, unknown>;
+  if (!Number.isInteger(seq) || (seq as number) < 1) return null;
+  if (typeof yaw !== "number" || !Number.isFinite(yaw)) return null;
+  if (typeof dt !== "number" || !Number.isFinite(dt) || dt < 0) return null;
+  if (typeof keys !== "object" || keys === null) return null;
+  const k = keys as Record<string, unknown>;
+  return {
+    seq: seq as number,
+    keys: { w: k.w === true, a: k.a === true, s: k.s === true, d: k.d === true },
+    yaw,
+    dt: Math.min(dt, MAX_INPUT_DT),
+  };
+}
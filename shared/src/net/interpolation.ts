@@ -0,0 +1,144 @@
+import { type Vec3, cloneVec3, copyVec3 } from "../math/vec3";
+
+/** How far behind the estimated server time remote entities are rendered. */
+export const DEFAULT_INTERPOLATION_DELAY_MS = 100;
+/** How far past the newest snapshot an entity may be extrapolated when packets are late. */
+export const DEFAULT_MAX_EXTRAPOLATION_MS = 250;
+
+export type InterpolationConfig = {
+  delayMs: number;
+  maxExtrapolationMs: number;
+};
+
+export const DEFAULT_INTERPOLATION_CONFIG: InterpolationConfig = {
+  delayMs: DEFAULT_INTERPOLATION_DELAY_MS,
+  maxExtrapolationMs: DEFAULT_MAX_EXTRAPOLATION_MS,
+};
+
+/** A position received from the server, stamped with server simulation time (ms). */
+export type Snapshot = { time: number; pos: Vec3 };
+
+/**
+ * What `SnapshotBuffer.sample` did to produce a position.
+ * - `interpolated`: render time was between two snapshots
+ * - `extrapolated`: render time was past the newest snapshot (capped)
+ * - `held`: only one usable snapshot, or render time was before the oldest
+ * - `empty`: nothing buffered, `out` untouched
+ */
+export type SampleMode = "interpolated" | "extrapolated" | "held" | "empty";
+
+/**
+ * Per-entity buffer of server snapshots, sampled at a render time that lags behind
+ * the server so there is (usually) a snapshot on each side to interpolate between.
+ */
+export class SnapshotBuffer {
+  private snapshots: Snapshot[] = [];
+  /** Most recent snapshot discarded by `sample`, kept to estimate velocity. */
+  private previous: Snapshot | undefined;
+  private maxSize: number;
+
+  constructor(maxSize = 32) {
+    this.maxSize = maxSize;
+  }
+
+  /** Number of buffered snapshots. */
+  get depth(): number {
+    return this.snapshots.length;
+  }
+
+  /** Server time of the newest snapshot, or -Infinity if empty. */
+  get newestTime(): number {
+    return this.snapshots.length > 0 ? this.snapshots[this.snapshots.length - 1].time : -Infinity;
+  }
+
+  /**
+   * Adds a snapshot. Snapshots that are not newer than the newest one are dropped,
+   * so duplicates and reordered packets are harmless.
+   */
+  push(time: number, pos: Vec3): boolean {
+    if (time <= this.newestTime) return false;
+    this.snapshots.push({ time, pos: cloneVec3(pos) });
+    if (this.snapshots.length > this.maxSize) this.previous = this.snapshots.shift();
+    return true;
+  }
+
+  /**
+   * Writes the position at `renderTime` (server ms) into `out`.
+   * Snapshots older than the pair bracketing `renderTime` are discarded.
+   */
+  sample(renderTime: number, maxExtrapolationMs: number, out: Vec3): SampleMode {
+    const snaps = this.snapshots;
+    if (snaps.length === 0) return "empty";
+
+    // Keep exactly one snapshot at or before renderTime
+    while (snaps.length >= 2 && snaps[1].time <= renderTime) this.previous = snaps.shift();
+
+    const from = snaps[0];
+    if (renderTime <= from.time) {
+      copyVec3(out, from.pos);
+      return "held";
+    }
+
+    if (snaps.length >= 2) {
+      const to = snaps[1];
+      const t = (renderTime - from.time) / (to.time - from.time);
+      out.x = from.pos.x + (to.pos.x - from.pos.x) * t;
+      out.y = from.pos.y + (to.pos.y - from.pos.y) * t;
+      out.z = from.pos.z + (to.pos.z - from.pos.z) * t;
+      return "interpolated";
+    }
+
+    // Past the newest snapshot: continue along the last known velocity, but only so far
+    const prev = this.previous;
+    if (!prev || maxExtrapolationMs <= 0) {
+      copyVec3(out, from.pos);
+      return "held";
+    }
+    const ahead = Math.min(renderTime - from.time, maxExtrapolationMs);
+    const span = from.time - prev.time;
+    out.x = from.pos.x + ((from.pos.x - prev.pos.x) / span) * ahead;
+    out.y = from.pos.y + ((from.pos.y - prev.pos.y) / span) * ahead;
+    out.z = from.pos.z + ((from.pos.z - prev.pos.z) / span) * ahead;
+    return "extrapolated";
+  }
+}
+
+/**
+ * Estimates the server's simulation clock from snapshot timestamps.
+ * The offset includes one-way latency, which is fine: render time only has to be
+ * consistent with when snapshots arrive, not with the true server time.
+ */
+export class ServerClock {
+  private offset: number | null = null;
+  private smoothing: number;
+  private snapThresholdMs: number;
+
+  /**
+   * @param smoothing Fraction of each new offset sample blended in (0..1].
+   * @param snapThresholdMs Offsets further than this from the estimate replace it outright.
+   */
+  constructor(smoothing = 0.1, snapThresholdMs = 500) {
+    this.smoothing = smoothing;
+    this.snapThresholdMs = snapThresholdMs;
+  }
+
+  /** True once at least one snapshot was observed. */
+  get synced(): boolean {
+    return this.offset !== null;
+  }
+
+  /** Records that a snapshot stamped `serverTime` arrived at `localTime`. */
+  observe(serverTime: number, localTime: number) {
+    const sample = serverTime - localTime;
+    if (this.offset === null || Math.abs(sample - this.offset) > this.snapThresholdMs) {
+      this.offset = sample;
+    } else {
+      this.offset += (sample - this.offset) * this.smoothing;
+    }
+  }
+
+  /** Estimated server time at `localTime`. */
+  now(localTime: number): number {
+    return localTime + (this.offset ?? 0);
+  }
+}
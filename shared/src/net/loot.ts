@@ -0,0 +1,18 @@
+/** Seconds a loot bag stays on the ground before it disappears. */
+export const LOOT_BAG_LIFETIME = 30;
+/** Most items one bag holds; drops with more are split over several bags. */
+export const LOOT_BAG_SIZE = 8;
+/** Farthest a player may stand from a bag's center and still take from it, in world units. */
+export const LOOT_PICKUP_RANGE = 1.5;
+
+/** Message payload for "pickUp": the bag's entity id and the index of the item in it. */
+export type PickUpMessage = { bag: string; index: number };
+
+/** Message payload for "moveItem": inventory slots to move from and to (see Inventory). */
+export type MoveItemMessage = { from: number; to: number };
+
+/** Message payload for "dropItem": the inventory slot to drop on the ground. */
+export type DropItemMessage = { slot: number };
+
+/** Message payload for "useItem": the inventory slot of the consumable to use up. */
+export type UseItemMessage = { slot: number };
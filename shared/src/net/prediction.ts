@@ -0,0 +1,76 @@
+import { type Vec3, copyVec3 } from "../math/vec3";
+import { type TileMap } from "../map/tileMap";
+import { type InputCommand, type MoveKeys, applyInputCommand } from "./input";
+
+/** Unacknowledged commands kept for replay; older ones are dropped if the server stalls. */
+const MAX_PENDING_INPUTS = 256;
+
+/**
+ * Client-side prediction for the local player.
+ *
+ * Every frame the client records an input command, applies it immediately and sends it.
+ * When an authoritative snapshot arrives, `reconcile` rewinds to the server position
+ * for the last acknowledged sequence number and replays the commands the server has
+ * not processed yet.
+ */
+export class InputPredictor {
+  private pending: InputCommand[] = [];
+  private nextSeq = 1;
+  private lastAckSeq = 0;
+  /**
+   * Move speed in world units per second (see moveSpeed). Keep it in step with the
+   * player's speed stat; replays after a change use the new speed.
+   */
+  speed: number;
+  private map?: TileMap;
+
+  /** Pass the map the server collides against, or predictions walk through walls. */
+  constructor(speed: number, map?: TileMap) {
+    this.speed = speed;
+    this.map = map;
+  }
+
+  /** Number of commands sent but not yet acknowledged by the server. */
+  get pendingCount(): number {
+    return this.pending.length;
+  }
+
+  /** Highest sequence number the server has acknowledged. */
+  get acknowledged(): number {
+    return this.lastAckSeq;
+  }
+
+  /**
+   * Records a new command for this frame, applies it to `pos` and returns it for sending.
+   */
+  predict(pos: Vec3, keys: MoveKeys, yaw: number, dt: number): InputCommand {
+    const cmd: InputCommand = { seq: this.nextSeq++, keys: { ...keys }, yaw, dt };
+    this.pending.push(cmd);
+    if (this.pending.length > MAX_PENDING_INPUTS) {
+      this.pending.shift();
+    }
+    applyInputCommand(pos, cmd, this.speed, this.map);
+    return cmd;
+  }
+
+  /**
+   * Applies an authoritative snapshot: `serverPos` is the position after the server
+   * processed command `ackSeq`. Snapshots older than one already applied are ignored,
+   * so reordered packets cannot move the player backwards.
+   * Returns false if the snapshot was stale.
+   */
+  reconcile(pos: Vec3, serverPos: Vec3, ackSeq: number): boolean {
+    if (ackSeq < this.lastAckSeq) return false;
+    this.lastAckSeq = ackSeq;
+
+    let dropCount = 0;
+    while (dropCount < this.pending.length && this.pending[dropCount].seq <= ackSeq) dropCount++;
+    this.pending.splice(0, dropCount);
+
+    copyVec3(pos, serverPos);
+    for (const cmd of this.pending) {
+      applyInputCommand(pos, cmd, this.speed, this.map);
+    }
+    return true;
+  }
+}
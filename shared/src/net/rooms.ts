@@ -0,0 +1,10 @@
+/** Room types players travel between through portals. */
+export const NEXUS_ROOM = "nexus";
+export const REALM_ROOM = "realm";
+export const DUNGEON_ROOM = "dungeon";
+
+/** Farthest a player may stand from a portal's center and still use it, in world units. */
+export const PORTAL_USE_RANGE = 1.5;
+
+/** Message payload for "usePortal": the portal's entity id. */
+export type UsePortalMessage = { id: string };
@@ -0,0 +1,38 @@
+import { type TradeOffer } from "../items/trade";
+
+/** Farthest two players may stand apart to ask for a trade, and to keep trading, in world units. */
+export const TRADE_RANGE = 4;
+/** Seconds a trade request waits to be accepted. */
+export const TRADE_REQUEST_LIFETIME = 20;
+
+/** Message payload for "requestTrade", and for "acceptTrade" in answer: the other player's session id. */
+export type TradeRequestMessage = { player: string };
+
+/** Message payload for "tradeRequested", sent to the player asked: who asks. */
+export type TradeRequestedMessage = { from: string };
+
+/** Message payload for "tradeOffer": the backpack slots the player now offers. */
+export type TradeOfferMessage = { slots: TradeOffer };
+
+/**
+ * Message payload for "confirmTrade". Both players confirm twice: step 1 once
+ * they are happy with the offers, step 2 once both did. `revision` is the one
+ * of the TradeMessage they confirm; confirming an older one does nothing, and
+ * any change to an offer starts both players over at step 0.
+ */
+export type ConfirmTradeMessage = { step: 1 | 2; revision: number };
+
+/** One side of a trade: the slots offered, their items, and how far it confirmed. */
+export type TradeSideView = { slots: TradeOffer; items: string[]; confirmed: 0 | 1 | 2 };
+
+/** Message payload for "trade", sent to both players when a trade opens and after every change. */
+export type TradeMessage = { partner: string; revision: number; mine: TradeSideView; theirs: TradeSideView };
+
+/** Why a trade ended. */
+export type TradeCloseReason = "completed" | "cancelled" | "distance" | "death" | "left" | "noRoom" | "failed";
+
+/**
+ * Message payload for "tradeClosed", sent to both players when a trade ends.
+ * Either player ends it early with "cancelTrade" (no payload).
+ */
+export type TradeClosedMessage = { reason: TradeCloseReason };
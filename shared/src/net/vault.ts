@@ -0,0 +1,17 @@
+import { type ItemLocation, type Vault } from "../items/vault";
+
+/** Farthest a player may stand from a vault chest's center and still use it, in world units. */
+export const VAULT_USE_RANGE = 1.5;
+
+/** Message payload for "openVault": the chest's entity id. */
+export type OpenVaultMessage = { chest: string };
+
+/** Message payload for "vaultMove": slots to move from and to, see moveVaultItem. */
+export type VaultMoveMessage = { from: ItemLocation; to: ItemLocation };
+
+/**
+ * Message payload for "vault", sent to a player with their account's vault when
+ * they open it and after every change. "closeVault" (no payload) closes it, from
+ * either side.
+ */
+export type VaultMessage = { chest: string; items: Vault };
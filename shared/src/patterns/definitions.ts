@@ -0,0 +1,72 @@
+import { type StatusEffectApplication } from "../status/definitions";
+
+/**
+ * How a projectile moves. Every path is a closed-form function of the time since
+ * it was fired, so the server and clients compute identical positions.
+ */
+export type ProjectilePathDef =
+  | { type: "straight" }
+  /** Sine offset sideways from the flight line. */
+  | { type: "wavy"; amplitude: number; frequency: number }
+  /** Speed changes by `acceleration` per second until it reaches `targetSpeed`, then holds. */
+  | { type: "accelerate"; acceleration: number; targetSpeed: number }
+  /** Flies out half its range, then comes back to where it was fired. */
+  | { type: "boomerang" };
+
+/**
+ * One kind of projectile. `range` is the distance covered along the flight line
+ * before it despawns.
+ */
+export type ProjectileDef = {
+  id: string;
+  /** Initial speed in units per second. */
+  speed: number;
+  range: number;
+  /** Half extent of the hitbox. */
+  size: number;
+  damage: number;
+  /** Frame name in the client's sprite atlas. */
+  sprite: string;
+  /** Passes through targets with health, hitting each one once. */
+  piercing?: boolean;
+  /** Defaults to straight. */
+  path?: ProjectilePathDef;
+  /** Inflicted on every target it hits and does not kill. */
+  effects?: StatusEffectApplication[];
+};
+
+/**
+ * A shot described as data: one trigger pull fires `bursts` volleys of `count`
+ * projectiles spread evenly over `arc` degrees. Angles are in degrees here and
+ * in radians everywhere else.
+ */
+export type PatternDef = {
+  id: string;
+  /** Id of a ProjectileDef. */
+  projectile: string;
+  /** Projectiles per volley. */
+  count: number;
+  /** Total spread in degrees; 360 makes an evenly spaced ring. */
+  arc: number;
+  /** Added to the aim, in degrees. */
+  angleOffset?: number;
+  /** Degrees the whole pattern turns each time it is fired, for spirals. */
+  spin?: number;
+  /** Volleys per trigger pull (default 1), `burstDelay` seconds apart. */
+  bursts?: number;
+  burstDelay?: number;
+  /** When false, angles are absolute instead of relative to the aim. Default true. */
+  aimed?: boolean;
+};
+
+/**
+ * A player weapon: which pattern it fires and how often.
+ */
+export type WeaponDef = {
+  id: string;
+  name: string;
+  /** Id of a PatternDef. */
+  pattern: string;
+  /** Seconds between shots at 0 dexterity (see fireCooldown). */
+  cooldown: number;
+};
@@ -0,0 +1,86 @@
+import { type Vec3 } from "../math/vec3";
+import { type ProjectileDef } from "./definitions";
+
+/**
+ * Seconds a projectile lives: the time it takes to cover its range along the flight line.
+ */
+export function projectileLifetime(def: ProjectileDef): number {
+  const path = def.path;
+  if (path?.type !== "accelerate" || path.acceleration === 0) return def.range / def.speed;
+
+  const a = Math.sign(path.targetSpeed - def.speed) * Math.abs(path.acceleration);
+  if (a === 0) return def.range / def.speed;
+  const rampTime = (path.targetSpeed - def.speed) / a;
+  const rampDistance = def.speed * rampTime + 0.5 * a * rampTime * rampTime;
+  if (def.range <= rampDistance) {
+    // Solve speed*t + a*t^2/2 = range for the first positive t
+    return (-def.speed + Math.sqrt(def.speed * def.speed + 2 * a * def.range)) / a;
+  }
+  // A projectile that slows to a stop never gets further: it dies when it stops
+  if (path.targetSpeed <= 0) return rampTime;
+  return rampTime + (def.range - rampDistance) / path.targetSpeed;
+}
+
+/**
+ * Distance covered along the flight line after `t` seconds.
+ */
+export function projectileDistance(def: ProjectileDef, t: number): number {
+  const path = def.path;
+  switch (path?.type) {
+    case "accelerate": {
+      const a = Math.sign(path.targetSpeed - def.speed) * Math.abs(path.acceleration);
+      if (a === 0) return def.speed * t;
+      const rampTime = (path.targetSpeed - def.speed) / a;
+      if (t <= rampTime) return def.speed * t + 0.5 * a * t * t;
+      return def.speed * rampTime + 0.5 * a * rampTime * rampTime + path.targetSpeed * (t - rampTime);
+    }
+    case "boomerang": {
+      const half = projectileLifetime(def) / 2;
+      return def.speed * (t <= half ? t : 2 * half - t);
+    }
+    default:
+      return def.speed * t;
+  }
+}
+
+/**
+ * Sideways offset from the flight line after `t` seconds (positive = heading turned by +90°).
+ */
+export function projectileLateral(def: ProjectileDef, t: number): number {
+  const path = def.path;
+  if (path?.type !== "wavy") return 0;
+  return path.amplitude * Math.sin(2 * Math.PI * path.frequency * t);
+}
+
+/**
+ * Position of a projectile `t` seconds after it was fired from `origin` at heading
+ * `angle` (radians on the XZ plane, 0 = +X, PI/2 = +Z). Y stays at the origin's height.
+ */
+export function projectilePosition(def: ProjectileDef, origin: Vec3, angle: number, t: number, out: Vec3): Vec3 {
+  const forward = projectileDistance(def, t);
+  const side = projectileLateral(def, t);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  out.x = origin.x + cos * forward - sin * side;
+  out.y = origin.y;
+  out.z = origin.z + sin * forward + cos * side;
+  return out;
+}
+
+/**
+ * Instantaneous velocity at time `t`, by central difference of the position.
+ * Only used for networking hints and effects; positions come from `projectilePosition`.
+ */
+export function projectileVelocity(def: ProjectileDef, angle: number, t: number, out: Vec3): Vec3 {
+  const h = 1e-3;
+  const t0 = Math.max(0, t - h);
+  const t1 = t + h;
+  const forward = (projectileDistance(def, t1) - projectileDistance(def, t0)) / (t1 - t0);
+  const side = (projectileLateral(def, t1) - projectileLateral(def, t0)) / (t1 - t0);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  out.x = cos * forward - sin * side;
+  out.y = 0;
+  out.z = sin * forward + cos * side;
+  return out;
+}
@@ -0,0 +1,48 @@
+import { type PatternDef, type ProjectileDef } from "./definitions";
+import { getProjectileDefinition } from "../data/projectiles";
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/** One projectile of an expanded pattern. */
+export type ProjectileSpawn = {
+  projectile: ProjectileDef;
+  /** Heading in radians. */
+  angle: number;
+  /** Seconds after the trigger pull (non-zero for later bursts). */
+  delay: number;
+};
+
+/**
+ * Expands one trigger pull of `pattern` into individual projectiles.
+ * `aimAngle` is the shooter's aim in radians; `volley` counts previous trigger
+ * pulls of this pattern by the same shooter and drives `spin`.
+ * Pure and deterministic: the same inputs always give the same spawns.
+ */
+export function expandPattern(pattern: PatternDef, aimAngle: number, volley = 0): ProjectileSpawn[] {
+  const projectile = getProjectileDefinition(pattern.projectile);
+  const base =
+    (pattern.aimed === false ? 0 : aimAngle) +
+    ((pattern.angleOffset ?? 0) + (pattern.spin ?? 0) * volley) * DEG_TO_RAD;
+  const arc = pattern.arc * DEG_TO_RAD;
+  // A full ring must not put the first and last projectile on top of each other
+  const isRing = pattern.arc >= 360;
+  const step = pattern.count > 1 ? arc / (isRing ? pattern.count : pattern.count - 1) : 0;
+  const start = isRing || pattern.count <= 1 ? base : base - arc / 2;
+
+  const spawns: ProjectileSpawn[] = [];
+  const bursts = Math.max(1, pattern.bursts ?? 1);
+  for (let burst = 0; burst < bursts; burst++) {
+    const delay = burst * (pattern.burstDelay ?? 0);
+    for (let i = 0; i < pattern.count; i++) {
+      spawns.push({ projectile, angle: start + step * i, delay });
+    }
+  }
+  return spawns;
+}
+
+/**
+ * Aim angle (radians) for an XZ direction, matching `projectilePosition`.
+ */
+export function aimAngle(dx: number, dz: number): number {
+  return Math.atan2(dz, dx);
+}
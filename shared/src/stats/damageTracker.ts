@@ -0,0 +1,28 @@
+/**
+ * Damage each attacker dealt to one target, for kill credit. Only damage that
+ * actually took HP away counts, so overkill does not skew the shares.
+ */
+export class DamageTracker {
+  private damage = new Map<string, number>();
+  private totalDamage = 0;
+
+  record(attackerId: string, amount: number) {
+    if (amount <= 0) return;
+    this.damage.set(attackerId, (this.damage.get(attackerId) ?? 0) + amount);
+    this.totalDamage += amount;
+  }
+
+  /** Damage per attacker id. */
+  get byAttacker(): ReadonlyMap<string, number> {
+    return this.damage;
+  }
+
+  get total(): number {
+    return this.totalDamage;
+  }
+
+  /** Share of all recorded damage that `attackerId` dealt, from 0 to 1. */
+  fraction(attackerId: string): number {
+    return this.totalDamage > 0 ? (this.damage.get(attackerId) ?? 0) / this.totalDamage : 0;
+  }
+}
@@ -0,0 +1,23 @@
+/** The classic character stats. `hp` and `mp` are the maximums. */
+export const STAT_NAMES = ["hp", "mp", "attack", "defense", "speed", "dexterity", "vitality", "wisdom"] as const;
+
+export type StatName = (typeof STAT_NAMES)[number];
+
+/** One value per stat. */
+export type StatBlock = Record<StatName, number>;
+
+/**
+ * A playable class. Characters start at `base` on level 1 and gain `growth`
+ * per level after that (fractions add up over levels), never going past `caps`.
+ */
+export type ClassDef = {
+  id: string;
+  name: string;
+  /** Id of the weapon item (and WeaponDef) new characters start with. */
+  weapon: string;
+  /** Id of the ability item new characters start with. */
+  ability: string;
+  base: StatBlock;
+  growth: StatBlock;
+  caps: StatBlock;
+};
@@ -0,0 +1,62 @@
+import { MAX_LEVEL } from "./formulas";
+
+/** Experience from level 1 to 2, and how much more each later level needs. */
+export const FIRST_LEVEL_XP = 50;
+export const XP_PER_LEVEL = 100;
+/** Players within this many world units of a kill share its experience. */
+export const KILL_XP_SHARE_RADIUS = 12;
+/** Share of a kill's experience every eligible player gets, whatever damage they dealt. */
+export const GROUP_XP_SHARE = 0.5;
+/** Experience per point of fame a character earns when it dies. */
+export const XP_PER_FAME = 50;
+/** Extra fame for dying at MAX_LEVEL. */
+export const MAX_LEVEL_FAME_BONUS = 20;
+
+/** Experience needed to go from `level` to the next one. */
+export function xpToNextLevel(level: number): number {
+  return FIRST_LEVEL_XP + (level - 1) * XP_PER_LEVEL;
+}
+
+/** Total experience a character needs to reach `level` from level 1. */
+export function xpForLevel(level: number): number {
+  let total = 0;
+  for (let l = 1; l < Math.min(level, MAX_LEVEL); l++) total += xpToNextLevel(l);
+  return total;
+}
+
+/** Level of a character with `xp` total experience, capped at MAX_LEVEL. */
+export function levelForXp(xp: number): number {
+  let level = 1;
+  while (level < MAX_LEVEL && xp >= xpForLevel(level + 1)) level++;
+  return level;
+}
+
+/**
+ * Splits a kill's `xp` between the players who earned it: everyone who damaged
+ * the enemy (`damageBy`, damage per player id) or stood within
+ * KILL_XP_SHARE_RADIUS of it (`nearby`). Each gets GROUP_XP_SHARE of the
+ * experience plus the rest in proportion to the damage they dealt, rounded up.
+ * So everyone earns at least GROUP_XP_SHARE of a solo kill, the top damage
+ * dealer earns the most, and together a group earns at least the kill's
+ * experience; only a player who dealt all the damage earns the full amount.
+ */
+export function shareKillXp(xp: number, damageBy: ReadonlyMap<string, number>, nearby: Iterable<string>): Map<string, number> {
+  let total = 0;
+  for (const damage of damageBy.values()) total += damage;
+
+  const shares = new Map<string, number>();
+  const credit = (id: string) => {
+    const fraction = total > 0 ? (damageBy.get(id) ?? 0) / total : 0;
+    shares.set(id, Math.ceil(xp * (GROUP_XP_SHARE + (1 - GROUP_XP_SHARE) * fraction)));
+  };
+  for (const id of damageBy.keys()) credit(id);
+  for (const id of nearby) {
+    if (!shares.has(id)) credit(id);
+  }
+  return shares;
+}
+
+/** Fame a character with `xp` total experience earns when it dies at `level`. */
+export function fameForDeath(xp: number, level: number): number {
+  return Math.floor(xp / XP_PER_FAME) + (level >= MAX_LEVEL ? MAX_LEVEL_FAME_BONUS : 0);
+}
@@ -0,0 +1,66 @@
+import { STAT_NAMES, type ClassDef, type StatBlock } from "./definitions";
+
+/** Highest character level. */
+export const MAX_LEVEL = 20;
+
+/** Move speed in world units per second at 0 speed, and what each point adds. */
+export const BASE_MOVE_SPEED = 4;
+export const MOVE_SPEED_PER_POINT = 1 / 15;
+/** Dexterity that doubles the fire rate. */
+export const DEXTERITY_PER_FIRE_RATE = 75;
+/** Attack at which projectiles deal their listed damage; 0 attack halves it. */
+export const ATTACK_FOR_FULL_DAMAGE = 25;
+/** Defense never blocks more than this share of a hit. */
+export const MIN_DAMAGE_FRACTION = 0.15;
+/** HP and MP regenerated per second at 0 vitality/wisdom, and what each point adds. */
+export const BASE_HP_REGEN = 1;
+export const HP_REGEN_PER_VITALITY = 0.24;
+export const BASE_MP_REGEN = 0.5;
+export const MP_REGEN_PER_WISDOM = 0.12;
+
+/**
+ * Stats of a `level` character of class `def`, before items: base plus the
+ * growth of every level gained, rounded down and capped.
+ */
+export function statsAtLevel(def: ClassDef, level: number): StatBlock {
+  const levels = Math.min(Math.max(level, 1), MAX_LEVEL) - 1;
+  const stats = {} as StatBlock;
+  for (const stat of STAT_NAMES) {
+    stats[stat] = Math.min(def.caps[stat], Math.floor(def.base[stat] + def.growth[stat] * levels));
+  }
+  return stats;
+}
+
+/** World units per second a player with `speed` walks. */
+export function moveSpeed(speed: number): number {
+  return BASE_MOVE_SPEED + speed * MOVE_SPEED_PER_POINT;
+}
+
+/** Seconds between shots of a weapon with `weaponCooldown`, faster with dexterity. */
+export function fireCooldown(weaponCooldown: number, dexterity: number): number {
+  return weaponCooldown / (1 + dexterity / DEXTERITY_PER_FIRE_RATE);
+}
+
+/** Damage a projectile listing `damage` deals when fired with `attack`, rounded down. */
+export function attackDamage(damage: number, attack: number): number {
+  return Math.floor(damage * (0.5 + attack / (2 * ATTACK_FOR_FULL_DAMAGE)));
+}
+
+/**
+ * Damage left after `defense` takes its flat cut, but at least
+ * MIN_DAMAGE_FRACTION of the hit (rounded up), so no armor makes a target immune.
+ */
+export function mitigateDamage(damage: number, defense: number): number {
+  if (damage <= 0) return 0;
+  return Math.max(damage - defense, Math.ceil(damage * MIN_DAMAGE_FRACTION));
+}
+
+/** HP regenerated per second with `vitality`. */
+export function hpRegen(vitality: number): number {
+  return BASE_HP_REGEN + vitality * HP_REGEN_PER_VITALITY;
+}
+
+/** MP regenerated per second with `wisdom`. */
+export function mpRegen(wisdom: number): number {
+  return BASE_MP_REGEN + wisdom * MP_REGEN_PER_WISDOM;
+}
@@ -0,0 +1,33 @@
+/**
+ * Timed conditions an entity can be under. Several instances of the same effect
+ * stack: the effect lasts until the last one runs out, and HP over time adds up.
+ */
+export const STATUS_EFFECT_NAMES = [
+  /** Moves at SLOWED_SPEED_FACTOR of its speed. */
+  "slowed",
+  /** Cannot move. */
+  "paralyzed",
+  /** Cannot fire. */
+  "stunned",
+  /** Defense does not reduce hits. */
+  "armorBroken",
+  /** Takes no damage from hits. */
+  "invulnerable",
+  /** Loses HP over time, but never dies of it. */
+  "bleeding",
+  /** Regains HP over time. */
+  "healing",
+] as const;
+
+export type StatusEffectName = (typeof STATUS_EFFECT_NAMES)[number];
+
+/**
+ * An effect to inflict, as data: on projectile hits, by abilities.
+ */
+export type StatusEffectApplication = {
+  effect: StatusEffectName;
+  /** Seconds it lasts. */
+  duration: number;
+  /** HP lost (bleeding) or regained (healing) per second. */
+  hpPerSecond?: number;
+};
@@ -0,0 +1,75 @@
+import { type SimEntity, type With } from "../ecs/entity";
+import { type StatusEffectsData } from "../ecs/components/StatusEffects";
+import { STATUS_EFFECT_NAMES, type StatusEffectApplication, type StatusEffectName } from "./definitions";
+import { mitigateDamage } from "../stats/formulas";
+
+/** Share of its speed a slowed entity moves at. */
+export const SLOWED_SPEED_FACTOR = 0.5;
+/**
+ * Timers this close to zero count as run out, so effects ticked in fixed steps
+ * end on the step their duration says despite rounding.
+ */
+const EXPIRY_EPSILON = 1e-6;
+
+/** Adds one instance of an effect; it stacks with those already running. */
+export function applyStatusEffect(data: StatusEffectsData, application: StatusEffectApplication) {
+  data.effects.push({ effect: application.effect, timeLeft: application.duration, hpPerSecond: application.hpPerSecond });
+}
+
+/**
+ * Names of the effects currently on `data`, once each, in STATUS_EFFECT_NAMES
+ * order. Rules below take this list, so clients can use the synced one.
+ */
+export function activeStatusEffects(data: StatusEffectsData | undefined): StatusEffectName[] {
+  if (!data || data.effects.length === 0) return [];
+  return STATUS_EFFECT_NAMES.filter((name) => data.effects.some((instance) => instance.effect === name));
+}
+
+/** The known effect names in `names`, such as a synced list, in the order given. */
+export function parseStatusEffects(names: ArrayLike<unknown>): StatusEffectName[] {
+  return Array.from(names).filter((name): name is StatusEffectName => (STATUS_EFFECT_NAMES as readonly unknown[]).includes(name));
+}
+
+/**
+ * Counts down every effect and removes the ones that ran out. Bleeding and
+ * healing change HP for the part of `dt` they were still running; bleeding
+ * stops at 1 HP and neither affects the dead.
+ */
+export function tickStatusEffects(entities: Iterable<With<SimEntity, "statusEffects">>, dt: number) {
+  for (const entity of entities) {
+    const data = entity.statusEffects;
+    if (data.effects.length === 0) continue;
+    const health = entity.health;
+    for (const instance of data.effects) {
+      const time = Math.min(dt, instance.timeLeft);
+      instance.timeLeft -= dt;
+      if (!health || health.hp <= 0 || !instance.hpPerSecond) continue;
+      if (instance.effect === "healing") {
+        health.hp = Math.min(health.maxHp, health.hp + instance.hpPerSecond * time);
+      } else if (instance.effect === "bleeding" && health.hp > 1) {
+        health.hp = Math.max(1, health.hp - instance.hpPerSecond * time);
+      }
+    }
+    data.effects = data.effects.filter((instance) => instance.timeLeft > EXPIRY_EPSILON);
+  }
+}
+
+/** Factor on the move speed of an entity under `active` effects. */
+export function statusSpeedFactor(active: readonly StatusEffectName[]): number {
+  if (active.includes("paralyzed")) return 0;
+  return active.includes("slowed") ? SLOWED_SPEED_FACTOR : 1;
+}
+
+/** Whether an entity under `active` effects may fire. */
+export function statusAllowsFiring(active: readonly StatusEffectName[]): boolean {
+  return !active.includes("stunned");
+}
+
+/**
+ * Damage a hit deals to a target with `defense` under `active` effects: none
+ * while invulnerable, unmitigated while its armor is broken.
+ */
+export function statusDamage(damage: number, defense: number, active: readonly StatusEffectName[]): number {
+  if (active.includes("invulnerable")) return 0;
+  return mitigateDamage(damage, active.includes("armorBroken") ? 0 : defense);
+}
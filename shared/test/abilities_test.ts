@@ -0,0 +1,61 @@
+import assert from "assert";
+import {
+  ABILITY_DEFINITIONS,
+  ITEM_DEFINITIONS,
+  TileMap,
+  vec3,
+  checkCast,
+  equippedAbility,
+  emptyInventory,
+  equipmentIndex,
+  getAbilityDefinition,
+  getPatternDefinition,
+} from "../src";
+
+describe("abilities", () => {
+  const map = new TileMap({ id: "test", width: 20, height: 20, fill: "grass" });
+  map.setObject(12, 10, "wall");
+  const pos = vec3(10.5, 0.5, 10.5);
+
+  it("allow casts with enough MP, off cooldown and in range", () => {
+    const bomb = getAbilityDefinition("spellBomb");
+    assert.strictEqual(checkCast(bomb, pos, bomb.mpCost, 0, { x: 14, z: 10.5 }, map), undefined);
+    assert.strictEqual(checkCast(bomb, pos, bomb.mpCost, 0.1, { x: 14, z: 10.5 }, map), "cooldown");
+    assert.strictEqual(checkCast(bomb, pos, bomb.mpCost - 1, 0, { x: 14, z: 10.5 }, map), "mana");
+    assert.strictEqual(checkCast(bomb, pos, bomb.mpCost, 0, { x: pos.x + bomb.range + 0.1, z: 10.5 }, map), "range");
+  });
+
+  it("take any target for abilities that act on the caster", () => {
+    for (const id of ["healingTome", "warHelm", "holyShield"]) {
+      const ability = getAbilityDefinition(id);
+      assert.strictEqual(checkCast(ability, pos, 100, 0, { x: pos.x + 0.36, z: pos.z - 3 }, map), undefined, id);
+    }
+  });
+
+  it("only teleport onto walkable ground in a clear line", () => {
+    const cloak = getAbilityDefinition("teleportCloak");
+    assert.strictEqual(checkCast(cloak, pos, 100, 0, { x: 12.5, z: 10.5 }, map), "blocked");
+    assert.strictEqual(checkCast(cloak, pos, 100, 0, { x: 13.5, z: 10.5 }, map), "blocked", "across the wall");
+    assert.strictEqual(checkCast(cloak, pos, 100, 0, { x: 13.5, z: 11.5 }, map), undefined);
+    // Spell bombs may burst on a wall
+    const bomb = getAbilityDefinition("spellBomb");
+    assert.strictEqual(checkCast(bomb, pos, 100, 0, { x: 12.5, z: 10.5 }, map), undefined);
+  });
+
+  it("cast the equipped ability item's ability", () => {
+    const inventory = emptyInventory();
+    assert.strictEqual(equippedAbility(inventory), undefined);
+    inventory[equipmentIndex("ability")] = "teleportCloak";
+    assert.strictEqual(equippedAbility(inventory), "teleportCloak");
+  });
+
+  it("refer only to known abilities and patterns", () => {
+    for (const item of Object.values(ITEM_DEFINITIONS)) {
+      if (item.slot === "ability") assert.strictEqual(getAbilityDefinition(item.ability!).id, item.ability);
+    }
+    for (const ability of Object.values(ABILITY_DEFINITIONS)) {
+      if (ability.effect.type === "spellBomb") getPatternDefinition(ability.effect.pattern);
+    }
+    assert.throws(() => getAbilityDefinition("fireball"), /Unknown ability definition "fireball"/);
+  });
+});
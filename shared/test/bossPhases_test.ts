@@ -0,0 +1,197 @@
+import assert from "assert";
+import {
+  type SimEntity,
+  type With,
+  type BossEvent,
+  type MapPoint,
+  vec3,
+  createRandom,
+  createEnemyAI,
+  createBossScript,
+  getEnemyDefinition,
+  updateBossPhases,
+  resetBossScript,
+  updateEnemyAI,
+  tickStatusEffects,
+  activeStatusEffects,
+  statusDamage,
+} from "../src";
+
+type BossEntity = With<SimEntity, "enemyAI" | "bossScript" | "transform" | "velocity" | "health" | "statusEffects">;
+
+const DT = 0.05;
+
+function makeBoss(kind: string): BossEntity {
+  const definition = getEnemyDefinition(kind);
+  const pos = vec3(0, 0, 0);
+  return {
+    id: "boss",
+    transform: { pos },
+    velocity: { vel: vec3() },
+    health: { hp: definition.maxHp, maxHp: definition.maxHp },
+    statusEffects: { effects: [] },
+    enemyAI: createEnemyAI(definition, pos),
+    bossScript: createBossScript(),
+  };
+}
+
+function makeTarget(x: number, z: number): With<SimEntity, "transform"> {
+  return { id: "player", transform: { pos: vec3(x, 0, z) } };
+}
+
+/** What happened during a simulation, in order. */
+type Log = { events: (BossEvent & { time: number; bossAt: MapPoint })[]; attacks: { time: number; pattern: string }[] };
+
+/**
+ * Runs the boss headless, the way the server ticks it, for `seconds`. `damage`
+ * maps a tick index to the damage the players deal on that tick, which goes
+ * through the same status rules as bullet hits.
+ */
+function simulate(boss: BossEntity, targets: With<SimEntity, "transform">[], seconds: number, damage: (tick: number) => number = () => 0, log: Log = { events: [], attacks: [] }): Log {
+  const random = createRandom(1);
+  const ticks = Math.round(seconds / DT);
+  for (let tick = 0; tick < ticks; tick++) {
+    const time = tick * DT;
+    updateBossPhases([boss], targets, DT, (_boss, event) => log.events.push({ ...event, time, bossAt: { ...boss.transform.pos } }));
+    updateEnemyAI([boss], targets, DT, random, (_enemy, pattern) => log.attacks.push({ time, pattern: pattern.id }));
+    tickStatusEffects([boss], DT);
+    const dealt = damage(tick);
+    if (dealt > 0) boss.health.hp = Math.max(0, boss.health.hp - statusDamage(dealt, 0, activeStatusEffects(boss.statusEffects)));
+  }
+  return log;
+}
+
+/** The log's events as short strings, for comparing sequences. */
+function eventNames(log: Log): string[] {
+  return log.events.map((event) => {
+    switch (event.type) {
+      case "lockdown": return "lockdown";
+      case "phase": return `phase ${event.phase.id}`;
+      case "taunt": return "taunt";
+      case "minions": return `minions ${event.points.length} ${event.enemy}`;
+    }
+  });
+}
+
+describe("boss scripts", () => {
+  it("wait until a player comes close, then lock the arena and begin the first phase", () => {
+    const boss = makeBoss("pirateCaptain");
+    const player = makeTarget(12, 0);
+    const log = simulate(boss, [player], 2);
+    assert.deepStrictEqual(log.events, []);
+    assert.strictEqual(boss.bossScript.phase, -1);
+    assert.strictEqual(boss.enemyAI.state, "idle");
+
+    player.transform.pos.x = 6;
+    simulate(boss, [player], 0.05, undefined, log);
+    assert.deepStrictEqual(eventNames(log), ["lockdown", "phase broadsides", "taunt"]);
+    assert.strictEqual(boss.enemyAI.state, "broadsides");
+  });
+
+  it("engage when hurt from out of range", () => {
+    const boss = makeBoss("pirateCaptain");
+    const log = simulate(boss, [makeTarget(15, 0)], 1, (tick) => (tick === 5 ? 10 : 0));
+    assert.deepStrictEqual(eventNames(log).slice(0, 2), ["lockdown", "phase broadsides"]);
+  });
+
+  it("run the phases in order under scripted damage, with their minions and patterns", () => {
+    const boss = makeBoss("pirateCaptain");
+    // 40 damage a second
+    const log = simulate(boss, [makeTarget(5, 0)], 20, (tick) => (tick % 20 === 0 ? 40 : 0));
+
+    assert.deepStrictEqual(eventNames(log), [
+      "lockdown",
+      "phase broadsides",
+      "taunt",
+      "phase boarding",
+      "taunt",
+      "minions 3 pirate",
+      "phase lastStand",
+      "taunt",
+      "minions 2 snake",
+    ]);
+
+    for (const event of log.events) {
+      if (event.type !== "minions") continue;
+      const radius = event.enemy === "pirate" ? 3 : 4;
+      for (const point of event.points) {
+        assert.ok(Math.abs(Math.hypot(point.x - event.bossAt.x, point.z - event.bossAt.z) - radius) < 1e-9, "minions ring the boss");
+      }
+    }
+
+    // Each phase fires its own patterns
+    const phaseStart = (id: string) => log.events.find((event) => event.type === "phase" && event.phase.id === id)!.time;
+    const patternsBetween = (from: number, to: number) =>
+      new Set(log.attacks.filter((attack) => attack.time >= from && attack.time < to).map((attack) => attack.pattern));
+    assert.deepStrictEqual(patternsBetween(0, phaseStart("boarding")), new Set(["fan", "stompRing"]));
+    assert.deepStrictEqual(patternsBetween(phaseStart("boarding"), phaseStart("lastStand")), new Set(["aimedBurst"]));
+    assert.deepStrictEqual(patternsBetween(phaseStart("lastStand"), 20), new Set(["spiral", "fan"]));
+  });
+
+  it("hold still, hold fire and take no damage during a phase transition", () => {
+    const boss = makeBoss("pirateCaptain");
+    const player = makeTarget(5, 0);
+    simulate(boss, [player], 0.05);
+    boss.health.hp = boss.health.maxHp * 0.6;
+
+    const log = simulate(boss, [player], 1, () => 50);
+    assert.strictEqual(boss.bossScript.phase, 1);
+    assert.strictEqual(boss.health.hp, boss.health.maxHp * 0.6, "no damage through the transition");
+    assert.deepStrictEqual(log.attacks, []);
+    assert.strictEqual(boss.velocity.vel.x, 0);
+    assert.strictEqual(boss.velocity.vel.z, 0);
+
+    // The window is 1.5 s
+    simulate(boss, [player], 1, () => 10, log);
+    assert.ok(boss.health.hp < boss.health.maxHp * 0.6);
+    assert.ok(log.attacks.length > 0);
+  });
+
+  it("move on by timer when the fight drags on", () => {
+    const boss = makeBoss("pirateCaptain");
+    const player = makeTarget(5, 0);
+    simulate(boss, [player], 0.05);
+    boss.health.hp = boss.health.maxHp * 0.5;
+    simulate(boss, [player], 59);
+    assert.strictEqual(boss.enemyAI.state, "boarding");
+    simulate(boss, [player], 1.1);
+    assert.strictEqual(boss.enemyAI.state, "lastStand");
+  });
+
+  it("skip no phase when one hit crosses several thresholds", () => {
+    const boss = makeBoss("pirateCaptain");
+    const player = makeTarget(5, 0);
+    simulate(boss, [player], 0.05);
+    boss.health.hp = 10;
+
+    const log = simulate(boss, [player], 0.1);
+    assert.deepStrictEqual(log.events.filter((event) => event.type === "phase").map((event) => event.type === "phase" && event.phase.id), ["boarding", "lastStand"]);
+  });
+
+  it("wake only for targets the caller lets engage, and start over once reset", () => {
+    const boss = makeBoss("pirateCaptain");
+    const player = makeTarget(5, 0);
+    const log: BossEvent[] = [];
+    updateBossPhases([boss], [player], DT, (_boss, event) => log.push(event), () => false);
+    boss.health.hp -= 10;
+    updateBossPhases([boss], [player], DT, (_boss, event) => log.push(event), () => false);
+    assert.deepStrictEqual(log, [], "not even when hurt");
+
+    simulate(boss, [player], 0.05);
+    boss.health.hp = boss.health.maxHp * 0.5;
+    simulate(boss, [player], 0.5);
+    assert.strictEqual(boss.bossScript.phase, 1);
+
+    resetBossScript(boss);
+    assert.deepStrictEqual(boss.bossScript, createBossScript());
+    assert.strictEqual(boss.health.hp, boss.health.maxHp);
+    assert.strictEqual(boss.enemyAI.state, "idle");
+    assert.deepStrictEqual(boss.statusEffects.effects, []);
+  });
+
+  it("leave ordinary enemies alone", () => {
+    const bull = { ...makeBoss("bull"), bossScript: createBossScript() };
+    const log = simulate(bull, [makeTarget(5, 0)], 1, () => 10);
+    assert.deepStrictEqual(log.events, []);
+  });
+});
@@ -0,0 +1,69 @@
+import assert from "assert";
+import {
+  type SimEntity,
+  type With,
+  type CollisionGroupName,
+  vec3,
+  COLLISION_GROUPS,
+  buildCollisionMasks,
+  collisionFilter,
+  canCollide,
+  createProjectile,
+  getProjectileDefinition,
+  resolveBulletHits,
+} from "../src";
+
+const box = (group?: CollisionGroupName) => ({
+  halfExtents: vec3(0.5, 0.5, 0.5),
+  ...(group ? collisionFilter(group) : {}),
+});
+
+describe("collision groups", () => {
+  it("lets enemy shots hit only players and player shots hit only enemies", () => {
+    assert.ok(canCollide(box("player-projectile"), box("enemy")));
+    assert.ok(!canCollide(box("player-projectile"), box("player")));
+    assert.ok(canCollide(box("enemy-projectile"), box("player")));
+    assert.ok(!canCollide(box("enemy-projectile"), box("enemy")));
+    assert.ok(!canCollide(box("player-projectile"), box("enemy-projectile")));
+  });
+
+  it("blocks both sides' shots with walls, and keeps pickups for players", () => {
+    assert.ok(canCollide(box("player-projectile"), box("wall")));
+    assert.ok(canCollide(box("enemy-projectile"), box("wall")));
+    assert.ok(canCollide(box("player"), box("pickup")));
+    assert.ok(!canCollide(box("enemy"), box("pickup")));
+    assert.ok(!canCollide(box("player-projectile"), box("pickup")));
+  });
+
+  it("treats collidables without a layer as interacting with everything", () => {
+    assert.ok(canCollide(box(), box("player-projectile")));
+    assert.ok(canCollide(box("wall"), box()));
+  });
+
+  it("builds symmetric masks from a custom matrix", () => {
+    const masks = buildCollisionMasks({ pickup: ["enemy"] });
+    assert.strictEqual(masks.pickup, COLLISION_GROUPS.enemy);
+    assert.strictEqual(masks.enemy, COLLISION_GROUPS.pickup);
+    assert.strictEqual(masks.player, 0);
+    const custom = (group: CollisionGroupName) => ({ halfExtents: vec3(1, 1, 1), ...collisionFilter(group, masks) });
+    assert.ok(canCollide(custom("enemy"), custom("pickup")));
+    assert.ok(!canCollide(custom("player"), custom("pickup")));
+  });
+
+  it("filters bullet hits by group", () => {
+    const shot = { id: "b", ...createProjectile(getProjectileDefinition("bolt"), "p1", "player", vec3(-0.5, 0, 0), 0) };
+    const target = (id: string, group: CollisionGroupName): With<SimEntity, "transform" | "collidable" | "health"> => ({
+      id,
+      transform: { pos: vec3(0, 0, 0) },
+      collidable: box(group),
+      health: { hp: 100, maxHp: 100 },
+    });
+    const ally = target("p2", "player");
+    const enemy = target("e1", "enemy");
+
+    const hits: string[] = [];
+    resolveBulletHits([shot], [ally, enemy], (_b, t) => hits.push(String(t.id)));
+    assert.deepStrictEqual(hits, ["e1"]);
+    assert.strictEqual(ally.health.hp, 100);
+  });
+});
@@ -0,0 +1,120 @@
+import assert from "assert";
+import {
+  type SimEntity,
+  type With,
+  type EnemyDefinition,
+  vec3,
+  createRandom,
+  createEnemyAI,
+  getEnemyDefinition,
+  updateEnemyAI,
+  integrateMovement,
+  distanceXZ,
+  lengthXZ,
+} from "../src";
+
+type AIEntity = With<SimEntity, "enemyAI" | "transform" | "velocity" | "health">;
+
+function makeEnemy(definition: EnemyDefinition, x: number, z: number): AIEntity {
+  const pos = vec3(x, 0, z);
+  return {
+    id: "enemy",
+    transform: { pos },
+    velocity: { vel: vec3() },
+    health: { hp: definition.maxHp, maxHp: definition.maxHp },
+    enemyAI: createEnemyAI(definition, pos),
+  };
+}
+
+function makeTarget(x: number, z: number): With<SimEntity, "transform"> {
+  return { id: "player", transform: { pos: vec3(x, 0, z) } };
+}
+
+/** Runs AI then movement, like the server tick. */
+function step(enemy: AIEntity, targets: With<SimEntity, "transform">[], ticks: number, random = createRandom(1)) {
+  for (let i = 0; i < ticks; i++) {
+    updateEnemyAI([enemy], targets, 0.05, random);
+    integrateMovement([enemy], 0.05);
+  }
+}
+
+describe("enemy AI", () => {
+  it("wanders near its spawn while no target is around", () => {
+    const enemy = makeEnemy(getEnemyDefinition("pirate"), 0, 0);
+    step(enemy, [], 400);
+    assert.strictEqual(enemy.enemyAI.state, "idle");
+    assert.strictEqual(enemy.enemyAI.targetId, null);
+    // wander radius 4 plus one tick of overshoot
+    assert.ok(distanceXZ(enemy.transform.pos, enemy.enemyAI.spawn) < 4.5);
+  });
+
+  it("goes idle -> aggro -> flee and chases the target in between", () => {
+    const enemy = makeEnemy(getEnemyDefinition("pirate"), 0, 0);
+    const player = makeTarget(6, 0);
+
+    step(enemy, [player], 1);
+    assert.strictEqual(enemy.enemyAI.state, "aggro");
+    assert.strictEqual(enemy.enemyAI.targetId, "player");
+    assert.ok(enemy.velocity.vel.x > 0, "chases towards the player");
+
+    step(enemy, [player], 60);
+    const gap = distanceXZ(enemy.transform.pos, player.transform.pos);
+    assert.ok(gap <= 1.5 && gap > 1.3, `stops at melee range, got ${gap}`);
+
+    enemy.health.hp = 10;
+    step(enemy, [player], 1);
+    assert.strictEqual(enemy.enemyAI.state, "flee");
+    assert.ok(enemy.velocity.vel.x < 0, "runs away from the player");
+  });
+
+  it("drops aggro when the target leaves and walks back to spawn", () => {
+    const enemy = makeEnemy(getEnemyDefinition("pirate"), 0, 0);
+    const player = makeTarget(7.9, 0);
+    step(enemy, [player], 60);
+    assert.strictEqual(enemy.enemyAI.state, "aggro");
+    assert.ok(distanceXZ(enemy.transform.pos, enemy.enemyAI.spawn) > 6, "leashed beyond returnToSpawn threshold");
+
+    player.transform.pos.x = 100;
+    step(enemy, [player], 1);
+    assert.strictEqual(enemy.enemyAI.state, "idle");
+    assert.ok(enemy.velocity.vel.x < 0, "heads home");
+    step(enemy, [player], 64);
+    assert.ok(distanceXZ(enemy.transform.pos, enemy.enemyAI.spawn) < 0.75);
+  });
+
+  it("ignores dead targets", () => {
+    const enemy = makeEnemy(getEnemyDefinition("pirate"), 0, 0);
+    const corpse = { ...makeTarget(2, 0), health: { hp: 0, maxHp: 100 } };
+    step(enemy, [corpse], 1);
+    assert.strictEqual(enemy.enemyAI.state, "idle");
+    assert.strictEqual(enemy.enemyAI.targetId, null);
+  });
+
+  it("uses timed transitions and falls through behaviors in priority order", () => {
+    const enemy = makeEnemy(getEnemyDefinition("bull"), 0, 0);
+    const player = makeTarget(9, 0);
+
+    step(enemy, [player], 1);
+    assert.strictEqual(enemy.enemyAI.state, "aggro");
+    step(enemy, [player], 61);
+    assert.strictEqual(enemy.enemyAI.state, "enraged");
+
+    step(enemy, [player], 1);
+    assert.ok(lengthXZ(enemy.velocity.vel) > 10, "charges when the charge is ready");
+    step(enemy, [player], 14);
+    assert.ok(lengthXZ(enemy.velocity.vel) <= 2 + 1e-9, "falls back to keepDistance on cooldown");
+  });
+
+  it("is deterministic for a given seed", () => {
+    const run = () => {
+      const enemy = makeEnemy(getEnemyDefinition("snake"), 0, 0);
+      step(enemy, [], 100, createRandom(42));
+      return { ...enemy.transform.pos };
+    };
+    assert.deepStrictEqual(run(), run());
+  });
+
+  it("rejects unknown enemy ids", () => {
+    assert.throws(() => getEnemyDefinition("dragon"), /Unknown enemy definition/);
+  });
+});
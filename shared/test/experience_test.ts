@@ -0,0 +1,58 @@
+import assert from "assert";
+import {
+  MAX_LEVEL,
+  MAX_LEVEL_FAME_BONUS,
+  XP_PER_FAME,
+  DamageTracker,
+  xpToNextLevel,
+  xpForLevel,
+  levelForXp,
+  shareKillXp,
+  fameForDeath,
+} from "../src";
+
+describe("experience", () => {
+  it("needs more experience for every level, up to the cap", () => {
+    assert.strictEqual(xpForLevel(1), 0);
+    assert.strictEqual(xpForLevel(2), xpToNextLevel(1));
+    assert.ok(xpToNextLevel(5) > xpToNextLevel(4));
+    assert.strictEqual(levelForXp(0), 1);
+    assert.strictEqual(levelForXp(xpForLevel(2) - 1), 1);
+    assert.strictEqual(levelForXp(xpForLevel(2)), 2);
+    assert.strictEqual(levelForXp(xpForLevel(7) + 1), 7);
+    assert.strictEqual(levelForXp(xpForLevel(MAX_LEVEL) * 10), MAX_LEVEL);
+  });
+
+  it("gives a solo killer all of the kill's experience", () => {
+    const shares = shareKillXp(20, new Map([["a", 50]]), ["a"]);
+    assert.deepStrictEqual(Array.from(shares), [["a", 20]]);
+  });
+
+  it("shares kills by damage dealt, with a base share for everyone nearby", () => {
+    const shares = shareKillXp(20, new Map([["a", 30], ["b", 10]]), ["b", "c"]);
+    // Half of the experience each, plus the other half by damage share
+    assert.strictEqual(shares.get("a"), 10 + 7.5 + 0.5);
+    assert.strictEqual(shares.get("b"), 10 + 2.5 + 0.5);
+    assert.strictEqual(shares.get("c"), 10);
+    assert.strictEqual(shares.size, 3);
+    assert.strictEqual(shareKillXp(20, new Map(), []).size, 0);
+  });
+
+  it("tracks damage per attacker, ignoring hits that did nothing", () => {
+    const tracker = new DamageTracker();
+    tracker.record("a", 30);
+    tracker.record("b", 10);
+    tracker.record("a", 20);
+    tracker.record("c", 0);
+    assert.strictEqual(tracker.total, 60);
+    assert.deepStrictEqual(Array.from(tracker.byAttacker), [["a", 50], ["b", 10]]);
+    assert.strictEqual(tracker.fraction("b"), 1 / 6);
+    assert.strictEqual(tracker.fraction("c"), 0);
+  });
+
+  it("turns experience into fame on death, with a bonus at the level cap", () => {
+    assert.strictEqual(fameForDeath(0, 1), 0);
+    assert.strictEqual(fameForDeath(XP_PER_FAME * 3 + 1, 5), 3);
+    assert.strictEqual(fameForDeath(XP_PER_FAME, MAX_LEVEL), 1 + MAX_LEVEL_FAME_BONUS);
+  });
+});
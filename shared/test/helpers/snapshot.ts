@@ -0,0 +1,20 @@
+import assert from "assert";
+import fs from "fs";
+import path from "path";
+
+const SNAPSHOT_DIR = path.join(__dirname, "..", "__snapshots__");
+
+/**
+ * Compares `actual` with the stored snapshot `name`. Missing snapshots are written
+ * (except under CI); run with UPDATE_SNAPSHOTS=1 to accept intended changes.
+ */
+export function matchSnapshot(name: string, actual: string) {
+  const file = path.join(SNAPSHOT_DIR, `${name}.txt`);
+  if (process.env.UPDATE_SNAPSHOTS || (!fs.existsSync(file) && !process.env.CI)) {
+    fs.mkdirSync(SNAPSHOT_DIR, { recursive: true });
+    fs.writeFileSync(file, actual);
+    return;
+  }
+  assert.ok(fs.existsSync(file), `Snapshot "${name}" is missing; run the tests with UPDATE_SNAPSHOTS=1 to create it`);
+  assert.strictEqual(actual, fs.readFileSync(file, "utf8"), `Snapshot "${name}" changed; run with UPDATE_SNAPSHOTS=1 if that is intended`);
+}
@@ -0,0 +1,69 @@
+import assert from "assert";
+import { SnapshotBuffer, ServerClock, vec3 } from "../src";
+
+describe("SnapshotBuffer", () => {
+  it("interpolates between the snapshots around the render time", () => {
+    const buffer = new SnapshotBuffer();
+    buffer.push(0, vec3(0, 0, 0));
+    buffer.push(100, vec3(10, 0, 0));
+    const out = vec3();
+
+    assert.strictEqual(buffer.sample(25, 250, out), "interpolated");
+    assert.deepStrictEqual(out, { x: 2.5, y: 0, z: 0 });
+  });
+
+  it("drops snapshots that are no longer needed", () => {
+    const buffer = new SnapshotBuffer();
+    for (let t = 0; t <= 300; t += 50) buffer.push(t, vec3(t, 0, 0));
+    buffer.sample(160, 250, vec3());
+    assert.strictEqual(buffer.depth, 4); // 150, 200, 250, 300
+  });
+
+  it("ignores duplicate and out-of-order snapshots", () => {
+    const buffer = new SnapshotBuffer();
+    assert.strictEqual(buffer.push(100, vec3()), true);
+    assert.strictEqual(buffer.push(100, vec3(1, 0, 0)), false);
+    assert.strictEqual(buffer.push(50, vec3(1, 0, 0)), false);
+    assert.strictEqual(buffer.depth, 1);
+  });
+
+  it("holds before the oldest snapshot and with a single snapshot", () => {
+    const buffer = new SnapshotBuffer();
+    buffer.push(100, vec3(1, 2, 3));
+    const out = vec3();
+    assert.strictEqual(buffer.sample(50, 250, out), "held");
+    assert.strictEqual(buffer.sample(500, 250, out), "held");
+    assert.deepStrictEqual(out, { x: 1, y: 2, z: 3 });
+    assert.strictEqual(new SnapshotBuffer().sample(0, 250, out), "empty");
+  });
+
+  it("extrapolates late packets along the last velocity, up to the cap", () => {
+    const buffer = new SnapshotBuffer();
+    buffer.push(0, vec3(0, 0, 0));
+    buffer.push(100, vec3(10, 0, 0)); // 0.1 units per ms
+    const out = vec3();
+
+    assert.strictEqual(buffer.sample(150, 250, out), "extrapolated");
+    assert.strictEqual(out.x, 15);
+
+    buffer.sample(1000, 250, out);
+    assert.strictEqual(out.x, 35); // capped at 250ms past the newest snapshot
+
+    assert.strictEqual(buffer.sample(1000, 0, out), "held");
+    assert.strictEqual(out.x, 10);
+  });
+});
+
+describe("ServerClock", () => {
+  it("smooths small offset changes and snaps on large ones", () => {
+    const clock = new ServerClock(0.5, 500);
+    clock.observe(1000, 100);
+    assert.strictEqual(clock.now(200), 1100);
+
+    clock.observe(1100, 180); // arrived 20ms "early": half of it is blended in
+    assert.strictEqual(clock.now(200), 1110);
+
+    clock.observe(5000, 200); // server restarted or long stall
+    assert.strictEqual(clock.now(200), 5000);
+  });
+});
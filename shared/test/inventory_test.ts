@@ -0,0 +1,130 @@
+import assert from "assert";
+import {
+  EQUIPMENT_SLOTS,
+  INVENTORY_SIZE,
+  emptyInventory,
+  equipmentIndex,
+  canHold,
+  moveItem,
+  freeBackpackSlot,
+  equippedWeapon,
+  equipmentStats,
+  getClassDefinition,
+  VAULT_SIZE,
+  emptyVault,
+  moveVaultItem,
+  isValidOffer,
+  tradeOffers,
+} from "../src";
+
+const BACKPACK = EQUIPMENT_SLOTS.length;
+
+describe("inventory", () => {
+  it("lets equipment slots hold only their kind of item", () => {
+    assert.ok(canHold(equipmentIndex("weapon"), "tripleBow"));
+    assert.ok(!canHold(equipmentIndex("weapon"), "leatherArmor"));
+    assert.ok(canHold(equipmentIndex("ring"), "ringOfAttack"));
+    assert.ok(!canHold(equipmentIndex("ring"), "healthPotion"));
+    assert.ok(canHold(BACKPACK, "healthPotion"));
+    assert.ok(canHold(equipmentIndex("armor"), null));
+    assert.ok(!canHold(INVENTORY_SIZE, null));
+    assert.ok(!canHold(-1, null));
+    assert.ok(!canHold(1.5, null));
+  });
+
+  it("moves and swaps items when both end up in slots that can hold them", () => {
+    const inventory = emptyInventory();
+    inventory[equipmentIndex("weapon")] = "starterWand";
+    inventory[BACKPACK] = "tripleBow";
+    inventory[BACKPACK + 1] = "leatherArmor";
+
+    assert.ok(moveItem(inventory, BACKPACK, equipmentIndex("weapon")));
+    assert.strictEqual(inventory[equipmentIndex("weapon")], "tripleBow");
+    assert.strictEqual(inventory[BACKPACK], "starterWand");
+
+    // Armor is no weapon, and the bow cannot go into the armor slot
+    assert.ok(!moveItem(inventory, BACKPACK + 1, equipmentIndex("weapon")));
+    assert.ok(!moveItem(inventory, equipmentIndex("weapon"), equipmentIndex("armor")));
+    assert.ok(!moveItem(inventory, BACKPACK + 5, BACKPACK), "nothing to move");
+    assert.ok(!moveItem(inventory, BACKPACK, BACKPACK));
+    assert.ok(!moveItem(inventory, BACKPACK, INVENTORY_SIZE));
+
+    assert.ok(moveItem(inventory, BACKPACK + 1, equipmentIndex("armor")));
+    assert.strictEqual(inventory[BACKPACK + 1], null);
+    assert.strictEqual(freeBackpackSlot(inventory), BACKPACK + 1);
+  });
+
+  it("reports a full backpack", () => {
+    const inventory = emptyInventory().map(() => "healthPotion");
+    assert.strictEqual(freeBackpackSlot(inventory), -1);
+    // Synced inventories mark empty slots with ""
+    inventory[BACKPACK + 2] = "";
+    assert.strictEqual(freeBackpackSlot(inventory), BACKPACK + 2);
+  });
+
+  it("adds equipment bonuses to the base stats and fires the equipped weapon", () => {
+    const base = getClassDefinition("wizard").base;
+    const inventory = emptyInventory();
+    assert.strictEqual(equippedWeapon(inventory), undefined);
+    assert.deepStrictEqual(equipmentStats(base, inventory), base);
+
+    inventory[equipmentIndex("weapon")] = "waveStaff";
+    inventory[equipmentIndex("armor")] = "chainmail";
+    inventory[equipmentIndex("ring")] = "ringOfAttack";
+    // Unequipped items do nothing
+    inventory[BACKPACK] = "ringOfVitality";
+    const stats = equipmentStats(base, inventory);
+    assert.strictEqual(equippedWeapon(inventory), "waveStaff");
+    assert.deepStrictEqual(stats, { ...base, defense: base.defense + 8, hp: base.hp + 20, attack: base.attack + 4 });
+  });
+
+  it("moves items between the inventory and the vault, keeping equipment slots to their kind", () => {
+    const inventory = emptyInventory();
+    const vault = emptyVault();
+    inventory[equipmentIndex("weapon")] = "starterWand";
+    vault[3] = "tripleBow";
+    vault[4] = "leatherArmor";
+
+    assert.ok(moveVaultItem(inventory, vault, { area: "vault", index: 3 }, { area: "inventory", index: equipmentIndex("weapon") }));
+    assert.strictEqual(inventory[equipmentIndex("weapon")], "tripleBow");
+    assert.strictEqual(vault[3], "starterWand");
+
+    assert.ok(!moveVaultItem(inventory, vault, { area: "vault", index: 4 }, { area: "inventory", index: equipmentIndex("weapon") }), "armor is no weapon");
+    assert.ok(!moveVaultItem(inventory, vault, { area: "vault", index: 0 }, { area: "inventory", index: BACKPACK }), "nothing to move");
+    assert.ok(!moveVaultItem(inventory, vault, { area: "vault", index: 4 }, { area: "vault", index: VAULT_SIZE }));
+    assert.ok(!moveVaultItem(inventory, vault, { area: "vault", index: 4 }, { area: "vault", index: 4 }));
+    assert.ok(!moveVaultItem(inventory, vault, { area: "bank" as "vault", index: 0 }, { area: "vault", index: 0 }));
+
+    assert.ok(moveVaultItem(inventory, vault, { area: "inventory", index: equipmentIndex("weapon") }, { area: "vault", index: 10 }));
+    assert.strictEqual(inventory[equipmentIndex("weapon")], null);
+    assert.ok(moveVaultItem(inventory, vault, { area: "vault", index: 4 }, { area: "vault", index: 0 }));
+    assert.deepStrictEqual([vault[0], vault[3], vault[4], vault[10]], ["leatherArmor", "starterWand", null, "tripleBow"]);
+  });
+
+  it("swaps trade offers into free backpack slots, or not at all without room", () => {
+    const a = emptyInventory();
+    const b = emptyInventory();
+    a[equipmentIndex("weapon")] = "starterWand";
+    a[BACKPACK] = "tripleBow";
+    a[BACKPACK + 2] = "leatherArmor";
+    b[BACKPACK + 1] = "ringOfAttack";
+
+    assert.ok(isValidOffer(a, [BACKPACK + 2, BACKPACK]));
+    assert.ok(isValidOffer(a, []));
+    assert.ok(!isValidOffer(a, [equipmentIndex("weapon")]), "equipped items stay out of trades");
+    assert.ok(!isValidOffer(a, [BACKPACK + 1]), "empty slot");
+    assert.ok(!isValidOffer(a, [BACKPACK, BACKPACK]));
+
+    const [nextA, nextB] = tradeOffers(a, [BACKPACK, BACKPACK + 2], b, [BACKPACK + 1])!;
+    assert.deepStrictEqual(nextA.slice(BACKPACK, BACKPACK + 3), ["ringOfAttack", null, null]);
+    assert.deepStrictEqual(nextB.slice(BACKPACK, BACKPACK + 3), ["tripleBow", "leatherArmor", null]);
+    assert.strictEqual(nextA[equipmentIndex("weapon")], "starterWand");
+    assert.strictEqual(a[BACKPACK], "tripleBow", "inputs unchanged");
+
+    // A full backpack only takes as many items as it gives
+    const full = emptyInventory().fill("healthPotion", BACKPACK);
+    assert.ok(tradeOffers(a, [BACKPACK], full, [BACKPACK]));
+    assert.strictEqual(tradeOffers(a, [BACKPACK, BACKPACK + 2], full, [BACKPACK]), null);
+    assert.strictEqual(tradeOffers(a, [BACKPACK], full, [INVENTORY_SIZE]), null);
+  });
+});
@@ -0,0 +1,102 @@
+import assert from "assert";
+import {
+  type LootTableDef,
+  createRandom,
+  weightedIndex,
+  rollLoot,
+  bagFor,
+  getItemDefinition,
+  getLootTableDefinition,
+  ENEMY_DEFINITIONS,
+  LOOT_TABLE_DEFINITIONS,
+} from "../src";
+
+const ROLLS = 20000;
+
+/** How often each item dropped over ROLLS kills, as a fraction of kills. */
+function dropRates(table: LootTableDef, seed: number): Map<string, number> {
+  const random = createRandom(seed);
+  const counts = new Map<string, number>();
+  for (let i = 0; i < ROLLS; i++) {
+    const drop = rollLoot(table, random);
+    for (const item of [...drop.items, ...drop.soulbound]) counts.set(item, (counts.get(item) ?? 0) + 1);
+  }
+  return new Map(Array.from(counts, ([item, count]) => [item, count / ROLLS]));
+}
+
+/** Asserts `actual` is within 4 standard deviations of a binomial rate `p` over ROLLS trials. */
+function assertRate(actual: number | undefined, p: number, label: string) {
+  const tolerance = 4 * Math.sqrt((p * (1 - p)) / ROLLS);
+  assert.ok(Math.abs((actual ?? 0) - p) <= tolerance, `${label}: dropped ${actual}, expected ${p} ± ${tolerance.toFixed(4)}`);
+}
+
+describe("loot", () => {
+  it("picks weighted indices in proportion to their weights", () => {
+    const random = createRandom(7);
+    const counts = [0, 0, 0];
+    for (let i = 0; i < ROLLS; i++) counts[weightedIndex(random, [1, 0, 3])]++;
+    assert.strictEqual(counts[1], 0);
+    assertRate(counts[0] / ROLLS, 0.25, "weight 1 of 4");
+    assert.strictEqual(weightedIndex(random, [0, 0]), -1);
+    assert.strictEqual(weightedIndex(() => 0.9999999999, [1, 1, 0]), 1);
+  });
+
+  it("drops items at the rates the table's chance and tier weights give", () => {
+    const pirate = getLootTableDefinition("pirate");
+    const rates = dropRates(pirate, 1);
+    // 30% chance, then tier weights 8:2, then 1 of the tier's items
+    assertRate(rates.get("healthPotion"), 0.3 * 0.8, "healthPotion");
+    assertRate(rates.get("leatherArmor"), 0.3 * 0.2 / 2, "leatherArmor");
+    assertRate(rates.get("ringOfVitality"), 0.3 * 0.2 / 2, "ringOfVitality");
+  });
+
+  it("always drops guaranteed items, and puts soulbound tiers in their own list", () => {
+    const table: LootTableDef = {
+      id: "test",
+      chance: 1,
+      rolls: 3,
+      guaranteed: ["healthPotion"],
+      tiers: [
+        { weight: 1, items: ["leatherArmor"] },
+        { weight: 1, items: ["waveStaff"], soulbound: true },
+      ],
+    };
+    const random = createRandom(3);
+    for (let i = 0; i < 100; i++) {
+      const drop = rollLoot(table, random);
+      assert.strictEqual(drop.items[0], "healthPotion");
+      assert.strictEqual(drop.items.length + drop.soulbound.length, 4);
+      assert.ok(drop.items.slice(1).every((item) => item === "leatherArmor"));
+      assert.ok(drop.soulbound.every((item) => item === "waveStaff"));
+    }
+  });
+
+  it("reproduces drops from the same seed", () => {
+    const bull = getLootTableDefinition("bull");
+    const roll = (seed: number) => {
+      const random = createRandom(seed);
+      return Array.from({ length: 50 }, () => rollLoot(bull, random));
+    };
+    assert.deepStrictEqual(roll(42), roll(42));
+    assert.notDeepStrictEqual(roll(42), roll(43));
+  });
+
+  it("picks the bag kind from the best item and whether it is soulbound", () => {
+    assert.strictEqual(bagFor(["healthPotion"], false).id, "brown");
+    assert.strictEqual(bagFor(["healthPotion", "ringOfAttack"], false).id, "purple");
+    assert.strictEqual(bagFor(["ringOfAttack"], true).id, "cyan");
+    assert.strictEqual(bagFor(["chainmail", "healthPotion"], true).id, "white");
+  });
+
+  it("only refers to known items and loot tables", () => {
+    for (const table of Object.values(LOOT_TABLE_DEFINITIONS)) {
+      for (const item of [...(table.guaranteed ?? []), ...table.tiers.flatMap((tier) => tier.items)]) {
+        assert.doesNotThrow(() => getItemDefinition(item), `${table.id} drops unknown item ${item}`);
+      }
+    }
+    for (const enemy of Object.values(ENEMY_DEFINITIONS)) {
+      if (enemy.loot) assert.doesNotThrow(() => getLootTableDefinition(enemy.loot!), `${enemy.id} has unknown loot table`);
+    }
+    assert.throws(() => getItemDefinition("excalibur"), /Unknown item definition "excalibur"/);
+  });
+});
@@ -0,0 +1,103 @@
+import assert from "assert";
+import {
+  type MapLayout,
+  type MapPoint,
+  generateRealm,
+  generateDungeon,
+  getDungeonDefinition,
+  loadMapLayout,
+  formatMap,
+  DEFAULT_MAP_LEGEND,
+  DEFAULT_MAP,
+  REALM_MAP,
+} from "../src";
+import { matchSnapshot } from "./helpers/snapshot";
+
+/** Map rows followed by the spawn points, one per line. */
+function describeLayout(layout: MapLayout): string {
+  const lines = formatMap(layout.map, DEFAULT_MAP_LEGEND);
+  for (const spawn of layout.playerSpawns) lines.push(`player ${spawn.x} ${spawn.z}`);
+  for (const spawn of layout.enemySpawns) {
+    lines.push(`${spawn.boss ? "boss" : "enemy"} ${spawn.enemy} ${spawn.x} ${spawn.z} ${spawn.region ?? ""}`.trimEnd());
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Tiles reachable on foot from `start`, as "col,row" keys. */
+function reachableTiles(layout: MapLayout, start: MapPoint): Set<string> {
+  const { map } = layout;
+  const seen = new Set<string>();
+  const queue: [number, number][] = [[map.tileCol(start.x), map.tileRow(start.z)]];
+  while (queue.length > 0) {
+    const [col, row] = queue.pop()!;
+    const key = `${col},${row}`;
+    if (seen.has(key) || map.tileBlocksMovement(col, row)) continue;
+    seen.add(key);
+    queue.push([col + 1, row], [col - 1, row], [col, row + 1], [col, row - 1]);
+  }
+  return seen;
+}
+
+function tileKey(layout: MapLayout, point: MapPoint): string {
+  return `${layout.map.tileCol(point.x)},${layout.map.tileRow(point.z)}`;
+}
+
+describe("procedural map generation", () => {
+  it("generates the same realm for the same seed", () => {
+    matchSnapshot("realm_seed42_size64", describeLayout(generateRealm(42, { size: 64 })));
+    assert.strictEqual(describeLayout(generateRealm(42, { size: 64 })), describeLayout(generateRealm(42, { size: 64 })));
+    assert.notStrictEqual(describeLayout(generateRealm(43, { size: 64 })), describeLayout(generateRealm(42, { size: 64 })));
+  });
+
+  it("generates the same dungeon for the same seed", () => {
+    const pirateCave = getDungeonDefinition("pirateCave");
+    matchSnapshot("pirateCave_seed42", describeLayout(generateDungeon(pirateCave, 42)));
+    assert.notStrictEqual(describeLayout(generateDungeon(pirateCave, 7)), describeLayout(generateDungeon(pirateCave, 42)));
+  });
+
+  it("makes realm biomes harder toward the center", () => {
+    const realm = generateRealm(5);
+    const meanRadius = (region: string) => {
+      const spawns = realm.enemySpawns.filter((s) => s.region === region && !s.boss);
+      assert.ok(spawns.length > 0, `${region} has spawn regions`);
+      return spawns.reduce((sum, s) => sum + Math.hypot(s.x, s.z), 0) / spawns.length;
+    };
+    assert.ok(meanRadius("beach") > meanRadius("lowlands"));
+    assert.ok(meanRadius("lowlands") > meanRadius("midlands"));
+    assert.ok(meanRadius("midlands") > meanRadius("godlands"));
+    const [boss] = realm.enemySpawns.filter((s) => s.boss);
+    assert.ok(Math.hypot(boss.x, boss.z) < 1, "the realm boss is in the middle");
+  });
+
+  it("puts realm players on the beach, clear of enemies", () => {
+    const realm = generateRealm(5);
+    assert.strictEqual(realm.playerSpawns.length, 4);
+    for (const spawn of realm.playerSpawns) {
+      assert.strictEqual(realm.map.blocksMovement(spawn.x, spawn.z), false);
+      assert.strictEqual(realm.map.getGround(realm.map.tileCol(spawn.x), realm.map.tileRow(spawn.z))!.id, "sand");
+      for (const enemy of realm.enemySpawns) {
+        assert.ok(Math.hypot(enemy.x - spawn.x, enemy.z - spawn.z) >= 12);
+      }
+    }
+  });
+
+  it("connects every dungeon room to the entrance", () => {
+    for (const seed of [1, 2, 3, 4, 5]) {
+      const dungeon = generateDungeon(getDungeonDefinition("pirateCave"), seed);
+      const reachable = reachableTiles(dungeon, dungeon.playerSpawns[0]);
+      for (const spawn of [...dungeon.playerSpawns, ...dungeon.enemySpawns]) {
+        assert.ok(reachable.has(tileKey(dungeon, spawn)), `seed ${seed}: ${spawn.x}, ${spawn.z} is reachable`);
+      }
+      assert.strictEqual(dungeon.enemySpawns.filter((s) => s.boss).length, 1);
+    }
+  });
+
+  it("loads hand-made and generated maps by id", () => {
+    const arena = loadMapLayout(DEFAULT_MAP, 0);
+    assert.deepStrictEqual(arena.playerSpawns, [{ x: 0, z: 0 }]);
+    assert.deepStrictEqual(arena.enemySpawns, [{ enemy: "pirate", x: 5, z: 5 }]);
+    assert.strictEqual(loadMapLayout(REALM_MAP, 9).map.id, "realm");
+    assert.strictEqual(loadMapLayout("pirateCave", 9).map.id, "pirateCave");
+    assert.throws(() => loadMapLayout("nowhere", 0), /Unknown map definition/);
+  });
+});
@@ -0,0 +1,146 @@
+import assert from "assert";
+import {
+  type SimEntity,
+  type With,
+  type ProjectileDef,
+  vec3,
+  expandPattern,
+  getPatternDefinition,
+  getProjectileDefinition,
+  projectileLifetime,
+  projectileDistance,
+  projectilePosition,
+  createProjectile,
+  advanceProjectiles,
+  resolveBulletHits,
+  updateEnemyAI,
+  createEnemyAI,
+  getEnemyDefinition,
+  createRandom,
+} from "../src";
+
+const EPSILON = 1e-9;
+const DEG = Math.PI / 180;
+
+function straight(overrides: Partial<ProjectileDef> = {}): ProjectileDef {
+  return { id: "test", speed: 10, range: 20, size: 0.25, damage: 5, sprite: "", ...overrides };
+}
+
+function angles(patternId: string, aim: number, volley = 0) {
+  return expandPattern(getPatternDefinition(patternId), aim, volley).map((s) => s.angle);
+}
+
+describe("bullet patterns", () => {
+  it("spreads N-way shots evenly around the aim", () => {
+    const fan = angles("fan", 0);
+    assert.strictEqual(fan.length, 5);
+    fan.forEach((a, i) => assert.ok(Math.abs(a - (-30 + 15 * i) * DEG) < EPSILON));
+  });
+
+  it("spaces rings over the full circle without doubling up, ignoring the aim", () => {
+    const ring = angles("ring", 1.234);
+    assert.strictEqual(ring.length, 12);
+    ring.forEach((a, i) => assert.ok(Math.abs(a - i * 30 * DEG) < EPSILON));
+  });
+
+  it("turns spirals by `spin` per volley", () => {
+    const first = angles("spiral", 0, 0);
+    const third = angles("spiral", 0, 2);
+    first.forEach((a, i) => assert.ok(Math.abs(third[i] - a - 30 * DEG) < EPSILON));
+  });
+
+  it("delays later bursts", () => {
+    const spawns = expandPattern(getPatternDefinition("aimedBurst"), 0.5);
+    assert.deepStrictEqual(spawns.map((s) => s.delay), [0, 0.15, 0.3]);
+    assert.ok(spawns.every((s) => s.angle === 0.5));
+  });
+});
+
+describe("projectile paths", () => {
+  it("flies straight for range / speed seconds", () => {
+    const def = straight();
+    assert.strictEqual(projectileLifetime(def), 2);
+    const pos = projectilePosition(def, vec3(1, 2, 3), Math.PI / 2, 1, vec3());
+    assert.ok(Math.abs(pos.x - 1) < EPSILON && Math.abs(pos.z - 13) < EPSILON && pos.y === 2);
+  });
+
+  it("weaves sideways on wavy paths without changing forward progress", () => {
+    const def = getProjectileDefinition("wave");
+    const quarter = 1 / (4 * 2); // quarter of a 2 Hz wave
+    const pos = projectilePosition(def, vec3(), 0, quarter, vec3());
+    assert.ok(Math.abs(pos.x - def.speed * quarter) < EPSILON);
+    assert.ok(Math.abs(pos.z - 0.75) < EPSILON);
+  });
+
+  it("accelerates to its target speed and still dies at its range", () => {
+    const def = getProjectileDefinition("dart");
+    const lifetime = projectileLifetime(def);
+    assert.ok(Math.abs(projectileDistance(def, lifetime) - def.range) < 1e-6);
+    const late = projectileDistance(def, 1.1) - projectileDistance(def, 1.0);
+    assert.ok(Math.abs(late - 1.5) < 1e-6, "holds 15 units/s after ramping up");
+
+    const stopping = straight({ path: { type: "accelerate", acceleration: 10, targetSpeed: 0 } });
+    assert.strictEqual(projectileLifetime(stopping), 1, "dies when it stops short of its range");
+  });
+
+  it("brings boomerangs back to where they were fired", () => {
+    const def = getProjectileDefinition("boomerang");
+    const lifetime = projectileLifetime(def);
+    assert.ok(Math.abs(projectileDistance(def, lifetime / 2) - def.range / 2) < EPSILON);
+    assert.ok(Math.abs(projectileDistance(def, lifetime)) < EPSILON);
+  });
+
+  it("steps projectiles exactly onto their closed-form path", () => {
+    const def = getProjectileDefinition("wave");
+    const bullet = createProjectile(def, "shooter", "player", vec3(), 0.3);
+    for (let i = 0; i < 17; i++) advanceProjectiles([bullet], 1 / 60);
+    const expected = projectilePosition(def, bullet.bullet.motion!.origin, 0.3, 17 / 60, vec3());
+    assert.ok(Math.abs(bullet.transform.pos.x - expected.x) < EPSILON);
+    assert.ok(Math.abs(bullet.transform.pos.z - expected.z) < EPSILON);
+  });
+
+  it("lets piercing projectiles hit each target once and stops them on walls", () => {
+    const bullet = { id: "b", ...createProjectile(straight({ piercing: true }), "shooter", "player", vec3(-0.5, 0, 0), 0) };
+    const target = (id: string, x: number, health = true): With<SimEntity, "transform" | "collidable"> => ({
+      id,
+      transform: { pos: vec3(x, 0, 0) },
+      collidable: { halfExtents: vec3(0.5, 0.5, 0.5) },
+      ...(health ? { health: { hp: 100, maxHp: 100 } } : {}),
+    });
+    const a = target("a", 0);
+    const b = target("b2", 0.2);
+    const hits: [string, boolean][] = [];
+    const record = (_: unknown, t: SimEntity, _k: boolean, consumed: boolean) => hits.push([String(t.id), consumed]);
+
+    resolveBulletHits([bullet], [a, b], record);
+    resolveBulletHits([bullet], [a, b], record);
+    assert.deepStrictEqual(hits, [["a", false], ["b2", false]]);
+    assert.strictEqual(a.health!.hp, 95);
+
+    resolveBulletHits([bullet], [a, b, target("wall", 0, false)], record);
+    assert.deepStrictEqual(hits[2], ["wall", true]);
+  });
+});
+
+describe("enemy attacks", () => {
+  it("fire their state's pattern at the target on cooldown", () => {
+    const definition = getEnemyDefinition("pirate");
+    const enemy = {
+      id: "pirate",
+      transform: { pos: vec3() },
+      velocity: { vel: vec3() },
+      enemyAI: createEnemyAI(definition, vec3()),
+    };
+    const player = { id: "player", transform: { pos: vec3(0, 0, 5) } };
+    const fired: { pattern: string; angle: number; volley: number }[] = [];
+
+    // 2.25s: fires after the 0.5s initial delay, then every 1.5s
+    for (let i = 0; i < 45; i++) {
+      updateEnemyAI([enemy], [player], 0.05, createRandom(1), (_e, pattern, angle, volley) => {
+        fired.push({ pattern: pattern.id, angle, volley });
+      });
+    }
+    assert.deepStrictEqual(fired.map((f) => [f.pattern, f.volley]), [["fan", 0], ["fan", 1]]);
+    assert.ok(Math.abs(fired[0].angle - Math.PI / 2) < EPSILON, "aims at the player");
+  });
+});
@@ -0,0 +1,79 @@
+import assert from "assert";
+import { EntityPool } from "../src";
+
+type Item = { n: number };
+
+function makePool(budgets = { player: 100, enemy: 100 }) {
+  let created = 0;
+  const destroyed: Item[] = [];
+  const pool = new EntityPool<Item, "player" | "enemy">({
+    budgets,
+    chunkSize: 4,
+    shrinkAfter: 1,
+    create: () => ({ n: created++ }),
+    destroy: (item) => destroyed.push(item),
+  });
+  return { pool, destroyed, created: () => created };
+}
+
+describe("entity pool", () => {
+  it("starts with one chunk and grows a chunk at a time", () => {
+    const { pool, created } = makePool();
+    assert.strictEqual(created(), 4);
+    const items = Array.from({ length: 5 }, () => pool.acquire("player")!);
+    assert.strictEqual(created(), 8);
+    assert.strictEqual(new Set(items).size, 5);
+    assert.deepStrictEqual(
+      { active: pool.counters().active, free: pool.counters().free, capacity: pool.counters().capacity },
+      { active: 5, free: 3, capacity: 8 }
+    );
+  });
+
+  it("reuses released items", () => {
+    const { pool, created } = makePool();
+    const item = pool.acquire("enemy")!;
+    assert.strictEqual(pool.release(item), true);
+    assert.strictEqual(pool.release(item), false, "double release is ignored");
+    assert.strictEqual(pool.acquire("player"), item);
+    assert.strictEqual(created(), 4);
+  });
+
+  it("keeps per-owner budgets so one kind cannot starve another", () => {
+    const { pool } = makePool({ player: 2, enemy: 3 });
+    for (let i = 0; i < 3; i++) assert.ok(pool.acquire("enemy"));
+    assert.strictEqual(pool.acquire("enemy"), undefined);
+    assert.ok(pool.acquire("player"));
+    assert.ok(pool.acquire("player"));
+    assert.strictEqual(pool.acquire("player"), undefined);
+
+    const { byKind } = pool.counters();
+    assert.deepStrictEqual(byKind.enemy, { active: 3, highWater: 3, budget: 3, rejected: 1 });
+    assert.deepStrictEqual(byKind.player, { active: 2, highWater: 2, budget: 2, rejected: 1 });
+  });
+
+  it("tracks the high-water mark", () => {
+    const { pool } = makePool();
+    const items = Array.from({ length: 6 }, () => pool.acquire("enemy")!);
+    items.forEach((item) => pool.release(item));
+    pool.acquire("enemy");
+    assert.strictEqual(pool.counters().highWater, 6);
+    assert.strictEqual(pool.counters().byKind.enemy.highWater, 6);
+  });
+
+  it("shrinks a chunk at a time after being idle, keeping one chunk of slack", () => {
+    const { pool, destroyed } = makePool();
+    const items = Array.from({ length: 12 }, () => pool.acquire("enemy")!);
+    items.forEach((item) => pool.release(item));
+    assert.strictEqual(pool.counters().capacity, 12);
+
+    pool.update(0.5);
+    assert.strictEqual(destroyed.length, 0, "not idle long enough yet");
+    pool.update(0.5);
+    assert.strictEqual(pool.counters().capacity, 8);
+    pool.update(1);
+    assert.strictEqual(pool.counters().capacity, 4);
+    pool.update(10);
+    assert.strictEqual(pool.counters().capacity, 4);
+    assert.strictEqual(destroyed.length, 8);
+  });
+});
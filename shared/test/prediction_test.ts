@@ -0,0 +1,75 @@
+import assert from "assert";
+import {
+  InputPredictor,
+  applyInputCommand,
+  moveDirectionFromInput,
+  parseInputCommand,
+  yawFromCameraOffset,
+  MAX_INPUT_DT,
+  vec3,
+  type MoveKeys,
+} from "../src";
+
+const NONE: MoveKeys = { w: false, a: false, s: false, d: false };
+const EPSILON = 1e-9;
+
+function assertClose(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < EPSILON, `${actual} != ${expected}`);
+}
+
+describe("input commands", () => {
+  it("derives the yaw of the default isometric camera", () => {
+    assertClose(yawFromCameraOffset(vec3(-15, 20, -15)), Math.PI / 4);
+  });
+
+  it("moves camera-relative: forward and right follow the yaw", () => {
+    const dir = vec3();
+    moveDirectionFromInput({ ...NONE, w: true }, Math.PI / 2, dir);
+    assertClose(dir.x, 1);
+    assertClose(dir.z, 0);
+    moveDirectionFromInput({ ...NONE, d: true }, Math.PI / 2, dir);
+    assertClose(dir.x, 0);
+    assertClose(dir.z, -1);
+    assert.strictEqual(moveDirectionFromInput({ ...NONE, w: true, s: true }, 0, dir), false);
+  });
+
+  it("normalizes diagonal movement", () => {
+    const pos = vec3();
+    applyInputCommand(pos, { seq: 1, keys: { ...NONE, w: true, d: true }, yaw: 0, dt: 0.1 }, 5);
+    assertClose(Math.hypot(pos.x, pos.z), 0.5);
+  });
+
+  it("rejects malformed messages and clamps dt", () => {
+    assert.strictEqual(parseInputCommand(null), null);
+    assert.strictEqual(parseInputCommand({ seq: 0, keys: NONE, yaw: 0, dt: 0.01 }), null);
+    assert.strictEqual(parseInputCommand({ seq: 1, keys: NONE, yaw: NaN, dt: 0.01 }), null);
+    assert.strictEqual(parseInputCommand({ seq: 1, keys: NONE, yaw: 0, dt: 5 })!.dt, MAX_INPUT_DT);
+    assert.deepStrictEqual(parseInputCommand({ seq: 2, keys: { w: 1, d: true }, yaw: 0, dt: 0.01 })!.keys, { ...NONE, d: true });
+  });
+});
+
+describe("InputPredictor", () => {
+  it("rewinds to the acknowledged snapshot and replays pending inputs", () => {
+    const predictor = new InputPredictor(10);
+    const pos = vec3();
+    for (let i = 0; i < 3; i++) predictor.predict(pos, { ...NONE, w: true }, 0, 0.1);
+    assertClose(pos.z, 3);
+
+    // Server processed seq 1 but pushed the player sideways (e.g. a wall)
+    predictor.reconcile(pos, vec3(0.5, 0, 1), 1);
+    assert.strictEqual(predictor.pendingCount, 2);
+    assertClose(pos.x, 0.5);
+    assertClose(pos.z, 3);
+  });
+
+  it("ignores snapshots older than one already applied", () => {
+    const predictor = new InputPredictor(10);
+    const pos = vec3();
+    for (let i = 0; i < 3; i++) predictor.predict(pos, { ...NONE, w: true }, 0, 0.1);
+
+    assert.strictEqual(predictor.reconcile(pos, vec3(0, 0, 2), 2), true);
+    assert.strictEqual(predictor.reconcile(pos, vec3(0, 0, 1), 1), false);
+    assertClose(pos.z, 3);
+    assert.strictEqual(predictor.acknowledged, 2);
+  });
+});
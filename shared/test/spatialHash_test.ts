@@ -0,0 +1,93 @@
+import assert from "assert";
+import {
+  type SimEntity,
+  type With,
+  vec3,
+  SpatialHash,
+  circlesOverlapXZ,
+  circleBoxOverlapXZ,
+  collidersOverlap,
+  resolveBulletHits,
+} from "../src";
+
+describe("spatial hash", () => {
+  it("returns items from the cells a query touches, once each", () => {
+    const grid = new SpatialHash<string>(2);
+    grid.insert("big", -3, -3, 3, 3); // spans 9+ cells
+    grid.insert("near", 0.5, 0.5, 1, 1);
+    grid.insert("far", 10, 10, 11, 11);
+
+    assert.deepStrictEqual(grid.query(0, 0, 1, 1).sort(), ["big", "near"]);
+    assert.deepStrictEqual(grid.query(-2.5, -2.5, 2.5, 2.5).sort(), ["big", "near"]);
+    assert.deepStrictEqual(grid.query(10.5, 10.5, 10.5, 10.5), ["far"]);
+    assert.deepStrictEqual(grid.query(50, 50, 51, 51), []);
+  });
+
+  it("handles negative coordinates and cell borders", () => {
+    const grid = new SpatialHash<string>(1);
+    grid.insert("a", -1.5, -0.5, -1.2, -0.2);
+    assert.deepStrictEqual(grid.query(-1.9, -0.9, -1.1, -0.1), ["a"]);
+    assert.deepStrictEqual(grid.query(0, 0, 0.5, 0.5), []);
+  });
+
+  it("empties on clear and can be refilled", () => {
+    const grid = new SpatialHash<string>(2);
+    grid.insert("a", 0, 0, 1, 1);
+    grid.clear();
+    assert.deepStrictEqual(grid.query(0, 0, 1, 1), []);
+    grid.insert("b", 0, 0, 1, 1);
+    assert.deepStrictEqual(grid.query(0, 0, 1, 1), ["b"]);
+  });
+});
+
+describe("narrow phase", () => {
+  it("tests circles against circles and boxes on the XZ plane", () => {
+    assert.ok(circlesOverlapXZ(vec3(0, 0, 0), 1, vec3(1.5, 9, 0), 0.5));
+    assert.ok(!circlesOverlapXZ(vec3(0, 0, 0), 1, vec3(1.5, 0, 0.1), 0.5));
+
+    const half = vec3(1, 1, 1);
+    assert.ok(circleBoxOverlapXZ(vec3(1.4, 0, 0), 0.5, vec3(0, 0, 0), half), "edge");
+    assert.ok(!circleBoxOverlapXZ(vec3(1.4, 0, 1.4), 0.5, vec3(0, 0, 0), half), "corner is rounded");
+    assert.ok(circleBoxOverlapXZ(vec3(1.3, 0, 1.3), 0.5, vec3(0, 0, 0), half));
+  });
+
+  it("picks the test from the collider shapes", () => {
+    const circle = { halfExtents: vec3(0.5, 0.5, 0.5), radius: 0.5 };
+    const box = { halfExtents: vec3(0.5, 0.5, 0.5) };
+    // A circle ignores height; two boxes do not
+    assert.ok(collidersOverlap(vec3(0, 5, 0), circle, vec3(0.9, 0, 0), box));
+    assert.ok(collidersOverlap(vec3(0.9, 0, 0), box, vec3(0, 5, 0), circle));
+    assert.ok(!collidersOverlap(vec3(0, 5, 0), box, vec3(0.9, 0, 0), box));
+  });
+});
+
+describe("broad-phase bullet hits", () => {
+  it("matches a brute-force scan on a random scene", () => {
+    let seed = 7;
+    const rand = () => ((seed = (seed * 16807) % 2147483647) / 2147483647) * 40 - 20;
+    const targets = Array.from({ length: 60 }, (_, i): With<SimEntity, "transform" | "collidable" | "health"> => ({
+      id: `t${i}`,
+      transform: { pos: vec3(rand(), 0, rand()) },
+      collidable: { halfExtents: vec3(0.5, 0.5, 0.5) },
+      health: { hp: 1000, maxHp: 1000 },
+    }));
+    const bullets = Array.from({ length: 400 }, (_, i) => ({
+      id: `b${i}`,
+      transform: { pos: vec3(rand(), 0, rand()) },
+      collidable: { halfExtents: vec3(0.3, 0.3, 0.3), radius: 0.3 },
+      bullet: { damage: 1, lifespan: 1, firedBy: "nobody" },
+    }));
+
+    const expected = new Set<string>();
+    for (const b of bullets) {
+      if (targets.some((t) => collidersOverlap(b.transform.pos, b.collidable, t.transform.pos, t.collidable))) {
+        expected.add(b.id);
+      }
+    }
+    const hit = new Set<string>();
+    resolveBulletHits(bullets, targets, (b) => hit.add(b.id));
+
+    assert.ok(expected.size > 0, "scene should have some hits");
+    assert.deepStrictEqual([...hit].sort(), [...expected].sort());
+  });
+});
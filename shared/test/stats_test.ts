@@ -0,0 +1,103 @@
+import assert from "assert";
+import {
+  type SimEntity,
+  type With,
+  vec3,
+  STAT_NAMES,
+  CLASS_DEFINITIONS,
+  MAX_LEVEL,
+  getClassDefinition,
+  getProjectileDefinition,
+  statsAtLevel,
+  moveSpeed,
+  fireCooldown,
+  attackDamage,
+  mitigateDamage,
+  hpRegen,
+  mpRegen,
+  createProjectile,
+  resolveBulletHits,
+  collisionFilter,
+} from "../src";
+
+const EPSILON = 1e-9;
+
+describe("character stats", () => {
+  it("start classes at their base stats and grow them per level, up to the caps", () => {
+    const wizard = getClassDefinition("wizard");
+    assert.deepStrictEqual(statsAtLevel(wizard, 1), wizard.base);
+    const level2 = statsAtLevel(wizard, 2);
+    assert.strictEqual(level2.hp, wizard.base.hp + wizard.growth.hp);
+    // Fractional growth adds up over levels and is rounded down
+    assert.strictEqual(level2.wisdom, Math.floor(wizard.base.wisdom + 1.5));
+    assert.strictEqual(statsAtLevel(wizard, 3).wisdom, wizard.base.wisdom + 3);
+    assert.deepStrictEqual(statsAtLevel(wizard, MAX_LEVEL + 5), statsAtLevel(wizard, MAX_LEVEL));
+    assert.deepStrictEqual(statsAtLevel(wizard, 0), wizard.base);
+  });
+
+  it("defines every stat of every class, with base stats within the caps", () => {
+    for (const def of Object.values(CLASS_DEFINITIONS)) {
+      for (const stat of STAT_NAMES) {
+        for (const block of [def.base, def.growth, def.caps]) {
+          assert.ok(Number.isFinite(block[stat]), `${def.id} ${stat}`);
+        }
+        assert.ok(def.base[stat] <= def.caps[stat], `${def.id} ${stat} starts above its cap`);
+        assert.ok(statsAtLevel(def, MAX_LEVEL)[stat] <= def.caps[stat]);
+      }
+    }
+    assert.throws(() => getClassDefinition("bard"), /Unknown class definition "bard"/);
+  });
+
+  it("move faster with speed", () => {
+    assert.strictEqual(moveSpeed(0), 4);
+    assert.strictEqual(moveSpeed(15), 5);
+    assert.ok(Math.abs(moveSpeed(75) - 9) < EPSILON);
+  });
+
+  it("fire faster with dexterity", () => {
+    assert.strictEqual(fireCooldown(0.3, 0), 0.3);
+    assert.ok(Math.abs(fireCooldown(0.3, 75) - 0.15) < EPSILON);
+    assert.ok(fireCooldown(0.3, 40) < fireCooldown(0.3, 20));
+  });
+
+  it("scale damage with attack, rounding down", () => {
+    assert.strictEqual(attackDamage(10, 25), 10);
+    assert.strictEqual(attackDamage(10, 0), 5);
+    assert.strictEqual(attackDamage(10, 75), 20);
+    assert.strictEqual(attackDamage(15, 26), 15);
+  });
+
+  it("mitigate damage with defense, but never below the minimum share", () => {
+    assert.strictEqual(mitigateDamage(40, 0), 40);
+    assert.strictEqual(mitigateDamage(40, 10), 30);
+    // 15% of 40 is 6
+    assert.strictEqual(mitigateDamage(40, 100), 6);
+    assert.strictEqual(mitigateDamage(3, 10), 1);
+    assert.strictEqual(mitigateDamage(0, 10), 0);
+  });
+
+  it("regenerate HP with vitality and MP with wisdom", () => {
+    assert.strictEqual(hpRegen(0), 1);
+    assert.ok(Math.abs(hpRegen(25) - 7) < EPSILON);
+    assert.strictEqual(mpRegen(0), 0.5);
+    assert.ok(Math.abs(mpRegen(25) - 3.5) < EPSILON);
+  });
+
+  it("apply the shooter's attack and the target's defense to bullet hits", () => {
+    const bolt = getProjectileDefinition("bolt");
+    const shot = { id: "b", ...createProjectile(bolt, "p1", "player", vec3(-0.5, 0, 0), 0, 75) };
+    assert.strictEqual(shot.bullet.damage, bolt.damage * 2);
+    const unscaled = createProjectile(bolt, "e1", "enemy", vec3(), 0);
+    assert.strictEqual(unscaled.bullet.damage, bolt.damage);
+
+    const target: With<SimEntity, "transform" | "collidable" | "health"> = {
+      id: "t",
+      transform: { pos: vec3() },
+      collidable: { halfExtents: vec3(0.5, 0.5, 0.5), ...collisionFilter("enemy") },
+      health: { hp: 100, maxHp: 100 },
+      stats: { ...getClassDefinition("archer").base, defense: 5 },
+    };
+    resolveBulletHits([shot], [target], () => {});
+    assert.strictEqual(target.health.hp, 100 - (bolt.damage * 2 - 5));
+  });
+});
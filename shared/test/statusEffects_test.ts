@@ -0,0 +1,159 @@
+import assert from "assert";
+import {
+  type SimEntity,
+  type With,
+  type StatusEffectsData,
+  vec3,
+  applyStatusEffect,
+  activeStatusEffects,
+  tickStatusEffects,
+  statusSpeedFactor,
+  statusAllowsFiring,
+  statusDamage,
+  mitigateDamage,
+  createProjectile,
+  createRandom,
+  createEnemyAI,
+  getEnemyDefinition,
+  getProjectileDefinition,
+  resolveBulletHits,
+  collisionFilter,
+  updateEnemyAI,
+  SLOWED_SPEED_FACTOR,
+} from "../src";
+
+const EPSILON = 1e-9;
+
+type AfflictedEntity = With<SimEntity, "statusEffects" | "health">;
+
+function makeEntity(hp = 100): AfflictedEntity {
+  return { id: "e", health: { hp, maxHp: 100 }, statusEffects: { effects: [] } };
+}
+
+/** Ticks `entity` for `seconds` in fixed 50 ms steps, like the server. */
+function run(entity: AfflictedEntity, seconds: number) {
+  for (let i = 0; i < Math.round(seconds * 20); i++) tickStatusEffects([entity], 0.05);
+}
+
+describe("status effects", () => {
+  it("run out on the tick their duration ends", () => {
+    const entity = makeEntity();
+    applyStatusEffect(entity.statusEffects, { effect: "slowed", duration: 1 });
+    run(entity, 0.95);
+    assert.deepStrictEqual(activeStatusEffects(entity.statusEffects), ["slowed"]);
+    run(entity, 0.05);
+    assert.deepStrictEqual(activeStatusEffects(entity.statusEffects), []);
+    assert.strictEqual(entity.statusEffects.effects.length, 0);
+  });
+
+  it("stack, lasting until the last instance runs out", () => {
+    const entity = makeEntity();
+    applyStatusEffect(entity.statusEffects, { effect: "stunned", duration: 0.5 });
+    run(entity, 0.25);
+    applyStatusEffect(entity.statusEffects, { effect: "stunned", duration: 0.5 });
+    applyStatusEffect(entity.statusEffects, { effect: "armorBroken", duration: 2 });
+    run(entity, 0.25);
+    assert.strictEqual(entity.statusEffects.effects.length, 2, "the first stun ran out");
+    run(entity, 0.2);
+    assert.deepStrictEqual(activeStatusEffects(entity.statusEffects), ["stunned", "armorBroken"]);
+    run(entity, 0.05);
+    assert.deepStrictEqual(activeStatusEffects(entity.statusEffects), ["armorBroken"]);
+  });
+
+  it("list active effects once each, in a fixed order", () => {
+    const data: StatusEffectsData = { effects: [] };
+    assert.deepStrictEqual(activeStatusEffects(undefined), []);
+    applyStatusEffect(data, { effect: "healing", duration: 1 });
+    applyStatusEffect(data, { effect: "slowed", duration: 1 });
+    applyStatusEffect(data, { effect: "healing", duration: 2 });
+    assert.deepStrictEqual(activeStatusEffects(data), ["slowed", "healing"]);
+  });
+
+  it("heal and bleed over time, only while running", () => {
+    const entity = makeEntity(50);
+    applyStatusEffect(entity.statusEffects, { effect: "healing", duration: 1, hpPerSecond: 10 });
+    applyStatusEffect(entity.statusEffects, { effect: "healing", duration: 1, hpPerSecond: 10 });
+    run(entity, 3);
+    assert.ok(Math.abs(entity.health.hp - 70) < EPSILON, `healed to ${entity.health.hp}`);
+
+    // A timer that ends mid-step only counts the time it was running
+    applyStatusEffect(entity.statusEffects, { effect: "bleeding", duration: 0.5, hpPerSecond: 10 });
+    tickStatusEffects([entity], 2);
+    assert.ok(Math.abs(entity.health.hp - 65) < EPSILON);
+    assert.strictEqual(entity.statusEffects.effects.length, 0);
+  });
+
+  it("never bleed to death, nor heal the dead or past max HP", () => {
+    const entity = makeEntity(10);
+    applyStatusEffect(entity.statusEffects, { effect: "bleeding", duration: 5, hpPerSecond: 20 });
+    run(entity, 5);
+    assert.strictEqual(entity.health.hp, 1);
+
+    entity.health.hp = 0;
+    applyStatusEffect(entity.statusEffects, { effect: "healing", duration: 1, hpPerSecond: 20 });
+    run(entity, 1);
+    assert.strictEqual(entity.health.hp, 0);
+
+    entity.health.hp = 95;
+    applyStatusEffect(entity.statusEffects, { effect: "healing", duration: 1, hpPerSecond: 20 });
+    run(entity, 1);
+    assert.strictEqual(entity.health.hp, 100);
+  });
+
+  it("change movement, firing and damage taken", () => {
+    assert.strictEqual(statusSpeedFactor([]), 1);
+    assert.strictEqual(statusSpeedFactor(["slowed"]), SLOWED_SPEED_FACTOR);
+    assert.strictEqual(statusSpeedFactor(["slowed", "paralyzed"]), 0);
+    assert.ok(statusAllowsFiring(["slowed"]));
+    assert.ok(!statusAllowsFiring(["stunned"]));
+    assert.strictEqual(statusDamage(40, 10, []), mitigateDamage(40, 10));
+    assert.strictEqual(statusDamage(40, 10, ["armorBroken"]), 40);
+    assert.strictEqual(statusDamage(40, 10, ["armorBroken", "invulnerable"]), 0);
+  });
+
+  it("are inflicted by projectiles on the targets they hit", () => {
+    const dart = getProjectileDefinition("dart");
+    const shot = { id: "b", ...createProjectile(dart, "e1", "enemy", vec3(-0.5, 0, 0), 0) };
+    const target: With<SimEntity, "transform" | "collidable" | "health" | "statusEffects"> = {
+      id: "p1",
+      transform: { pos: vec3() },
+      collidable: { halfExtents: vec3(0.5, 0.5, 0.5), ...collisionFilter("player") },
+      health: { hp: 100, maxHp: 100 },
+      statusEffects: { effects: [{ effect: "invulnerable", timeLeft: 1 }] },
+    };
+    resolveBulletHits([shot], [target], () => {});
+    assert.strictEqual(target.health.hp, 100, "invulnerable");
+    assert.deepStrictEqual(activeStatusEffects(target.statusEffects), ["slowed", "invulnerable"]);
+  });
+
+  it("slow, root and stun enemies", () => {
+    const definition = getEnemyDefinition("pirate");
+    const pos = vec3();
+    const enemy = {
+      id: "enemy",
+      transform: { pos },
+      velocity: { vel: vec3() },
+      enemyAI: createEnemyAI(definition, pos),
+      statusEffects: { effects: [] } as StatusEffectsData,
+    };
+    const player = { id: "player", transform: { pos: vec3(6, 0, 0) } };
+    let attacks = 0;
+    const tick = () => updateEnemyAI([enemy], [player], 0.05, createRandom(1), () => attacks++);
+
+    tick();
+    const speed = enemy.velocity.vel.x;
+    assert.ok(speed > 0);
+    applyStatusEffect(enemy.statusEffects, { effect: "slowed", duration: 10 });
+    tick();
+    assert.ok(Math.abs(enemy.velocity.vel.x - speed * SLOWED_SPEED_FACTOR) < EPSILON);
+    applyStatusEffect(enemy.statusEffects, { effect: "paralyzed", duration: 10 });
+    applyStatusEffect(enemy.statusEffects, { effect: "stunned", duration: 10 });
+    for (let i = 0; i < 40; i++) tick();
+    assert.strictEqual(enemy.velocity.vel.x, 0);
+    assert.strictEqual(attacks, 0, "stunned enemies hold their fire");
+
+    enemy.statusEffects.effects = [];
+    for (let i = 0; i < 40; i++) tick();
+    assert.ok(attacks > 0);
+  });
+});
@@ -0,0 +1,64 @@
+import assert from "assert";
+import {
+  type SimEntity,
+  type With,
+  vec3,
+  integrateMovement,
+  tickBulletLifespans,
+  resolveBulletHits,
+  applyDamage,
+} from "../src";
+
+function makeBullet(id: string, x: number, firedBy = "shooter"): With<SimEntity, "transform" | "collidable" | "bullet"> {
+  return {
+    id,
+    transform: { pos: vec3(x, 0, 0) },
+    collidable: { halfExtents: vec3(0.25, 0.25, 0.25) },
+    bullet: { damage: 10, lifespan: 1, firedBy },
+  };
+}
+
+describe("shared simulation systems", () => {
+  it("integrates velocity into position", () => {
+    const entity = { transform: { pos: vec3(1, 0, 1) }, velocity: { vel: vec3(2, 0, -4) } };
+    integrateMovement([entity], 0.5);
+    assert.deepStrictEqual(entity.transform.pos, { x: 2, y: 0, z: -1 });
+  });
+
+  it("reports bullets whose lifespan ran out", () => {
+    const bullet = makeBullet("b", 0);
+    const expired: SimEntity[] = [];
+    tickBulletLifespans([bullet], 0.6, (e) => expired.push(e));
+    assert.strictEqual(expired.length, 0);
+    tickBulletLifespans([bullet], 0.6, (e) => expired.push(e));
+    assert.deepStrictEqual(expired, [bullet]);
+  });
+
+  it("clamps damage at zero and only reports the lethal hit", () => {
+    const health = { hp: 15, maxHp: 15 };
+    assert.strictEqual(applyDamage(health, 10), false);
+    assert.strictEqual(applyDamage(health, 10), true);
+    assert.strictEqual(health.hp, 0);
+    assert.strictEqual(applyDamage(health, 10), false);
+  });
+
+  it("hits the first overlapping target, skipping the shooter and other bullets", () => {
+    const shooter = { id: "shooter", transform: { pos: vec3() }, collidable: { halfExtents: vec3(0.5, 0.5, 0.5) }, health: { hp: 100, maxHp: 100 } };
+    const enemy = { id: "enemy", transform: { pos: vec3(5, 0, 0) }, collidable: { halfExtents: vec3(0.5, 0.5, 0.5) }, health: { hp: 10, maxHp: 10 } };
+    const overShooter = makeBullet("b1", 0);
+    const overEnemy = makeBullet("b2", 5);
+    const hits: [unknown, unknown, boolean][] = [];
+
+    resolveBulletHits([overShooter, overEnemy], [shooter, enemy, overShooter, overEnemy], (b, t, killed) => hits.push([b.id, t.id, killed]));
+
+    assert.deepStrictEqual(hits, [["b2", "enemy", true]]);
+    assert.strictEqual(shooter.health.hp, 100);
+  });
+
+  it("lets targets without health absorb bullets", () => {
+    const wall = { id: "wall", transform: { pos: vec3() }, collidable: { halfExtents: vec3(1, 1, 1) } };
+    const hits: unknown[] = [];
+    resolveBulletHits([makeBullet("b", 0.5)], [wall], (_b, t, killed) => hits.push([t.id, killed]));
+    assert.deepStrictEqual(hits, [["wall", false]]);
+  });
+});
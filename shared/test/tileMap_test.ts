@@ -0,0 +1,129 @@
+import assert from "assert";
+import {
+  type MapDefinition,
+  vec3,
+  parseMap,
+  moveAndSlide,
+  findWallImpacts,
+  integrateMovement,
+  applyInputCommand,
+  loadMap,
+  DEFAULT_MAP,
+  DEFAULT_MAP_LEGEND,
+  MOVEMENT_HALF_SIZE,
+} from "../src";
+
+// 6x5 room with a wall ring; the first line is the +Z edge
+const ROOM: MapDefinition = {
+  id: "room",
+  legend: DEFAULT_MAP_LEGEND,
+  rows: [
+    "######",
+    "#....#",
+    "#.~o.#",
+    "#....#",
+    "######",
+  ],
+};
+
+describe("tile maps", () => {
+  it("parses rows top-down, with the first line at +Z", () => {
+    const map = parseMap({ ...ROOM, origin: { x: -3, z: -2 } });
+    assert.strictEqual(map.width, 6);
+    assert.strictEqual(map.height, 5);
+    // Line 2 is row 2 counting from the -Z edge
+    assert.strictEqual(map.getGround(2, 2)!.id, "water");
+    assert.strictEqual(map.getObject(3, 2)!.id, "rock");
+    assert.strictEqual(map.getObject(0, 0)!.id, "wall");
+    assert.strictEqual(map.tileCol(-2.5), 0);
+    assert.strictEqual(map.tileRow(2.9), 4);
+  });
+
+  it("rejects unknown characters and ragged rows", () => {
+    assert.throws(() => parseMap({ ...ROOM, rows: ["#?#"] }), /not in its legend/);
+    assert.throws(() => parseMap({ ...ROOM, rows: ["###", "##"] }), /expected 3/);
+  });
+
+  it("tells walls, water and rocks apart", () => {
+    const map = parseMap(ROOM);
+    // Water and rocks stop walkers, but shots fly over them
+    assert.strictEqual(map.tileBlocksMovement(2, 2), true);
+    assert.strictEqual(map.tileBlocksProjectiles(2, 2), false);
+    assert.strictEqual(map.tileBlocksMovement(3, 2), true);
+    assert.strictEqual(map.tileBlocksProjectiles(3, 2), false);
+    assert.strictEqual(map.tileBlocksProjectiles(0, 2), true);
+    // Off the map blocks everything
+    assert.strictEqual(map.blocksMovement(-1, 2), true);
+    assert.strictEqual(map.blocksProjectiles(10, 2), true);
+  });
+
+  it("stops movement at walls", () => {
+    const map = parseMap(ROOM);
+    const pos = vec3(4.5, 0, 1.5);
+    moveAndSlide(map, pos, 0.45, 0);
+    assert.ok(pos.x < 5 - MOVEMENT_HALF_SIZE, "stopped before the wall");
+    assert.ok(pos.x > 5 - MOVEMENT_HALF_SIZE - 0.01, "stopped right at the wall");
+    assert.strictEqual(pos.z, 1.5);
+  });
+
+  it("slides along walls on diagonal moves", () => {
+    const map = parseMap(ROOM);
+    const pos = vec3(4.5, 0, 1.5);
+    moveAndSlide(map, pos, 0.3, 0.3);
+    assert.ok(pos.x < 5 - MOVEMENT_HALF_SIZE);
+    assert.ok(Math.abs(pos.z - 1.8) < 1e-9, "keeps the move along the wall");
+  });
+
+  it("does not tunnel through walls on long moves", () => {
+    const map = parseMap(ROOM);
+    const pos = vec3(1.5, 0, 1.5);
+    moveAndSlide(map, pos, 20, 0);
+    assert.ok(pos.x < 5 - MOVEMENT_HALF_SIZE);
+  });
+
+  it("slides players and enemies with the same rule", () => {
+    const map = parseMap(ROOM);
+    const player = vec3(4.5, 0, 1.5);
+    applyInputCommand(player, { seq: 1, keys: { w: false, a: false, s: false, d: true }, yaw: 0, dt: 0.1 }, 5, map);
+    const enemy = { transform: { pos: vec3(4.5, 0, 1.5) }, velocity: { vel: vec3(5, 0, 0) } };
+    integrateMovement([enemy], 0.1, map);
+    assert.deepStrictEqual(enemy.transform.pos, player);
+  });
+
+  it("reports projectiles that hit walls or leave the map", () => {
+    const map = parseMap(ROOM);
+    const bullet = (id: string, x: number, z: number) => ({
+      id,
+      transform: { pos: vec3(x, 0, z) },
+      velocity: { vel: vec3() },
+      bullet: { damage: 1, lifespan: 1, firedBy: "p" },
+    });
+    const hits: string[] = [];
+    findWallImpacts(
+      [bullet("open", 1.5, 1.5), bullet("overWater", 2.5, 2.5), bullet("wall", 5.2, 2.5), bullet("gone", -3, 2)],
+      map,
+      0.05,
+      (b) => hits.push(b.id)
+    );
+    assert.deepStrictEqual(hits, ["wall", "gone"]);
+  });
+
+  it("catches fast projectiles that skipped over a wall within one step", () => {
+    const map = parseMap({ ...ROOM, rows: ["......", "..#...", "......"] });
+    const shot = {
+      transform: { pos: vec3(3.6, 0, 1.5) },
+      velocity: { vel: vec3(30, 0, 0) },
+      bullet: { damage: 1, lifespan: 1, firedBy: "p" },
+    };
+    let hit = false;
+    // Came from x 2.1 this step, passing through the wall tile at x 2..3
+    findWallImpacts([shot], map, 0.05, () => { hit = true; });
+    assert.strictEqual(hit, true);
+  });
+
+  it("loads the default map with a walkable spawn", () => {
+    const map = loadMap(DEFAULT_MAP);
+    assert.strictEqual(map.blocksMovement(0, 0), false);
+    assert.strictEqual(map.blocksMovement(5, 5), false);
+  });
+});